@@ -0,0 +1,112 @@
+// Local mock for the LLM provider layer.
+// Answers the OpenAI chat completions, Anthropic Messages and Gemini generateContent
+// endpoints (streaming and non-streaming) with a canned prompt so the app can be
+// exercised without an API key.
+//
+//   npm run mock:llm
+//   VITE_LLM_PROVIDER=openai VITE_LLM_BASE_URL=http://localhost:8787/v1 npm run dev
+//   VITE_LLM_PROVIDER=anthropic VITE_LLM_BASE_URL=http://localhost:8787 npm run dev
+//   VITE_LLM_PROVIDER=gemini VITE_LLM_BASE_URL=http://localhost:8787 npm run dev
+import http from 'node:http';
+
+const PORT = Number(process.env.MOCK_LLM_PORT || 8787);
+
+const readBody = (req) => new Promise((resolve) => {
+  let data = '';
+  req.on('data', (chunk) => { data += chunk; });
+  req.on('end', () => {
+    try {
+      resolve(JSON.parse(data || '{}'));
+    } catch {
+      resolve({});
+    }
+  });
+});
+
+const cannedPrompt = (userContent) => {
+  const topicLine = String(userContent || '').split('\n')[0] || 'Topic: not provided';
+  return `Mock prompt (${topicLine}):\n\nAct as a subject-matter expert and write a clear, structured answer for the topic above.`;
+};
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS'
+  });
+  res.end(JSON.stringify(body));
+};
+
+// Stream the events as Server-Sent Events, one word-sized delta at a time
+const sendStream = async (res, events) => {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Access-Control-Allow-Origin': '*'
+  });
+  for (const event of events) {
+    res.write(`data: ${typeof event === 'string' ? event : JSON.stringify(event)}\n\n`);
+    await new Promise((resolve) => setTimeout(resolve, 40));
+  }
+  res.end();
+};
+
+const words = (text) => text.match(/\S+\s*|\s+/g) || [];
+
+const server = http.createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') {
+    send(res, 204, {});
+    return;
+  }
+
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  const body = await readBody(req);
+
+  if (url.pathname.endsWith('/chat/completions')) {
+    const userMessage = (body.messages || []).find((m) => m.role === 'user');
+    if (body.stream) {
+      const deltas = words(cannedPrompt(userMessage?.content))
+        .map((word) => ({ choices: [{ index: 0, delta: { content: word } }] }));
+      await sendStream(res, [...deltas, '[DONE]']);
+      return;
+    }
+    send(res, 200, {
+      choices: [{ index: 0, message: { role: 'assistant', content: cannedPrompt(userMessage?.content) } }]
+    });
+    return;
+  }
+
+  if (url.pathname.endsWith('/v1/messages')) {
+    if (body.stream) {
+      const deltas = words(cannedPrompt(body.messages?.[0]?.content))
+        .map((word) => ({ type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: word } }));
+      await sendStream(res, [...deltas, { type: 'message_stop' }]);
+      return;
+    }
+    send(res, 200, {
+      content: [{ type: 'text', text: cannedPrompt(body.messages?.[0]?.content) }]
+    });
+    return;
+  }
+
+  if (url.pathname.includes(':streamGenerateContent')) {
+    const deltas = words(cannedPrompt(body.contents?.[0]?.parts?.[0]?.text))
+      .map((word) => ({ candidates: [{ content: { parts: [{ text: word }] } }] }));
+    await sendStream(res, deltas);
+    return;
+  }
+
+  if (url.pathname.includes(':generateContent')) {
+    send(res, 200, {
+      candidates: [{ content: { parts: [{ text: cannedPrompt(body.contents?.[0]?.parts?.[0]?.text) }] } }]
+    });
+    return;
+  }
+
+  send(res, 404, { error: `No mock for ${url.pathname}` });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock LLM server listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,184 @@
+// Accounts: email/password and magic-link sign-in, with sessions kept in a cookie
+import crypto from 'node:crypto';
+import { promisify } from 'node:util';
+import { HttpError } from './http.js';
+
+const scrypt = promisify(crypto.scrypt);
+
+export const SESSION_COOKIE = 'sid';
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const MAGIC_LINK_TTL_MS = 15 * 60 * 1000;
+// Emails per address within one link lifetime, so nobody can flood an inbox
+const MAX_LINKS_PER_EMAIL = 3;
+const MIN_PASSWORD_LENGTH = 8;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Only hashes of session and magic-link tokens are stored
+const hashToken = (token) => crypto.createHash('sha256').update(token).digest('hex');
+const createToken = () => crypto.randomBytes(32).toString('base64url');
+
+const hashPassword = async (password) => {
+  const salt = crypto.randomBytes(16);
+  const key = await scrypt(password, salt, 64);
+  return `scrypt:${salt.toString('hex')}:${key.toString('hex')}`;
+};
+
+const verifyPassword = async (password, stored) => {
+  const [scheme, salt, hash] = stored.split(':');
+  if (scheme !== 'scrypt') return false;
+  const expected = Buffer.from(hash, 'hex');
+  const key = await scrypt(password, Buffer.from(salt, 'hex'), 64);
+  return key.length === expected.length && crypto.timingSafeEqual(key, expected);
+};
+
+const normalizeEmail = (email) => {
+  if (typeof email !== 'string' || !EMAIL_PATTERN.test(email.trim())) {
+    throw new HttpError(400, 'Enter a valid email address');
+  }
+  return email.trim().toLowerCase();
+};
+
+const toPublicUser = ({ id, email, password_hash, created_at }) => ({
+  id,
+  email,
+  hasPassword: Boolean(password_hash),
+  createdAt: new Date(created_at).toISOString()
+});
+
+export const createAuthService = (db, { emailTransport, appUrl }) => {
+  const findUserByEmail = db.prepare('SELECT * FROM users WHERE email = ?');
+  const findUserById = db.prepare('SELECT * FROM users WHERE id = ?');
+  const insertUser = db.prepare('INSERT INTO users (id, email, password_hash, created_at) VALUES (?, ?, ?, ?)');
+  const setPasswordHash = db.prepare('UPDATE users SET password_hash = ? WHERE id = ?');
+  const insertSession = db.prepare('INSERT INTO auth_sessions (token_hash, user_id, created_at, expires_at) VALUES (?, ?, ?, ?)');
+  const findSession = db.prepare('SELECT * FROM auth_sessions WHERE token_hash = ? AND expires_at > ?');
+  const deleteSessionByHash = db.prepare('DELETE FROM auth_sessions WHERE token_hash = ?');
+  const insertMagicLink = db.prepare('INSERT INTO magic_links (token_hash, email, password_hash, created_at, expires_at) VALUES (?, ?, ?, ?, ?)');
+  const countRecentMagicLinks = db.prepare('SELECT COUNT(*) FROM magic_links WHERE email = ? AND created_at > ?').pluck();
+  const findMagicLink = db.prepare('SELECT * FROM magic_links WHERE token_hash = ? AND used_at IS NULL AND expires_at > ?');
+  const markMagicLinkUsed = db.prepare('UPDATE magic_links SET used_at = ? WHERE token_hash = ?');
+
+  const createUser = (email, passwordHash = null) => {
+    const id = crypto.randomUUID();
+    insertUser.run(id, email, passwordHash, Date.now());
+    return findUserById.get(id);
+  };
+
+  // Start a session for a user; returns the raw token for the cookie
+  const startSession = (userId) => {
+    const token = createToken();
+    const now = Date.now();
+    insertSession.run(hashToken(token), userId, now, now + SESSION_TTL_MS);
+    return { token, maxAge: SESSION_TTL_MS / 1000 };
+  };
+
+  const getSessionUser = (token) => {
+    if (!token) return null;
+    const session = findSession.get(hashToken(token), Date.now());
+    const user = session && findUserById.get(session.user_id);
+    return user ? toPublicUser(user) : null;
+  };
+
+  const endSession = (token) => {
+    if (token) deleteSessionByHash.run(hashToken(token));
+  };
+
+  // Store a single-use link for the address and return the URL to email
+  const createMagicLink = (email, passwordHash = null) => {
+    const now = Date.now();
+    if (countRecentMagicLinks.get(email, now - MAGIC_LINK_TTL_MS) >= MAX_LINKS_PER_EMAIL) {
+      throw new HttpError(429, 'Too many emails sent to this address. Try again in a few minutes.');
+    }
+
+    const token = createToken();
+    insertMagicLink.run(hashToken(token), email, passwordHash, now, now + MAGIC_LINK_TTL_MS);
+    return `${appUrl}/login?token=${encodeURIComponent(token)}`;
+  };
+
+  // The account is created once the emailed link is opened. Whether or not the address
+  // already has an account, the response is the same and only its owner learns which.
+  const signUp = async ({ email, password }) => {
+    const normalized = normalizeEmail(email);
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+      throw new HttpError(400, `Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+    }
+
+    const passwordHash = await hashPassword(password);
+    if (findUserByEmail.get(normalized)) {
+      const link = createMagicLink(normalized);
+      await emailTransport.send({
+        to: normalized,
+        subject: 'You already have a Cracked Prompts account',
+        text: `Someone tried to create an account with this address, but you already have one. Click the link below to sign in. It expires in 15 minutes and can only be used once.\n\n${link}\n\nIf you didn't ask for this, you can ignore this email.`,
+        html: `<p>Someone tried to create an account with this address, but you already have one. Click the link below to sign in. It expires in 15 minutes and can only be used once.</p><p><a href="${link}">Sign in to Cracked Prompts</a></p><p>If you didn't ask for this, you can ignore this email.</p>`
+      });
+      return;
+    }
+
+    const link = createMagicLink(normalized, passwordHash);
+    await emailTransport.send({
+      to: normalized,
+      subject: 'Confirm your Cracked Prompts account',
+      text: `Click the link below to confirm your email and finish creating your account. It expires in 15 minutes and can only be used once.\n\n${link}\n\nIf you didn't ask for this, you can ignore this email.`,
+      html: `<p>Click the link below to confirm your email and finish creating your account. It expires in 15 minutes and can only be used once.</p><p><a href="${link}">Confirm your account</a></p><p>If you didn't ask for this, you can ignore this email.</p>`
+    });
+  };
+
+  // Changing an existing password needs the current one, so a session alone can't lock the owner out
+  const setPassword = async (userId, { currentPassword, password }) => {
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+      throw new HttpError(400, `Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+    }
+
+    const user = findUserById.get(userId);
+    if (user.password_hash) {
+      const isValid = typeof currentPassword === 'string'
+        && await verifyPassword(currentPassword, user.password_hash);
+      if (!isValid) {
+        throw new HttpError(403, 'Current password is incorrect');
+      }
+    }
+    setPasswordHash.run(await hashPassword(password), userId);
+  };
+
+  const signIn = async ({ email, password }) => {
+    const user = findUserByEmail.get(normalizeEmail(email));
+    const isValid = user?.password_hash && typeof password === 'string'
+      && await verifyPassword(password, user.password_hash);
+    if (!isValid) {
+      throw new HttpError(401, 'Incorrect email or password');
+    }
+    return toPublicUser(user);
+  };
+
+  // Email a one-time sign-in link; works for new and existing addresses alike
+  const sendMagicLink = async ({ email }) => {
+    const normalized = normalizeEmail(email);
+    const link = createMagicLink(normalized);
+    await emailTransport.send({
+      to: normalized,
+      subject: 'Your Cracked Prompts sign-in link',
+      text: `Click the link below to sign in. It expires in 15 minutes and can only be used once.\n\n${link}\n\nIf you didn't ask for this, you can ignore this email.`,
+      html: `<p>Click the link below to sign in. It expires in 15 minutes and can only be used once.</p><p><a href="${link}">Sign in to Cracked Prompts</a></p><p>If you didn't ask for this, you can ignore this email.</p>`
+    });
+  };
+
+  const verifyMagicLink = ({ token }) => {
+    if (typeof token !== 'string' || !token) {
+      throw new HttpError(400, 'Missing sign-in token');
+    }
+
+    const tokenHash = hashToken(token);
+    return db.transaction(() => {
+      const magicLink = findMagicLink.get(tokenHash, Date.now());
+      if (!magicLink) {
+        throw new HttpError(400, 'This sign-in link has expired or was already used');
+      }
+      markMagicLinkUsed.run(Date.now(), tokenHash);
+      const user = findUserByEmail.get(magicLink.email) || createUser(magicLink.email, magicLink.password_hash);
+      return toPublicUser(user);
+    })();
+  };
+
+  return { startSession, getSessionUser, endSession, signUp, signIn, setPassword, sendMagicLink, verifyMagicLink };
+};
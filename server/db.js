@@ -0,0 +1,71 @@
+// SQLite storage for the API. The file lives in server/data unless API_DB_PATH says otherwise.
+import Database from 'better-sqlite3';
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const DEFAULT_PATH = path.join(path.dirname(fileURLToPath(import.meta.url)), 'data', 'cracked-prompts.db');
+
+// Each entry runs once, in order; user_version records how many have been applied
+const MIGRATIONS = [
+  `CREATE TABLE usage_events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    subject TEXT NOT NULL,
+    mode TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+  );
+  CREATE INDEX usage_events_subject_created_at ON usage_events (subject, created_at);`,
+
+  `CREATE TABLE users (
+    id TEXT PRIMARY KEY,
+    email TEXT NOT NULL UNIQUE,
+    password_hash TEXT,
+    created_at INTEGER NOT NULL
+  );
+  CREATE TABLE auth_sessions (
+    token_hash TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+    created_at INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL
+  );
+  CREATE TABLE magic_links (
+    token_hash TEXT PRIMARY KEY,
+    email TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL,
+    used_at INTEGER
+  );`,
+
+  `CREATE TABLE shares (
+    id TEXT PRIMARY KEY,
+    title TEXT NOT NULL,
+    text TEXT NOT NULL,
+    level TEXT NOT NULL,
+    target_model_id TEXT,
+    owner_id TEXT REFERENCES users (id) ON DELETE SET NULL,
+    created_at INTEGER NOT NULL
+  );`,
+
+  // Sign-ups wait for the emailed link; the password is held with it until then
+  'ALTER TABLE magic_links ADD COLUMN password_hash TEXT;'
+];
+
+export const openDatabase = (filename = process.env.API_DB_PATH || DEFAULT_PATH) => {
+  if (filename !== ':memory:') {
+    fs.mkdirSync(path.dirname(filename), { recursive: true });
+  }
+
+  const db = new Database(filename);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+
+  const applied = db.pragma('user_version', { simple: true });
+  MIGRATIONS.slice(applied).forEach((sql, index) => {
+    db.transaction(() => {
+      db.exec(sql);
+      db.pragma(`user_version = ${applied + index + 1}`);
+    })();
+  });
+
+  return db;
+};
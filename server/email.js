@@ -0,0 +1,41 @@
+// Outgoing email behind a pluggable transport, picked with EMAIL_TRANSPORT:
+//   console  (default) print messages to the server log
+//   smtp     send through SMTP_HOST:SMTP_PORT, e.g. a local catcher like Mailpit on :1025
+// Add another transport by registering a factory in TRANSPORTS.
+import nodemailer from 'nodemailer';
+
+const createConsoleTransport = () => ({
+  send: async ({ to, subject, text }) => {
+    console.log(`\n--- email to ${to}: ${subject}\n${text}\n---\n`);
+  }
+});
+
+const createSmtpTransport = (env) => {
+  const transporter = nodemailer.createTransport({
+    host: env.SMTP_HOST || 'localhost',
+    port: Number(env.SMTP_PORT || 1025),
+    secure: env.SMTP_SECURE === 'true',
+    auth: env.SMTP_USER ? { user: env.SMTP_USER, pass: env.SMTP_PASS } : undefined
+  });
+  const from = env.EMAIL_FROM || 'Cracked Prompts <no-reply@localhost>';
+
+  return {
+    send: async ({ to, subject, text, html }) => {
+      await transporter.sendMail({ from, to, subject, text, html });
+    }
+  };
+};
+
+const TRANSPORTS = {
+  console: createConsoleTransport,
+  smtp: createSmtpTransport
+};
+
+export const createEmailTransport = (env = process.env) => {
+  const name = env.EMAIL_TRANSPORT || 'console';
+  const factory = TRANSPORTS[name];
+  if (!factory) {
+    throw new Error(`Unknown EMAIL_TRANSPORT "${name}". Use one of: ${Object.keys(TRANSPORTS).join(', ')}`);
+  }
+  return factory(env);
+};
@@ -0,0 +1,130 @@
+// Small helpers shared by the API routes
+
+export class HttpError extends Error {
+  constructor(status, message, body = {}) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.body = body;
+  }
+}
+
+// Every request body is a small JSON object
+const MAX_BODY_BYTES = 16 * 1024;
+
+// Parse a JSON object request body; a body over MAX_BODY_BYTES is a 413, anything else that
+// isn't a JSON object a 400
+export const readJson = (req) => new Promise((resolve, reject) => {
+  const chunks = [];
+  let size = 0;
+  let tooLarge = false;
+
+  req.on('data', (chunk) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      // Keep reading so the response can still be sent, but stop buffering
+      tooLarge = true;
+      chunks.length = 0;
+      return;
+    }
+    if (!tooLarge) chunks.push(chunk);
+  });
+  req.on('end', () => {
+    if (tooLarge) {
+      reject(new HttpError(413, `Request body must be at most ${MAX_BODY_BYTES / 1024} KB`));
+      return;
+    }
+
+    let body;
+    try {
+      body = JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+    } catch {
+      reject(new HttpError(400, 'Request body must be valid JSON'));
+      return;
+    }
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      reject(new HttpError(400, 'Request body must be a JSON object'));
+      return;
+    }
+    resolve(body);
+  });
+  req.on('error', reject);
+});
+
+// Only needed when the app is served from a different origin than the API
+const corsHeaders = (req) => {
+  const origin = process.env.APP_ORIGIN;
+  if (!origin) return {};
+  return {
+    'Access-Control-Allow-Origin': origin,
+    'Access-Control-Allow-Credentials': 'true',
+    'Access-Control-Allow-Headers': 'Content-Type, X-Device-Id',
+    'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+    Vary: 'Origin'
+  };
+};
+
+// Cookies set by other apps on the same host may not be URI-encoded; keep those as they are
+const decodeCookieValue = (value) => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+export const parseCookies = (req) => Object.fromEntries(
+  (req.headers.cookie || '')
+    .split(';')
+    .map(part => part.trim().split('='))
+    .filter(([name]) => name)
+    .map(([name, ...value]) => [name, decodeCookieValue(value.join('='))])
+);
+
+// HttpOnly, same-site cookie; Secure when COOKIE_SECURE=true (i.e. behind HTTPS)
+export const serializeCookie = (name, value, { maxAge }) => [
+  `${name}=${encodeURIComponent(value)}`,
+  'Path=/',
+  'HttpOnly',
+  'SameSite=Lax',
+  `Max-Age=${maxAge}`,
+  process.env.COOKIE_SECURE === 'true' ? 'Secure' : ''
+].filter(Boolean).join('; ');
+
+export const sendJson = (req, res, status, body, headers = {}) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Cache-Control': 'no-store',
+    ...corsHeaders(req),
+    ...headers
+  });
+  res.end(status === 204 ? undefined : JSON.stringify(body));
+};
+
+// Fixed-window counter per key (e.g. client address); hit() throws a 429 once over the limit
+export const createRateLimiter = ({ limit, windowMs, message }) => {
+  const windows = new Map();
+
+  // Forget finished windows so the map doesn't grow with every address ever seen
+  setInterval(() => {
+    const now = Date.now();
+    windows.forEach((window, key) => {
+      if (window.resetsAt <= now) windows.delete(key);
+    });
+  }, windowMs).unref();
+
+  const hit = (key) => {
+    const now = Date.now();
+    const window = windows.get(key);
+    if (!window || window.resetsAt <= now) {
+      windows.set(key, { count: 1, resetsAt: now + windowMs });
+      return;
+    }
+    window.count += 1;
+    if (window.count > limit) {
+      throw new HttpError(429, message, { retryAfter: Math.ceil((window.resetsAt - now) / 1000) });
+    }
+  };
+
+  return { hit };
+};
@@ -0,0 +1,227 @@
+// API server for accounts, quota tracking and shared prompts, backed by SQLite.
+//
+//   npm run server
+//
+// The Vite dev server proxies /api here (see vite.config.ts). Configuration comes from the
+// environment, then from .env.local and .env in the project root, like the app's own settings:
+//   API_PORT            port to listen on (default 8790)
+//   API_DB_PATH         SQLite file (default server/data/cracked-prompts.db)
+//   APP_ORIGIN          app origin to allow via CORS when not using the proxy
+//   APP_URL             where the app is served, for links in emails (default http://localhost:3000)
+//   COOKIE_SECURE       set to true when served over HTTPS
+//   EMAIL_TRANSPORT     see server/email.js
+//   QUOTA_*             see server/quota.js
+import http from 'node:http';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { openDatabase } from './db.js';
+import { SESSION_COOKIE, createAuthService } from './auth.js';
+import { createEmailTransport } from './email.js';
+import { HttpError, createRateLimiter, parseCookies, readJson, sendJson, serializeCookie } from './http.js';
+import { createQuotaService } from './quota.js';
+import { createShareService } from './shares.js';
+
+// Variables already set in the shell win, then .env.local over .env. Everything else reads
+// process.env when called, so loading here, before anything is created, is early enough.
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+['.env.local', '.env'].forEach(file => {
+  try {
+    process.loadEnvFile(path.join(ROOT, file));
+  } catch (error) {
+    if (error.code !== 'ENOENT') throw error;
+  }
+});
+
+const PORT = Number(process.env.API_PORT || 8790);
+const MODE_PATTERN = /^[\w-]{1,40}$/;
+const DEVICE_ID_PATTERN = /^[\w-]{8,64}$/;
+
+const db = openDatabase();
+const quota = createQuotaService(db);
+const shares = createShareService(db);
+const auth = createAuthService(db, {
+  emailTransport: createEmailTransport(),
+  appUrl: (process.env.APP_URL || 'http://localhost:3000').replace(/\/+$/, '')
+});
+
+// Requests that send email, per client address
+const emailLimiter = createRateLimiter({
+  limit: 10,
+  windowMs: 15 * 60 * 1000,
+  message: 'Too many emails requested. Try again in a few minutes.'
+});
+
+const LOOPBACK_ADDRESSES = new Set(['127.0.0.1', '::1', '::ffff:127.0.0.1']);
+
+// Behind the dev server's /api proxy every request comes from this machine, so there the address
+// the proxy appended to X-Forwarded-For is the client. Anyone else's X-Forwarded-For is ignored.
+const getClientAddress = (req) => {
+  const address = req.socket.remoteAddress;
+  const forwarded = req.headers['x-forwarded-for'];
+  if (LOOPBACK_ADDRESSES.has(address) && typeof forwarded === 'string') {
+    return forwarded.split(',').pop().trim() || address;
+  }
+  return address;
+};
+
+const getSessionToken = (req) => parseCookies(req)[SESSION_COOKIE];
+
+const getCurrentUser = (req) => auth.getSessionUser(getSessionToken(req));
+
+const requireUser = (req) => {
+  const user = getCurrentUser(req);
+  if (!user) {
+    throw new HttpError(401, 'Sign in to continue');
+  }
+  return user;
+};
+
+// Sign the user in on this browser and return them as the response body
+const startSession = (res, user) => {
+  const { token, maxAge } = auth.startSession(user.id);
+  res.setHeader('Set-Cookie', serializeCookie(SESSION_COOKIE, token, { maxAge }));
+  return { user };
+};
+
+// Who the quota is counted against: the signed-in user, otherwise the random
+// per-browser device id the app sends
+const getSubject = (req) => {
+  const user = getCurrentUser(req);
+  if (user) return `user:${user.id}`;
+
+  const deviceId = req.headers['x-device-id'];
+  if (typeof deviceId !== 'string' || !DEVICE_ID_PATTERN.test(deviceId)) {
+    throw new HttpError(400, 'Missing or invalid X-Device-Id header');
+  }
+  return `device:${deviceId}`;
+};
+
+const routes = {
+  'GET /api/quota': (req) => quota.getQuota(getSubject(req)),
+
+  'POST /api/quota/consume': async (req) => {
+    const subject = getSubject(req);
+    const { mode } = await readJson(req);
+    if (typeof mode !== 'string' || !MODE_PATTERN.test(mode)) {
+      throw new HttpError(400, 'mode must be a short identifier like "quick"');
+    }
+    return quota.consume(subject, mode);
+  },
+
+  'GET /api/auth/me': (req) => ({ user: getCurrentUser(req) }),
+
+  'POST /api/auth/signup': async (req) => {
+    emailLimiter.hit(getClientAddress(req));
+    await auth.signUp(await readJson(req));
+    return { sent: true };
+  },
+
+  'POST /api/auth/login': async (req, res) => startSession(res, await auth.signIn(await readJson(req))),
+
+  'POST /api/auth/magic-link': async (req) => {
+    emailLimiter.hit(getClientAddress(req));
+    await auth.sendMagicLink(await readJson(req));
+    return { sent: true };
+  },
+
+  'POST /api/auth/magic-link/verify': async (req, res) =>
+    startSession(res, auth.verifyMagicLink(await readJson(req))),
+
+  'POST /api/auth/password': async (req) => {
+    const user = requireUser(req);
+    await auth.setPassword(user.id, await readJson(req));
+    return { user: { ...user, hasPassword: true } };
+  },
+
+  'POST /api/auth/logout': (req, res) => {
+    auth.endSession(getSessionToken(req));
+    res.setHeader('Set-Cookie', serializeCookie(SESSION_COOKIE, '', { maxAge: 0 }));
+    return { user: null };
+  },
+
+  'POST /api/shares': async (req) => shares.createShare(await readJson(req), getCurrentUser(req)?.id),
+
+  'GET /api/shares/:id': (req, res, { id }) => shares.getShare(id),
+
+  'GET /api/health': () => ({ ok: true })
+};
+
+// Turn "GET /api/shares/:id" keys into matchers; :name segments become params
+const routeTable = Object.entries(routes).map(([key, handler]) => {
+  const [method, pattern] = key.split(' ');
+  const names = [];
+  const regex = new RegExp(`^${pattern.replace(/:(\w+)/g, (_, name) => {
+    names.push(name);
+    return '([^/]+)';
+  })}$`);
+  return { method, regex, names, handler };
+});
+
+const decodeParam = (value) => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    throw new HttpError(400, 'Malformed URL encoding in path');
+  }
+};
+
+// The path alone; the Host header isn't trusted, so a fixed base resolves it
+const parsePathname = (url) => {
+  try {
+    return new URL(url, 'http://localhost').pathname;
+  } catch {
+    throw new HttpError(400, 'Malformed request URL');
+  }
+};
+
+const findRoute = (method, pathname) => {
+  for (const route of routeTable) {
+    const match = route.method === method && pathname.match(route.regex);
+    if (match) {
+      const params = Object.fromEntries(route.names.map((name, index) => [name, decodeParam(match[index + 1])]));
+      return { handler: route.handler, params };
+    }
+  }
+  return null;
+};
+
+const server = http.createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') {
+    sendJson(req, res, 204);
+    return;
+  }
+
+  let pathname = req.url;
+
+  try {
+    pathname = parsePathname(req.url);
+    const route = findRoute(req.method, pathname);
+    if (!route) {
+      sendJson(req, res, 404, { error: `No route for ${req.method} ${pathname}` });
+      return;
+    }
+
+    sendJson(req, res, 200, await route.handler(req, res, route.params));
+  } catch (error) {
+    if (error instanceof HttpError) {
+      sendJson(req, res, error.status, { error: error.message, ...error.body });
+      return;
+    }
+    console.error(`${req.method} ${pathname} failed:`, error);
+    sendJson(req, res, 500, { error: 'Internal server error' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`API server listening on http://localhost:${PORT}`);
+});
+
+// Close the database cleanly so the WAL is checkpointed
+const shutdown = () => {
+  server.close(() => {
+    db.close();
+    process.exit(0);
+  });
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
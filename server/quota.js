@@ -0,0 +1,93 @@
+// Daily usage quota, counted per user or device and broken down by mode
+import { HttpError } from './http.js';
+
+// Read limits from the environment:
+//   QUOTA_DAILY_LIMIT   prompts per day across all modes (default 3)
+//   QUOTA_MODE_LIMITS   optional per-mode caps, e.g. "crackedAF=1,refine=5"
+//   QUOTA_RESET_TIME    UTC time the day rolls over, "HH:MM" (default 00:00)
+const DEFAULT_DAILY_LIMIT = 3;
+
+export const getQuotaConfig = (env = process.env) => {
+  const resetTime = env.QUOTA_RESET_TIME || '00:00';
+  if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(resetTime)) {
+    throw new Error(`QUOTA_RESET_TIME must be HH:MM (UTC), got "${resetTime}"`);
+  }
+
+  const modeLimits = Object.fromEntries(
+    (env.QUOTA_MODE_LIMITS || '')
+      .split(',')
+      .map(entry => entry.split('=').map(part => part.trim()))
+      .filter(([mode, limit]) => mode && Number.isInteger(Number(limit)))
+      .map(([mode, limit]) => [mode, Number(limit)])
+  );
+
+  let dailyLimit = DEFAULT_DAILY_LIMIT;
+  if (env.QUOTA_DAILY_LIMIT) {
+    dailyLimit = Number(env.QUOTA_DAILY_LIMIT);
+    if (!Number.isInteger(dailyLimit) || dailyLimit < 0) {
+      console.warn(`QUOTA_DAILY_LIMIT must be a whole number, got "${env.QUOTA_DAILY_LIMIT}"; using ${DEFAULT_DAILY_LIMIT}`);
+      dailyLimit = DEFAULT_DAILY_LIMIT;
+    }
+  }
+
+  return {
+    dailyLimit,
+    modeLimits,
+    resetTime
+  };
+};
+
+// The current quota day: from the last reset up to the next one
+export const getQuotaWindow = (resetTime, now = new Date()) => {
+  const [hours, minutes] = resetTime.split(':').map(Number);
+  const start = new Date(now);
+  start.setUTCHours(hours, minutes, 0, 0);
+  if (start > now) {
+    start.setUTCDate(start.getUTCDate() - 1);
+  }
+  const end = new Date(start);
+  end.setUTCDate(end.getUTCDate() + 1);
+  return { start, end };
+};
+
+export const createQuotaService = (db, config = getQuotaConfig()) => {
+  const countByMode = db.prepare(
+    'SELECT mode, COUNT(*) AS count FROM usage_events WHERE subject = ? AND created_at >= ? GROUP BY mode'
+  );
+  const insertEvent = db.prepare('INSERT INTO usage_events (subject, mode, created_at) VALUES (?, ?, ?)');
+
+  const getQuota = (subject, now = new Date()) => {
+    const { start, end } = getQuotaWindow(config.resetTime, now);
+    const byMode = Object.fromEntries(
+      countByMode.all(subject, start.getTime()).map(({ mode, count }) => [mode, count])
+    );
+    const used = Object.values(byMode).reduce((sum, count) => sum + count, 0);
+
+    return {
+      limit: config.dailyLimit,
+      used,
+      remaining: Math.max(config.dailyLimit - used, 0),
+      byMode,
+      modeLimits: config.modeLimits,
+      resetsAt: end.toISOString()
+    };
+  };
+
+  // Record one use of a mode, or throw a 429 if the subject is out of quota for it
+  const consume = db.transaction((subject, mode, now = new Date()) => {
+    const quota = getQuota(subject, now);
+    const modeLimit = config.modeLimits[mode];
+
+    if (quota.remaining === 0) {
+      throw new HttpError(429, 'Daily limit reached', { quota });
+    }
+    if (modeLimit !== undefined && (quota.byMode[mode] || 0) >= modeLimit) {
+      throw new HttpError(429, `Daily limit for ${mode} reached`, { quota });
+    }
+
+    insertEvent.run(subject, mode, now.getTime());
+    return getQuota(subject, now);
+  });
+
+  return { getQuota, consume };
+};
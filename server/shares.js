@@ -0,0 +1,56 @@
+// Read-only links to a generated prompt, opened in the app at /p/:shareId
+import crypto from 'node:crypto';
+import { HttpError } from './http.js';
+
+const MAX_TITLE_LENGTH = 200;
+const MAX_TEXT_LENGTH = 20000;
+const LEVELS = new Set(['quick', 'deepDive', 'crackedUp']);
+const SHARE_ID_PATTERN = /^[\w-]{10,32}$/;
+
+const toPublicShare = ({ id, title, text, level, target_model_id, created_at }) => ({
+  id,
+  title,
+  text,
+  level,
+  targetModelId: target_model_id,
+  createdAt: new Date(created_at).toISOString()
+});
+
+export const createShareService = (db) => {
+  const insertShare = db.prepare(
+    'INSERT INTO shares (id, title, text, level, target_model_id, owner_id, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)'
+  );
+  const findShare = db.prepare('SELECT * FROM shares WHERE id = ?');
+
+  // Snapshot the prompt as it is now; later edits in the app don't change the link
+  const createShare = ({ title, text, level, targetModelId }, ownerId = null) => {
+    if (typeof text !== 'string' || !text.trim() || text.length > MAX_TEXT_LENGTH) {
+      throw new HttpError(400, `text must be between 1 and ${MAX_TEXT_LENGTH} characters`);
+    }
+    if (!LEVELS.has(level)) {
+      throw new HttpError(400, 'level must be quick, deepDive or crackedUp');
+    }
+
+    const id = crypto.randomBytes(9).toString('base64url');
+    insertShare.run(
+      id,
+      typeof title === 'string' && title.trim() ? title.trim().slice(0, MAX_TITLE_LENGTH) : 'Shared prompt',
+      text,
+      level,
+      typeof targetModelId === 'string' ? targetModelId : null,
+      ownerId,
+      Date.now()
+    );
+    return toPublicShare(findShare.get(id));
+  };
+
+  const getShare = (id) => {
+    const share = SHARE_ID_PATTERN.test(id) ? findShare.get(id) : undefined;
+    if (!share) {
+      throw new HttpError(404, 'This shared prompt does not exist');
+    }
+    return toPublicShare(share);
+  };
+
+  return { createShare, getShare };
+};
@@ -1,22 +1,53 @@
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { useTheme } from "@/hooks/use-theme";
+import { useI18n } from "@/hooks/use-i18n";
+import AppLayout from "./components/AppLayout";
+import CommandPalette from "./components/CommandPalette";
 import Index from "./pages/Index";
+import Chat from "./pages/Chat";
+import History from "./pages/History";
+import Settings from "./pages/Settings";
+import SharedPrompt from "./pages/SharedPrompt";
+import FlowEditor from "./pages/FlowEditor";
+import Library from "./pages/Library";
+import Login from "./pages/Login";
+import Account from "./pages/Account";
 import NotFound from "./pages/NotFound";
 
-const App = () => (
-  <TooltipProvider>
-    <Toaster />
-    <BrowserRouter>
-      <div className="min-h-screen bg-white">
-        <Routes>
-          <Route path="/" element={<Index />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </div>
-    </BrowserRouter>
-  </TooltipProvider>
-);
+const App = () => {
+  // Apply the saved light/dark/system preference and the UI language (lang, dir) to <html>
+  useTheme();
+  useI18n();
+
+  return (
+    <TooltipProvider>
+      <Toaster />
+      <BrowserRouter>
+        <CommandPalette />
+        <div className="min-h-screen bg-background">
+          <Routes>
+            <Route path="/" element={<Index />} />
+            <Route path="/login" element={<Login />} />
+            {/* App pages share the sidebar layout */}
+            <Route element={<AppLayout />}>
+              <Route path="/chat" element={<Chat />} />
+              <Route path="/chat/:sessionId" element={<Chat />} />
+              <Route path="/history" element={<History />} />
+              <Route path="/library" element={<Library />} />
+              <Route path="/settings" element={<Settings />} />
+              <Route path="/account" element={<Account />} />
+              <Route path="/flows" element={<FlowEditor />} />
+              <Route path="/p/:shareId" element={<SharedPrompt />} />
+            </Route>
+            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </div>
+      </BrowserRouter>
+    </TooltipProvider>
+  );
+};
 
 export default App;
@@ -0,0 +1,227 @@
+import { Link, Outlet, useLocation, useNavigate, matchPath } from 'react-router-dom';
+import { History, Home, Layers, LogIn, MessageSquarePlus, Search, Settings, Library as LibraryIcon, UserRound } from 'lucide-react';
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarFooter,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarInset,
+  SidebarMenu,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarProvider,
+  SidebarRail,
+  SidebarTrigger
+} from './ui/sidebar';
+import {
+  NavigationMenu,
+  NavigationMenuContent,
+  NavigationMenuItem,
+  NavigationMenuLink,
+  NavigationMenuList,
+  NavigationMenuTrigger,
+  navigationMenuTriggerStyle
+} from './ui/navigation-menu';
+import { Button } from './ui/button';
+import { Separator } from './ui/separator';
+import ThemeToggle from './ThemeToggle';
+import LanguageSwitcher from './LanguageSwitcher';
+import { useAuth } from '@/hooks/use-auth';
+import { useLocalizedFlows } from '@/hooks/use-flows';
+import { useI18n } from '@/hooks/use-i18n';
+import { useSessions } from '@/hooks/use-sessions';
+import { useRegisterCommands } from '@/hooks/use-commands';
+import { openCommandPalette } from '@/lib/commands';
+import type { MessageKey } from '@/lib/i18n';
+
+const MAX_SIDEBAR_SESSIONS = 5;
+
+// Main sections of the app; `match` decides when the entry is highlighted
+const NAV_ITEMS: { to: string; label: MessageKey; icon: typeof History; match: string }[] = [
+  { to: '/chat', label: 'nav.newChat', icon: MessageSquarePlus, match: '/chat' },
+  { to: '/history', label: 'nav.history', icon: History, match: '/history' },
+  { to: '/library', label: 'nav.library', icon: LibraryIcon, match: '/library' },
+  { to: '/settings', label: 'nav.settings', icon: Settings, match: '/settings' }
+];
+
+const AppSidebar = () => {
+  const { pathname } = useLocation();
+  const { user } = useAuth();
+  const { sessions } = useSessions(MAX_SIDEBAR_SESSIONS);
+  const { t, dir } = useI18n();
+
+  return (
+    <Sidebar collapsible="icon" side={dir === 'rtl' ? 'right' : 'left'}>
+      <SidebarHeader>
+        <Link to="/" className="px-2 py-1.5 text-lg uppercase font-['Poppins'] truncate group-data-[collapsible=icon]:hidden">
+          <span className="font-bold italic text-brand">CRACKED</span>{' '}
+          <span className="font-light text-brand">PROMPTS</span>
+        </Link>
+      </SidebarHeader>
+
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              {NAV_ITEMS.map(({ to, label, icon: Icon, match }) => (
+                <SidebarMenuItem key={to}>
+                  <SidebarMenuButton asChild isActive={Boolean(matchPath({ path: match, end: false }, pathname))} tooltip={t(label)}>
+                    <Link to={to}>
+                      <Icon />
+                      <span>{t(label)}</span>
+                    </Link>
+                  </SidebarMenuButton>
+                </SidebarMenuItem>
+              ))}
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+
+        {sessions.length > 0 && (
+          <SidebarGroup className="group-data-[collapsible=icon]:hidden">
+            <SidebarGroupLabel>{t('nav.recentChats')}</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <SidebarMenu>
+                {sessions.map(session => (
+                  <SidebarMenuItem key={session.id}>
+                    <SidebarMenuButton asChild size="sm" isActive={pathname === `/chat/${session.id}`}>
+                      <Link to={`/chat/${session.id}`}>
+                        <span>{session.title}</span>
+                      </Link>
+                    </SidebarMenuButton>
+                  </SidebarMenuItem>
+                ))}
+              </SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        )}
+      </SidebarContent>
+
+      <SidebarFooter>
+        <SidebarMenu>
+          <SidebarMenuItem>
+            {user ? (
+              <SidebarMenuButton asChild isActive={pathname === '/account'} tooltip={user.email}>
+                <Link to="/account">
+                  <UserRound />
+                  <span>{user.email}</span>
+                </Link>
+              </SidebarMenuButton>
+            ) : (
+              <SidebarMenuButton asChild tooltip={t('nav.signIn')}>
+                <Link to="/login">
+                  <LogIn />
+                  <span>{t('nav.signIn')}</span>
+                </Link>
+              </SidebarMenuButton>
+            )}
+          </SidebarMenuItem>
+        </SidebarMenu>
+      </SidebarFooter>
+      <SidebarRail />
+    </Sidebar>
+  );
+};
+
+// Top bar: start a chat in a particular mode, or jump back to the marketing site
+const AppNavigation = () => {
+  const { flows } = useLocalizedFlows();
+  const { t } = useI18n();
+
+  return (
+    <NavigationMenu>
+      <NavigationMenuList>
+        <NavigationMenuItem>
+          <NavigationMenuTrigger>{t('nav.modes')}</NavigationMenuTrigger>
+          <NavigationMenuContent>
+            <ul className="grid w-[320px] gap-1 p-2">
+              {flows.map(flow => (
+                <li key={flow.id}>
+                  <NavigationMenuLink asChild>
+                    <Link
+                      to={`/chat?mode=${encodeURIComponent(flow.id)}`}
+                      className="block rounded-md p-3 text-start hover:bg-brand-subtle focus:bg-brand-subtle focus:outline-none"
+                    >
+                      <span className="block text-sm font-medium text-foreground">{flow.name}</span>
+                      {flow.description && <span className="block text-xs text-muted-foreground line-clamp-2">{flow.description}</span>}
+                    </Link>
+                  </NavigationMenuLink>
+                </li>
+              ))}
+              <li>
+                <NavigationMenuLink asChild>
+                  <Link to="/flows" className="block rounded-md px-3 py-2 text-start text-xs text-brand-strong hover:bg-brand-subtle focus:bg-brand-subtle focus:outline-none">
+                    {t('nav.editModes')}
+                  </Link>
+                </NavigationMenuLink>
+              </li>
+            </ul>
+          </NavigationMenuContent>
+        </NavigationMenuItem>
+        <NavigationMenuItem>
+          <NavigationMenuLink asChild className={navigationMenuTriggerStyle()}>
+            <Link to="/#pricing">{t('nav.pricing')}</Link>
+          </NavigationMenuLink>
+        </NavigationMenuItem>
+      </NavigationMenuList>
+    </NavigationMenu>
+  );
+};
+
+// Shortcut hint for the command palette, matching the keyboard in use
+const PALETTE_SHORTCUT = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform) ? '⌘K' : 'Ctrl K';
+
+// Shared shell for the app pages: navigation sidebar, top bar and the routed page
+const AppLayout = () => {
+  const { t } = useI18n();
+  const navigate = useNavigate();
+
+  useRegisterCommands([
+    ...NAV_ITEMS.map(({ to, label, icon }) => ({
+      id: `navigation.${to}`,
+      group: 'navigation' as const,
+      label: t(label),
+      icon,
+      perform: () => navigate(to)
+    })),
+    { id: 'navigation./flows', group: 'navigation', label: t('nav.editModes'), icon: Layers, perform: () => navigate('/flows') },
+    { id: 'navigation./', group: 'navigation', label: t('nav.home'), icon: Home, perform: () => navigate('/') }
+  ]);
+
+  return (
+    <SidebarProvider>
+      <AppSidebar />
+      <SidebarInset>
+        <header className="sticky top-0 z-40 flex h-14 items-center gap-2 border-b border-border bg-background px-4">
+          <SidebarTrigger />
+          <Separator orientation="vertical" className="h-5" />
+          <AppNavigation />
+          <div className="ms-auto flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={openCommandPalette}
+              className="h-8 gap-2 text-muted-foreground"
+              aria-label={t('commands.open')}
+            >
+              <Search />
+              <span className="hidden sm:inline">{t('commands.search')}</span>
+              <kbd className="hidden sm:inline rounded border border-border bg-muted px-1.5 font-mono text-[10px]">{PALETTE_SHORTCUT}</kbd>
+            </Button>
+            <LanguageSwitcher />
+            <ThemeToggle />
+            <Link to="/" className="flex items-center text-sm text-muted-foreground hover:text-foreground" aria-label={t('nav.home')}>
+              <Home className="w-4 h-4" />
+            </Link>
+          </div>
+        </header>
+        <Outlet />
+      </SidebarInset>
+    </SidebarProvider>
+  );
+};
+
+export default AppLayout;
@@ -0,0 +1,82 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { useI18n } from '@/hooks/use-i18n';
+import { getBranchPrompts, type ChatBranch } from '@/lib/sessions';
+import type { FlowTier } from '@/lib/flows';
+import { cn } from '@/lib/utils';
+
+interface BranchCompareDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  branches: { branch: ChatBranch; label: string }[];
+  activeBranchId: string;
+  tiers: FlowTier[];
+  onSwitch: (branchId: string) => void;
+}
+
+// The prompts every branch of a chat produced, one column per branch and one row per tier
+const BranchCompareDialog = ({
+  open,
+  onOpenChange,
+  branches,
+  activeBranchId,
+  tiers,
+  onSwitch
+}: BranchCompareDialogProps) => {
+  const { t } = useI18n();
+  const prompts = branches.map(({ branch }) => getBranchPrompts(branch));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t('chat.branches.compareTitle')}</DialogTitle>
+          <DialogDescription>{t('chat.branches.compareDescription')}</DialogDescription>
+        </DialogHeader>
+
+        <div className="overflow-x-auto">
+          <div
+            className="grid gap-3 min-w-fit"
+            style={{ gridTemplateColumns: `repeat(${branches.length}, minmax(16rem, 1fr))` }}
+          >
+            {branches.map(({ branch, label }) => (
+              <div key={branch.id} className="flex items-center justify-between gap-2 border-b border-border pb-2">
+                <span className="text-sm font-medium text-foreground truncate" title={label}>{label}</span>
+                {branch.id === activeBranchId ? (
+                  <span className="text-xs text-brand shrink-0">{t('chat.branches.current')}</span>
+                ) : (
+                  <Button size="sm" variant="outline" className="h-7 shrink-0" onClick={() => onSwitch(branch.id)}>
+                    {t('chat.branches.switch')}
+                  </Button>
+                )}
+              </div>
+            ))}
+
+            {tiers.map(tier => (
+              <div key={tier.level} className="contents">
+                <h3 className="col-span-full mt-2 text-xs font-medium uppercase text-muted-foreground">{tier.label}</h3>
+                {branches.map(({ branch }, index) => {
+                  const prompt = prompts[index][tier.level];
+                  return (
+                    <pre
+                      key={branch.id}
+                      lang={prompt?.outputLanguage}
+                      className={cn(
+                        "whitespace-pre-wrap font-sans text-sm text-start rounded-lg border border-border p-3",
+                        prompt ? "text-foreground bg-background" : "text-muted-foreground bg-muted/50 italic"
+                      )}
+                    >
+                      {prompt ? prompt.text : t('chat.branches.noPrompt')}
+                    </pre>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BranchCompareDialog;
@@ -0,0 +1,57 @@
+import { cn } from '@/lib/utils';
+
+export interface InputSuggestion {
+  id: string;
+  label: string;
+  description?: string;
+}
+
+interface ChatInputSuggestionsProps {
+  // Used for the listbox and its options, so the textarea can point at the active one
+  id: string;
+  heading: string;
+  suggestions: InputSuggestion[];
+  activeIndex: number;
+  onSelect: (index: number) => void;
+  onActiveIndexChange: (index: number) => void;
+}
+
+// Autocomplete popover above the chat input for slash commands and @mentions.
+// Focus stays in the textarea; it drives the active option with the arrow keys.
+const ChatInputSuggestions = ({
+  id,
+  heading,
+  suggestions,
+  activeIndex,
+  onSelect,
+  onActiveIndexChange
+}: ChatInputSuggestionsProps) => (
+  <div className="absolute bottom-full start-0 z-20 mb-2 w-full max-w-sm overflow-hidden rounded-lg border border-border bg-popover text-popover-foreground shadow-lg">
+    <div className="px-3 pt-2 pb-1 text-xs font-medium text-muted-foreground">{heading}</div>
+    <ul id={id} role="listbox" aria-label={heading} className="max-h-60 overflow-y-auto p-1">
+      {suggestions.map((suggestion, index) => (
+        <li
+          key={suggestion.id}
+          id={`${id}-${index}`}
+          role="option"
+          aria-selected={index === activeIndex}
+          // Keep focus (and the caret) in the textarea
+          onMouseDown={(e) => e.preventDefault()}
+          onMouseEnter={() => onActiveIndexChange(index)}
+          onClick={() => onSelect(index)}
+          className={cn(
+            "cursor-pointer rounded-md px-2 py-1.5 text-sm",
+            index === activeIndex && "bg-accent text-accent-foreground"
+          )}
+        >
+          <div className="font-medium truncate">{suggestion.label}</div>
+          {suggestion.description && (
+            <div className="text-xs text-muted-foreground truncate">{suggestion.description}</div>
+          )}
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+export default ChatInputSuggestions;
@@ -1,42 +1,107 @@
-import React, { useState, useEffect, useRef, useLayoutEffect, useCallback } from 'react';
-import { Copy, Loader2, RefreshCw, Info, Play, ChevronLeft, ChevronRight, Zap, Sparkles, Lightbulb, Wand2, File, X, ThumbsUp, ThumbsDown, Send, MessageCircle } from 'lucide-react';
+import React, { useState, useEffect, useRef, useLayoutEffect, useCallback, useMemo } from 'react';
+import { Copy, Loader2, RefreshCw, Info, Play, ChevronLeft, ChevronRight, Zap, Sparkles, Lightbulb, Wand2, File, X, Send, MessageCircle, Square, SlidersHorizontal, ChevronDown, Settings, Bookmark, BookmarkCheck, Download, Share2, Languages, Columns2, AtSign, GitBranch, Pencil, SkipForward, FastForward, Braces } from 'lucide-react';
 import { Button } from './ui/button';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from './ui/tooltip';
+import { SidebarProvider } from './ui/sidebar';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from './ui/dropdown-menu';
+import PromptSpecPanel from './PromptSpecPanel';
+import PromptFeedbackButtons from './PromptFeedbackButtons';
+import ChatInputSuggestions, { type InputSuggestion } from './ChatInputSuggestions';
+import BranchCompareDialog from './BranchCompareDialog';
+import PromptVariablesDialog from './PromptVariablesDialog';
+import PromptQualityScore from './PromptQualityScore';
+import TokenEstimate from './TokenEstimate';
 import { useToast } from '@/hooks/use-toast';
+import { useLocalizedFlows } from '@/hooks/use-flows';
+import { useI18n } from '@/hooks/use-i18n';
+import { useAuth } from '@/hooks/use-auth';
+import { useLibrary } from '@/hooks/use-library';
+import { useFeedback } from '@/hooks/use-feedback';
+import { useQuota } from '@/hooks/use-quota';
+import { useOutputLanguage } from '@/hooks/use-output-language';
+import { useRegisterCommands } from '@/hooks/use-commands';
+import { useTargetModel } from '@/hooks/use-target-model';
 import { cn } from "@/lib/utils";
 import { motion, AnimatePresence } from 'framer-motion';
+import { localizePromptText, streamPromptText, textToStream, type PromptLevel } from '@/lib/llm';
+import { buildPromptSpec, mergeSpec, type PromptSpec, type PromptSpecField } from '@/lib/prompt-spec';
+import { TARGET_MODELS, formatPromptForTarget, getTargetModel } from '@/lib/target-models';
+import { OUTPUT_LANGUAGES, getOutputLanguage } from '@/lib/output-languages';
+import type { PaletteCommand } from '@/lib/commands';
+import {
+  SLASH_COMMANDS,
+  getInputTrigger,
+  matchFlowTier,
+  matchTargetModel,
+  parseSlashCommand,
+  type ParsedSlashCommand
+} from '@/lib/chat-commands';
+import type { LibraryEntry } from '@/lib/library';
+import { exportFeedback, type DislikeReason, type FeedbackRating } from '@/lib/feedback';
+import { canUseMode } from '@/lib/quota';
+import { createShare, getShareUrl } from '@/lib/shares';
+import {
+  createBranchId,
+  createSessionId,
+  forkConversation,
+  getSession,
+  saveSession,
+  upsertBranch,
+  type ChatBranch,
+  type ChatBranchState,
+  type ChatMessage,
+  type PromptAttachment
+} from '@/lib/sessions';
+import {
+  DEFAULT_FLOW_ID,
+  getContextProgress,
+  getFlowStep,
+  getFlowTier,
+  getTierProgress,
+  isLastTier,
+  type FlowDefinition,
+  type FlowQuestion,
+  type FlowTheme,
+  type FlowTier
+} from '@/lib/flows';
+import { planNextQuestion } from '@/lib/question-planner';
+import { hasPromptVariables } from '@/lib/prompt-variables';
+import { Link, useNavigate } from 'react-router-dom';
+import { ToastAction } from './ui/toast';
 
 // Constants
 const MAX_REFRESHES = 3;
-const TIER1_RESPONSES = 3; // Quick Prompt (changed from 4)
-const TIER2_RESPONSES = 5; // Deep Dive (changed from 7)
-const TIER3_RESPONSES = 7; // Cracked AF (changed from 9)
-
-// Track daily usage - in a real app, this would be persisted
-const MAX_FREE_DAILY_USES = 3;
+// Saved prompts offered at once when typing an @mention
+const MAX_MENTION_SUGGESTIONS = 6;
+const SUGGESTIONS_ID = 'chat-input-suggestions';
 
 // Types
-type ChatMode = 'quick' | 'creativeFlow' | 'crackedAF';
-type MessageSender = 'user' | 'system' | 'attachment';
-
-interface Message {
-  id: string;
-  text: string;
-  sender: MessageSender;
-  timestamp: Date;
-  promptLevel?: 'quick' | 'deepDive' | 'crackedUp';
-  isGenerating?: boolean;
-}
-
-interface PromptAttachment {
-  text: string;
-  level: 'quick' | 'deepDive' | 'crackedUp';
-  refreshCount: number;
-}
+type Message = ChatMessage;
 
 interface ChatUIProps {
   onClose?: () => void;
   initialMessage?: string;
+  // Mode to start in; defaults to the first built-in flow
+  flowId?: string;
+  // Model to format generated prompts for; unformatted when not set
+  targetModelId?: string | null;
+  // Saved session to resume; a new session is started when not set
+  sessionId?: string;
+  // Called when generating a prompt is refused because today's quota is used up
+  onQuotaExceeded?: () => void;
+  // Called once a session has been saved for the first time, so it can be linked to
+  onSessionSaved?: (sessionId: string) => void;
+  // Called when the user starts a fresh session, with the mode it starts in
+  onNewSession?: (flowId: string) => void;
 }
 
 // Utility function to track analytics events
@@ -50,89 +115,155 @@ const trackAnalyticsEvent = (category: string, action: string, label: string) =>
   }
 };
 
-// Define mode themes with brand colors
-const modeThemes = {
-  quick: {
-    primary: '#E24B0F',
-    secondary: '#FFF3EC', // Light orange for user bubbles
-    tertiary: '#F8D3C1',
-    lightBg: '#FEF8F5',
-    textColor: '#E24B0F',
-    name: 'Quick Prompt',
-    icon: <Zap className="w-5 h-5" />,
-    description: 'Fast, simple prompts for instant ideas'
-  },
-  creativeFlow: {
-    primary: '#E24B0F',
-    secondary: '#FFF3EC', // Light orange for user bubbles
-    tertiary: '#F8D3C1',
-    lightBg: '#FEF8F5',
-    textColor: '#E24B0F',
-    name: 'Deep Dive',
-    icon: <Sparkles className="w-5 h-5" />,
-    description: 'Balanced prompts for creative flair'
-  },
-  crackedAF: {
-    primary: '#E24B0F',
-    secondary: '#FFF3EC', // Light orange for user bubbles
-    tertiary: '#F8D3C1',
-    lightBg: '#FEF8F5',
-    textColor: '#E24B0F',
-    name: 'Cracked AF Prompt', // Changed from "Cracked Up"
-    icon: <Wand2 className="w-5 h-5" />,
-    description: 'Wild, original prompts for brilliance'
-  }
+// Icons a flow definition can pick from
+const FLOW_ICONS = {
+  zap: Zap,
+  sparkles: Sparkles,
+  wand: Wand2,
+  lightbulb: Lightbulb
 };
 
-// Quick prompt questions
-const contextQuestions = [
-  "Cool, let's crack this open! What's the main thing you're trying to do?",
-  "Nice! Any specific tone or style you're aiming for?",
-  "Got it. Who's the target audience for this?"
-];
-
-// Deep dive questions
-const deepDiveQuestions = [
-  "Let's explore further. What challenges have you faced when working with this topic before?",
-  "Interesting perspective. What would make this prompt truly valuable for you?"
-];
-
-// Cracked AF questions
-const crackedUpQuestions = [
-  "For our most advanced prompt, what unconventional angles would you like to explore?",
-  "Let's break boundaries - what's one assumption about this topic you'd like to challenge?"
-];
-
-const ChatUI = ({ onClose, initialMessage = '' }: ChatUIProps) => {
+// Icon shown on an attachment card for each prompt level
+const renderLevelIcon = (level?: PromptLevel) => {
+  if (level === 'deepDive') return <Sparkles className="w-5 h-5 text-white me-2" />;
+  if (level === 'crackedUp') return <Wand2 className="w-5 h-5 text-white me-2" />;
+  return <Zap className="w-5 h-5 text-white me-2" />;
+};
+
+// Hand the flow's colors to CSS; the .flow-theme rules in index.css turn them into
+// --flow-* tokens that also work in dark mode
+const getFlowThemeStyle = (theme: FlowTheme) => ({
+  '--flow-primary': theme.primary,
+  '--flow-secondary': theme.secondary,
+  '--flow-tertiary': theme.tertiary,
+  '--flow-light-bg': theme.lightBg,
+  '--flow-text-color': theme.textColor
+}) as React.CSSProperties;
+
+// Opening message for a flow, asking for the topic
+const createGreeting = (flow: FlowDefinition): Message => ({
+  id: Date.now().toString(),
+  text: flow.greeting,
+  sender: 'system',
+  timestamp: new Date(),
+  specField: 'topic'
+});
+
+const ChatUI = ({
+  onClose,
+  initialMessage = '',
+  flowId: initialFlowId = DEFAULT_FLOW_ID,
+  targetModelId,
+  sessionId: resumeSessionId,
+  onQuotaExceeded,
+  onSessionSaved,
+  onNewSession
+}: ChatUIProps) => {
+  // Questions and messages come in the UI language when the flow has a translation
+  const { flows } = useLocalizedFlows();
+  const { t } = useI18n();
+  const [flowId, setFlowId] = useState(initialFlowId);
+  // Fall back to the default flow if the selected one was deleted
+  const flow = flows.find(item => item.id === flowId) || flows[0];
+
   // State variables
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      id: Date.now().toString(),
-      text: "Hi there! I'll help you create the perfect prompt. What topic are you interested in?",
-      sender: 'system',
-      timestamp: new Date()
-    }
-  ]);
+  const [messages, setMessages] = useState<Message[]>(() => [createGreeting(flow)]);
   const [inputValue, setInputValue] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const [chatMode, setChatMode] = useState<ChatMode>('quick');
   const [userResponseCount, setUserResponseCount] = useState(0);
-  const [currentPromptTier, setCurrentPromptTier] = useState<'none' | 'quick' | 'deepDive' | 'crackedUp'>('none');
+  const [currentPromptTier, setCurrentPromptTier] = useState<'none' | PromptLevel>('none');
   const [currentAttachment, setCurrentAttachment] = useState<PromptAttachment | null>(null);
   const [refreshCount, setRefreshCount] = useState(0);
   const [isExpandingChat, setIsExpandingChat] = useState(false);
   const [showChatOptions, setShowChatOptions] = useState(false);
   const [isTypingEffect, setIsTypingEffect] = useState(false);
-  const [typingText, setTypingText] = useState('');
   const [typingMessageId, setTypingMessageId] = useState<string | null>(null);
-  const [typingIntervalId, setTypingIntervalId] = useState<NodeJS.Timeout | null>(null);
+  const [showSpecPanel, setShowSpecPanel] = useState(false);
+  // Manual edits from the prompt details panel, layered over the parsed answers
+  const [specOverrides, setSpecOverrides] = useState<Partial<PromptSpec>>({});
+  const [sessionId, setSessionId] = useState(() => resumeSessionId || createSessionId());
+  // Hold off the flow logic and autosave until a resumed session has loaded
+  const [isRestoring, setIsRestoring] = useState(Boolean(resumeSessionId));
+  // Tier that was refused for lack of quota, generated once the quota allows it again
+  const [blockedTier, setBlockedTier] = useState<FlowTier | null>(null);
+  // Whether this conversation has been counted against the quota; saved with the session
+  const [quotaCharged, setQuotaCharged] = useState(false);
+  // Attachment being rewritten in the output language, and those showing the original alongside
+  const [localizingMessageId, setLocalizingMessageId] = useState<string | null>(null);
+  const [comparingMessageIds, setComparingMessageIds] = useState<Set<string>>(() => new Set());
+  // Caret position in the input, which decides what the autocomplete offers
+  const [caret, setCaret] = useState(0);
+  const [suggestionIndex, setSuggestionIndex] = useState(0);
+  const [suggestionsDismissed, setSuggestionsDismissed] = useState(false);
+  // Saved prompts @mentioned in this chat, passed to generation as extra context
+  const [mentions, setMentions] = useState<LibraryEntry[]>([]);
+  // Stored copies of every branch once an answer has been edited; empty while there is just one
+  const [branches, setBranches] = useState<ChatBranch[]>([]);
+  const [branchId, setBranchId] = useState(createBranchId);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+  const [showBranchCompare, setShowBranchCompare] = useState(false);
+  // Attachment whose {{placeholders}} are being filled in
+  const [variablesMessage, setVariablesMessage] = useState<Message | null>(null);
   
   // Refs
+  const sessionCreatedAtRef = useRef(new Date());
+  // Last session reported through onSessionSaved; a resumed session is already saved
+  const savedSessionIdRef = useRef(resumeSessionId);
+  // Set once a resumed session has loaded, so merely opening it doesn't save it again
+  const skipRestoredSaveRef = useRef(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  // Controller for whatever is currently streaming into the chat
+  const streamControllerRef = useRef<AbortController | null>(null);
+  // Controller for the next question while the planner picks it
+  const questionPlanRef = useRef<AbortController | null>(null);
   const chatContainerRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
 
   const { toast } = useToast();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { entries: libraryEntries, addEntry: addLibraryEntry } = useLibrary();
+  const { feedbackById, templateScores, saveFeedback, deleteFeedback } = useFeedback();
+  const { quota, consume: consumeQuota } = useQuota();
+  const { outputLanguageId, outputLanguage, setOutputLanguageId } = useOutputLanguage();
+  const { setTargetModelId } = useTargetModel();
+  // Attachment messages already in the library
+  const savedMessageIds = useMemo(
+    () => new Set(libraryEntries.filter(entry => entry.sessionId === sessionId).map(entry => entry.messageId)),
+    [libraryEntries, sessionId]
+  );
+
+  // Parse every answer into the structured spec all tiers build from
+  const parsedSpec = useMemo(() => buildPromptSpec(
+    messages
+      .filter(msg => msg.sender === 'user' && !msg.skipped)
+      .map(msg => ({ field: msg.specField, text: msg.text }))
+  ), [messages]);
+  const spec = useMemo(() => mergeSpec(parsedSpec, specOverrides), [parsedSpec, specOverrides]);
+
+  // The active branch as it stands, in the shape it is stored in
+  const captureBranch = useCallback((): ChatBranch => ({
+    id: branchId,
+    createdAt: sessionCreatedAtRef.current,
+    ...branches.find(item => item.id === branchId),
+    // A pending "generating" message would block the resumed flow from generating again
+    messages: messages
+      .filter(msg => !msg.isGenerating)
+      .map(msg => ({ ...msg, isStreaming: false })),
+    userResponseCount,
+    currentPromptTier,
+    currentAttachment,
+    refreshCount,
+    specOverrides
+  }), [branches, branchId, messages, userResponseCount, currentPromptTier, currentAttachment, refreshCount, specOverrides]);
+
+  // Every branch in the order they were made, with the active one up to date
+  const branchList = useMemo(
+    () => (branches.length ? upsertBranch(branches, captureBranch()) : []),
+    [branches, captureBranch]
+  );
+  const editedMessageIds = useMemo(() => new Set(branchList.map(branch => branch.editedMessageId)), [branchList]);
 
   // Set initial message only once on component mount
   useEffect(() => {
@@ -141,6 +272,99 @@ const ChatUI = ({ onClose, initialMessage = '' }: ChatUIProps) => {
     }
   }, []);
 
+  // Resume a saved session at the tier and progress where it was left. Only while restoring: the
+  // sessionId prop changes again once this chat saves, and that must not reload it.
+  useEffect(() => {
+    if (!isRestoring || !resumeSessionId) return;
+    
+    let cancelled = false;
+    getSession(resumeSessionId)
+      .then(session => {
+        if (cancelled) return;
+        if (!session) {
+          toast({
+            title: t('chat.toast.sessionNotFound.title'),
+            description: t('chat.toast.sessionNotFound.description'),
+          });
+          setSessionId(createSessionId());
+          return;
+        }
+        
+        sessionCreatedAtRef.current = session.createdAt;
+        setFlowId(session.flowId);
+        setMessages(session.messages);
+        setUserResponseCount(session.userResponseCount);
+        setCurrentPromptTier(session.currentPromptTier);
+        setCurrentAttachment(session.currentAttachment);
+        setRefreshCount(session.refreshCount);
+        setSpecOverrides(session.specOverrides);
+        setBranches(session.branches || []);
+        if (session.activeBranchId) setBranchId(session.activeBranchId);
+        // Sessions saved before the flag was stored were counted if they have a prompt
+        setQuotaCharged(session.quotaCharged ?? session.currentPromptTier !== 'none');
+        skipRestoredSaveRef.current = true;
+      })
+      .catch(error => {
+        console.error('Failed to resume session:', error);
+        toast({
+          title: t('chat.toast.resumeFailed.title'),
+          description: t('chat.toast.resumeFailed.description'),
+        });
+      })
+      .finally(() => {
+        if (!cancelled) setIsRestoring(false);
+      });
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [isRestoring, resumeSessionId, t, toast]);
+
+  // The parent passes a fresh callback each render; reading the latest one keeps it from re-saving
+  const onSessionSavedRef = useRef(onSessionSaved);
+  onSessionSavedRef.current = onSessionSaved;
+
+  // Save the session whenever it changes; skipped mid-stream and before the first answer
+  useEffect(() => {
+    if (isRestoring) return;
+    // The first run after a resume only sees the loaded state, which is saved already
+    if (skipRestoredSaveRef.current) {
+      skipRestoredSaveRef.current = false;
+      return;
+    }
+    if (isTypingEffect || userResponseCount === 0) return;
+    
+    let cancelled = false;
+    const activeBranch = captureBranch();
+    saveSession({
+      id: sessionId,
+      title: spec.topic || t('chat.untitledSession'),
+      flowId: flow.id,
+      messages: activeBranch.messages,
+      userResponseCount,
+      currentPromptTier,
+      currentAttachment,
+      refreshCount,
+      specOverrides,
+      branches: branches.length ? upsertBranch(branches, activeBranch) : undefined,
+      activeBranchId: branches.length ? branchId : undefined,
+      quotaCharged,
+      createdAt: sessionCreatedAtRef.current,
+      updatedAt: new Date()
+    })
+      .then(() => {
+        // A later save reports it if this one was superseded or the chat has closed
+        if (cancelled || savedSessionIdRef.current === sessionId) return;
+        savedSessionIdRef.current = sessionId;
+        onSessionSavedRef.current?.(sessionId);
+      })
+      .catch(error => console.error('Failed to save session:', error));
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, isRestoring, isTypingEffect, messages, userResponseCount, currentPromptTier, currentAttachment, refreshCount, specOverrides, branches, branchId, quotaCharged, captureBranch, spec.topic, flow.id, t]);
+
   // Effect to auto-expand the input field
   useLayoutEffect(() => {
     if (inputRef.current) {
@@ -151,60 +375,55 @@ const ChatUI = ({ onClose, initialMessage = '' }: ChatUIProps) => {
     }
   }, [inputValue]);
 
-  // Effect to scroll to bottom of chat when new messages arrive
-  useEffect(() => {
-    scrollToBottom();
-
+  // Answer the user with the flow's next step, using this render's state. Read through a ref so
+  // the effect below only runs when an answer arrives, not on every render.
+  const runFlowStepRef = useRef<() => void>();
+  runFlowStepRef.current = () => {
     // Check if the last message was from the user
     const lastMessage = messages[messages.length - 1];
     const isLastMessageFromUser = lastMessage && lastMessage.sender === 'user';
     
     // Only proceed if the last message was from the user and we're not already loading or typing
-    if (isLastMessageFromUser && !isLoading && !isTypingEffect && userResponseCount > 0 && userResponseCount < TIER3_RESPONSES) {
-      // Determine which question to ask next
-      let nextQuestion = '';
-      let shouldShowNextQuestion = false;
-      
-      if (userResponseCount < TIER1_RESPONSES) {
-        nextQuestion = contextQuestions[userResponseCount - 1];
-        shouldShowNextQuestion = true;
-      } else if (userResponseCount === TIER1_RESPONSES) {
-        // Show generating message and then first tier prompt
-        generatePrompt('quick');
-        shouldShowNextQuestion = false;
-      } else if (userResponseCount < TIER2_RESPONSES) {
-        nextQuestion = deepDiveQuestions[userResponseCount - TIER1_RESPONSES - 1];
-        shouldShowNextQuestion = true;
-      } else if (userResponseCount === TIER2_RESPONSES) {
-        // Show generating message and then second tier prompt
-        generatePrompt('deepDive');
-        shouldShowNextQuestion = false;
-      } else if (userResponseCount < TIER3_RESPONSES) {
-        nextQuestion = crackedUpQuestions[userResponseCount - TIER2_RESPONSES - 1];
-        shouldShowNextQuestion = true;
-      } else if (userResponseCount === TIER3_RESPONSES) {
-        // Show generating message and then third tier prompt
-        generatePrompt('crackedUp');
-        shouldShowNextQuestion = false;
-      }
+    if (isLastMessageFromUser && !isLoading && !isTypingEffect && !isRestoring && userResponseCount > 0) {
+      // The active flow decides whether to ask its next question or generate a tier
+      const step = getFlowStep(flow, userResponseCount);
 
-      if (shouldShowNextQuestion && nextQuestion) {
-        // Adding a small delay to simulate typing
-        setTimeout(() => {
-          addSystemMessage(nextQuestion);
-        }, 800);
+      if (step?.type === 'generate') {
+        // Show generating message and then the tier's prompt
+        generatePrompt(step.tier);
+      } else if (step?.type === 'question') {
+        askNextQuestion(step.question);
       }
     }
-  }, [messages, userResponseCount]);
+  };
 
-  // Cleanup typing effect on unmount
+  // Effect to scroll to bottom of chat when new messages arrive
+  useEffect(() => {
+    scrollToBottom();
+    runFlowStepRef.current?.();
+  }, [messages, userResponseCount, isRestoring]);
+
+  // generatePrompt is rebuilt every render, so the effect below calls the latest one through a ref
+  const generatePromptRef = useRef<(tier: FlowTier) => void>();
+  generatePromptRef.current = tier => {
+    generatePrompt(tier);
+  };
+
+  // Pick a refused tier back up when the quota resets
+  useEffect(() => {
+    if (!blockedTier || !quota || !canUseMode(quota, flow.id)) return;
+    
+    setBlockedTier(null);
+    generatePromptRef.current?.(blockedTier);
+  }, [quota, blockedTier, flow.id]);
+
+  // Stop any live stream on unmount
   useEffect(() => {
     return () => {
-      if (typingIntervalId) {
-        clearInterval(typingIntervalId);
-      }
+      streamControllerRef.current?.abort();
+      questionPlanRef.current?.abort();
     };
-  }, [typingIntervalId]);
+  }, []);
 
   // Function to scroll to bottom of chat
   const scrollToBottom = () => {
@@ -213,26 +432,76 @@ const ChatUI = ({ onClose, initialMessage = '' }: ChatUIProps) => {
     }
   };
 
-  // Add a system message with typing effect
-  const addSystemMessage = (text: string) => {
-    // Clear any existing typing interval
-    if (typingIntervalId) {
-      clearInterval(typingIntervalId);
-      setTypingIntervalId(null);
+  // Append a streamed chunk to a message
+  const appendToMessage = (messageId: string, chunk: string) => {
+    setMessages(prev => prev.map(msg => 
+      msg.id === messageId 
+        ? { ...msg, text: msg.text + chunk } 
+        : msg
+    ));
+  };
+
+  // Replace an attachment's text with a linter fix, keeping the current attachment in step
+  const applyPromptFix = (message: Message, text: string) => {
+    setMessages(prev => prev.map(msg => msg.id === message.id ? { ...msg, text } : msg));
+    if (currentAttachment?.text === message.text) {
+      setCurrentAttachment({ ...currentAttachment, text });
     }
+  };
+
+  // Start a new stream, stopping the previous one (its partial text stays in place)
+  const beginStream = () => {
+    streamControllerRef.current?.abort();
+    const controller = new AbortController();
+    streamControllerRef.current = controller;
+    setIsTypingEffect(true);
+    return controller;
+  };
+
+  // Clear the typing state, unless a newer stream has already taken over
+  const endStream = (controller: AbortController) => {
+    if (streamControllerRef.current !== controller) return;
+    streamControllerRef.current = null;
+    setIsTypingEffect(false);
+    setTypingMessageId(null);
+  };
+
+  // Stop the live stream and keep what has arrived so far
+  const stopStreaming = () => {
+    streamControllerRef.current?.abort();
+  };
+
+  // Ask whichever question the planner finds most informative now, falling back to the flow's
+  // own question for this slot once everything it asks about is covered
+  const askNextQuestion = async (fallback: FlowQuestion) => {
+    questionPlanRef.current?.abort();
+    const controller = new AbortController();
+    questionPlanRef.current = controller;
     
-    // If already typing, finish the current typing first
-    if (isTypingEffect && typingMessageId) {
-      // Immediately finish current typing
-      setMessages(prev => prev.map(msg => 
-        msg.id === typingMessageId 
-          ? { ...msg, text: typingText } 
-          : msg
-      ));
-      setIsTypingEffect(false);
-      setTypingMessageId(null);
-    }
+    const askedFields = messages
+      .filter(msg => msg.sender === 'system' && msg.specField)
+      .map(msg => msg.specField!);
+    const [question] = await Promise.all([
+      planNextQuestion({ flow, responseCount: userResponseCount, spec, askedFields, signal: controller.signal }),
+      // A small delay to simulate typing
+      new Promise(resolve => setTimeout(resolve, 800))
+    ]);
     
+    // The user moved on (answered, restarted, switched branch) while the question was planned
+    if (controller.signal.aborted) return;
+    questionPlanRef.current = null;
+    addSystemMessage((question || fallback).text, (question || fallback).field);
+  };
+
+  // Drop a question that is still being planned
+  const cancelQuestionPlan = () => {
+    questionPlanRef.current?.abort();
+    questionPlanRef.current = null;
+  };
+
+  // Add a system message, streaming it into the bubble
+  const addSystemMessage = async (text: string, specField?: PromptSpecField) => {
+    const controller = beginStream();
     const messageId = Date.now().toString();
     
     // Add the message with empty text first
@@ -240,82 +509,171 @@ const ChatUI = ({ onClose, initialMessage = '' }: ChatUIProps) => {
       id: messageId,
       text: '',
       sender: 'system',
-      timestamp: new Date()
+      timestamp: new Date(),
+      specField
     }]);
-    
-    // Save the message ID being typed
     setTypingMessageId(messageId);
-    setTypingText('');
-    setIsTypingEffect(true);
     
-    // Animate typing effect - faster typing and limited total time
-    let index = 0;
-    const typeSpeed = 15; // Faster typing speed (ms per character)
-    const maxTypingDuration = 2000; // Maximum typing duration in ms
-    const startTime = Date.now();
+    for await (const chunk of textToStream(text, { signal: controller.signal })) {
+      appendToMessage(messageId, chunk);
+    }
     
-    const interval = setInterval(() => {
-      const elapsedTime = Date.now() - startTime;
-      
-      // Stop typing if max duration is reached or text is complete
-      if (index >= text.length || elapsedTime > maxTypingDuration) {
-        clearInterval(interval);
-        setTypingIntervalId(null);
-        setIsTypingEffect(false);
-        
-        // If max duration reached before typing completes, show full text immediately
-        setMessages(prev => prev.map(msg => 
-          msg.id === messageId 
-            ? { ...msg, text: text } 
-            : msg
-        ));
-        
-        setTypingMessageId(null);
+    endStream(controller);
+  };
+
+  // Stream a generated prompt into a new attachment message as the provider produces it
+  const streamAttachment = async (tier: FlowTier, isRefresh: boolean, onFirstChunk?: () => void) => {
+    const { level } = tier;
+    const controller = beginStream();
+    const attachmentId = `${Date.now()}-attachment`;
+    const references = mentions.map(({ title, text }) => ({ title, text }));
+    let hasStarted = false;
+    
+    const result = await streamPromptText({
+      spec,
+      level,
+      isRefresh,
+      templates: tier.templates,
+      templateScores,
+      references,
+      signal: controller.signal
+    }, (chunk) => {
+      if (hasStarted) {
+        appendToMessage(attachmentId, chunk);
         return;
       }
       
-      setTypingText(prev => prev + text[index]);
-      index++;
-    }, typeSpeed);
+      hasStarted = true;
+      onFirstChunk?.();
+      setTypingMessageId(attachmentId);
+      setMessages(prev => [...prev, {
+        id: attachmentId,
+        text: chunk,
+        sender: 'attachment',
+        timestamp: new Date(),
+        promptLevel: level,
+        isStreaming: true
+      }]);
+    });
+    
+    // Restructure the finished prompt for the target model; partial prompts stay as streamed
+    const targetModel = getTargetModel(targetModelId);
+    if (targetModel && result.text && !result.stopped) {
+      result.text = formatPromptForTarget(result.text, spec, targetModel, references);
+    }
     
-    // Save interval ID for cleanup
-    setTypingIntervalId(interval);
+    // Rewrite the finished prompt in the output language, keeping the original to compare against
+    let sourceText: string | undefined;
+    if (outputLanguage && result.text && !result.stopped) {
+      setLocalizingMessageId(attachmentId);
+      const localized = await localizePromptText({
+        spec,
+        level,
+        localize: { text: result.text, language: outputLanguage },
+        signal: controller.signal
+      });
+      setLocalizingMessageId(null);
+      
+      if (localized.stopped) {
+        result.stopped = true;
+      } else if (localized.source === 'template') {
+        // Only an instruction to answer in the language was added, so there's no rewrite to
+        // label or compare
+        result.text = localized.text;
+        if (!localized.error) {
+          toast({
+            title: t('chat.toast.languageDirective.title'),
+            description: t('chat.toast.languageDirective.description', { language: outputLanguage.nativeName }),
+          });
+        }
+      } else {
+        sourceText = result.text;
+        result.text = localized.text;
+      }
+      if (localized.error) {
+        toast({
+          title: t('chat.toast.localizeFailed.title'),
+          description: t('chat.toast.localizeFailed.description', { language: outputLanguage.nativeName }),
+        });
+      }
+    }
+    
+    setMessages(prev => prev.map(msg => 
+      msg.id === attachmentId 
+        ? {
+            ...msg,
+            text: result.text || msg.text,
+            isStreaming: false,
+            targetModelId: targetModel?.id,
+            outputLanguage: sourceText ? outputLanguage?.id : undefined,
+            sourceText,
+            source: result.source,
+            templateId: result.templateId
+          }
+        : msg
+    ));
+    endStream(controller);
+    
+    if (result.stopped) {
+      toast({
+        title: t('chat.toast.stopped.title'),
+        description: result.text ? t('chat.toast.stopped.kept') : t('chat.toast.stopped.empty'),
+      });
+    } else if (result.error) {
+      toast({
+        title: result.source === 'template' ? t('chat.toast.offline.title') : t('chat.toast.interrupted.title'),
+        description: result.source === 'template'
+          ? t('chat.toast.offline.description')
+          : t('chat.toast.interrupted.description'),
+      });
+    }
+    
+    return result;
+  };
+
+  // Spec field of the question the user is answering, if the latest system message asked one
+  const getPendingQuestionField = () => {
+    for (let i = messages.length - 1; i >= 0; i--) {
+      const message = messages[i];
+      if (message.sender === 'user') return undefined;
+      if (message.sender === 'system' && message.specField) return message.specField;
+    }
+    return undefined;
   };
 
+  // The topic can't be skipped: nothing can be generated without it
+  const pendingQuestionField = getPendingQuestionField();
+  // Typed text long enough to be worth scoring as a prompt
+  const showInputScore = inputValue.trim().split(/\s+/).length >= 4;
+  const canSkipQuestion = !!pendingQuestionField && pendingQuestionField !== 'topic' && !isLoading && !isRestoring;
+
   // Function to handle sending a message
   const handleSendMessage = () => {
-    if (!inputValue.trim() || isLoading) return;
-    
-    // If system is typing, complete the typing immediately
-    if (isTypingEffect && typingMessageId) {
-      // Clear typing interval
-      if (typingIntervalId) {
-        clearInterval(typingIntervalId);
-        setTypingIntervalId(null);
-      }
-      
-      // Complete the current message
-      const currentTypingMessage = messages.find(m => m.id === typingMessageId);
-      if (currentTypingMessage) {
-        setMessages(prev => prev.map(msg => 
-          msg.id === typingMessageId 
-            ? { ...msg, text: typingText } 
-            : msg
-        ));
-      }
-      
-      setIsTypingEffect(false);
-      setTypingMessageId(null);
+    if (!inputValue.trim() || isLoading || isRestoring) return;
+    
+    // "/tone formal" and friends act on the chat instead of answering the question
+    const slashCommand = parseSlashCommand(inputValue);
+    if (slashCommand) {
+      setInputValue('');
+      runSlashCommand(slashCommand);
+      return;
+    }
+    
+    // If the system is still typing, stop there and keep what has been shown
+    if (isTypingEffect) {
+      stopStreaming();
     }
     
     const newUserMessage: Message = {
       id: Date.now().toString(),
       text: inputValue.trim(),
       sender: 'user',
-      timestamp: new Date()
+      timestamp: new Date(),
+      specField: getPendingQuestionField()
     };
     
     // Add user message
+    cancelQuestionPlan();
     setMessages(prev => [...prev, newUserMessage]);
     
     // Clear input field immediately after sending
@@ -324,11 +682,33 @@ const ChatUI = ({ onClose, initialMessage = '' }: ChatUIProps) => {
     setUserResponseCount(prev => prev + 1);
     
     // Track message sent
-    trackAnalyticsEvent('chat', 'message_sent', chatMode);
+    trackAnalyticsEvent('chat', 'message_sent', flow.id);
+  };
+
+  // Move past the pending question without answering it; its spec field stays as it is
+  const skipQuestion = () => {
+    if (!canSkipQuestion) return;
+    
+    if (isTypingEffect) {
+      stopStreaming();
+    }
+    
+    cancelQuestionPlan();
+    setMessages(prev => [...prev, {
+      id: Date.now().toString(),
+      text: t('chat.skipped'),
+      sender: 'user',
+      timestamp: new Date(),
+      specField: pendingQuestionField,
+      skipped: true
+    }]);
+    setUserResponseCount(prev => prev + 1);
+    
+    trackAnalyticsEvent('chat', 'question_skipped', flow.id);
   };
 
   // Function to handle refreshing prompt
-  const handleRefreshPrompt = () => {
+  const handleRefreshPrompt = async () => {
     if (!currentAttachment || refreshCount >= MAX_REFRESHES) return;
     
     setRefreshCount(prev => prev + 1);
@@ -338,71 +718,299 @@ const ChatUI = ({ onClose, initialMessage = '' }: ChatUIProps) => {
     trackAnalyticsEvent('engagement', 'prompt_refreshed', currentAttachment.level);
     
     // Add a system message indicating we're refreshing
-    addSystemMessage("Refreshing your prompt...");
+    await addSystemMessage(t('chat.refreshing'));
     
-    setTimeout(() => {
-      const refreshedPrompt = getPrompt(currentAttachment.level, true);
-      
-      // Update the attachment
-      setCurrentAttachment({
-        ...currentAttachment,
-        text: refreshedPrompt
-      });
-      
-      // Add the refreshed prompt as a new attachment message
-      const newAttachmentMessage: Message = {
-        id: Date.now().toString(),
-        text: refreshedPrompt,
-        sender: 'attachment',
-        timestamp: new Date(),
-        promptLevel: currentAttachment.level
-      };
-      
-      setMessages(prev => [...prev, newAttachmentMessage]);
+    const tier = getFlowTier(flow, currentAttachment.level);
+    if (!tier) {
       setIsLoading(false);
-      
+      return;
+    }
+    
+    const { text: refreshedPrompt, stopped } = await streamAttachment(tier, true);
+    setIsLoading(false);
+    
+    if (!refreshedPrompt) return;
+    
+    // Update the attachment
+    setCurrentAttachment({
+      ...currentAttachment,
+      text: refreshedPrompt
+    });
+    
+    if (!stopped) {
       toast({
-        title: "Prompt refreshed!",
-        description: "Here's a new take on your request.",
+        title: t('chat.toast.refreshed.title'),
+        description: t('chat.toast.refreshed.description'),
       });
-    }, 2000);
+    }
+  };
+
+  // Show or hide the original prompt next to its rewrite in the output language
+  const toggleCompare = (messageId: string) => {
+    setComparingMessageIds(prev => {
+      const next = new Set(prev);
+      if (!next.delete(messageId)) next.add(messageId);
+      return next;
+    });
   };
 
   // Function to handle copying prompt to clipboard
-  const copyPromptToClipboard = () => {
-    if (!currentAttachment) return;
-    
-    navigator.clipboard.writeText(currentAttachment.text)
+  // Copy a prompt: the card's own, so older cards in the chat copy what they show
+  const copyPromptToClipboard = (text: string, level?: PromptLevel) => {
+    navigator.clipboard.writeText(text)
       .then(() => {
         // Track copy event
-        trackAnalyticsEvent('engagement', 'prompt_copied', currentAttachment.level);
+        trackAnalyticsEvent('engagement', 'prompt_copied', level ?? 'none');
         
         toast({
-          title: "Copied to clipboard!",
-          description: "Your prompt is ready to use.",
+          title: t('common.copiedToClipboard'),
+          description: t('common.promptReady'),
         });
       })
       .catch(err => {
         console.error('Failed to copy: ', err);
         toast({
-          title: "Copy failed",
-          description: "Please try again or copy manually.",
+          title: t('common.copyFailed.title'),
+          description: t('common.copyFailed.description'),
+          variant: "destructive",
+        });
+      });
+  };
+
+  // Keep an attachment in the prompt library, linked back to this session
+  const saveToLibrary = (message: Message) => {
+    const level = message.promptLevel;
+    if (!level || savedMessageIds.has(message.id)) return;
+    
+    const tierLabel = getFlowTier(flow, level)?.label || t('chat.prompt');
+    addLibraryEntry({
+      title: spec.topic ? `${spec.topic} – ${tierLabel}` : tierLabel,
+      text: message.text,
+      level,
+      targetModelId: message.targetModelId,
+      sessionId,
+      messageId: message.id,
+      ownerId: user?.id
+    })
+      .then(() => {
+        trackAnalyticsEvent('engagement', 'prompt_saved', level);
+        
+        toast({
+          title: t('chat.savedToLibrary'),
+          description: t('chat.toast.saved.description'),
+          action: (
+            <ToastAction altText={t('chat.toast.saved.actionLabel')} onClick={() => navigate('/library')}>
+              {t('chat.toast.saved.action')}
+            </ToastAction>
+          ),
+        });
+      })
+      .catch(error => {
+        console.error('Failed to save to library:', error);
+        toast({
+          title: t('chat.toast.saveFailed.title'),
+          description: t('common.storageUnavailable'),
+          variant: "destructive",
+        });
+      });
+  };
+
+  // Publish an attachment at /p/:shareId and copy the link
+  const sharePrompt = (message: Message) => {
+    const level = message.promptLevel;
+    if (!level) return;
+    
+    const tierLabel = getFlowTier(flow, level)?.label || t('chat.prompt');
+    createShare({
+      title: spec.topic ? `${spec.topic} – ${tierLabel}` : tierLabel,
+      text: message.text,
+      level,
+      targetModelId: message.targetModelId
+    })
+      .then(share => {
+        const url = getShareUrl(share.id);
+        trackAnalyticsEvent('engagement', 'prompt_shared', level);
+        
+        return navigator.clipboard.writeText(url)
+          .then(() => toast({ title: t('chat.toast.shareCopied'), description: url }))
+          .catch(() => toast({ title: t('chat.toast.shareReady'), description: url }));
+      })
+      .catch(error => {
+        console.error('Failed to share prompt:', error);
+        toast({
+          title: t('chat.toast.shareFailed.title'),
+          description: t('chat.toast.shareFailed.description'),
           variant: "destructive",
         });
       });
   };
 
-  // Function to generate prompts based on level
-  const generatePrompt = (level: 'quick' | 'deepDive' | 'crackedUp') => {
+  // Record a like or dislike for an attachment, replacing any earlier rating
+  const ratePrompt = (message: Message, rating: FeedbackRating, reasons: DislikeReason[]) => {
+    const level = message.promptLevel;
+    if (!level) return;
+    
+    const isNewRating = feedbackById.get(message.id)?.rating !== rating;
+    saveFeedback({
+      id: message.id,
+      rating,
+      reasons,
+      promptText: message.text,
+      level,
+      source: message.source,
+      templateId: message.templateId,
+      flowId: flow.id,
+      sessionId,
+      targetModelId: message.targetModelId,
+      createdAt: new Date()
+    })
+      .then(() => {
+        if (isNewRating) {
+          trackAnalyticsEvent('feedback', `prompt_${rating}d`, level);
+        }
+      })
+      .catch(error => console.error('Failed to save feedback:', error));
+  };
+
+  const clearPromptRating = (message: Message) => {
+    deleteFeedback(message.id).catch(error => console.error('Failed to remove feedback:', error));
+  };
+
+  // Download all recorded ratings as JSON
+  const handleExportFeedback = () => {
+    exportFeedback()
+      .then(count => {
+        toast({
+          title: count ? t('feedback.exported.title') : t('feedback.none.title'),
+          description: count
+            ? t('feedback.exported.description', { count })
+            : t('feedback.none.description'),
+        });
+      })
+      .catch(error => {
+        console.error('Failed to export feedback:', error);
+        toast({
+          title: t('feedback.exportFailed.title'),
+          description: t('common.storageUnavailable'),
+          variant: "destructive",
+        });
+      });
+  };
+
+  // Record a manual edit from the prompt details panel
+  const handleSpecChange = (field: PromptSpecField | 'notes', value: string) => {
+    setSpecOverrides(prev => ({
+      ...prev,
+      [field]: field === 'notes' ? value.split('\n') : value
+    }));
+  };
+
+  // Clear the chat into a fresh session; the previous one stays saved
+  const startNewSession = (nextFlow: FlowDefinition) => {
+    cancelQuestionPlan();
+    setSessionId(createSessionId());
+    onNewSession?.(nextFlow.id);
+    sessionCreatedAtRef.current = new Date();
+    setMessages([createGreeting(nextFlow)]);
+    setSpecOverrides({});
+    setUserResponseCount(0);
+    setCurrentPromptTier('none');
+    setCurrentAttachment(null);
+    setRefreshCount(0);
+    setBlockedTier(null);
+    setQuotaCharged(false);
+    setMentions([]);
+    setBranches([]);
+    setBranchId(createBranchId());
+    setEditingMessageId(null);
+  };
+
+  // Put a stored branch's conversation on screen
+  const loadBranchState = (state: ChatBranchState) => {
+    cancelQuestionPlan();
+    setMessages(state.messages);
+    setUserResponseCount(state.userResponseCount);
+    setCurrentPromptTier(state.currentPromptTier);
+    setCurrentAttachment(state.currentAttachment);
+    setRefreshCount(state.refreshCount);
+    setSpecOverrides(state.specOverrides);
+    setBlockedTier(null);
+  };
+
+  // Replace an earlier answer and carry on from there in a new branch; the old branch is kept
+  const handleEditMessage = (messageId: string, text: string) => {
+    setEditingMessageId(null);
+    const original = messages.find(msg => msg.id === messageId);
+    if (!original || !text.trim() || text.trim() === original.text || isLoading || isRestoring) return;
+    
+    const fork = forkConversation(messages, messageId, text.trim());
+    if (!fork) return;
+    
+    stopStreaming();
+    const branch: ChatBranch = {
+      ...fork,
+      id: createBranchId(),
+      parentId: branchId,
+      editedMessageId: fork.messages[fork.messages.length - 1].id,
+      specOverrides,
+      createdAt: new Date()
+    };
+    setBranches(prev => upsertBranch(upsertBranch(prev, captureBranch()), branch));
+    setBranchId(branch.id);
+    loadBranchState(branch);
+    
+    trackAnalyticsEvent('chat', 'answer_edited', flow.id);
+  };
+
+  const switchBranch = (nextBranchId: string) => {
+    const next = branches.find(item => item.id === nextBranchId);
+    if (!next || next.id === branchId || isLoading) return;
+    
+    stopStreaming();
+    setBranches(prev => upsertBranch(prev, captureBranch()));
+    setBranchId(next.id);
+    loadBranchState(next);
+  };
+
+  const getBranchLabel = (branch: ChatBranch, index: number) => {
+    const edited = branch.messages.find(msg => msg.id === branch.editedMessageId);
+    return edited ? t('chat.branches.edit', { number: index, text: edited.text }) : t('chat.branches.original');
+  };
+
+  // Switch to another mode, starting the conversation over
+  const handleFlowChange = (nextFlowId: string) => {
+    const nextFlow = flows.find(item => item.id === nextFlowId);
+    if (!nextFlow || nextFlow.id === flow.id) return;
+    
+    stopStreaming();
+    setFlowId(nextFlow.id);
+    startNewSession(nextFlow);
+    
+    trackAnalyticsEvent('interaction', 'mode_change', `switched_to_${nextFlow.id}`);
+  };
+
+  // Function to generate the prompt for a tier of the active flow
+  const generatePrompt = async (tier: FlowTier) => {
+    const { level, generatingMessage, completionMessage } = tier;
     setIsLoading(true);
-    setCurrentPromptTier(level);
     
-    // Add a system message about generating the prompt
-    const generatingMessage = level === 'quick' 
-      ? "Processing your Quick Prompt..." 
-      : level === 'deepDive' 
-        ? "Processing your Deep Dive Prompt..." 
-        : "Cracking it wide open...";
+    // A conversation counts once against today's quota for its mode, when its first prompt is
+    // generated; the deeper tiers that follow are part of the same use
+    if (!quotaCharged) {
+      if (!(await consumeQuota(flow.id))) {
+        setIsLoading(false);
+        setBlockedTier(tier);
+        onQuotaExceeded?.();
+        toast({
+          title: t('chat.toast.quota.title'),
+          description: t('chat.toast.quota.description'),
+        });
+        return;
+      }
+      setQuotaCharged(true);
+    }
+    
+    setCurrentPromptTier(level);
     
     // Add the "generating" message
     const genMsgId = Date.now().toString();
@@ -414,102 +1022,298 @@ const ChatUI = ({ onClose, initialMessage = '' }: ChatUIProps) => {
       isGenerating: true
     }]);
     
-    // Set a timeout to simulate generation
-    const generationTime = 
-      level === 'quick' ? 2000 : 
-      level === 'deepDive' ? 3000 : 
-      4000;
-      
-    setTimeout(() => {
-      // Remove the generating message
-      setMessages(prev => prev.filter(msg => msg.id !== genMsgId));
-      
-      // Generate the prompt
-      const promptText = getPrompt(level);
-      
-      // Set the current attachment
-      setCurrentAttachment({
-        text: promptText,
-        level: level,
-        refreshCount: 0
-      });
-      
-      // Reset refresh count for new prompt level
-      setRefreshCount(0);
-      
-      // Add completion message
-      const completionMessage = level === 'quick' 
-        ? "Here's your Quick Prompt! Copy it or let's refine it further!" 
-        : level === 'deepDive' 
-          ? "Here's your Deep Dive Prompt! Getting more detailed now. Keep chatting for our most advanced prompt." 
-          : "Here's your Cracked AF Prompt! This is our most advanced prompt based on our full conversation.";
-          
-      addSystemMessage(completionMessage);
-      
-      // Add the prompt as an attachment message
-      setTimeout(() => {
-        const newAttachmentMessage: Message = {
-          id: Date.now().toString(),
-          text: promptText,
-          sender: 'attachment',
-          timestamp: new Date(),
-          promptLevel: level
-        };
-        
-        setMessages(prev => [...prev, newAttachmentMessage]);
-        setIsLoading(false);
-        
-        // Track prompt generation
-        trackAnalyticsEvent('chat', 'prompt_generated', level);
-      }, 800);
-    }, generationTime);
-  };
-
-  // Function to get prompt text based on level and user messages
-  const getPrompt = (level: 'quick' | 'deepDive' | 'crackedUp', isRefresh: boolean = false) => {
-    // Get all user messages
-    const userMessages = messages
-      .filter(msg => msg.sender === 'user')
-      .map(msg => msg.text);
-      
-    const userTopic = userMessages[0] || 'your topic';
-    
-    // Different prompt templates based on level
-    if (level === 'quick') {
-      const quickPrompts = [
-        `Here's a straightforward prompt about ${userTopic}:\n\nCreate a detailed guide that explains ${userTopic} with clear examples and step-by-step instructions. Include practical tips for beginners and address common misconceptions.`,
-        `Quick Prompt for ${userTopic}:\n\nDevelop a comprehensive overview of ${userTopic} that highlights key concepts, historical context, and modern applications. Include specific examples and resources for further learning.`,
-        `Your Quick Prompt is ready:\n\nCraft an informative piece about ${userTopic} that balances technical accuracy with accessibility. Structure it with a clear introduction, main sections covering key aspects, and a conclusion with actionable takeaways.`
-      ];
-      
-      // Choose a random prompt template for refreshes, or the first one by default
-      return isRefresh 
-        ? quickPrompts[Math.floor(Math.random() * quickPrompts.length)]
-        : quickPrompts[0];
-    } 
-    else if (level === 'deepDive') {
-      return `Deep Dive Prompt for ${userTopic}:\n\nCreate an in-depth analysis of ${userTopic} that explores nuanced perspectives and interconnected themes. Incorporate relevant theoretical frameworks, challenge conventional wisdom, and propose innovative approaches. Address both practical applications and philosophical implications, while considering diverse viewpoints and potential criticisms.\n\nStructure your response with:\n- A compelling introduction that establishes the significance of ${userTopic}\n- Clearly defined sections that progressively build understanding\n- Evidence-based arguments supported by examples and case studies\n- A conclusion that synthesizes insights and invites further exploration`;
-    } 
-    else {
-      return `Cracked AF Prompt for ${userTopic}:\n\nDevelop a boundary-pushing exploration of ${userTopic} that transcends conventional thinking and reveals unexpected connections. Interrogate fundamental assumptions, synthesize seemingly contradictory perspectives, and generate transformative insights.\n\nYour response should:\n- Reframe ${userTopic} through multiple intellectual traditions and disciplines\n- Identify hidden patterns and counterintuitive dynamics\n- Propose paradigm-shifting frameworks that generate new possibilities\n- Balance intellectual rigor with creative speculation\n- Anticipate future developments and emerging challenges\n\nIncorporate relevant tensions between theory and practice, individual and collective perspectives, historical precedents and future possibilities. The goal is not merely to explain ${userTopic}, but to fundamentally reimagine it.`;
+    // Stream the prompt from the configured provider (falls back to the offline templates).
+    // Once the first chunk arrives, swap the "generating" message for the completion message.
+    const { text: promptText } = await streamAttachment(tier, false, () => {
+      setMessages(prev => [
+        ...prev.filter(msg => msg.id !== genMsgId),
+        {
+          id: `${Date.now()}-complete`,
+          text: completionMessage,
+          sender: 'system',
+          timestamp: new Date()
+        }
+      ]);
+    });
+    
+    // Remove the generating message if nothing arrived
+    setMessages(prev => prev.filter(msg => msg.id !== genMsgId));
+    setIsLoading(false);
+    
+    if (!promptText) return;
+    
+    // Set the current attachment
+    setCurrentAttachment({
+      text: promptText,
+      level: level,
+      refreshCount: 0
+    });
+    
+    // Reset refresh count for new prompt level
+    setRefreshCount(0);
+    
+    // Track prompt generation
+    trackAnalyticsEvent('chat', 'prompt_generated', level);
+  };
+
+  // Generate any tier from what has been collected so far. The question ladder moves on to the
+  // tier's position, so the chat carries on past it instead of generating it again later.
+  const generateNow = (tier: FlowTier) => {
+    if (isLoading || isRestoring) return;
+    if (!spec.topic) {
+      toast({ title: t('chat.slash.needTopic') });
+      return;
+    }
+    
+    stopStreaming();
+    cancelQuestionPlan();
+    if (userResponseCount < tier.responses) {
+      trackAnalyticsEvent('chat', 'prompt_generated_early', tier.level);
     }
+    setUserResponseCount(prev => Math.max(prev, tier.responses));
+    generatePrompt(tier);
+  };
+
+  // Point the chat at another target model; null formats for no particular model
+  const applyTargetModel = (modelId: string | null) => {
+    setTargetModelId(modelId);
+    toast({
+      title: modelId
+        ? t('chat.slash.modelSet', { model: getTargetModel(modelId)?.label ?? modelId })
+        : t('chat.slash.modelCleared'),
+    });
+  };
+
+  const runSlashCommand = ({ command, argument }: ParsedSlashCommand) => {
+    switch (command.name) {
+      case 'tone':
+      case 'audience': {
+        const field = command.name;
+        if (!argument) {
+          toast({ title: t('chat.slash.needValue', { command: `/${field}` }) });
+          return;
+        }
+        setSpecOverrides(prev => ({ ...prev, [field]: argument }));
+        toast({ title: t('chat.slash.fieldSet', { field: t(`spec.${field}.label`), value: argument }) });
+        return;
+      }
+      case 'generate': {
+        // The tier named, else the one being worked towards, or the last once everything is unlocked
+        const tier = argument
+          ? matchFlowTier(flow.tiers, argument)
+          : getTierProgress(flow, userResponseCount).nextTier || flow.tiers[flow.tiers.length - 1];
+        if (!tier) {
+          toast({
+            title: t('chat.slash.unknownTier', { tier: argument }),
+            description: t('chat.slash.tierOptions', { tiers: flow.tiers.map(item => item.label).join(', ') }),
+          });
+          return;
+        }
+        generateNow(tier);
+        return;
+      }
+      case 'skip':
+        if (!canSkipQuestion) {
+          toast({ title: t('chat.slash.nothingToSkip') });
+          return;
+        }
+        skipQuestion();
+        return;
+      case 'restart':
+        stopStreaming();
+        startNewSession(flow);
+        return;
+      case 'model': {
+        const model = matchTargetModel(argument);
+        if (model === undefined) {
+          toast({
+            title: t('chat.slash.unknownModel', { model: argument }),
+            description: t('chat.slash.modelOptions', { models: TARGET_MODELS.map(item => item.label).join(', ') }),
+          });
+          return;
+        }
+        applyTargetModel(model?.id ?? null);
+        return;
+      }
+    }
+  };
+
+  // Autocomplete for whatever is being typed before the caret: a command, a model, or an @mention
+  const inputTrigger = suggestionsDismissed ? null : getInputTrigger(inputValue, caret);
+  const buildSuggestions = (): (InputSuggestion & { apply: () => void })[] => {
+    if (!inputTrigger) return [];
+
+    const replaceInput = (value: string) => {
+      setInputValue(value);
+      setCaret(value.length);
+    };
+
+    if (inputTrigger.kind === 'command') {
+      return SLASH_COMMANDS
+        .filter(command => command.name.startsWith(inputTrigger.query))
+        .map(command => ({
+          id: `command-${command.name}`,
+          label: `/${command.name}`,
+          description: t(`chat.slash.${command.name}`),
+          // Commands that take a value wait for it; the others run straight away
+          apply: () => {
+            if (command.argument) {
+              replaceInput(`/${command.name} `);
+            } else {
+              replaceInput('');
+              runSlashCommand({ command, argument: '' });
+            }
+          }
+        }));
+    }
+
+    if (inputTrigger.kind === 'model') {
+      return [
+        ...TARGET_MODELS.map(model => ({ id: model.id, label: model.label, description: model.provider })),
+        { id: '', label: t('chat.slash.noModel'), description: '/model none' }
+      ]
+        .filter(({ label, description }) =>
+          [label, description].some(name => name.toLowerCase().startsWith(inputTrigger.query)))
+        .map(option => ({
+          ...option,
+          id: `model-${option.id || 'none'}`,
+          apply: () => {
+            replaceInput('');
+            applyTargetModel(option.id || null);
+          }
+        }));
+    }
+
+    const mentionedIds = new Set(mentions.map(entry => entry.id));
+    return libraryEntries
+      .filter(entry => !mentionedIds.has(entry.id) && entry.title.toLowerCase().includes(inputTrigger.query))
+      .slice(0, MAX_MENTION_SUGGESTIONS)
+      .map(entry => ({
+        id: `mention-${entry.id}`,
+        label: entry.title,
+        description: entry.tags.length ? entry.tags.map(tag => `#${tag}`).join(' ') : entry.folder || undefined,
+        // Cut "@query" out of the input and keep the entry as context instead
+        apply: () => {
+          replaceInput(`${inputValue.slice(0, inputTrigger.start)}${inputValue.slice(caret)}`);
+          setMentions(prev => [...prev, entry]);
+        }
+      }));
+  };
+  const suggestions = buildSuggestions();
+  const showSuggestions = suggestions.length > 0;
+  const activeSuggestion = Math.min(suggestionIndex, suggestions.length - 1);
+
+  const applySuggestion = (index: number) => {
+    suggestions[index]?.apply();
+    setSuggestionIndex(0);
+    inputRef.current?.focus();
   };
 
   // Handle input changes
   const handleInputChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     setInputValue(e.target.value);
+    setCaret(e.target.selectionStart);
+    setSuggestionIndex(0);
+    setSuggestionsDismissed(false);
   };
 
-  // Handle key press (Enter to send, Shift+Enter for new line)
+  // Handle key press (Enter to send, Shift+Enter for new line); while the autocomplete is
+  // open, the arrows move through it, Enter or Tab picks and Escape closes it
   const handleKeyPress = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (showSuggestions) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setSuggestionIndex((activeSuggestion + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if ((e.key === 'Enter' && !e.shiftKey) || e.key === 'Tab') {
+        e.preventDefault();
+        applySuggestion(activeSuggestion);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setSuggestionsDismissed(true);
+        return;
+      }
+    }
+    
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSendMessage();
     }
   };
 
-  // Get corresponding theme based on current mode
-  const theme = modeThemes[chatMode];
+  // Offer this chat's actions in the command palette while it is open
+  useRegisterCommands([
+    {
+      id: 'chat.startOver',
+      group: 'chat',
+      label: t('commands.startOver', { mode: flow.name }),
+      keywords: ['new', 'reset'],
+      icon: RefreshCw,
+      perform: () => {
+        stopStreaming();
+        startNewSession(flow);
+      }
+    },
+    ...(currentAttachment ? [{
+      id: 'chat.copy',
+      group: 'chat',
+      label: t('commands.copyPrompt'),
+      keywords: ['clipboard'],
+      icon: Copy,
+      perform: () => copyPromptToClipboard(currentAttachment.text, currentAttachment.level)
+    }] satisfies PaletteCommand[] : []),
+    ...(currentAttachment && !isLoading && refreshCount < MAX_REFRESHES ? [{
+      id: 'chat.refresh',
+      group: 'chat',
+      label: t('commands.refreshPrompt'),
+      keywords: ['regenerate', 'again'],
+      icon: Sparkles,
+      perform: handleRefreshPrompt
+    }] satisfies PaletteCommand[] : []),
+    ...(canSkipQuestion ? [{
+      id: 'chat.skip',
+      group: 'chat',
+      label: t('commands.skipQuestion'),
+      icon: SkipForward,
+      perform: skipQuestion
+    }] satisfies PaletteCommand[] : []),
+    ...(spec.topic ? flow.tiers.map((tier): PaletteCommand => ({
+      id: `chat.generate.${tier.level}`,
+      group: 'chat',
+      label: t('commands.generateNow', { tier: tier.label }),
+      keywords: ['generate', 'skip'],
+      icon: FastForward,
+      perform: () => generateNow(tier)
+    })) : []),
+    ...(branchList.length > 1 ? [{
+      id: 'chat.compareBranches',
+      group: 'chat',
+      label: t('commands.compareBranches'),
+      keywords: ['branch', 'edit'],
+      icon: GitBranch,
+      perform: () => setShowBranchCompare(true)
+    }] satisfies PaletteCommand[] : []),
+    ...flows
+      .filter(item => item.id !== flow.id)
+      .map((item): PaletteCommand => ({
+        id: `modes.${item.id}`,
+        group: 'modes',
+        label: t('commands.switchMode', { mode: item.name }),
+        keywords: item.description ? [item.description] : undefined,
+        icon: FLOW_ICONS[item.icon],
+        perform: () => handleFlowChange(item.id)
+      }))
+  ]);
+
+  // Get corresponding theme and progress for the active flow
+  const theme = flow.theme;
+  const progress = getTierProgress(flow, userResponseCount);
+  const context = getContextProgress(flow, spec);
+  const FlowIcon = FLOW_ICONS[flow.icon];
 
   return (
     <motion.div 
@@ -522,228 +1326,582 @@ const ChatUI = ({ onClose, initialMessage = '' }: ChatUIProps) => {
         duration: 0.3, 
         ease: [0.19, 1.0, 0.22, 1.0] // Apple-like easing
       }}
-      className="w-full max-w-3xl mx-auto bg-white rounded-2xl shadow-xl overflow-hidden border border-gray-200 chat-container"
+      className="w-full max-w-3xl mx-auto bg-background rounded-2xl shadow-xl overflow-hidden border border-border chat-container flow-theme"
+      style={getFlowThemeStyle(theme)}
     >
       {/* Chat Header */}
       <div 
-        className="flex items-center justify-between p-4 border-b border-gray-100 sticky top-0 z-10"
-        style={{ backgroundColor: theme.lightBg }}
+        className="flex items-center justify-between p-4 border-b border-border sticky top-0 z-10 bg-[var(--flow-surface)]"
       >
         <div className="flex items-center">
-          <button 
-            onClick={onClose} 
-            className="mr-4 p-1 rounded-full hover:bg-gray-100 transition-colors"
-            aria-label="Close chat"
-          >
-            <X className="w-5 h-5 text-gray-600" />
-          </button>
+          {onClose && (
+            <button 
+              onClick={onClose} 
+              className="me-4 p-1 rounded-full hover:bg-muted transition-colors"
+              aria-label={t('chat.close')}
+            >
+              <X className="w-5 h-5 text-muted-foreground" />
+            </button>
+          )}
           <div>
-            <h3 className="font-semibold text-gray-800">Cracked Prompts</h3>
-            <div className="flex items-center text-sm text-gray-500">
-              {currentPromptTier === 'none' && userResponseCount > 0 && 
-                <span>Context: {userResponseCount}/{TIER1_RESPONSES} responses collected</span>
-              }
-              {currentPromptTier === 'quick' && 
-                <span>Context: {Math.min(userResponseCount - TIER1_RESPONSES, TIER2_RESPONSES - TIER1_RESPONSES)}/{TIER2_RESPONSES - TIER1_RESPONSES} responses collected</span>
-              }
-              {currentPromptTier === 'deepDive' && 
-                <span>Context: {Math.min(userResponseCount - TIER2_RESPONSES, TIER3_RESPONSES - TIER2_RESPONSES)}/{TIER3_RESPONSES - TIER2_RESPONSES} responses collected</span>
-              }
-              {currentPromptTier === 'crackedUp' && 
-                <span>Context: Complete</span>
-              }
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <button
+                  className="flex items-center font-semibold text-foreground hover:text-brand transition-colors"
+                  aria-label={t('chat.chooseMode')}
+                >
+                  <FlowIcon className="w-4 h-4 me-1.5 text-[var(--flow-text)]" />
+                  <span>{flow.name}</span>
+                  <ChevronDown className="w-4 h-4 ms-1" />
+                </button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="start" className="w-64">
+                <DropdownMenuLabel>{t('chat.promptMode')}</DropdownMenuLabel>
+                <DropdownMenuRadioGroup value={flow.id} onValueChange={handleFlowChange}>
+                  {flows.map(item => (
+                    <DropdownMenuRadioItem key={item.id} value={item.id} className="flex-col items-start">
+                      <span>{item.name}</span>
+                      {item.description && <span className="text-xs text-muted-foreground">{item.description}</span>}
+                    </DropdownMenuRadioItem>
+                  ))}
+                </DropdownMenuRadioGroup>
+                {userResponseCount > 0 && (
+                  <p className="px-2 py-1 text-xs text-muted-foreground">{t('chat.switchWarning')}</p>
+                )}
+                <DropdownMenuSeparator />
+                <DropdownMenuItem asChild>
+                  <Link to="/flows" className="flex items-center">
+                    <Settings className="w-4 h-4 me-2" />
+                    {t('chat.editModes')}
+                  </Link>
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={handleExportFeedback} className="flex items-center">
+                  <Download className="w-4 h-4 me-2" />
+                  {t('chat.exportFeedback')}
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <div className="flex items-center text-sm text-muted-foreground">
+              {userResponseCount > 0 && !isTypingEffect && (context.collected < context.total
+                ? <span>{t('chat.contextProgress', { collected: context.collected, total: context.total })}</span>
+                : <span>{t('chat.contextComplete')}</span>
+              )}
               {(userResponseCount === 0 || isTypingEffect) && 
-                <span>{isTypingEffect ? 'Typing...' : 'Online'}</span>
+                <span>{isTypingEffect ? t('chat.typing') : t('chat.online')}</span>
               }
             </div>
           </div>
         </div>
         <div className="flex items-center gap-2">
+          {branchList.length > 1 && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <button
+                  className="flex items-center gap-1 p-1.5 rounded-full text-muted-foreground hover:bg-muted transition-colors"
+                  aria-label={t('chat.branches.heading')}
+                  title={t('chat.branches.heading')}
+                >
+                  <GitBranch className="w-5 h-5" />
+                  <span className="text-xs font-semibold tabular-nums">
+                    {branchList.findIndex(branch => branch.id === branchId) + 1}/{branchList.length}
+                  </span>
+                </button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-72">
+                <DropdownMenuLabel>{t('chat.branches.heading')}</DropdownMenuLabel>
+                <DropdownMenuRadioGroup value={branchId} onValueChange={switchBranch}>
+                  {branchList.map((branch, index) => (
+                    <DropdownMenuRadioItem key={branch.id} value={branch.id} disabled={isLoading}>
+                      <span className="truncate">{getBranchLabel(branch, index)}</span>
+                    </DropdownMenuRadioItem>
+                  ))}
+                </DropdownMenuRadioGroup>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onSelect={() => setShowBranchCompare(true)} className="flex items-center">
+                  <Columns2 className="w-4 h-4 me-2" />
+                  {t('chat.branches.compare')}
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <button
+                className={cn(
+                  "flex items-center gap-1 p-1.5 rounded-full transition-colors",
+                  outputLanguage ? "bg-brand-border text-brand" : "text-muted-foreground hover:bg-muted"
+                )}
+                aria-label={t('chat.output.label')}
+                title={t('chat.output.label')}
+              >
+                <Languages className="w-5 h-5" />
+                {outputLanguage && <span className="text-xs font-semibold uppercase">{outputLanguage.id}</span>}
+              </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-64">
+              <DropdownMenuLabel>{t('chat.output.label')}</DropdownMenuLabel>
+              <DropdownMenuRadioGroup
+                value={outputLanguageId || ''}
+                onValueChange={(value) => setOutputLanguageId(value || null)}
+              >
+                <DropdownMenuRadioItem value="">{t('chat.output.asWritten')}</DropdownMenuRadioItem>
+                {OUTPUT_LANGUAGES.map(language => (
+                  <DropdownMenuRadioItem key={language.id} value={language.id} lang={language.id}>
+                    {language.nativeName}
+                  </DropdownMenuRadioItem>
+                ))}
+              </DropdownMenuRadioGroup>
+              <p className="px-2 py-1 text-xs text-muted-foreground">{t('chat.output.hint')}</p>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <button
+            onClick={() => setShowSpecPanel(prev => !prev)}
+            className={cn(
+              "p-1.5 rounded-full transition-colors",
+              showSpecPanel ? "bg-brand-border text-brand" : "text-muted-foreground hover:bg-muted"
+            )}
+            aria-label={showSpecPanel ? t('chat.hideDetails') : t('chat.showDetails')}
+            aria-pressed={showSpecPanel}
+          >
+            <SlidersHorizontal className="w-5 h-5" />
+          </button>
           {/* Progress indicator */}
           <div className="hidden sm:block">
-            <div className="w-24 sm:w-48 bg-gray-200 rounded-full h-2.5">
+            <div className="w-24 sm:w-48 bg-muted rounded-full h-2.5">
               <div 
-                className="h-2.5 rounded-full transition-all duration-300" 
-                style={{ 
-                  width: `${Math.min((userResponseCount / TIER3_RESPONSES) * 100, 100)}%`,
-                  backgroundColor: theme.primary
-                }}
+                className="h-2.5 rounded-full transition-all duration-300 bg-[var(--flow-primary)]" 
+                style={{ width: `${(context.collected / context.total) * 100}%` }}
               ></div>
             </div>
-            <div className="text-xs text-gray-500 text-right mt-1">
-              {userResponseCount}/{TIER3_RESPONSES} for max depth
+            <div className="text-xs text-muted-foreground text-end mt-1">
+              {t('chat.contextDetails', { collected: context.collected, total: context.total })}
             </div>
           </div>
         </div>
       </div>
 
-      {/* Messages Container */}
-      <div 
-        ref={chatContainerRef}
-        className="flex-1 overflow-y-auto p-4 space-y-4 chat-messages-container"
-        style={{ backgroundColor: theme.lightBg, height: "calc(600px - 140px)" }}
+      <SidebarProvider
+        open={showSpecPanel}
+        onOpenChange={setShowSpecPanel}
+        className="relative min-h-0"
+        style={{ height: "calc(600px - 140px)" }}
       >
-        <AnimatePresence>
-          {messages.map((message) => (
-            <motion.div
-              key={message.id}
-              initial={{ opacity: 0, y: 20, scale: 0.95 }}
-              animate={{ opacity: 1, y: 0, scale: 1 }}
-              transition={{ 
-                duration: 0.3,
-                ease: [0.19, 1.0, 0.22, 1.0] // Apple-like easing
-              }}
-              className={`flex ${message.sender === 'user' ? 'justify-end' : 'justify-start'}`}
-            >
-              {message.sender === 'system' && (
-                <div className="max-w-[75%] bg-white rounded-2xl px-4 py-3 shadow-sm">
-                  {typingMessageId === message.id ? (
-                    <div className="flex items-center">
-                      <p className="text-gray-800">{typingText}</p>
-                      <div className="ml-2 flex space-x-1">
-                        <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: "0s" }}></div>
-                        <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: "0.2s" }}></div>
-                        <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: "0.4s" }}></div>
-                      </div>
-                    </div>
-                  ) : message.isGenerating ? (
-                    <div className="flex items-center">
-                      <p className="text-gray-800">{message.text}</p>
-                      <Loader2 className="ml-2 w-4 h-4 animate-spin text-[#E24B0F]" />
-                    </div>
-                  ) : (
-                    <p className="text-gray-800">{message.text}</p>
-                  )}
-                </div>
-              )}
-              
-              {message.sender === 'user' && (
-                <div 
-                  className="max-w-[75%] rounded-2xl px-4 py-3 shadow-sm"
-                  style={{ backgroundColor: theme.secondary }}
-                >
-                  <p className="text-gray-800">{message.text}</p>
-                </div>
-              )}
-              
-              {message.sender === 'attachment' && (
-                <div className="w-full my-4 text-left">
-                  <div className="bg-white rounded-xl border border-gray-200 shadow-md overflow-hidden">
-                    <div 
-                      className="p-3 flex justify-between items-center"
-                      style={{ backgroundColor: theme.primary }}
-                    >
+        {/* Messages Container */}
+        <div 
+          ref={chatContainerRef}
+          className="flex-1 min-w-0 overflow-y-auto p-4 space-y-4 chat-messages-container bg-[var(--flow-surface)]"
+        >
+          <AnimatePresence>
+            {messages.map((message) => (
+              <motion.div
+                key={message.id}
+                initial={{ opacity: 0, y: 20, scale: 0.95 }}
+                animate={{ opacity: 1, y: 0, scale: 1 }}
+                transition={{ 
+                  duration: 0.3,
+                  ease: [0.19, 1.0, 0.22, 1.0] // Apple-like easing
+                }}
+                className={`flex ${message.sender === 'user' ? 'justify-end' : 'justify-start'}`}
+              >
+                {message.sender === 'system' && (
+                  <div className="max-w-[75%] bg-background rounded-2xl px-4 py-3 shadow-sm">
+                    {typingMessageId === message.id ? (
                       <div className="flex items-center">
-                        {message.promptLevel === 'quick' && <Zap className="w-5 h-5 text-white mr-2" />}
-                        {message.promptLevel === 'deepDive' && <Sparkles className="w-5 h-5 text-white mr-2" />}
-                        {message.promptLevel === 'crackedUp' && <Wand2 className="w-5 h-5 text-white mr-2" />}
-                        <h4 className="text-white font-medium">
-                          {message.promptLevel === 'quick' && 'Quick Prompt'}
-                          {message.promptLevel === 'deepDive' && 'Deep Dive Prompt'}
-                          {message.promptLevel === 'crackedUp' && 'Cracked AF Prompt'}
-                        </h4>
+                        <p className="text-foreground">{message.text}</p>
+                        <div className="ms-2 flex gap-1">
+                          <div className="w-2 h-2 bg-muted-foreground/50 rounded-full animate-bounce" style={{ animationDelay: "0s" }}></div>
+                          <div className="w-2 h-2 bg-muted-foreground/50 rounded-full animate-bounce" style={{ animationDelay: "0.2s" }}></div>
+                          <div className="w-2 h-2 bg-muted-foreground/50 rounded-full animate-bounce" style={{ animationDelay: "0.4s" }}></div>
+                        </div>
                       </div>
-                      <div className="flex gap-1">
-                        <button 
-                          onClick={copyPromptToClipboard}
-                          className="p-1.5 rounded-full bg-white/20 hover:bg-white/30 text-white transition-colors"
-                          aria-label="Copy prompt"
-                        >
-                          <Copy className="w-4 h-4" />
-                        </button>
-                        <button 
-                          className="p-1.5 rounded-full bg-white/20 hover:bg-white/30 text-white transition-colors"
-                          onClick={() => {
-                            if (message.promptLevel !== 'crackedUp') {
-                              addSystemMessage("Let's refine this further! Tell me more about what you need.");
-                            } else {
-                              setMessages([{
-                                id: Date.now().toString(),
-                                text: "Hi there! I'll help you create the perfect prompt. What topic are you interested in?",
-                                sender: 'system',
-                                timestamp: new Date()
-                              }]);
-                              setUserResponseCount(0);
-                              setCurrentPromptTier('none');
-                              setCurrentAttachment(null);
-                              setRefreshCount(0);
-                            }
-                          }}
-                          aria-label={message.promptLevel === 'crackedUp' ? "Start Over" : "Refine"}
-                        >
-                          {message.promptLevel === 'crackedUp' ? (
-                            <RefreshCw className="w-4 h-4" />
-                          ) : (
-                            <MessageCircle className="w-4 h-4" />
-                          )}
-                        </button>
+                    ) : message.isGenerating ? (
+                      <div className="flex items-center">
+                        <p className="text-foreground">{message.text}</p>
+                        <Loader2 className="ms-2 w-4 h-4 animate-spin text-brand" />
                       </div>
+                    ) : (
+                      <p className="text-foreground">{message.text}</p>
+                    )}
+                  </div>
+                )}
+              
+                {message.sender === 'user' && (editingMessageId === message.id ? (
+                  <div className="w-full max-w-[75%] rounded-2xl p-3 shadow-sm bg-[var(--flow-accent-surface)]">
+                    <textarea
+                      value={editText}
+                      onChange={(e) => setEditText(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter' && !e.shiftKey) {
+                          e.preventDefault();
+                          handleEditMessage(message.id, editText);
+                        } else if (e.key === 'Escape') {
+                          setEditingMessageId(null);
+                        }
+                      }}
+                      className="w-full resize-none rounded-lg border border-border bg-background px-3 py-2 text-foreground focus:outline-none focus:ring-2 focus:ring-brand"
+                      rows={3}
+                      maxLength={200}
+                      autoFocus
+                      aria-label={t('chat.edit')}
+                    />
+                    <div className="flex justify-end gap-2 mt-2">
+                      <Button size="sm" variant="ghost" onClick={() => setEditingMessageId(null)}>
+                        {t('chat.edit.cancel')}
+                      </Button>
+                      <Button size="sm" onClick={() => handleEditMessage(message.id, editText)} disabled={!editText.trim()}>
+                        {t('chat.edit.save')}
+                      </Button>
                     </div>
-                    <div className="p-4 bg-white">
-                      <pre className="whitespace-pre-wrap text-gray-800 font-sans text-left">{message.text}</pre>
+                  </div>
+                ) : (
+                  <div className="group flex items-center gap-1 max-w-[75%]">
+                    {!isLoading && !isRestoring && (
+                      <button
+                        onClick={() => {
+                          setEditingMessageId(message.id);
+                          setEditText(message.skipped ? '' : message.text);
+                        }}
+                        className="p-1 rounded-full text-muted-foreground opacity-0 group-hover:opacity-100 focus-visible:opacity-100 hover:bg-muted transition-opacity"
+                        aria-label={t('chat.edit')}
+                        title={t('chat.edit')}
+                      >
+                        <Pencil className="w-3.5 h-3.5" />
+                      </button>
+                    )}
+                    <div className="min-w-0 rounded-2xl px-4 py-3 shadow-sm bg-[var(--flow-accent-surface)]">
+                      <p className={message.skipped ? "italic text-muted-foreground" : "text-foreground"}>{message.text}</p>
+                      {editedMessageIds.has(message.id) && (
+                        <span className="block mt-1 text-xs text-muted-foreground">{t('chat.edited')}</span>
+                      )}
                     </div>
-                    <div className="px-4 py-2 bg-gray-50 border-t border-gray-200 flex justify-between items-center">
-                      <div className="text-xs text-gray-500">
-                        {message.promptLevel === 'quick' && "Keep chatting for deeper prompts"}
-                        {message.promptLevel === 'deepDive' && "2 more responses for Cracked AF"}
-                        {message.promptLevel === 'crackedUp' && "Max depth achieved!"}
+                  </div>
+                ))}
+              
+                {message.sender === 'attachment' && (
+                  <div className="w-full my-4 text-start">
+                    <div className="bg-background rounded-xl border border-border shadow-md overflow-hidden">
+                      <div 
+                        className="p-3 flex justify-between items-center bg-[var(--flow-primary)]"
+                      >
+                        <div className="flex items-center">
+                          {renderLevelIcon(message.promptLevel)}
+                          <h4 className="text-white font-medium">
+                            {getFlowTier(flow, message.promptLevel)?.label || t('chat.yourPrompt')}
+                          </h4>
+                        </div>
+                        <div className="flex gap-1">
+                          {/* The linter's rules read English, so rewrites in other languages aren't scored */}
+                          {!message.isStreaming && !message.outputLanguage && (
+                            <PromptQualityScore
+                              text={message.text}
+                              onApplyFix={(text) => applyPromptFix(message, text)}
+                              className="px-2 py-1 rounded-full bg-white/20 hover:bg-white/30 text-white text-xs"
+                            />
+                          )}
+                          <button 
+                            onClick={() => saveToLibrary(message)}
+                            disabled={message.isStreaming || savedMessageIds.has(message.id)}
+                            className="p-1.5 rounded-full bg-white/20 hover:bg-white/30 text-white transition-colors disabled:cursor-default disabled:hover:bg-white/20"
+                            aria-label={savedMessageIds.has(message.id) ? t('chat.savedToLibrary') : t('chat.saveToLibrary')}
+                            title={savedMessageIds.has(message.id) ? t('chat.savedToLibrary') : t('chat.saveToLibrary')}
+                          >
+                            {savedMessageIds.has(message.id) ? (
+                              <BookmarkCheck className="w-4 h-4" />
+                            ) : (
+                              <Bookmark className="w-4 h-4" />
+                            )}
+                          </button>
+                          {message.sourceText && (
+                            <button 
+                              onClick={() => toggleCompare(message.id)}
+                              className={cn(
+                                "p-1.5 rounded-full text-white transition-colors",
+                                comparingMessageIds.has(message.id) ? "bg-white/40" : "bg-white/20 hover:bg-white/30"
+                              )}
+                              aria-label={comparingMessageIds.has(message.id) ? t('chat.output.hideCompare') : t('chat.output.compare')}
+                              aria-pressed={comparingMessageIds.has(message.id)}
+                              title={comparingMessageIds.has(message.id) ? t('chat.output.hideCompare') : t('chat.output.compare')}
+                            >
+                              <Columns2 className="w-4 h-4" />
+                            </button>
+                          )}
+                          <button 
+                            onClick={() => sharePrompt(message)}
+                            disabled={message.isStreaming}
+                            className="p-1.5 rounded-full bg-white/20 hover:bg-white/30 text-white transition-colors disabled:cursor-default disabled:hover:bg-white/20"
+                            aria-label={t('chat.share')}
+                            title={t('chat.share')}
+                          >
+                            <Share2 className="w-4 h-4" />
+                          </button>
+                          {!message.isStreaming && hasPromptVariables(message.text) && (
+                            <button 
+                              onClick={() => setVariablesMessage(message)}
+                              className="p-1.5 rounded-full bg-white/20 hover:bg-white/30 text-white transition-colors"
+                              aria-label={t('chat.fillVariables')}
+                              title={t('chat.fillVariables')}
+                            >
+                              <Braces className="w-4 h-4" />
+                            </button>
+                          )}
+                          <button 
+                            onClick={() => copyPromptToClipboard(message.text, message.promptLevel)}
+                            className="p-1.5 rounded-full bg-white/20 hover:bg-white/30 text-white transition-colors"
+                            aria-label={t('chat.copyPrompt')}
+                          >
+                            <Copy className="w-4 h-4" />
+                          </button>
+                          <button 
+                            className="p-1.5 rounded-full bg-white/20 hover:bg-white/30 text-white transition-colors"
+                            onClick={() => {
+                              if (!isLastTier(flow, message.promptLevel)) {
+                                addSystemMessage(t('chat.refineFurther'));
+                              } else {
+                                startNewSession(flow);
+                              }
+                            }}
+                            aria-label={isLastTier(flow, message.promptLevel) ? t('chat.startOver') : t('chat.refine')}
+                          >
+                            {isLastTier(flow, message.promptLevel) ? (
+                              <RefreshCw className="w-4 h-4" />
+                            ) : (
+                              <MessageCircle className="w-4 h-4" />
+                            )}
+                          </button>
+                        </div>
                       </div>
-                      <div className="flex gap-2">
-                        <button className="flex items-center text-gray-600 hover:text-[#E24B0F] text-sm transition-colors">
-                          <ThumbsUp className="w-4 h-4 mr-1" />
-                          <span>Like</span>
-                        </button>
-                        <button className="flex items-center text-gray-600 hover:text-[#E24B0F] text-sm transition-colors">
-                          <ThumbsDown className="w-4 h-4 mr-1" />
-                          <span>Dislike</span>
-                        </button>
+                      {message.sourceText && comparingMessageIds.has(message.id) ? (
+                        <div className="p-4 bg-background grid gap-4 sm:grid-cols-2">
+                          <div>
+                            <div className="text-xs font-medium uppercase text-muted-foreground mb-1">{t('chat.output.original')}</div>
+                            <pre className="whitespace-pre-wrap text-muted-foreground font-sans text-start">{message.sourceText}</pre>
+                          </div>
+                          <div className="sm:border-s sm:border-border sm:ps-4">
+                            <div className="text-xs font-medium uppercase text-muted-foreground mb-1">
+                              {getOutputLanguage(message.outputLanguage)?.nativeName ?? message.outputLanguage}
+                            </div>
+                            <pre lang={message.outputLanguage} className="whitespace-pre-wrap text-foreground font-sans text-start">{message.text}</pre>
+                          </div>
+                        </div>
+                      ) : (
+                        <div className="p-4 bg-background">
+                          <pre lang={message.outputLanguage} className="whitespace-pre-wrap text-foreground font-sans text-start">
+                            {message.text}
+                            {message.isStreaming && (
+                              <span className="inline-block w-2 h-4 ms-0.5 align-text-bottom bg-brand animate-pulse" aria-hidden="true" />
+                            )}
+                          </pre>
+                        </div>
+                      )}
+                      <div className="px-4 py-2 bg-muted/50 border-t border-border flex justify-between items-center">
+                        <div className="text-xs text-muted-foreground">
+                          {getFlowTier(flow, message.promptLevel)?.footerHint}
+                          {message.targetModelId && (
+                            <span className="block mt-0.5 font-medium text-[var(--flow-text)]">
+                              {t('chat.formattedFor', { model: getTargetModel(message.targetModelId)?.label ?? message.targetModelId })}
+                            </span>
+                          )}
+                          {localizingMessageId === message.id && outputLanguage && (
+                            <span className="flex items-center mt-0.5 font-medium text-[var(--flow-text)]">
+                              <Loader2 className="w-3 h-3 me-1 animate-spin" />
+                              {t('chat.output.rewriting', { language: outputLanguage.nativeName })}
+                            </span>
+                          )}
+                          {message.outputLanguage && (
+                            <span className="block mt-0.5 font-medium text-[var(--flow-text)]">
+                              {t('chat.output.language', { language: getOutputLanguage(message.outputLanguage)?.nativeName ?? message.outputLanguage })}
+                            </span>
+                          )}
+                          {!message.isStreaming && (
+                            <TokenEstimate
+                              text={message.text}
+                              targetModelId={message.targetModelId ?? targetModelId}
+                              level={message.promptLevel}
+                              className="mt-0.5"
+                            />
+                          )}
+                        </div>
+                        <PromptFeedbackButtons
+                          feedback={feedbackById.get(message.id)}
+                          onRate={(rating, reasons) => ratePrompt(message, rating, reasons)}
+                          onClear={() => clearPromptRating(message)}
+                          disabled={message.isStreaming}
+                        />
                       </div>
                     </div>
                   </div>
-                </div>
-              )}
-            </motion.div>
-          ))}
-        </AnimatePresence>
+                )}
+              </motion.div>
+            ))}
+          </AnimatePresence>
         
-        {/* Auto-scroll anchor */}
-        <div ref={messagesEndRef} />
-      </div>
+          {/* Auto-scroll anchor */}
+          <div ref={messagesEndRef} />
+        </div>
+
+        {showSpecPanel && (
+          <PromptSpecPanel
+            spec={spec}
+            editedFields={Object.keys(specOverrides) as (PromptSpecField | 'notes')[]}
+            onChange={handleSpecChange}
+            onReset={() => setSpecOverrides({})}
+            className="absolute inset-y-0 end-0 z-20 shadow-lg sm:static sm:shadow-none"
+          />
+        )}
+      </SidebarProvider>
 
       {/* Input Area */}
-      <div className="p-4 border-t border-gray-100 bg-white sticky bottom-0 z-10">
+      <div className="p-4 border-t border-border bg-background sticky bottom-0 z-10">
+        {mentions.length > 0 && (
+          <div className="flex flex-wrap items-center gap-1.5 mb-2 text-xs">
+            <span className="text-muted-foreground">{t('chat.mentions.label')}</span>
+            {mentions.map(entry => (
+              <span key={entry.id} className="inline-flex items-center gap-1 rounded-full bg-brand-soft text-brand px-2 py-0.5 max-w-[12rem]">
+                <AtSign className="w-3 h-3 shrink-0" />
+                <span className="truncate">{entry.title}</span>
+                <button
+                  onClick={() => setMentions(prev => prev.filter(item => item.id !== entry.id))}
+                  className="rounded-full hover:bg-brand-border"
+                  aria-label={t('chat.mentions.remove', { title: entry.title })}
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
         <div className="flex items-end gap-2">
           <div className="flex-1 relative">
+            {showSuggestions && (
+              <ChatInputSuggestions
+                id={SUGGESTIONS_ID}
+                heading={t(inputTrigger?.kind === 'mention'
+                  ? 'chat.slash.mentionsHeading'
+                  : inputTrigger?.kind === 'model' ? 'chat.slash.modelsHeading' : 'chat.slash.heading')}
+                suggestions={suggestions}
+                activeIndex={activeSuggestion}
+                onSelect={applySuggestion}
+                onActiveIndexChange={setSuggestionIndex}
+              />
+            )}
             <textarea
               ref={inputRef}
               value={inputValue}
               onChange={handleInputChange}
               onKeyDown={handleKeyPress}
-              placeholder="Type your message..."
-              className="w-full border border-gray-200 rounded-2xl px-4 py-3 pr-12 focus:outline-none focus:ring-2 focus:ring-[#E24B0F] focus:border-transparent resize-none min-h-[50px] max-h-[150px] text-gray-800"
+              onSelect={(e) => setCaret(e.currentTarget.selectionStart)}
+              onBlur={() => setSuggestionsDismissed(true)}
+              onFocus={() => setSuggestionsDismissed(false)}
+              aria-controls={showSuggestions ? SUGGESTIONS_ID : undefined}
+              aria-activedescendant={showSuggestions ? `${SUGGESTIONS_ID}-${activeSuggestion}` : undefined}
+              aria-autocomplete="list"
+              placeholder={t('chat.placeholder')}
+              className="w-full border border-border rounded-2xl px-4 py-3 pe-12 focus:outline-none focus:ring-2 focus:ring-brand focus:border-transparent resize-none min-h-[50px] max-h-[150px] text-foreground"
               rows={1}
               disabled={isLoading}
             />
-            <button
-              onClick={handleSendMessage}
-              disabled={!inputValue.trim() || inputValue.length > 200 || isLoading}
-              className={`absolute right-3 bottom-3 p-1.5 rounded-full ${!inputValue.trim() || isLoading ? 'text-gray-400' : 'text-[#E24B0F] hover:bg-[#FFF3EC]'} transition-colors`}
-              aria-label="Send message"
-            >
-              <Send className="w-5 h-5" />
-            </button>
+            {isTypingEffect ? (
+              <button
+                onClick={stopStreaming}
+                className="absolute end-3 bottom-3 p-1.5 rounded-full text-brand hover:bg-brand-soft transition-colors"
+                aria-label={t('chat.stop')}
+              >
+                <Square className="w-5 h-5 fill-current" />
+              </button>
+            ) : (
+              <button
+                onClick={handleSendMessage}
+                disabled={!inputValue.trim() || inputValue.length > 200 || isLoading}
+                className={`absolute end-3 bottom-3 p-1.5 rounded-full ${!inputValue.trim() || isLoading ? 'text-muted-foreground/70' : 'text-brand hover:bg-brand-soft'} transition-colors`}
+                aria-label={t('chat.send')}
+              >
+                <Send className="w-5 h-5 rtl:-scale-x-100" />
+              </button>
+            )}
           </div>
         </div>
         <div className="flex justify-between items-center mt-2 px-1">
-          <div className="text-xs text-gray-400">{inputValue.length}/200</div>
-          <div className="text-xs text-gray-400">
-            {currentPromptTier === 'none' && `${userResponseCount}/${TIER1_RESPONSES} to Quick Prompt`}
-            {currentPromptTier === 'quick' && `${userResponseCount - TIER1_RESPONSES}/${TIER2_RESPONSES - TIER1_RESPONSES} more to Deep Dive`}
-            {currentPromptTier === 'deepDive' && `${userResponseCount - TIER2_RESPONSES}/${TIER3_RESPONSES - TIER2_RESPONSES} more to Cracked AF`}
-            {currentPromptTier === 'crackedUp' && 'All prompt levels unlocked!'}
+          <div className="flex items-center gap-3 text-xs">
+            <span className="text-muted-foreground/70">{inputValue.length}/200</span>
+            {showInputScore && (
+              <PromptQualityScore
+                text={inputValue}
+                onApplyFix={(text) => {
+                  setInputValue(text);
+                  inputRef.current?.focus();
+                }}
+                maxLength={200}
+                className="text-muted-foreground hover:text-brand"
+              />
+            )}
+            {canSkipQuestion && (
+              <button
+                onClick={skipQuestion}
+                className="inline-flex items-center gap-1 text-muted-foreground hover:text-brand transition-colors"
+              >
+                <SkipForward className="w-3.5 h-3.5 rtl:-scale-x-100" />
+                {t('chat.skip')}
+              </button>
+            )}
+            {spec.topic && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <button
+                    disabled={isLoading || isRestoring}
+                    className="inline-flex items-center gap-1 text-muted-foreground hover:text-brand transition-colors disabled:opacity-50 disabled:pointer-events-none"
+                  >
+                    <FastForward className="w-3.5 h-3.5 rtl:-scale-x-100" />
+                    {t('chat.generateNow')}
+                  </button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="start" className="w-64">
+                  <DropdownMenuLabel>{t('chat.generateNow.heading')}</DropdownMenuLabel>
+                  {flow.tiers.map(tier => (
+                    <DropdownMenuItem key={tier.level} onSelect={() => generateNow(tier)} className="flex flex-col items-start">
+                      <span>{tier.label}</span>
+                      {userResponseCount < tier.responses && (
+                        <span className="text-xs text-muted-foreground">
+                          {t('chat.generateNow.early', { count: tier.responses - userResponseCount })}
+                        </span>
+                      )}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+          </div>
+          <div className="text-xs text-muted-foreground/70">
+            {progress.nextTier
+              ? t(progress.isFirstTier ? 'chat.toFirstTier' : 'chat.toNextTier', {
+                  collected: progress.collected,
+                  needed: progress.needed,
+                  tier: progress.nextTier.label
+                })
+              : t('chat.allUnlocked')}
           </div>
         </div>
       </div>
+
+      <PromptVariablesDialog
+        key={variablesMessage?.id}
+        open={!!variablesMessage}
+        onOpenChange={(open) => !open && setVariablesMessage(null)}
+        text={variablesMessage?.text ?? ''}
+      />
+
+      {branchList.length > 1 && (
+        <BranchCompareDialog
+          open={showBranchCompare}
+          onOpenChange={setShowBranchCompare}
+          branches={branchList.map((branch, index) => ({ branch, label: getBranchLabel(branch, index) }))}
+          activeBranchId={branchId}
+          tiers={flow.tiers}
+          onSwitch={(nextBranchId) => {
+            switchBranch(nextBranchId);
+            setShowBranchCompare(false);
+          }}
+        />
+      )}
     </motion.div>
   );
 };
@@ -761,7 +1919,7 @@ const styles = `
   
   .chat-messages-container {
     scrollbar-width: thin;
-    scrollbar-color: rgba(226, 75, 15, 0.3) transparent;
+    scrollbar-color: hsl(var(--brand) / 0.3) transparent;
     overflow-y: auto;
   }
   
@@ -774,7 +1932,7 @@ const styles = `
   }
   
   .chat-messages-container::-webkit-scrollbar-thumb {
-    background-color: rgba(226, 75, 15, 0.3);
+    background-color: hsl(var(--brand) / 0.3);
     border-radius: 20px;
   }
   
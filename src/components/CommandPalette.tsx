@@ -0,0 +1,123 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Bookmark, MessageSquare } from 'lucide-react';
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList
+} from './ui/command';
+import { useCommands } from '@/hooks/use-commands';
+import { useI18n } from '@/hooks/use-i18n';
+import { useLibrary } from '@/hooks/use-library';
+import { useSessions } from '@/hooks/use-sessions';
+import { COMMAND_GROUPS, OPEN_COMMAND_PALETTE_EVENT, type PaletteCommand } from '@/lib/commands';
+
+// Saved prompts and chats listed before anything is typed; searching covers all of them
+const MAX_IDLE_RESULTS = 5;
+
+// Ctrl/Cmd+K palette: searches saved prompts and past chats, and runs whatever commands
+// the mounted components have registered
+const CommandPalette = () => {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const navigate = useNavigate();
+  const { t } = useI18n();
+  const commands = useCommands();
+  const { entries } = useLibrary();
+  const { sessions } = useSessions();
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === 'k' && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        setOpen(prev => !prev);
+      }
+    };
+    const handleOpen = () => setOpen(true);
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener(OPEN_COMMAND_PALETTE_EVENT, handleOpen);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener(OPEN_COMMAND_PALETTE_EVENT, handleOpen);
+    };
+  }, []);
+
+  // A command registered twice (e.g. two theme toggles on a page) is listed once
+  const commandsByGroup = useMemo(() => {
+    const unique = new Map<string, PaletteCommand>(commands.map(command => [command.id, command]));
+    return COMMAND_GROUPS
+      .map(group => ({ group, commands: [...unique.values()].filter(command => command.group === group) }))
+      .filter(({ commands: items }) => items.length);
+  }, [commands]);
+
+  const visibleEntries = search ? entries : entries.slice(0, MAX_IDLE_RESULTS);
+  const visibleSessions = search ? sessions : sessions.slice(0, MAX_IDLE_RESULTS);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (!nextOpen) setSearch('');
+  };
+
+  // Close first so focus is back on the page before the action runs
+  const run = (action: () => void) => {
+    handleOpenChange(false);
+    action();
+  };
+
+  return (
+    <CommandDialog open={open} onOpenChange={handleOpenChange}>
+      <CommandInput placeholder={t('commands.placeholder')} value={search} onValueChange={setSearch} />
+      <CommandList>
+        <CommandEmpty>{t('commands.empty')}</CommandEmpty>
+
+        {commandsByGroup.map(({ group, commands: items }) => (
+          <CommandGroup key={group} heading={t(`commands.group.${group}`)}>
+            {items.map(({ id, label, keywords, icon: Icon, perform }) => (
+              <CommandItem key={id} value={`${label} ${id}`} keywords={keywords} onSelect={() => run(perform)}>
+                {Icon && <Icon className="me-2" />}
+                <span>{label}</span>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        ))}
+
+        {visibleEntries.length > 0 && (
+          <CommandGroup heading={t('commands.group.savedPrompts')}>
+            {visibleEntries.map(entry => (
+              <CommandItem
+                key={entry.id}
+                value={`${entry.title} ${entry.id}`}
+                keywords={[entry.folder, ...entry.tags]}
+                onSelect={() => run(() => navigate(`/library?q=${encodeURIComponent(entry.title)}`))}
+              >
+                <Bookmark className="me-2" />
+                <span className="truncate">{entry.title}</span>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+
+        {visibleSessions.length > 0 && (
+          <CommandGroup heading={t('commands.group.recentChats')}>
+            {visibleSessions.map(session => (
+              <CommandItem
+                key={session.id}
+                value={`${session.title} ${session.id}`}
+                onSelect={() => run(() => navigate(`/chat/${session.id}`))}
+              >
+                <MessageSquare className="me-2" />
+                <span className="truncate">{session.title}</span>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+      </CommandList>
+    </CommandDialog>
+  );
+};
+
+export default CommandPalette;
@@ -0,0 +1,37 @@
+import { Languages } from 'lucide-react';
+import { Button } from './ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuTrigger
+} from './ui/dropdown-menu';
+import { useI18n } from '@/hooks/use-i18n';
+import { LOCALES } from '@/lib/i18n';
+
+// Header control for the UI language; each option is named in its own language
+const LanguageSwitcher = () => {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-8 w-8" aria-label={t('language.change')}>
+          <Languages />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuRadioGroup value={locale} onValueChange={setLocale}>
+          {LOCALES.map(({ code, label, dir }) => (
+            <DropdownMenuRadioItem key={code} value={code} lang={code} dir={dir}>
+              {label}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default LanguageSwitcher;
@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { ThumbsDown, ThumbsUp } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+import { useI18n } from '@/hooks/use-i18n';
+import { cn } from '@/lib/utils';
+import { DISLIKE_REASONS, type DislikeReason, type FeedbackRating, type PromptFeedback } from '@/lib/feedback';
+
+interface PromptFeedbackButtonsProps {
+  feedback?: PromptFeedback;
+  onRate: (rating: FeedbackRating, reasons: DislikeReason[]) => void;
+  // Withdraw the rating when the active button is clicked again
+  onClear: () => void;
+  disabled?: boolean;
+}
+
+// Like/Dislike for a generated prompt; a dislike asks (optionally) what was wrong
+const PromptFeedbackButtons = ({ feedback, onRate, onClear, disabled }: PromptFeedbackButtonsProps) => {
+  const [showReasons, setShowReasons] = useState(false);
+  const { t } = useI18n();
+  const rating = feedback?.rating;
+  const reasons = feedback?.rating === 'dislike' ? feedback.reasons : [];
+
+  const handleLike = () => {
+    if (rating === 'like') {
+      onClear();
+    } else {
+      onRate('like', []);
+    }
+  };
+
+  // Record the dislike straight away; reasons are added on top if the user picks any
+  const handleDislike = () => {
+    if (rating === 'dislike') {
+      setShowReasons(false);
+      onClear();
+    } else {
+      onRate('dislike', []);
+      setShowReasons(true);
+    }
+  };
+
+  const toggleReason = (reason: DislikeReason) => {
+    onRate('dislike', reasons.includes(reason)
+      ? reasons.filter(item => item !== reason)
+      : [...reasons, reason]);
+  };
+
+  const buttonClassName = (isActive: boolean) => cn(
+    'flex items-center text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed',
+    isActive ? 'text-brand font-medium' : 'text-muted-foreground hover:text-brand'
+  );
+
+  return (
+    <div className="flex gap-2">
+      <button
+        onClick={handleLike}
+        disabled={disabled}
+        className={buttonClassName(rating === 'like')}
+        aria-pressed={rating === 'like'}
+      >
+        <ThumbsUp className={cn('w-4 h-4 me-1', rating === 'like' && 'fill-current')} />
+        <span>{t('feedback.like')}</span>
+      </button>
+      <Popover open={showReasons} onOpenChange={setShowReasons}>
+        <PopoverTrigger asChild>
+          <button
+            onClick={(e) => {
+              // The popover is opened by handleDislike, not by the trigger itself
+              e.preventDefault();
+              handleDislike();
+            }}
+            disabled={disabled}
+            className={buttonClassName(rating === 'dislike')}
+            aria-pressed={rating === 'dislike'}
+          >
+            <ThumbsDown className={cn('w-4 h-4 me-1', rating === 'dislike' && 'fill-current')} />
+            <span>{t('feedback.dislike')}</span>
+          </button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-64 p-3">
+          <p className="text-sm font-medium text-foreground mb-2">{t('feedback.whatWasWrong')} <span className="font-normal text-muted-foreground">{t('feedback.optional')}</span></p>
+          <div className="flex flex-wrap gap-1.5">
+            {DISLIKE_REASONS.map(reason => (
+              <button
+                key={reason.id}
+                onClick={() => toggleReason(reason.id)}
+                aria-pressed={reasons.includes(reason.id)}
+                className={cn(
+                  'px-2.5 py-1 rounded-full border text-xs transition-colors',
+                  reasons.includes(reason.id)
+                    ? 'border-brand bg-brand-soft text-brand-strong'
+                    : 'border-border text-muted-foreground hover:border-brand-border'
+                )}
+              >
+                {t(`feedback.reason.${reason.id}`)}
+              </button>
+            ))}
+          </div>
+          <div className="flex justify-end mt-3">
+            <button
+              onClick={() => setShowReasons(false)}
+              className="text-xs font-medium text-brand hover:text-brand-strong"
+            >
+              {t('feedback.done')}
+            </button>
+          </div>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+};
+
+export default PromptFeedbackButtons;
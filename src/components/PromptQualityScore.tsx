@@ -0,0 +1,99 @@
+import { useMemo } from 'react';
+import { AlertTriangle, CheckCircle2, Gauge, Wand2 } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+import { useI18n } from '@/hooks/use-i18n';
+import { cn } from '@/lib/utils';
+import type { MessageKey } from '@/lib/i18n';
+import { getLintRating, lintPrompt, type LintRating, type LintRuleId } from '@/lib/prompt-linter';
+
+interface PromptQualityScoreProps {
+  text: string;
+  // Called with the whole prompt after a fix
+  onApplyFix?: (text: string) => void;
+  // Fixes that would make the text longer than this are offered disabled
+  maxLength?: number;
+  className?: string;
+}
+
+const RATING_CLASSES: Record<LintRating, string> = {
+  good: 'text-green-600 dark:text-green-400',
+  fair: 'text-amber-600 dark:text-amber-400',
+  poor: 'text-red-600 dark:text-red-400'
+};
+
+const FIX_LABELS: Partial<Record<LintRuleId, MessageKey>> = {
+  task: 'lint.task.fix',
+  audience: 'lint.audience.fix',
+  format: 'lint.format.fix',
+  length: 'lint.length.fix',
+  examples: 'lint.examples.fix',
+  conflicts: 'lint.conflicts.fix',
+  readability: 'lint.readability.fix'
+};
+
+// A prompt's lint score, opening the per-rule findings and their one-click fixes
+const PromptQualityScore = ({ text, onApplyFix, maxLength, className }: PromptQualityScoreProps) => {
+  const { t } = useI18n();
+  const { score, findings } = useMemo(() => lintPrompt(text), [text]);
+  const rating = getLintRating(score);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className={cn('inline-flex items-center gap-1 transition-colors', className)}
+          aria-label={t('lint.scoreLabel', { score })}
+          title={t('lint.title')}
+        >
+          <Gauge className="w-3.5 h-3.5" />
+          <span className="tabular-nums">{t('lint.score', { score })}</span>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 p-3">
+        <div className="flex items-baseline justify-between mb-2">
+          <span className="text-sm font-medium text-foreground">{t('lint.title')}</span>
+          <span className={cn('text-sm font-semibold tabular-nums', RATING_CLASSES[rating])}>
+            {t('lint.score', { score })} · {t(`lint.rating.${rating}`)}
+          </span>
+        </div>
+        <ul className="space-y-2 text-start">
+          {findings.map(finding => {
+            const { fix } = finding;
+            const fixLabel = FIX_LABELS[finding.rule];
+
+            return (
+              <li key={finding.rule} className="flex items-start gap-2 text-sm">
+                {finding.passed ? (
+                  <CheckCircle2 className="w-4 h-4 mt-0.5 shrink-0 text-green-600 dark:text-green-400" />
+                ) : (
+                  <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0 text-amber-600 dark:text-amber-400" />
+                )}
+                <div className="flex-1 min-w-0">
+                  <div className={finding.passed ? 'text-muted-foreground' : 'text-foreground'}>
+                    {t(`lint.${finding.rule}.${finding.passed ? 'pass' : 'fail'}`, { grade: finding.grade ?? 0 })}
+                  </div>
+                  {!finding.passed && finding.excerpts.map(excerpt => (
+                    <q key={excerpt} className="block text-xs text-muted-foreground truncate">{excerpt}</q>
+                  ))}
+                  {fix && fixLabel && onApplyFix && (
+                    <button
+                      onClick={() => onApplyFix(fix)}
+                      disabled={!!maxLength && fix.length > maxLength}
+                      className="inline-flex items-center gap-1 mt-0.5 text-xs text-brand hover:text-brand-strong disabled:opacity-50 disabled:pointer-events-none"
+                    >
+                      <Wand2 className="w-3 h-3" />
+                      {t(fixLabel)}
+                    </button>
+                  )}
+                </div>
+                <span className="text-xs tabular-nums text-muted-foreground">{finding.points}/{finding.weight}</span>
+              </li>
+            );
+          })}
+        </ul>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default PromptQualityScore;
@@ -0,0 +1,102 @@
+import { RotateCcw, X } from 'lucide-react';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarFooter,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  useSidebar
+} from './ui/sidebar';
+import { useI18n } from '@/hooks/use-i18n';
+import { cn } from '@/lib/utils';
+import { PROMPT_SPEC_FIELDS, type PromptSpec, type PromptSpecField } from '@/lib/prompt-spec';
+
+interface PromptSpecPanelProps {
+  spec: PromptSpec;
+  // Fields the user has edited by hand
+  editedFields: (PromptSpecField | 'notes')[];
+  onChange: (field: PromptSpecField | 'notes', value: string) => void;
+  onReset: () => void;
+  className?: string;
+}
+
+// Editable side panel showing how the conversation was understood
+const PromptSpecPanel = ({ spec, editedFields, onChange, onReset, className }: PromptSpecPanelProps) => {
+  const { setOpen } = useSidebar();
+  const { t, dir } = useI18n();
+
+  return (
+    <Sidebar
+      side={dir === 'rtl' ? 'left' : 'right'}
+      collapsible="none"
+      className={cn('border-s border-border bg-background text-start', className)}
+      aria-label={t('spec.title')}
+    >
+      <SidebarHeader className="flex-row items-center justify-between border-b border-border">
+        <div>
+          <h4 className="font-semibold text-foreground text-sm">{t('spec.title')}</h4>
+          <p className="text-xs text-muted-foreground">{t('spec.subtitle')}</p>
+        </div>
+        <button
+          onClick={() => setOpen(false)}
+          className="p-1 rounded-full hover:bg-muted transition-colors"
+          aria-label={t('spec.close')}
+        >
+          <X className="w-4 h-4 text-muted-foreground" />
+        </button>
+      </SidebarHeader>
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupLabel>{t('spec.fromAnswers')}</SidebarGroupLabel>
+          <SidebarGroupContent className="space-y-3">
+            {PROMPT_SPEC_FIELDS.map(({ key }) => (
+              <div key={key} className="space-y-1">
+                <Label htmlFor={`spec-${key}`} className="text-xs text-muted-foreground flex items-center gap-1">
+                  {t(`spec.${key}.label`)}
+                  {editedFields.includes(key) && <span className="text-brand">{t('spec.edited')}</span>}
+                </Label>
+                <Input
+                  id={`spec-${key}`}
+                  value={spec[key]}
+                  placeholder={t(`spec.${key}.placeholder`)}
+                  onChange={(e) => onChange(key, e.target.value)}
+                  className="h-8 text-sm focus-visible:ring-brand"
+                />
+              </div>
+            ))}
+            <div className="space-y-1">
+              <Label htmlFor="spec-notes" className="text-xs text-muted-foreground flex items-center gap-1">
+                {t('spec.notes')}
+                {editedFields.includes('notes') && <span className="text-brand">{t('spec.edited')}</span>}
+              </Label>
+              <Textarea
+                id="spec-notes"
+                value={spec.notes.join('\n')}
+                placeholder={t('spec.notesPlaceholder')}
+                onChange={(e) => onChange('notes', e.target.value)}
+                className="min-h-[60px] text-sm focus-visible:ring-brand"
+              />
+            </div>
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+      <SidebarFooter className="border-t border-border">
+        <button
+          onClick={onReset}
+          disabled={!editedFields.length}
+          className="flex items-center justify-center text-sm text-muted-foreground hover:text-brand transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <RotateCcw className="w-4 h-4 me-1" />
+          <span>{t('spec.reset')}</span>
+        </button>
+      </SidebarFooter>
+    </Sidebar>
+  );
+};
+
+export default PromptSpecPanel;
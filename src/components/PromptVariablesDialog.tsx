@@ -0,0 +1,205 @@
+import { useMemo, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Copy, Save, X } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from './ui/form';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Textarea } from './ui/textarea';
+import { useAuth } from '@/hooks/use-auth';
+import { useI18n } from '@/hooks/use-i18n';
+import { useToast } from '@/hooks/use-toast';
+import { useVariableSets } from '@/hooks/use-variable-sets';
+import {
+  buildVariablesSchema,
+  fillPromptVariables,
+  findPromptVariables,
+  getDefaultValues,
+  type PromptVariable
+} from '@/lib/prompt-variables';
+import type { VariableValueSet } from '@/lib/variable-sets';
+
+interface PromptVariablesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Prompt text with {{placeholders}}
+  text: string;
+}
+
+const INPUT_TYPES: Partial<Record<PromptVariable['type'], string>> = {
+  number: 'number',
+  url: 'url',
+  email: 'email',
+  date: 'date'
+};
+
+const selectClassName = 'flex h-10 w-full rounded-md border border-input bg-background px-3 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-brand';
+
+// Form for a prompt's placeholders: copies the filled-in prompt and keeps value sets for reuse
+const PromptVariablesDialog = ({ open, onOpenChange, text }: PromptVariablesDialogProps) => {
+  const { t } = useI18n();
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { sets, saveSet, deleteSet } = useVariableSets();
+  const [setName, setSetName] = useState('');
+
+  const variables = useMemo(() => findPromptVariables(text), [text]);
+  const schema = useMemo(
+    () => buildVariablesSchema(variables, error => t(`variables.error.${error}`)),
+    [variables, t]
+  );
+  const form = useForm<Record<string, string>>({
+    resolver: zodResolver(schema),
+    defaultValues: getDefaultValues(variables),
+    mode: 'onTouched'
+  });
+  const values = form.watch();
+
+  // Sets with a value for at least one of this prompt's placeholders
+  const matchingSets = sets.filter(set => variables.some(variable => set.values[variable.name]));
+
+  const applySet = (set: VariableValueSet) => {
+    variables.forEach(({ name }) => {
+      if (set.values[name]) {
+        form.setValue(name, set.values[name], { shouldValidate: true, shouldDirty: true });
+      }
+    });
+  };
+
+  const copyText = (value: string) => {
+    navigator.clipboard.writeText(value)
+      .then(() => {
+        toast({ title: t('common.copiedToClipboard'), description: t('common.promptReady') });
+        onOpenChange(false);
+      })
+      .catch(() => toast({
+        title: t('common.copyFailed.title'),
+        description: t('common.copyFailed.description'),
+        variant: 'destructive',
+      }));
+  };
+
+  const handleSaveSet = () => {
+    const name = setName.trim();
+    const filled = Object.fromEntries(Object.entries(form.getValues()).filter(([, value]) => value?.trim()));
+    if (!name || !Object.keys(filled).length) return;
+
+    saveSet({ name, values: filled, ownerId: user?.id })
+      .then(() => {
+        setSetName('');
+        toast({ title: t('variables.saved', { name }) });
+      })
+      .catch(error => {
+        console.error('Failed to save values:', error);
+        toast({
+          title: t('variables.saveFailed'),
+          description: t('common.storageUnavailable'),
+          variant: 'destructive',
+        });
+      });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t('variables.title')}</DialogTitle>
+          <DialogDescription>{t('variables.description', { count: variables.length })}</DialogDescription>
+        </DialogHeader>
+
+        {matchingSets.length > 0 && (
+          <div className="flex flex-wrap items-center gap-1.5 text-xs">
+            <span className="text-muted-foreground">{t('variables.savedSets')}</span>
+            {matchingSets.map(set => (
+              <span key={set.id} className="inline-flex items-center rounded-full bg-brand-soft text-brand">
+                <button
+                  type="button"
+                  onClick={() => applySet(set)}
+                  className="ps-2.5 pe-1 py-0.5 rounded-s-full hover:bg-brand-border"
+                  title={t('variables.applySet', { name: set.name })}
+                >
+                  {set.name}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => deleteSet(set.id).catch(error => console.error('Failed to delete values:', error))}
+                  className="pe-1.5 ps-0.5 py-0.5 rounded-e-full hover:bg-brand-border"
+                  aria-label={t('variables.deleteSet', { name: set.name })}
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+
+        <Form {...form}>
+          <form
+            id="prompt-variables-form"
+            onSubmit={form.handleSubmit(filled => copyText(fillPromptVariables(text, filled)))}
+            className="grid gap-3 sm:grid-cols-2"
+          >
+            {variables.map(variable => (
+              <FormField
+                key={variable.name}
+                control={form.control}
+                name={variable.name}
+                render={({ field }) => (
+                  <FormItem className={variable.type === 'long' ? 'sm:col-span-2' : undefined}>
+                    <FormLabel>{variable.label}</FormLabel>
+                    <FormControl>
+                      {variable.type === 'select' ? (
+                        <select {...field} className={selectClassName}>
+                          {variable.options?.map(option => <option key={option} value={option}>{option}</option>)}
+                        </select>
+                      ) : variable.type === 'long' ? (
+                        <Textarea {...field} rows={3} className="focus-visible:ring-brand" />
+                      ) : (
+                        <Input {...field} type={INPUT_TYPES[variable.type] || 'text'} className="focus-visible:ring-brand" />
+                      )}
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ))}
+          </form>
+        </Form>
+
+        <div className="space-y-1">
+          <div className="text-xs font-medium uppercase text-muted-foreground">{t('variables.preview')}</div>
+          <pre className="whitespace-pre-wrap font-sans text-sm text-foreground text-start bg-muted/50 rounded-md p-3 max-h-48 overflow-y-auto">
+            {fillPromptVariables(text, values)}
+          </pre>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Input
+            value={setName}
+            onChange={(e) => setSetName(e.target.value)}
+            placeholder={t('variables.setNamePlaceholder')}
+            aria-label={t('variables.setName')}
+            className="h-9 focus-visible:ring-brand"
+          />
+          <Button type="button" variant="outline" size="sm" onClick={handleSaveSet} disabled={!setName.trim()}>
+            <Save />
+            {t('variables.save')}
+          </Button>
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button type="button" variant="ghost" onClick={() => copyText(text)}>
+            {t('variables.copyRaw')}
+          </Button>
+          <Button type="submit" form="prompt-variables-form" className="bg-brand hover:bg-brand-strong text-brand-foreground">
+            <Copy />
+            {t('variables.copy')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PromptVariablesDialog;
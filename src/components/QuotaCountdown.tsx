@@ -0,0 +1,50 @@
+import { useEffect, useRef, useState } from 'react';
+
+interface QuotaCountdownProps {
+  // ISO time the quota resets
+  resetsAt: string;
+  // Called once the countdown reaches zero
+  onReset?: () => void;
+  className?: string;
+}
+
+const formatRemaining = (ms: number) => {
+  const totalSeconds = Math.max(Math.ceil(ms / 1000), 0);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${hours}:${pad(minutes)}:${pad(seconds)}`;
+};
+
+// Live "h:mm:ss" countdown to the next quota reset
+const QuotaCountdown = ({ resetsAt, onReset, className }: QuotaCountdownProps) => {
+  const [remaining, setRemaining] = useState(() => new Date(resetsAt).getTime() - Date.now());
+  // Read through a ref so a new callback each render doesn't restart the countdown
+  const onResetRef = useRef(onReset);
+  onResetRef.current = onReset;
+
+  useEffect(() => {
+    const target = new Date(resetsAt).getTime();
+    const tick = () => {
+      const next = target - Date.now();
+      setRemaining(next);
+      if (next <= 0) {
+        clearInterval(interval);
+        onResetRef.current?.();
+      }
+    };
+
+    const interval = setInterval(tick, 1000);
+    tick();
+    return () => clearInterval(interval);
+  }, [resetsAt]);
+
+  return (
+    <time dateTime={resetsAt} className={className} aria-live="off">
+      {formatRemaining(remaining)}
+    </time>
+  );
+};
+
+export default QuotaCountdown;
@@ -0,0 +1,75 @@
+import { History, Trash2 } from 'lucide-react';
+import { useLocalizedFlows } from '@/hooks/use-flows';
+import { useI18n } from '@/hooks/use-i18n';
+import { useSessions } from '@/hooks/use-sessions';
+import { getTierProgress } from '@/lib/flows';
+import { cn } from '@/lib/utils';
+import type { ChatSession } from '@/lib/sessions';
+
+const MAX_RECENT_SESSIONS = 5;
+
+interface RecentSessionsProps {
+  onResume: (sessionId: string) => void;
+  className?: string;
+}
+
+// Short relative time for the session list ("just now", "5m ago", "2d ago")
+const formatUpdatedAt = (date: Date, t: ReturnType<typeof useI18n>['t']) => {
+  const minutes = Math.floor((Date.now() - date.getTime()) / 60000);
+  if (minutes < 1) return t('common.justNow');
+  if (minutes < 60) return t('common.minutesAgo', { count: minutes });
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return t('common.hoursAgo', { count: hours });
+  return t('common.daysAgo', { count: Math.floor(hours / 24) });
+};
+
+// Sessions saved by ChatUI that can be picked back up
+const RecentSessions = ({ onResume, className }: RecentSessionsProps) => {
+  const { flows } = useLocalizedFlows();
+  const { t } = useI18n();
+  const { sessions, deleteSession } = useSessions(MAX_RECENT_SESSIONS);
+
+  if (sessions.length === 0) return null;
+
+  // Where the session stands, e.g. "Quick Prompt · 4/7 answers"
+  const describeSession = (session: ChatSession) => {
+    const flow = flows.find(item => item.id === session.flowId);
+    if (!flow) return t('common.answers', { count: session.userResponseCount });
+
+    const { maxResponses } = getTierProgress(flow, session.userResponseCount);
+    return `${flow.name} · ${t('common.answersOf', { count: Math.min(session.userResponseCount, maxResponses), total: maxResponses })}`;
+  };
+
+  return (
+    <div className={cn('max-w-[600px] mx-auto text-start', className)}>
+      <h2 className="flex items-center text-sm font-medium text-foreground/80 mb-2">
+        <History className="w-4 h-4 me-1.5" />
+        {t('sessions.recent')}
+      </h2>
+      <ul className="divide-y divide-border rounded-xl border border-border bg-background">
+        {sessions.map(session => (
+          <li key={session.id} className="flex items-center">
+            <button
+              onClick={() => onResume(session.id)}
+              className="flex-1 min-w-0 px-4 py-2.5 text-start hover:bg-brand-subtle transition-colors rounded-xl"
+            >
+              <span className="block truncate text-sm font-medium text-foreground">{session.title}</span>
+              <span className="block text-xs text-muted-foreground">
+                {describeSession(session)} · {formatUpdatedAt(session.updatedAt, t)}
+              </span>
+            </button>
+            <button
+              onClick={() => deleteSession(session.id).catch(error => console.error('Failed to delete session:', error))}
+              className="p-2 me-2 rounded-full text-muted-foreground/70 hover:text-brand hover:bg-brand-soft transition-colors"
+              aria-label={t('sessions.delete', { title: session.title })}
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default RecentSessions;
@@ -0,0 +1,59 @@
+import { Monitor, Moon, Sun } from 'lucide-react';
+import { Button } from './ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuTrigger
+} from './ui/dropdown-menu';
+import { useTheme, type Theme } from '@/hooks/use-theme';
+import { useI18n } from '@/hooks/use-i18n';
+import { useRegisterCommands } from '@/hooks/use-commands';
+import type { MessageKey } from '@/lib/i18n';
+
+const THEME_OPTIONS: { value: Theme; label: MessageKey; icon: typeof Sun }[] = [
+  { value: 'light', label: 'theme.light', icon: Sun },
+  { value: 'dark', label: 'theme.dark', icon: Moon },
+  { value: 'system', label: 'theme.system', icon: Monitor }
+];
+
+// Header control for switching between light, dark and the OS setting
+const ThemeToggle = () => {
+  const { theme, setTheme } = useTheme();
+  const { t } = useI18n();
+
+  useRegisterCommands(THEME_OPTIONS
+    .filter(({ value }) => value !== theme)
+    .map(({ value, icon }) => ({
+      id: `theme.${value}`,
+      group: 'preferences',
+      label: t(`commands.theme.${value}`),
+      keywords: ['theme', 'appearance'],
+      icon,
+      perform: () => setTheme(value)
+    })));
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-8 w-8" aria-label={t('theme.change')}>
+          <Sun className="dark:hidden" />
+          <Moon className="hidden dark:block" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuRadioGroup value={theme} onValueChange={(value) => setTheme(value as Theme)}>
+          {THEME_OPTIONS.map(({ value, label, icon: Icon }) => (
+            <DropdownMenuRadioItem key={value} value={value}>
+              <Icon className="w-4 h-4 me-2" />
+              {t(label)}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default ThemeToggle;
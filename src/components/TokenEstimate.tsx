@@ -0,0 +1,66 @@
+import { AlertTriangle, Coins } from 'lucide-react';
+import { useI18n } from '@/hooks/use-i18n';
+import { useTokenEstimate } from '@/hooks/use-token-estimate';
+import { cn } from '@/lib/utils';
+import type { PromptLevel } from '@/lib/llm';
+import { getTargetModel } from '@/lib/target-models';
+
+interface TokenEstimateProps {
+  text: string;
+  // Without a target model only the token count is shown
+  targetModelId?: string | null;
+  level?: PromptLevel;
+  className?: string;
+}
+
+// "1,234 tokens · $0.012" for a prompt, warning when it won't fit the target model's context
+const TokenEstimate = ({ text, targetModelId, level, className }: TokenEstimateProps) => {
+  const { t, locale } = useI18n();
+  const target = getTargetModel(targetModelId);
+  const estimate = useTokenEstimate(text, target, level);
+  if (!estimate) return null;
+
+  const formatNumber = (value: number) => value.toLocaleString(locale);
+  const formatPrice = (value: number) => new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency: 'USD',
+    maximumSignificantDigits: 2
+  }).format(value);
+
+  const tokens = t(estimate.exact ? 'tokens.count' : 'tokens.countApproximate', {
+    count: estimate.tokens,
+    tokens: formatNumber(estimate.tokens)
+  });
+  const priced = target && 'cost' in estimate ? { target, usage: estimate } : null;
+  const details = priced && [
+    t('tokens.details', {
+      model: priced.target.model,
+      input: formatPrice(priced.target.pricing.input),
+      output: formatPrice(priced.target.pricing.output),
+      outputTokens: formatNumber(priced.usage.outputTokens)
+    }),
+    !priced.usage.exact && t('tokens.approximateNote', { model: priced.target.label })
+  ].filter(Boolean).join(' ');
+
+  return (
+    <span className={cn('flex flex-wrap items-center gap-x-2 gap-y-0.5', className)}>
+      <span className="inline-flex items-center gap-1" title={details || undefined}>
+        <Coins className="w-3 h-3" />
+        {tokens}
+        {priced && <> · {t('tokens.cost', { cost: formatPrice(priced.usage.cost) })}</>}
+      </span>
+      {priced?.usage.overflows && (
+        <span className="inline-flex items-center gap-1 text-red-600 dark:text-red-400" role="status">
+          <AlertTriangle className="w-3 h-3" />
+          {t('tokens.overflow', {
+            model: priced.target.label,
+            total: formatNumber(priced.usage.tokens + priced.usage.outputTokens),
+            window: formatNumber(priced.usage.contextWindow)
+          })}
+        </span>
+      )}
+    </span>
+  );
+};
+
+export default TokenEstimate;
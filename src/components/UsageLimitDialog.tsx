@@ -0,0 +1,71 @@
+import { useCallback } from 'react';
+import { Clock } from 'lucide-react';
+import { useQuota } from '@/hooks/use-quota';
+import { useI18n } from '@/hooks/use-i18n';
+import QuotaCountdown from './QuotaCountdown';
+
+interface UsageLimitDialogProps {
+  onClose: () => void;
+  // Takes the user to the pricing plans
+  onUpgrade: () => void;
+}
+
+// Shown when today's free prompts are used up, with a countdown to the reset
+const UsageLimitDialog = ({ onClose, onUpgrade }: UsageLimitDialogProps) => {
+  const { quota, refresh: refreshQuota } = useQuota();
+  const { t, tRich } = useI18n();
+
+  const handleReset = useCallback(() => {
+    refreshQuota();
+    onClose();
+  }, [refreshQuota, onClose]);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-background p-8 max-w-md mx-4 rounded-xl shadow-xl" role="dialog" aria-modal="true" aria-labelledby="usage-limit-title">
+        <h3 id="usage-limit-title" className="text-2xl font-bold mb-4">{t('usage.title')}</h3>
+        <p className="text-muted-foreground mb-4">
+          {quota
+            ? t('usage.used', { used: quota.used, limit: quota.limit })
+            : t('usage.reached')}{' '}
+          {t('usage.upgradePitch')}
+        </p>
+        {quota && (
+          <div className="flex items-center gap-2 bg-brand-soft text-brand-strong rounded-lg px-4 py-3 mb-6">
+            <Clock className="w-4 h-4" />
+            <span className="text-sm">
+              {tRich('usage.resetsIn', {
+                time: (
+                  <QuotaCountdown
+                    resetsAt={quota.resetsAt}
+                    onReset={handleReset}
+                    className="font-semibold tabular-nums"
+                  />
+                )
+              })}
+            </span>
+          </div>
+        )}
+        <div className="flex gap-4">
+          <button 
+            onClick={onClose}
+            className="px-6 py-2 border border-border rounded-lg hover:bg-muted/50 transition-colors"
+          >
+            {t('usage.later')}
+          </button>
+          <button 
+            onClick={() => {
+              onClose();
+              onUpgrade();
+            }}
+            className="bg-brand hover:bg-brand-strong text-brand-foreground font-medium px-6 py-2 rounded-lg transition-colors"
+          >
+            {t('usage.upgrade')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsageLimitDialog;
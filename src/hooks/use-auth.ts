@@ -0,0 +1,28 @@
+import { useState, useEffect } from 'react';
+import { AUTH_CHANGED_EVENT, fetchCurrentUser, type User } from '@/lib/auth';
+
+// The signed-in user, kept in sync with sign-ins and sign-outs anywhere in the app.
+// Without the API server everyone is signed out and the app works as before.
+export function useAuth() {
+  const [user, setUser] = useState<User | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    const handleChange = (event: Event) => {
+      setUser((event as CustomEvent<User | null>).detail);
+      setIsLoaded(true);
+    };
+    window.addEventListener(AUTH_CHANGED_EVENT, handleChange);
+
+    fetchCurrentUser()
+      .catch(error => {
+        console.warn('Auth service unavailable:', error);
+        setUser(null);
+      })
+      .finally(() => setIsLoaded(true));
+
+    return () => window.removeEventListener(AUTH_CHANGED_EVENT, handleChange);
+  }, []);
+
+  return { user, isLoaded };
+}
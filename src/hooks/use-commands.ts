@@ -0,0 +1,36 @@
+import { useState, useEffect, useId, useRef } from 'react';
+import {
+  COMMANDS_CHANGED_EVENT,
+  getCommands,
+  registerCommands,
+  type PaletteCommand
+} from '@/lib/commands';
+
+// Everything currently offered in the command palette
+export function useCommands() {
+  const [commands, setCommands] = useState<PaletteCommand[]>(getCommands);
+
+  useEffect(() => {
+    const reload = () => setCommands(getCommands());
+    reload();
+    window.addEventListener(COMMANDS_CHANGED_EVENT, reload);
+    return () => window.removeEventListener(COMMANDS_CHANGED_EVENT, reload);
+  }, []);
+
+  return commands;
+}
+
+// Offer commands in the palette while the calling component is mounted. They are re-registered
+// only when the list or a label changes; `perform` always runs the latest render's handler.
+export function useRegisterCommands(commands: PaletteCommand[]) {
+  const owner = useId();
+  const latestRef = useRef(commands);
+  latestRef.current = commands;
+
+  const signature = commands.map(command => `${command.id}:${command.label}`).join('\n');
+
+  useEffect(() => registerCommands(owner, latestRef.current.map(command => ({
+    ...command,
+    perform: () => latestRef.current.find(item => item.id === command.id)?.perform()
+  }))), [owner, signature]);
+}
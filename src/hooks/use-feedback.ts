@@ -0,0 +1,40 @@
+import { useState, useEffect, useMemo } from 'react';
+import {
+  FEEDBACK_CHANGED_EVENT,
+  deleteFeedback,
+  getTemplateScores,
+  listFeedback,
+  saveFeedback,
+  type PromptFeedback
+} from '@/lib/feedback';
+
+// Recorded prompt ratings plus the template scores derived from them
+export function useFeedback() {
+  const [feedback, setFeedback] = useState<PromptFeedback[]>([]);
+
+  useEffect(() => {
+    const reload = () => {
+      listFeedback()
+        .then(setFeedback)
+        .catch(error => console.error('Failed to load feedback:', error));
+    };
+
+    reload();
+    window.addEventListener(FEEDBACK_CHANGED_EVENT, reload);
+    return () => window.removeEventListener(FEEDBACK_CHANGED_EVENT, reload);
+  }, []);
+
+  const feedbackById = useMemo(
+    () => new Map(feedback.map(entry => [entry.id, entry])),
+    [feedback]
+  );
+  const templateScores = useMemo(() => getTemplateScores(feedback), [feedback]);
+
+  return {
+    feedback,
+    feedbackById,
+    templateScores,
+    saveFeedback,
+    deleteFeedback
+  };
+}
@@ -0,0 +1,63 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useI18n } from './use-i18n';
+import {
+  DEFAULT_FLOWS,
+  FLOWS_CHANGED_EVENT,
+  isBuiltInFlow,
+  loadCustomFlows,
+  localizeFlow,
+  saveCustomFlows,
+  type FlowDefinition
+} from '@/lib/flows';
+
+export function useFlows() {
+  const [customFlows, setCustomFlows] = useState<FlowDefinition[]>(() => loadCustomFlows());
+
+  // Stay in sync with edits made in other components or tabs
+  useEffect(() => {
+    const reload = () => setCustomFlows(loadCustomFlows());
+
+    window.addEventListener(FLOWS_CHANGED_EVENT, reload);
+    window.addEventListener('storage', reload);
+    return () => {
+      window.removeEventListener(FLOWS_CHANGED_EVENT, reload);
+      window.removeEventListener('storage', reload);
+    };
+  }, []);
+
+  const saveFlow = useCallback((flow: FlowDefinition) => {
+    if (isBuiltInFlow(flow.id)) {
+      throw new Error(`"${flow.id}" is a built-in mode. Pick a different id.`);
+    }
+
+    const current = loadCustomFlows();
+    const exists = current.some(item => item.id === flow.id);
+    saveCustomFlows(exists
+      ? current.map(item => (item.id === flow.id ? flow : item))
+      : [...current, flow]);
+  }, []);
+
+  const deleteFlow = useCallback((id: string) => {
+    saveCustomFlows(loadCustomFlows().filter(flow => flow.id !== id));
+  }, []);
+
+  return {
+    flows: [...DEFAULT_FLOWS, ...customFlows],
+    customFlows,
+    saveFlow,
+    deleteFlow
+  };
+}
+
+// Flows worded in the current UI language, for showing and running them (not for editing)
+export function useLocalizedFlows() {
+  const { customFlows } = useFlows();
+  const { locale } = useI18n();
+
+  const flows = useMemo(
+    () => [...DEFAULT_FLOWS, ...customFlows].map(flow => localizeFlow(flow, locale)),
+    [customFlows, locale]
+  );
+
+  return { flows, locale };
+}
@@ -0,0 +1,48 @@
+import { useState, useEffect, useCallback, Fragment, createElement, type ReactNode } from 'react';
+import {
+  LOCALE_CHANGED_EVENT,
+  applyLocale,
+  detectLocale,
+  getLocaleInfo,
+  saveLocale,
+  translate,
+  type Locale,
+  type MessageKey,
+  type MessageValues
+} from '@/lib/i18n';
+
+// The UI language and its translator, kept in sync across every component using it
+export function useI18n() {
+  const [locale, setLocaleState] = useState<Locale>(detectLocale);
+
+  // Point <html lang> and dir at the language so bidi layout and screen readers follow it
+  useEffect(() => {
+    applyLocale(locale);
+  }, [locale]);
+
+  useEffect(() => {
+    const handleChange = (event: Event) => setLocaleState((event as CustomEvent<Locale>).detail);
+    window.addEventListener(LOCALE_CHANGED_EVENT, handleChange);
+    return () => window.removeEventListener(LOCALE_CHANGED_EVENT, handleChange);
+  }, []);
+
+  const t = useCallback(
+    (key: MessageKey, values?: MessageValues) => translate(locale, key, values),
+    [locale]
+  );
+
+  // Like t, but placeholders can be elements, e.g. a highlighted model name
+  const tRich = useCallback((key: MessageKey, nodes: Record<string, ReactNode>): ReactNode => {
+    const parts = translate(locale, key).split(/\{(\w+)\}/);
+    return createElement(Fragment, null, ...parts.map((part, index) =>
+      index % 2 === 1 && part in nodes ? nodes[part] : part));
+  }, [locale]);
+
+  return {
+    locale,
+    dir: getLocaleInfo(locale).dir,
+    setLocale: saveLocale,
+    t,
+    tRich
+  };
+}
@@ -0,0 +1,46 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useAuth } from '@/hooks/use-auth';
+import {
+  LIBRARY_CHANGED_EVENT,
+  addLibraryEntry,
+  deleteLibraryEntry,
+  isOwnedBy,
+  listLibraryEntries,
+  updateLibraryEntry,
+  type LibraryEntry
+} from '@/lib/library';
+
+// Saved prompts belonging to the current user, kept in sync with saves from anywhere in the app
+export function useLibrary() {
+  const { user } = useAuth();
+  const [allEntries, setAllEntries] = useState<LibraryEntry[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  const userId = user?.id || null;
+  const entries = useMemo(() => allEntries.filter(entry => isOwnedBy(entry, userId)), [allEntries, userId]);
+
+  useEffect(() => {
+    const reload = () => {
+      listLibraryEntries()
+        .then(setAllEntries)
+        .catch(error => console.error('Failed to load library:', error))
+        .finally(() => setIsLoaded(true));
+    };
+
+    reload();
+    window.addEventListener(LIBRARY_CHANGED_EVENT, reload);
+    return () => window.removeEventListener(LIBRARY_CHANGED_EVENT, reload);
+  }, []);
+
+  const toggleFavorite = useCallback((entry: LibraryEntry) =>
+    updateLibraryEntry({ ...entry, favorite: !entry.favorite }), []);
+
+  return {
+    entries,
+    isLoaded,
+    addEntry: addLibraryEntry,
+    updateEntry: updateLibraryEntry,
+    deleteEntry: deleteLibraryEntry,
+    toggleFavorite
+  };
+}
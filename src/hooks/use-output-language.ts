@@ -0,0 +1,38 @@
+import { useState, useEffect, useCallback } from 'react';
+import { getOutputLanguage } from '@/lib/output-languages';
+
+const STORAGE_KEY = 'outputLanguage';
+// Fired on window when the output language changes, with the new id (or null) as detail
+const OUTPUT_LANGUAGE_CHANGED_EVENT = 'output-language-changed';
+
+const readStoredOutputLanguage = () => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  return getOutputLanguage(stored) ? stored : null;
+};
+
+// The language generated prompts are rewritten in; null keeps them in the language they were written in.
+// Every instance stays in sync, so the chat header's picker and Settings agree.
+export function useOutputLanguage() {
+  const [outputLanguageId, setOutputLanguageIdState] = useState<string | null>(readStoredOutputLanguage);
+
+  useEffect(() => {
+    const handleChange = (event: Event) => setOutputLanguageIdState((event as CustomEvent<string | null>).detail);
+    window.addEventListener(OUTPUT_LANGUAGE_CHANGED_EVENT, handleChange);
+    return () => window.removeEventListener(OUTPUT_LANGUAGE_CHANGED_EVENT, handleChange);
+  }, []);
+
+  const setOutputLanguageId = useCallback((id: string | null) => {
+    if (id) {
+      localStorage.setItem(STORAGE_KEY, id);
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+    window.dispatchEvent(new CustomEvent<string | null>(OUTPUT_LANGUAGE_CHANGED_EVENT, { detail: id }));
+  }, []);
+
+  return {
+    outputLanguageId,
+    outputLanguage: getOutputLanguage(outputLanguageId),
+    setOutputLanguageId
+  };
+}
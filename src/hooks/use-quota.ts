@@ -0,0 +1,80 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { AUTH_CHANGED_EVENT, type User } from '@/lib/auth';
+import {
+  QUOTA_CHANGED_EVENT,
+  QuotaExceededError,
+  consumeLocalQuota,
+  consumeQuota,
+  fetchQuota,
+  getLocalQuota,
+  isQuotaServiceDown,
+  type Quota
+} from '@/lib/quota';
+
+// Today's usage quota from the API server. If the server can't be reached, usage is counted
+// in this browser instead, so the app keeps working without the backend but stays limited.
+// Signed-in users are counted per account, so the quota is refetched when that changes.
+export function useQuota() {
+  const [quota, setQuota] = useState<Quota | null>(null);
+  // Undefined until the first auth check, which the initial fetch already accounts for
+  const userIdRef = useRef<string | null>();
+
+  // Every useQuota instance picks the result up through QUOTA_CHANGED_EVENT
+  const refresh = useCallback(() => {
+    fetchQuota()
+      .catch(error => {
+        if (!isQuotaServiceDown(error)) {
+          console.error('Quota request was refused:', error);
+          setQuota(null);
+          return;
+        }
+        console.warn('Quota service unavailable, counting usage locally:', error);
+        getLocalQuota();
+      });
+  }, []);
+
+  useEffect(() => {
+    refresh();
+
+    const handleChange = (event: Event) => setQuota((event as CustomEvent<Quota>).detail);
+    const handleAuthChange = (event: Event) => {
+      const userId = (event as CustomEvent<User | null>).detail?.id || null;
+      const previousUserId = userIdRef.current;
+      userIdRef.current = userId;
+      if (previousUserId !== undefined && previousUserId !== userId) refresh();
+    };
+
+    window.addEventListener(QUOTA_CHANGED_EVENT, handleChange);
+    window.addEventListener(AUTH_CHANGED_EVENT, handleAuthChange);
+    return () => {
+      window.removeEventListener(QUOTA_CHANGED_EVENT, handleChange);
+      window.removeEventListener(AUTH_CHANGED_EVENT, handleAuthChange);
+    };
+  }, [refresh]);
+
+  // Resolves false when the quota is used up or the server refuses the request, true otherwise
+  const consume = useCallback(async (mode: string) => {
+    try {
+      await consumeQuota(mode);
+      return true;
+    } catch (error) {
+      if (error instanceof QuotaExceededError) return false;
+      // Only an unreachable server is counted locally, so a refused request can't get a fresh counter
+      if (!isQuotaServiceDown(error)) {
+        console.error('Quota request was refused:', error);
+        return false;
+      }
+      console.warn('Quota service unavailable, counting usage locally:', error);
+    }
+
+    try {
+      consumeLocalQuota(mode);
+      return true;
+    } catch (error) {
+      if (error instanceof QuotaExceededError) return false;
+      throw error;
+    }
+  }, []);
+
+  return { quota, refresh, consume };
+}
@@ -0,0 +1,28 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  SESSIONS_CHANGED_EVENT,
+  deleteSession as removeSession,
+  listSessions,
+  type ChatSession
+} from '@/lib/sessions';
+
+// Recently updated chat sessions, kept in sync with saves from ChatUI
+export function useSessions(limit?: number) {
+  const [sessions, setSessions] = useState<ChatSession[]>([]);
+
+  const reload = useCallback(() => {
+    listSessions(limit)
+      .then(setSessions)
+      .catch(error => console.error('Failed to load sessions:', error));
+  }, [limit]);
+
+  useEffect(() => {
+    reload();
+    window.addEventListener(SESSIONS_CHANGED_EVENT, reload);
+    return () => window.removeEventListener(SESSIONS_CHANGED_EVENT, reload);
+  }, [reload]);
+
+  const deleteSession = useCallback((id: string) => removeSession(id), []);
+
+  return { sessions, deleteSession };
+}
@@ -0,0 +1,38 @@
+import { useState, useEffect, useCallback } from 'react';
+import { getTargetModel } from '@/lib/target-models';
+
+const STORAGE_KEY = 'targetModel';
+// Fired on window when the target model changes, with the new id (or null) as detail
+const TARGET_MODEL_CHANGED_EVENT = 'target-model-changed';
+
+const readStoredTargetModel = () => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  return getTargetModel(stored) ? stored : null;
+};
+
+// The model generated prompts are formatted for; null means no particular model.
+// Every instance stays in sync, so the chat's /model command reaches the page's setting.
+export function useTargetModel() {
+  const [targetModelId, setTargetModelIdState] = useState<string | null>(readStoredTargetModel);
+
+  useEffect(() => {
+    const handleChange = (event: Event) => setTargetModelIdState((event as CustomEvent<string | null>).detail);
+    window.addEventListener(TARGET_MODEL_CHANGED_EVENT, handleChange);
+    return () => window.removeEventListener(TARGET_MODEL_CHANGED_EVENT, handleChange);
+  }, []);
+
+  const setTargetModelId = useCallback((id: string | null) => {
+    if (id) {
+      localStorage.setItem(STORAGE_KEY, id);
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+    window.dispatchEvent(new CustomEvent<string | null>(TARGET_MODEL_CHANGED_EVENT, { detail: id }));
+  }, []);
+
+  return {
+    targetModelId,
+    targetModel: getTargetModel(targetModelId),
+    setTargetModelId
+  };
+}
@@ -1,44 +1,56 @@
 import { useState, useEffect } from 'react';
 
-type Theme = 'dark' | 'light' | 'system';
+export type Theme = 'dark' | 'light' | 'system';
 
+const STORAGE_KEY = 'theme';
+const THEME_CHANGED_EVENT = 'theme-changed';
+const DARK_QUERY = '(prefers-color-scheme: dark)';
+
+const readStoredTheme = (): Theme => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  return stored === 'dark' || stored === 'light' ? stored : 'system';
+};
+
+const applyTheme = (theme: Theme) => {
+  const resolved = theme === 'system'
+    ? (window.matchMedia(DARK_QUERY).matches ? 'dark' : 'light')
+    : theme;
+
+  const root = window.document.documentElement;
+  root.classList.remove('dark', 'light');
+  root.classList.add(resolved);
+  root.style.colorScheme = resolved;
+};
+
+// Light, dark or follow the OS. Every instance stays in sync, and 'system'
+// follows the OS setting live while the page is open.
 export function useTheme() {
-  const [theme, setTheme] = useState<Theme>(() => {
-    // Check for stored theme preference
-    const storedTheme = localStorage.getItem('theme') as Theme | null;
-    
-    if (storedTheme) {
-      return storedTheme;
-    }
-    
-    // Check for system preference
-    if (window.matchMedia && window.matchMedia('(prefers-color-scheme: dark)').matches) {
-      return 'dark';
-    }
-    
-    return 'light';
-  });
+  const [theme, setThemeState] = useState<Theme>(readStoredTheme);
 
   useEffect(() => {
-    // Apply theme to document
-    const root = window.document.documentElement;
-    
-    root.classList.remove('dark', 'light');
-    
-    if (theme === 'system') {
-      const systemTheme = window.matchMedia('(prefers-color-scheme: dark)').matches ? 'dark' : 'light';
-      root.classList.add(systemTheme);
-    } else {
-      root.classList.add(theme);
-    }
-    
-    // Store theme preference
-    localStorage.setItem('theme', theme);
+    applyTheme(theme);
+    if (theme !== 'system') return;
+
+    const media = window.matchMedia(DARK_QUERY);
+    const handleSystemChange = () => applyTheme('system');
+    media.addEventListener('change', handleSystemChange);
+    return () => media.removeEventListener('change', handleSystemChange);
   }, [theme]);
 
-  const setThemeValue = (newTheme: Theme) => {
-    setTheme(newTheme);
+  useEffect(() => {
+    const handleChange = (event: Event) => setThemeState((event as CustomEvent<Theme>).detail);
+    window.addEventListener(THEME_CHANGED_EVENT, handleChange);
+    return () => window.removeEventListener(THEME_CHANGED_EVENT, handleChange);
+  }, []);
+
+  const setTheme = (nextTheme: Theme) => {
+    if (nextTheme === 'system') {
+      localStorage.removeItem(STORAGE_KEY);
+    } else {
+      localStorage.setItem(STORAGE_KEY, nextTheme);
+    }
+    window.dispatchEvent(new CustomEvent<Theme>(THEME_CHANGED_EVENT, { detail: nextTheme }));
   };
 
-  return { theme, setTheme: setThemeValue };
-} 
\ No newline at end of file
+  return { theme, setTheme };
+}
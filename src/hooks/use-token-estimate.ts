@@ -0,0 +1,24 @@
+import { useEffect, useState } from 'react';
+import type { PromptLevel } from '@/lib/llm';
+import type { TargetModel } from '@/lib/target-models';
+import { countTokens, estimatePromptUsage, type PromptUsageEstimate, type TokenCount } from '@/lib/tokenizer';
+
+// Token count for a prompt, with cost and context fit when a target model is known. Null while
+// the tokenizer loads.
+export function useTokenEstimate(text: string, target?: TargetModel, level?: PromptLevel) {
+  const [estimate, setEstimate] = useState<TokenCount | PromptUsageEstimate | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (target ? estimatePromptUsage(text, target, level) : countTokens(text))
+      .then(result => {
+        if (!cancelled) setEstimate(result);
+      })
+      .catch(error => console.error('Failed to count tokens:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [text, target, level]);
+
+  return estimate;
+}
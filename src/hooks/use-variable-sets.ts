@@ -0,0 +1,37 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useAuth } from '@/hooks/use-auth';
+import { isOwnedBy } from '@/lib/library';
+import {
+  VARIABLE_SETS_CHANGED_EVENT,
+  deleteVariableSet,
+  listVariableSets,
+  saveVariableSet,
+  type VariableValueSet
+} from '@/lib/variable-sets';
+
+// Saved placeholder values belonging to the current user, kept in sync across the app
+export function useVariableSets() {
+  const { user } = useAuth();
+  const [allSets, setAllSets] = useState<VariableValueSet[]>([]);
+
+  const userId = user?.id || null;
+  const sets = useMemo(() => allSets.filter(set => isOwnedBy(set, userId)), [allSets, userId]);
+
+  useEffect(() => {
+    const reload = () => {
+      listVariableSets()
+        .then(setAllSets)
+        .catch(error => console.error('Failed to load saved values:', error));
+    };
+
+    reload();
+    window.addEventListener(VARIABLE_SETS_CHANGED_EVENT, reload);
+    return () => window.removeEventListener(VARIABLE_SETS_CHANGED_EVENT, reload);
+  }, []);
+
+  return {
+    sets,
+    saveSet: saveVariableSet,
+    deleteSet: deleteVariableSet
+  };
+}
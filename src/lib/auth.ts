@@ -0,0 +1,68 @@
+import { apiFetch } from '@/lib/api';
+
+// Account as returned by the API server
+export interface User {
+  id: string;
+  email: string;
+  hasPassword: boolean;
+  createdAt: string;
+}
+
+interface AuthResponse {
+  user: User | null;
+}
+
+export interface Credentials {
+  email: string;
+  password: string;
+}
+
+// Fired on window with the signed-in user (or null) whenever it is fetched or changes
+export const AUTH_CHANGED_EVENT = 'auth-changed';
+
+const notifyChange = (user: User | null) => {
+  window.dispatchEvent(new CustomEvent<User | null>(AUTH_CHANGED_EVENT, { detail: user }));
+};
+
+const postAuth = async (path: string, body: object = {}) => {
+  const { user } = await apiFetch<AuthResponse>(path, {
+    method: 'POST',
+    body: JSON.stringify(body)
+  });
+  notifyChange(user);
+  return user;
+};
+
+// The user for the current session cookie, or null when signed out
+export const fetchCurrentUser = async () => {
+  const { user } = await apiFetch<AuthResponse>('/api/auth/me');
+  notifyChange(user);
+  return user;
+};
+
+// Emails a link that confirms the address and creates the account. The response is the same
+// whether or not the address already has an account.
+export const signUp = async (credentials: Credentials) => {
+  await apiFetch<{ sent: boolean }>('/api/auth/signup', {
+    method: 'POST',
+    body: JSON.stringify(credentials)
+  });
+};
+
+export const signIn = (credentials: Credentials) => postAuth('/api/auth/login', credentials);
+
+export const signOut = () => postAuth('/api/auth/logout');
+
+// Adds or changes the password on the signed-in account; changing one needs the current password
+export const setPassword = (password: string, currentPassword?: string) =>
+  postAuth('/api/auth/password', { password, currentPassword });
+
+// Emails a one-time sign-in link; succeeds whether or not the address has an account
+export const requestMagicLink = async (email: string) => {
+  await apiFetch<{ sent: boolean }>('/api/auth/magic-link', {
+    method: 'POST',
+    body: JSON.stringify({ email })
+  });
+};
+
+export const verifyMagicLink = (token: string) => postAuth('/api/auth/magic-link/verify', { token });
@@ -0,0 +1,80 @@
+import type { FlowTier } from '@/lib/flows';
+import { TARGET_MODELS, type TargetModel } from '@/lib/target-models';
+
+// Commands typed into the chat input, e.g. "/tone formal"
+export type SlashCommandName = 'tone' | 'audience' | 'generate' | 'skip' | 'restart' | 'model';
+
+export interface SlashCommandDefinition {
+  name: SlashCommandName;
+  // What the command expects after its name, if anything
+  argument?: 'text' | 'model';
+}
+
+export const SLASH_COMMANDS: SlashCommandDefinition[] = [
+  { name: 'tone', argument: 'text' },
+  { name: 'audience', argument: 'text' },
+  // Takes an optional tier, e.g. "/generate cracked"
+  { name: 'generate' },
+  { name: 'skip' },
+  { name: 'restart' },
+  { name: 'model', argument: 'model' }
+];
+
+export interface ParsedSlashCommand {
+  command: SlashCommandDefinition;
+  argument: string;
+}
+
+// "/tone  formal " -> the tone command with argument 'formal'. Null when the input doesn't start
+// with a known command, so messages like "/r/webdev readers" are sent as they are.
+export const parseSlashCommand = (input: string): ParsedSlashCommand | null => {
+  const match = input.trim().match(/^\/(\S+)(?:\s+([\s\S]*))?$/);
+  const name = match?.[1].toLowerCase();
+  const command = SLASH_COMMANDS.find(item => item.name === name);
+  if (!match || !command) return null;
+
+  return { command, argument: (match[2] || '').trim() };
+};
+
+// Words that clear the target model with /model
+const NO_MODEL = ['none', 'off', 'any'];
+
+// Resolve "/model claude" by id, assistant name or company; null clears it, undefined is unknown
+export const matchTargetModel = (query: string): TargetModel | null | undefined => {
+  const normalized = query.trim().toLowerCase();
+  if (NO_MODEL.includes(normalized)) return null;
+
+  return TARGET_MODELS.find(model =>
+    [model.id, model.label, model.provider].some(name => name.toLowerCase() === normalized));
+};
+
+// Resolve "/generate deep" to a tier by level or label; undefined when nothing matches
+export const matchFlowTier = (tiers: FlowTier[], query: string) => {
+  const normalized = query.replace(/\s+/g, '').toLowerCase();
+  return tiers.find(tier =>
+    [tier.level, tier.label].some(name => name.replace(/\s+/g, '').toLowerCase().startsWith(normalized)));
+};
+
+// What the text just before the caret is asking to complete
+export type InputTrigger =
+  | { kind: 'command'; query: string }
+  | { kind: 'model'; query: string }
+  // `start` is where the "@" sits, so the mention can be cut out of the input
+  | { kind: 'mention'; query: string; start: number };
+
+export const getInputTrigger = (input: string, caret: number): InputTrigger | null => {
+  const beforeCaret = input.slice(0, caret);
+
+  const command = beforeCaret.match(/^\/(\S*)$/);
+  if (command) return { kind: 'command', query: command[1].toLowerCase() };
+
+  const model = beforeCaret.match(/^\/model\s+(\S*)$/i);
+  if (model) return { kind: 'model', query: model[1].toLowerCase() };
+
+  const mention = beforeCaret.match(/(^|\s)@([^\s@]*)$/);
+  if (mention) {
+    return { kind: 'mention', query: mention[2].toLowerCase(), start: beforeCaret.length - mention[2].length - 1 };
+  }
+
+  return null;
+};
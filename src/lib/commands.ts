@@ -0,0 +1,51 @@
+import type { LucideIcon } from 'lucide-react';
+
+// Where a command is listed in the palette
+export type CommandGroup = 'chat' | 'modes' | 'navigation' | 'preferences';
+
+// An action offered in the command palette by the component that owns it
+export interface PaletteCommand {
+  // Unique across the app, e.g. "chat.copy"
+  id: string;
+  group: CommandGroup;
+  // Already translated; the palette shows it as is
+  label: string;
+  // Extra words the search should match
+  keywords?: string[];
+  icon?: LucideIcon;
+  perform: () => void;
+}
+
+// Order the groups are listed in
+export const COMMAND_GROUPS: CommandGroup[] = ['chat', 'modes', 'navigation', 'preferences'];
+
+// Fired on window whenever a component registers or withdraws its commands
+export const COMMANDS_CHANGED_EVENT = 'commands-changed';
+// Fired on window to open the palette from a button rather than the shortcut
+export const OPEN_COMMAND_PALETTE_EVENT = 'open-command-palette';
+
+// Commands by the component that registered them, so unmounting takes them away again
+const registry = new Map<string, PaletteCommand[]>();
+
+const notifyChange = () => {
+  window.dispatchEvent(new Event(COMMANDS_CHANGED_EVENT));
+};
+
+export const getCommands = () => [...registry.values()].flat();
+
+// Replace everything `owner` offers; returns a function that withdraws it
+export const registerCommands = (owner: string, commands: PaletteCommand[]) => {
+  registry.set(owner, commands);
+  notifyChange();
+
+  return () => {
+    if (registry.get(owner) === commands) {
+      registry.delete(owner);
+      notifyChange();
+    }
+  };
+};
+
+export const openCommandPalette = () => {
+  window.dispatchEvent(new Event(OPEN_COMMAND_PALETTE_EVENT));
+};
@@ -0,0 +1,66 @@
+// Shared IndexedDB database for everything the app keeps in the browser
+const DB_NAME = 'prompt-sessions';
+const DB_VERSION = 4;
+
+export const SESSIONS_STORE = 'sessions';
+export const LIBRARY_STORE = 'library';
+export const FEEDBACK_STORE = 'feedback';
+export const VARIABLE_SETS_STORE = 'variable-sets';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      // Each version only adds what it introduced, so older databases upgrade in place
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' }).createIndex('updatedAt', 'updatedAt');
+        }
+        if (event.oldVersion < 2) {
+          db.createObjectStore(LIBRARY_STORE, { keyPath: 'id' }).createIndex('updatedAt', 'updatedAt');
+        }
+        if (event.oldVersion < 3) {
+          db.createObjectStore(FEEDBACK_STORE, { keyPath: 'id' }).createIndex('createdAt', 'createdAt');
+        }
+        if (event.oldVersion < 4) {
+          db.createObjectStore(VARIABLE_SETS_STORE, { keyPath: 'id' }).createIndex('updatedAt', 'updatedAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again instead of caching the failure
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+// Run a single request against one object store
+export const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  createRequest: (store: IDBObjectStore) => IDBRequest<T>
+) => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = createRequest(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+// Short random id for stored records
+export const createRecordId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
@@ -0,0 +1,84 @@
+import { FEEDBACK_STORE, runRequest } from '@/lib/db';
+import type { PromptLevel, ProviderId } from '@/lib/llm';
+
+export type FeedbackRating = 'like' | 'dislike';
+
+export type DislikeReason = 'too-generic' | 'wrong-tone' | 'too-long' | 'off-topic';
+
+export const DISLIKE_REASONS: { id: DislikeReason; label: string }[] = [
+  { id: 'too-generic', label: 'Too generic' },
+  { id: 'wrong-tone', label: 'Wrong tone' },
+  { id: 'too-long', label: 'Too long' },
+  { id: 'off-topic', label: 'Missed what I asked for' }
+];
+
+// One rating per generated prompt; rating it again replaces the earlier feedback
+export interface PromptFeedback {
+  // The attachment message id, so each prompt has at most one entry
+  id: string;
+  rating: FeedbackRating;
+  reasons: DislikeReason[];
+  promptText: string;
+  level: PromptLevel;
+  // Which provider wrote the prompt, and the offline template variant if it was a template
+  source?: ProviderId;
+  templateId?: string;
+  flowId: string;
+  sessionId: string;
+  targetModelId?: string;
+  createdAt: Date;
+}
+
+// Fired on window whenever feedback is recorded or withdrawn
+export const FEEDBACK_CHANGED_EVENT = 'feedback-changed';
+
+const notifyChange = () => {
+  window.dispatchEvent(new Event(FEEDBACK_CHANGED_EVENT));
+};
+
+export const listFeedback = async () => {
+  const feedback = (await runRequest(FEEDBACK_STORE, 'readonly', store => store.getAll())) as PromptFeedback[];
+  return feedback.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+};
+
+export const saveFeedback = async (feedback: PromptFeedback) => {
+  await runRequest(FEEDBACK_STORE, 'readwrite', store => store.put(feedback));
+  notifyChange();
+};
+
+export const deleteFeedback = async (id: string) => {
+  await runRequest(FEEDBACK_STORE, 'readwrite', store => store.delete(id));
+  notifyChange();
+};
+
+// Share of likes per template variant, smoothed so one vote doesn't decide everything
+export const getTemplateScores = (feedback: PromptFeedback[]) => {
+  const counts: Record<string, { likes: number; total: number }> = {};
+
+  feedback.forEach(({ templateId, rating }) => {
+    if (!templateId) return;
+    counts[templateId] ??= { likes: 0, total: 0 };
+    counts[templateId].total++;
+    if (rating === 'like') counts[templateId].likes++;
+  });
+
+  return Object.fromEntries(
+    Object.entries(counts).map(([templateId, { likes, total }]) => [templateId, (likes + 1) / (total + 2)])
+  );
+};
+
+// Download every recorded rating as a JSON file
+export const exportFeedback = async () => {
+  const feedback = await listFeedback();
+  const blob = new Blob([JSON.stringify({ exportedAt: new Date(), feedback }, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `prompt-feedback-${new Date().toISOString().slice(0, 10)}.json`;
+  link.click();
+  // Some browsers start the download after click() returns, so give them a moment
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+
+  return feedback.length;
+};
@@ -0,0 +1,138 @@
+import { z } from 'zod';
+import defaultFlowData from './default-flows.json';
+import type { PromptSpec, PromptSpecField } from '@/lib/prompt-spec';
+import { flowSchema, type FlowDefinition, type FlowQuestion, type FlowTier } from './schema';
+
+export * from './schema';
+
+const CUSTOM_FLOWS_KEY = 'flows:custom';
+// Fired on window when custom flows change, so open chats pick up edits immediately
+export const FLOWS_CHANGED_EVENT = 'flows-changed';
+
+// Built-in modes, validated once at load so a bad edit to the JSON fails loudly
+export const DEFAULT_FLOWS: FlowDefinition[] = z.array(flowSchema).parse(defaultFlowData);
+
+export const DEFAULT_FLOW_ID = DEFAULT_FLOWS[0].id;
+
+export const isBuiltInFlow = (id: string) => DEFAULT_FLOWS.some(flow => flow.id === id);
+
+// Turn zod issues into "path: message" lines for display
+const formatIssues = (error: z.ZodError) =>
+  error.issues.map(issue => (issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message));
+
+export const validateFlow = (input: unknown): { flow?: FlowDefinition; errors: string[] } => {
+  const result = flowSchema.safeParse(input);
+  return result.success
+    ? { flow: result.data, errors: [] }
+    : { errors: formatIssues(result.error) };
+};
+
+// Custom flows authored in the flow editor, skipping any that no longer validate
+export const loadCustomFlows = (): FlowDefinition[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CUSTOM_FLOWS_KEY) || '[]');
+    if (!Array.isArray(stored)) return [];
+
+    return stored.flatMap((item) => {
+      const { flow, errors } = validateFlow(item);
+      if (!flow) {
+        console.warn('Skipping invalid custom flow:', errors);
+        return [];
+      }
+      return [flow];
+    });
+  } catch (error) {
+    console.error('Failed to load custom flows:', error);
+    return [];
+  }
+};
+
+export const saveCustomFlows = (flows: FlowDefinition[]) => {
+  localStorage.setItem(CUSTOM_FLOWS_KEY, JSON.stringify(flows));
+  window.dispatchEvent(new Event(FLOWS_CHANGED_EVENT));
+};
+
+export type FlowStep =
+  | { type: 'question'; question: FlowQuestion }
+  | { type: 'generate'; tier: FlowTier };
+
+// What the chat should do after the user's nth response: ask a question, generate a tier, or nothing
+export const getFlowStep = (flow: FlowDefinition, responseCount: number): FlowStep | null => {
+  let previous = 0;
+
+  for (const tier of flow.tiers) {
+    if (responseCount < tier.responses) {
+      const question = tier.questions[responseCount - previous - 1];
+      return question ? { type: 'question', question } : null;
+    }
+    if (responseCount === tier.responses) {
+      return { type: 'generate', tier };
+    }
+    previous = tier.responses;
+  }
+
+  return null;
+};
+
+// How far the user is towards the next tier
+export const getTierProgress = (flow: FlowDefinition, responseCount: number) => {
+  const nextIndex = flow.tiers.findIndex(tier => responseCount < tier.responses);
+  const previous = nextIndex > 0 ? flow.tiers[nextIndex - 1].responses : 0;
+  const nextTier = nextIndex === -1 ? null : flow.tiers[nextIndex];
+
+  return {
+    nextTier,
+    isFirstTier: nextIndex === 0,
+    collected: nextTier ? responseCount - previous : 0,
+    needed: nextTier ? nextTier.responses - previous : 0,
+    maxResponses: flow.tiers[flow.tiers.length - 1].responses
+  };
+};
+
+// How much of what the flow asks about is actually known. Answers, /tone-style edits and the
+// details panel count; skipped questions and non-answers don't.
+export const getContextProgress = (flow: FlowDefinition, spec: PromptSpec) => {
+  const fields = new Set<PromptSpecField>([
+    'topic',
+    ...flow.tiers.flatMap(tier => tier.questions.map(question => question.field))
+  ]);
+  const collected = [...fields].filter(field => spec[field].trim()).length;
+
+  return { collected, total: fields.size };
+};
+
+// The flow as seen in another language; "es-MX" falls back to "es", then to the flow's own wording
+export const localizeFlow = (flow: FlowDefinition, locale: string): FlowDefinition => {
+  const translation = flow.translations?.[locale] || flow.translations?.[locale.split('-')[0]];
+  if (!translation) return flow;
+
+  return {
+    ...flow,
+    name: translation.name || flow.name,
+    description: translation.description ?? flow.description,
+    greeting: translation.greeting || flow.greeting,
+    tiers: flow.tiers.map(tier => {
+      const tierTranslation = translation.tiers?.[tier.level];
+      if (!tierTranslation) return tier;
+
+      return {
+        ...tier,
+        label: tierTranslation.label || tier.label,
+        questions: tier.questions.map((question, index) => ({
+          ...question,
+          text: tierTranslation.questions?.[index] || question.text
+        })),
+        generatingMessage: tierTranslation.generatingMessage || tier.generatingMessage,
+        completionMessage: tierTranslation.completionMessage || tier.completionMessage,
+        footerHint: tierTranslation.footerHint ?? tier.footerHint,
+        templates: tierTranslation.templates || tier.templates
+      };
+    })
+  };
+};
+
+export const getFlowTier = (flow: FlowDefinition, level?: string) =>
+  flow.tiers.find(tier => tier.level === level);
+
+export const isLastTier = (flow: FlowDefinition, level?: string) =>
+  flow.tiers[flow.tiers.length - 1].level === level;
@@ -0,0 +1,113 @@
+import { z } from 'zod';
+import { TEMPLATE_LIBRARY } from '@/lib/llm';
+import { validateTemplate } from '@/lib/template-engine';
+
+const hexColor = z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Use a 6-digit hex colour like #E24B0F');
+
+// An offline prompt template, written in the language described in src/lib/template-engine.ts
+const promptTemplateSchema = z.string().trim().min(1).superRefine((text, ctx) => {
+  const error = validateTemplate(text, TEMPLATE_LIBRARY.partials);
+  if (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+  }
+});
+
+export const flowQuestionSchema = z.object({
+  text: z.string().trim().min(1, 'Question text is required'),
+  // Spec field the answer fills in
+  field: z.enum(['topic', 'goal', 'tone', 'audience', 'challenges', 'valueCriteria', 'angles', 'assumptions'])
+});
+
+export const flowTierSchema = z.object({
+  level: z.enum(['quick', 'deepDive', 'crackedUp']),
+  label: z.string().trim().min(1, 'Tier label is required'),
+  // Total user responses (including the topic) that unlock this tier's prompt
+  responses: z.number().int().positive(),
+  // Asked in order between the previous tier and this one
+  questions: z.array(flowQuestionSchema),
+  generatingMessage: z.string().trim().min(1),
+  completionMessage: z.string().trim().min(1),
+  footerHint: z.string().default(''),
+  // Optional offline templates used instead of the built-in ones
+  templates: z.array(promptTemplateSchema).optional()
+});
+
+export const flowThemeSchema = z.object({
+  primary: hexColor,
+  secondary: hexColor,
+  tertiary: hexColor,
+  lightBg: hexColor,
+  textColor: hexColor
+});
+
+// Wording of a tier in another language; questions line up with the tier's questions by position
+export const flowTierTranslationSchema = z.object({
+  label: z.string().trim().min(1).optional(),
+  questions: z.array(z.string().trim().min(1)).optional(),
+  generatingMessage: z.string().trim().min(1).optional(),
+  completionMessage: z.string().trim().min(1).optional(),
+  footerHint: z.string().optional(),
+  templates: z.array(promptTemplateSchema).optional()
+});
+
+// Anything left out falls back to the flow's own wording
+export const flowTranslationSchema = z.object({
+  name: z.string().trim().min(1).optional(),
+  description: z.string().optional(),
+  greeting: z.string().trim().min(1).optional(),
+  tiers: z.record(flowTierSchema.shape.level, flowTierTranslationSchema).optional()
+});
+
+export const flowSchema = z.object({
+  // The id is the mode quota is counted under, which the API server caps at 40 characters
+  id: z.string()
+    .max(40, 'Use at most 40 characters')
+    .regex(/^[a-zA-Z][\w-]*$/, 'Use letters, numbers, dashes or underscores, starting with a letter'),
+  name: z.string().trim().min(1, 'Name is required'),
+  description: z.string().default(''),
+  icon: z.enum(['zap', 'sparkles', 'wand', 'lightbulb']).default('zap'),
+  greeting: z.string().trim().min(1, 'Greeting is required'),
+  theme: flowThemeSchema,
+  tiers: z.array(flowTierSchema).min(1, 'A flow needs at least one tier'),
+  // Keyed by locale code, e.g. "es"
+  translations: z.record(z.string(), flowTranslationSchema).optional()
+}).superRefine((flow, ctx) => {
+  let previous = 0;
+  const seenLevels = new Set<string>();
+
+  flow.tiers.forEach((tier, index) => {
+    if (tier.responses <= previous) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['tiers', index, 'responses'],
+        message: `Must be greater than the previous tier's responses (${previous})`
+      });
+    }
+
+    // Every response between two tiers (except the free-form reply to the previous prompt) gets a question
+    const needed = tier.responses - previous - 1;
+    if (tier.questions.length < needed) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['tiers', index, 'questions'],
+        message: `Needs at least ${needed} question(s) to reach ${tier.responses} responses`
+      });
+    }
+
+    if (seenLevels.has(tier.level)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['tiers', index, 'level'],
+        message: `Level "${tier.level}" is already used by another tier`
+      });
+    }
+    seenLevels.add(tier.level);
+    previous = tier.responses;
+  });
+});
+
+export type FlowQuestion = z.infer<typeof flowQuestionSchema>;
+export type FlowTier = z.infer<typeof flowTierSchema>;
+export type FlowTheme = z.infer<typeof flowThemeSchema>;
+export type FlowTranslation = z.infer<typeof flowTranslationSchema>;
+export type FlowDefinition = z.infer<typeof flowSchema>;
@@ -0,0 +1,85 @@
+import en, { type Message, type MessageKey } from './messages/en';
+import es from './messages/es';
+import ar from './messages/ar';
+
+export type { Message, MessageKey };
+export type MessageValues = Record<string, string | number>;
+
+export type LocaleDirection = 'ltr' | 'rtl';
+
+export interface LocaleInfo {
+  code: string;
+  // Name of the language in that language, as shown in the switcher
+  label: string;
+  dir: LocaleDirection;
+}
+
+export const LOCALES: LocaleInfo[] = [
+  { code: 'en', label: 'English', dir: 'ltr' },
+  { code: 'es', label: 'Español', dir: 'ltr' },
+  { code: 'ar', label: 'العربية', dir: 'rtl' }
+];
+
+export type Locale = string;
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+// Catalogs other than English may be partial; missing keys fall back to English
+const CATALOGS: Record<Locale, Partial<Record<MessageKey, Message>>> = { en, es, ar };
+
+const STORAGE_KEY = 'locale';
+// Fired on window when the UI language changes, with the new locale as detail
+export const LOCALE_CHANGED_EVENT = 'locale-changed';
+
+export const getLocaleInfo = (locale: Locale) =>
+  LOCALES.find(item => item.code === locale) || LOCALES[0];
+
+// Closest supported locale for a BCP 47 tag like "es-MX", or undefined
+export const matchLocale = (tag?: string | null): Locale | undefined => {
+  if (!tag) return undefined;
+  const normalized = tag.toLowerCase();
+  return LOCALES.find(item => item.code === normalized)?.code
+    || LOCALES.find(item => item.code === normalized.split('-')[0])?.code;
+};
+
+// Saved choice first, then the browser's preferred languages, then English
+export const detectLocale = (): Locale => {
+  const stored = matchLocale(localStorage.getItem(STORAGE_KEY));
+  if (stored) return stored;
+
+  const preferred = navigator.languages?.length ? navigator.languages : [navigator.language];
+  for (const tag of preferred) {
+    const match = matchLocale(tag);
+    if (match) return match;
+  }
+  return DEFAULT_LOCALE;
+};
+
+export const saveLocale = (locale: Locale) => {
+  localStorage.setItem(STORAGE_KEY, locale);
+  window.dispatchEvent(new CustomEvent<Locale>(LOCALE_CHANGED_EVENT, { detail: locale }));
+};
+
+export const applyLocale = (locale: Locale) => {
+  const root = window.document.documentElement;
+  root.lang = locale;
+  root.dir = getLocaleInfo(locale).dir;
+};
+
+const pluralRules = new Map<Locale, Intl.PluralRules>();
+
+const getPluralRules = (locale: Locale) => {
+  if (!pluralRules.has(locale)) pluralRules.set(locale, new Intl.PluralRules(locale));
+  return pluralRules.get(locale)!;
+};
+
+// Plural messages pick their form from `count`; {name} placeholders are filled from values
+export const translate = (locale: Locale, key: MessageKey, values: MessageValues = {}): string => {
+  const message = CATALOGS[locale]?.[key] ?? en[key];
+  const template = typeof message === 'string'
+    ? message
+    : message[getPluralRules(locale).select(Number(values.count ?? 0))] ?? message.other;
+
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in values ? String(values[name]) : match);
+};
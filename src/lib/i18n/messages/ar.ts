@@ -0,0 +1,455 @@
+import type { Message, MessageKey } from './en';
+
+const ar: Partial<Record<MessageKey, Message>> = {
+  // Shared
+  'common.copy': 'نسخ',
+  'common.copied': 'تم النسخ!',
+  'common.copyFailed.title': 'تعذّر النسخ',
+  'common.copyFailed.description': 'حاول مرة أخرى أو انسخ النص يدويًا.',
+  'common.copiedToClipboard': 'تم النسخ إلى الحافظة!',
+  'common.promptReady': 'موجّهك جاهز للاستخدام.',
+  'common.storageUnavailable': 'تخزين المتصفح غير متاح الآن.',
+  'common.justNow': 'الآن',
+  'common.minutesAgo': 'قبل {count} د',
+  'common.hoursAgo': 'قبل {count} س',
+  'common.daysAgo': 'قبل {count} ي',
+  'common.answers': {
+    zero: 'لا إجابات',
+    one: 'إجابة واحدة',
+    two: 'إجابتان',
+    few: '{count} إجابات',
+    many: '{count} إجابة',
+    other: '{count} إجابة'
+  },
+  'common.answersOf': '{count}/{total} إجابات',
+
+  // Header controls
+  'theme.change': 'تغيير المظهر',
+  'theme.light': 'فاتح',
+  'theme.dark': 'داكن',
+  'theme.system': 'حسب النظام',
+  'language.change': 'تغيير اللغة',
+
+  // App shell
+  'nav.newChat': 'محادثة جديدة',
+  'nav.history': 'السجل',
+  'nav.library': 'المكتبة',
+  'nav.settings': 'الإعدادات',
+  'nav.recentChats': 'المحادثات الأخيرة',
+  'nav.signIn': 'تسجيل الدخول',
+  'nav.modes': 'الأوضاع',
+  'nav.editModes': 'تعديل الأوضاع…',
+  'nav.pricing': 'الأسعار',
+  'nav.home': 'الرئيسية',
+
+  // Command palette
+  'commands.open': 'البحث والأوامر',
+  'commands.search': 'بحث…',
+  'commands.placeholder': 'ابحث في الموجّهات والمحادثات والأوامر…',
+  'commands.empty': 'لا توجد نتائج.',
+  'commands.group.chat': 'المحادثة الحالية',
+  'commands.group.modes': 'تبديل الوضع',
+  'commands.group.navigation': 'الانتقال إلى',
+  'commands.group.preferences': 'التفضيلات',
+  'commands.group.savedPrompts': 'الموجّهات المحفوظة',
+  'commands.group.recentChats': 'المحادثات الأخيرة',
+  'commands.startOver': 'البدء من جديد في {mode}',
+  'commands.switchMode': 'التبديل إلى {mode}',
+  'commands.copyPrompt': 'نسخ الموجّه الحالي',
+  'commands.refreshPrompt': 'تحديث الموجّه الحالي',
+  'commands.skipQuestion': 'تخطّي هذا السؤال',
+  'commands.generateNow': 'توليد {tier} الآن',
+  'commands.compareBranches': 'مقارنة الموجّهات بين الفروع',
+  'commands.theme.light': 'التبديل إلى المظهر الفاتح',
+  'commands.theme.dark': 'التبديل إلى المظهر الداكن',
+  'commands.theme.system': 'استخدام مظهر النظام',
+
+  // Chat
+  'chat.close': 'إغلاق المحادثة',
+  'chat.chooseMode': 'اختيار وضع الموجّه',
+  'chat.promptMode': 'وضع الموجّه',
+  'chat.switchWarning': 'تغيير الوضع يبدأ المحادثة من جديد.',
+  'chat.editModes': 'تعديل الأوضاع',
+  'chat.exportFeedback': 'تصدير التقييمات',
+  'chat.contextProgress': 'السياق: جُمعت {collected}/{total} تفاصيل',
+  'chat.contextComplete': 'السياق: مكتمل',
+  'chat.typing': 'يكتب...',
+  'chat.online': 'متصل',
+  'chat.showDetails': 'إظهار تفاصيل الموجّه',
+  'chat.hideDetails': 'إخفاء تفاصيل الموجّه',
+  'chat.contextDetails': '{collected}/{total} تفاصيل معروفة',
+  'chat.placeholder': 'اكتب رسالتك... (/ للأوامر، @ للموجّهات المحفوظة)',
+  'chat.slash.heading': 'الأوامر',
+  'chat.slash.tone': 'حدّد النبرة، مثل /tone رسمية',
+  'chat.slash.audience': 'حدّد الجمهور، مثل /audience المطوّرون',
+  'chat.slash.generate': 'ولّد موجّهًا الآن، مثل /generate deep dive',
+  'chat.slash.skip': 'تخطَّ السؤال الحالي',
+  'chat.slash.restart': 'ابدأ من جديد في هذا الوضع',
+  'chat.slash.model': 'نسّق الموجّهات لنموذج معيّن، مثل /model claude',
+  'chat.slash.modelsHeading': 'التنسيق لـ',
+  'chat.slash.noModel': 'بلا نموذج محدد',
+  'chat.slash.mentionsHeading': 'الموجّهات المحفوظة',
+  'chat.slash.fieldSet': '{field}: «{value}»',
+  'chat.slash.needValue': 'اكتب قيمة بعد {command}',
+  'chat.slash.needTopic': 'أخبرني أولًا عن موضوع الموجّه',
+  'chat.slash.modelSet': 'ستُنسَّق الموجّهات لـ{model}',
+  'chat.slash.modelCleared': 'لن تُنسَّق الموجّهات لنموذج محدد',
+  'chat.slash.unknownModel': 'لا يوجد نموذج باسم «{model}»',
+  'chat.slash.modelOptions': 'جرّب أحد هذه: {models}، أو none.',
+  'chat.slash.unknownTier': 'لا يوجد مستوى باسم "{tier}"',
+  'chat.slash.tierOptions': 'جرّب أحد {tiers}.',
+  'chat.slash.nothingToSkip': 'لا يوجد سؤال لتخطّيه',
+  'chat.mentions.label': 'بالاستناد إلى:',
+  'chat.mentions.remove': 'إزالة {title}',
+  'chat.send': 'إرسال الرسالة',
+  'chat.stop': 'إيقاف التوليد',
+  'chat.toFirstTier': '{collected}/{needed} للوصول إلى {tier}',
+  'chat.toNextTier': '{collected}/{needed} أخرى للوصول إلى {tier}',
+  'chat.allUnlocked': 'تم فتح جميع مستويات الموجّه!',
+  'chat.yourPrompt': 'موجّهك',
+  'chat.prompt': 'موجّه',
+  'chat.untitledSession': 'جلسة بلا عنوان',
+  'chat.saveToLibrary': 'حفظ في المكتبة',
+  'chat.savedToLibrary': 'محفوظ في المكتبة',
+  'chat.share': 'مشاركة الموجّه',
+  'chat.copyPrompt': 'نسخ الموجّه',
+  'chat.refine': 'تحسين',
+  'chat.startOver': 'البدء من جديد',
+  'chat.formattedFor': 'منسّق لـ {model}',
+  'chat.refreshing': 'جارٍ تجديد موجّهك...',
+  'chat.refineFurther': 'لنحسّنه أكثر! أخبرني المزيد عمّا تحتاجه.',
+  'chat.toast.sessionNotFound.title': 'الجلسة غير موجودة',
+  'chat.toast.sessionNotFound.description': 'ربما حُذفت، لذا بدأنا جلسة جديدة.',
+  'chat.toast.resumeFailed.title': 'تعذّر استئناف الجلسة',
+  'chat.toast.resumeFailed.description': 'تخزين المتصفح غير متاح، لذا بدأنا جلسة جديدة.',
+  'chat.toast.stopped.title': 'توقف التوليد',
+  'chat.toast.stopped.kept': 'احتفظنا بما تم توليده حتى الآن.',
+  'chat.toast.stopped.empty': 'لم يُولَّد شيء بعد.',
+  'chat.toast.offline.title': 'نستخدم قالبًا دون اتصال',
+  'chat.toast.offline.description': 'تعذّر الوصول إلى مزوّد الذكاء الاصطناعي، فإليك موجّهًا مبنيًا على قالب بدلًا منه.',
+  'chat.toast.interrupted.title': 'انقطع التوليد',
+  'chat.toast.interrupted.description': 'توقف مزوّد الذكاء الاصطناعي عن الاستجابة. احتفظنا بما تم توليده حتى الآن.',
+  'chat.toast.refreshed.title': 'تم تجديد الموجّه!',
+  'chat.toast.refreshed.description': 'إليك صياغة جديدة لطلبك.',
+  'chat.toast.saved.description': 'أضف وسومًا أو ضعه في مجلد من المكتبة.',
+  'chat.toast.saved.action': 'فتح المكتبة',
+  'chat.toast.saved.actionLabel': 'فتح مكتبة الموجّهات',
+  'chat.toast.saveFailed.title': 'تعذّر حفظ الموجّه',
+  'chat.toast.shareCopied': 'تم نسخ رابط المشاركة',
+  'chat.toast.shareReady': 'رابط المشاركة جاهز',
+  'chat.toast.shareFailed.title': 'تعذّرت مشاركة الموجّه',
+  'chat.toast.shareFailed.description': 'تحتاج المشاركة إلى خادم الواجهة البرمجية (npm run server).',
+  'chat.toast.quota.title': 'بلغت الحد اليومي',
+  'chat.toast.quota.description': 'إجاباتك محفوظة. سنولّد هذا الموجّه فور تجدد حصتك.',
+  'chat.output.label': 'لغة الموجّه',
+  'chat.output.asWritten': 'كما كُتب',
+  'chat.output.hint': 'تُعاد كتابة الموجّهات لمتحدثي اللغة، ولا تُترجم حرفيًا.',
+  'chat.output.rewriting': 'جارٍ إعادة الكتابة بـ{language}…',
+  'chat.output.language': 'لغة الإخراج: {language}',
+  'chat.output.compare': 'المقارنة بالأصل',
+  'chat.output.hideCompare': 'إخفاء الأصل',
+  'chat.output.original': 'الأصل',
+  'chat.toast.localizeFailed.title': 'تعذّرت إعادة كتابة الموجّه',
+  'chat.toast.localizeFailed.description': 'لم يستجب مزوّد الذكاء الاصطناعي، لذا يطلب الموجّه الإجابة بـ{language} بدلًا من ذلك.',
+  'chat.toast.languageDirective.title': 'لم تُعَد كتابة الموجّه',
+  'chat.toast.languageDirective.description': 'تتطلب إعادة الكتابة مزوّد ذكاء اصطناعي، لذا يطلب الموجّه الإجابة بـ{language} بدلًا من ذلك.',
+  'chat.edit': 'تعديل الإجابة',
+  'chat.edit.save': 'حفظ ومتابعة',
+  'chat.edit.cancel': 'إلغاء',
+  'chat.edited': 'معدّلة',
+  'chat.skip': 'تخطّي السؤال',
+  'chat.skipped': 'تم التخطّي',
+  'chat.generateNow': 'التوليد الآن',
+  'chat.generateNow.heading': 'التوليد بما شاركته حتى الآن',
+  'chat.generateNow.early': {
+    zero: 'قبل الموعد',
+    one: 'قبل إجابة واحدة',
+    two: 'قبل إجابتين',
+    few: 'قبل {count} إجابات',
+    many: 'قبل {count} إجابة',
+    other: 'قبل {count} إجابة'
+  },
+  'chat.branches.heading': 'الفروع',
+  'chat.branches.original': 'الأصل',
+  'chat.branches.edit': 'التعديل {number}: {text}',
+  'chat.branches.compare': 'مقارنة الموجّهات',
+  'chat.branches.compareTitle': 'مقارنة الفروع',
+  'chat.branches.compareDescription': 'الموجّهات التي أنتجها كل فرع من هذه المحادثة جنبًا إلى جنب.',
+  'chat.branches.current': 'الحالي',
+  'chat.branches.switch': 'التبديل',
+  'chat.branches.noPrompt': 'لم يُنشأ في هذا الفرع بعد.',
+  'chat.fillVariables': 'تعبئة المتغيرات',
+
+  // Prompt variables
+  'variables.title': 'تعبئة المتغيرات',
+  'variables.description': {
+    one: 'في هذا الموجّه عنصر نائب واحد. املأه لتحصل على موجّه جاهز للاستخدام.',
+    two: 'في هذا الموجّه عنصران نائبان. املأهما لتحصل على موجّه جاهز للاستخدام.',
+    few: 'في هذا الموجّه {count} عناصر نائبة. املأها لتحصل على موجّه جاهز للاستخدام.',
+    other: 'في هذا الموجّه {count} عنصرًا نائبًا. املأها لتحصل على موجّه جاهز للاستخدام.'
+  },
+  'variables.savedSets': 'القيم المحفوظة:',
+  'variables.applySet': 'استخدام القيم المحفوظة باسم {name}',
+  'variables.deleteSet': 'حذف {name}',
+  'variables.preview': 'معاينة',
+  'variables.setName': 'اسم لهذه القيم',
+  'variables.setNamePlaceholder': 'احفظ هذه القيم باسم… (مثل إطلاق Acme)',
+  'variables.save': 'حفظ القيم',
+  'variables.saved': 'تم حفظ القيم باسم {name}',
+  'variables.saveFailed': 'تعذّر حفظ القيم',
+  'variables.copy': 'نسخ الموجّه المعبّأ',
+  'variables.copyRaw': 'النسخ مع العناصر النائبة',
+  'variables.error.required': 'املأ هذا الحقل',
+  'variables.error.number': 'أدخل رقمًا',
+  'variables.error.url': 'أدخل رابطًا كاملًا يبدأ بـ https://',
+  'variables.error.email': 'أدخل بريدًا إلكترونيًا',
+  'variables.error.date': 'أدخل تاريخًا',
+  'variables.error.option': 'اختر أحد الخيارات',
+
+  // Prompt linter
+  'lint.title': 'جودة الموجّه',
+  'lint.score': '{score}/100',
+  'lint.scoreLabel': 'جودة الموجّه: {score} من 100',
+  'lint.rating.good': 'جيدة',
+  'lint.rating.fair': 'مقبولة',
+  'lint.rating.poor': 'تحتاج إلى تحسين',
+  'lint.task.pass': 'يوضّح المطلوب',
+  'lint.task.fail': 'لا يوضّح المطلوب',
+  'lint.task.fix': 'إضافة سطر للمهمة',
+  'lint.audience.pass': 'يحدّد الجمهور',
+  'lint.audience.fail': 'لا يحدّد الجمهور',
+  'lint.audience.fix': 'إضافة سطر للجمهور',
+  'lint.format.pass': 'يطلب صيغة للناتج',
+  'lint.format.fail': 'لا صيغة للناتج',
+  'lint.format.fix': 'إضافة صيغة',
+  'lint.length.pass': 'يحدّد الطول',
+  'lint.length.fail': 'لا حدّ للطول',
+  'lint.length.fix': 'إضافة حدّ للكلمات',
+  'lint.examples.pass': 'يتضمن مثالًا',
+  'lint.examples.fail': 'لا أمثلة',
+  'lint.examples.fix': 'إضافة مثال',
+  'lint.pronouns.pass': 'لا ضمائر غامضة',
+  'lint.pronouns.fail': 'جملة تبدأ بضمير قد يعود على أكثر من شيء',
+  'lint.conflicts.pass': 'لا تعليمات متعارضة',
+  'lint.conflicts.fail': 'تعليمتان تتعارضان',
+  'lint.conflicts.fix': 'حذف الثانية',
+  'lint.readability.pass': 'سهل القراءة (المستوى {grade})',
+  'lint.readability.fail': 'صعب القراءة (المستوى {grade})',
+  'lint.readability.fix': 'تقسيم الجمل الطويلة',
+
+  // Token counts
+  'tokens.count': {
+    one: 'رمز واحد',
+    two: 'رمزان',
+    few: '{tokens} رموز',
+    other: '{tokens} رمزًا'
+  },
+  'tokens.countApproximate': {
+    one: 'رمز واحد تقريبًا',
+    two: 'رمزان تقريبًا',
+    few: '≈{tokens} رموز',
+    other: '≈{tokens} رمزًا'
+  },
+  'tokens.cost': 'نحو {cost}',
+  'tokens.details': 'تقدير لـ {model} بسعر {input} لكل مليون رمز إدخال و{output} لكل مليون رمز إخراج، مع إجابة من نحو {outputTokens} رمز.',
+  'tokens.approximateNote': 'أداة الترميز في {model} غير منشورة، لذا العدد تقريبي.',
+  'tokens.overflow': 'أطول من أن يتسع له {model}: مع إجابة معتادة يحتاج إلى {total} رمز من سياقه البالغ {window} رمز',
+
+  // Feedback
+  'feedback.like': 'أعجبني',
+  'feedback.dislike': 'لم يعجبني',
+  'feedback.whatWasWrong': 'ما المشكلة؟',
+  'feedback.optional': '(اختياري)',
+  'feedback.done': 'تم',
+  'feedback.reason.too-generic': 'عام جدًا',
+  'feedback.reason.wrong-tone': 'نبرة غير مناسبة',
+  'feedback.reason.too-long': 'طويل جدًا',
+  'feedback.reason.off-topic': 'لم يلبِّ طلبي',
+  'feedback.exported.title': 'تم تصدير التقييمات',
+  'feedback.exported.description': {
+    one: 'تم تنزيل تقييم واحد بصيغة JSON.',
+    two: 'تم تنزيل تقييمين بصيغة JSON.',
+    few: 'تم تنزيل {count} تقييمات بصيغة JSON.',
+    other: 'تم تنزيل {count} تقييم بصيغة JSON.'
+  },
+  'feedback.none.title': 'لا توجد تقييمات بعد',
+  'feedback.none.description': 'قيّم موجّهًا أولًا بالإعجاب أو عدمه.',
+  'feedback.exportFailed.title': 'تعذّر التصدير',
+
+  // Prompt details panel
+  'spec.title': 'تفاصيل الموجّه',
+  'spec.subtitle': 'صحّح أي شيء فهمناه خطأ',
+  'spec.close': 'إغلاق تفاصيل الموجّه',
+  'spec.fromAnswers': 'من إجاباتك',
+  'spec.edited': '(معدّل)',
+  'spec.notes': 'سياق إضافي',
+  'spec.notesPlaceholder': 'ملاحظة في كل سطر',
+  'spec.reset': 'العودة إلى إجاباتي',
+  'spec.topic.label': 'الموضوع',
+  'spec.topic.placeholder': 'عمّ يدور الموجّه',
+  'spec.goal.label': 'الهدف',
+  'spec.goal.placeholder': 'ما تريد أن يفعله الذكاء الاصطناعي',
+  'spec.tone.label': 'النبرة والأسلوب',
+  'spec.tone.placeholder': 'مثل: ودّي، رسمي، مرح',
+  'spec.audience.label': 'الجمهور',
+  'spec.audience.placeholder': 'لمن النتيجة',
+  'spec.challenges.label': 'التحديات',
+  'spec.challenges.placeholder': 'ما الذي لم ينجح من قبل',
+  'spec.valueCriteria.label': 'ما الذي يجعله قيّمًا',
+  'spec.valueCriteria.placeholder': 'كيف ستحكم على النتيجة',
+  'spec.angles.label': 'زوايا غير تقليدية',
+  'spec.angles.placeholder': 'اتجاهات تستحق الاستكشاف',
+  'spec.assumptions.label': 'افتراضات للتحدي',
+  'spec.assumptions.placeholder': 'قناعات ينبغي أن يشكك فيها الموجّه',
+
+  // Recent sessions
+  'sessions.recent': 'الجلسات الأخيرة',
+  'sessions.delete': 'حذف الجلسة "{title}"',
+
+  // Usage limit overlay
+  'usage.title': 'بلغت حد الاستخدام',
+  'usage.used': 'استخدمت {used} من {limit} موجّهات مجانية اليوم.',
+  'usage.reached': 'بلغت حدك اليومي المجاني.',
+  'usage.upgradePitch': 'رقِّ إلى Pro للحصول على موجّهات غير محدودة!',
+  'usage.resetsIn': 'تتجدد الموجّهات المجانية خلال {time}',
+  'usage.later': 'ربما لاحقًا',
+  'usage.upgrade': 'الترقية الآن',
+
+  // Home page
+  'home.nav.home': 'الرئيسية',
+  'home.nav.features': 'المزايا',
+  'home.nav.howItWorks': 'كيف يعمل',
+  'home.nav.testimonials': 'آراء المستخدمين',
+  'home.nav.signUp': 'إنشاء حساب',
+  'home.hero.title': 'الأفكار العظيمة تبدأ بموجّه.',
+  'home.hero.subtitle': 'لنحوّل أعمق أفكارك إلى موجّهات فعّالة لأي نموذج ذكاء اصطناعي',
+  'home.hero.placeholder': 'ما الذي يدور في ذهنك؟',
+  'home.hero.inputLabel': 'اكتب فكرتك',
+  'home.hero.generate': 'توليد موجّه',
+  'home.models.formattedFor': 'ستُنسَّق الموجّهات لـ {model} — انقر عليه مجددًا للإلغاء',
+  'home.models.pick': 'ولّد موجّهات قوية لأي مساعد ذكاء اصطناعي — اختر واحدًا لتنسيق الموجّهات له',
+  'home.models.stopFormatting': 'إيقاف التنسيق لـ {model}',
+  'home.models.formatFor': 'تنسيق الموجّهات لـ {model}',
+  'home.models.logo': 'شعار {model}',
+  'home.pillars.ideas.title': 'يكشف أفكارك الخفية',
+  'home.pillars.ideas.description': 'اكتشف أفكارًا لم تكن تعلم أنها لديك عبر تحسين الموجّهات الموجَّه',
+  'home.pillars.questions.title': 'صياغة أسئلة قوية وأصيلة',
+  'home.pillars.questions.description': 'حوّل الأفكار المبهمة إلى موجّهات دقيقة وقابلة للتنفيذ تحقق النتائج',
+  'home.pillars.potential.title': 'أطلق إمكانات الذكاء الاصطناعي',
+  'home.pillars.potential.description': 'استفد من كامل قدرات نماذج الذكاء الاصطناعي بموجّهات محكمة الصياغة',
+  'home.features.title': 'لماذا تطلق أفكارك هنا؟',
+  'home.features.originality.title': 'أطلق العنان للأصالة',
+  'home.features.originality.description': 'موجّهات فريدة، لا نسخ مكررة.',
+  'home.features.instant.title': 'إبداع فوري',
+  'home.features.instant.description': "من Quick Mode إلى Crack'd AF لكل المستويات.",
+  'home.features.learn.title': 'تعلّم وأنت تبدع',
+  'home.features.learn.description': 'التلميحات تعلّمك إتقان الموجّهات.',
+  'home.steps.title': 'رحلتك نحو موجّهات عبقرية',
+  'home.steps.spark.title': 'أشعل فكرتك',
+  'home.steps.spark.description': 'شاركنا فكرتك الأولى وسنبدأ في صياغة الموجّه المثالي.',
+  'home.steps.spark.tip': 'انقر على «ابدأ» للانطلاق!',
+  'home.steps.spark.tooltip': 'ابدأ بفكرة بسيطة وشاهدها تتحول.',
+  'home.steps.unleash.title': 'أطلق الإبداع',
+  'home.steps.unleash.description': 'استكشف فكرتك عبر Quick Mode لتوليد موجّهات عملية.',
+  'home.steps.unleash.tip': 'تفاعل مع المحادثة!',
+  'home.steps.unleash.tooltip': 'تبادل الرسائل لتحسين موجّهك.',
+  'home.steps.elevate.title': 'ارتقِ بالبصيرة',
+  'home.steps.elevate.description': 'افتح وضع CreativeFlow لموجّهات أكثر دقة وخيالًا.',
+  'home.steps.elevate.tip': 'اسحب بعد 3 تبادلات!',
+  'home.steps.elevate.tooltip': 'تقدّم نحو توليد موجّهات أكثر إبداعًا.',
+  'home.steps.brilliance.title': 'اكتشف التألق',
+  'home.steps.brilliance.description': "اصل إلى وضع Crack'd AF لأكثر الموجّهات ابتكارًا وجرأة.",
+  'home.steps.brilliance.tip': 'يُفتح بعد 6 تبادلات!',
+  'home.steps.brilliance.tooltip': 'جرّب أقوى توليد للموجّهات لدينا.',
+  'home.tryIt.title': 'جرّبه الآن',
+  'home.tryIt.subtitle': 'اكتب أفكارك أدناه وسنحوّلها إلى موجّه قوي.',
+  'home.tryIt.create': 'أنشئ موجّهك',
+  'home.refiner.title': 'لديك ملاحظات بالفعل؟',
+  'home.refiner.description': 'الصق ملاحظات اجتماع أو نصًا مفرّغًا. سنحذف الحشو والتعليمات المكررة ونرتب الباقي في مهمة وسياق وقيود.',
+  'home.refiner.placeholder': 'سامي: آه، باختصار نحتاج إلى كتابة بريد إطلاق للوحة التحكم الجديدة.\nليلى: إنه للعملاء الحاليين. لا يتجاوز 200 كلمة.',
+  'home.refiner.inputLabel': 'ملاحظات للتحسين',
+  'home.refiner.characters': {
+    zero: 'لا أحرف',
+    one: 'حرف واحد',
+    two: 'حرفان',
+    few: '{count} أحرف',
+    other: '{count} حرفًا'
+  },
+  'home.refiner.refine': 'تحسين الملاحظات',
+  'home.refiner.before': 'قبل',
+  'home.refiner.after': 'بعد',
+  'home.refiner.copy': 'نسخ الموجّه المحسّن',
+  'home.refiner.clickToCopy': 'انقر للنسخ',
+  'home.refiner.summary': 'حُذف {filler} و{duplicates}.',
+  'home.refiner.fillerWords': {
+    zero: 'لا كلمات حشو',
+    one: 'كلمة حشو واحدة',
+    two: 'كلمتا حشو',
+    few: '{count} كلمات حشو',
+    other: '{count} كلمة حشو'
+  },
+  'home.refiner.repeatedInstructions': {
+    zero: 'لا تعليمات مكررة',
+    one: 'تعليمة مكررة واحدة',
+    two: 'تعليمتان مكررتان',
+    few: '{count} تعليمات مكررة',
+    other: '{count} تعليمة مكررة'
+  },
+  'home.refiner.toast.empty.title': 'يرجى إدخال نص',
+  'home.refiner.toast.empty.description': 'الصق ملاحظاتك أو نصًا مفرّغًا أولًا.',
+  'home.refiner.toast.nothing.title': 'لا شيء لتحسينه',
+  'home.refiner.toast.nothing.description': 'لم نجد أي تعليمات أو سياق في هذا النص.',
+  'home.refiner.toast.done.title': 'تم تحسين الموجّه!',
+  'home.refiner.toast.done.description': 'انقر على الموجّه لنسخه إلى الحافظة.',
+  'home.refiner.toast.copied.description': 'موجّهك المحسّن جاهز للاستخدام.',
+  'home.testimonials.title': 'ماذا يقول مستخدمونا',
+  'home.testimonials.sarah.quote': 'أحدث Cracked Prompts ثورة في طريقة كتابتي — أفكاري تتفجر إبداعًا!',
+  'home.testimonials.sarah.role': 'روائية',
+  'home.testimonials.alex.quote': 'لا تنفد أفكاري أبدًا بفضل هذه الأداة المذهلة — إنها عبقرية خالصة!',
+  'home.testimonials.alex.role': 'صانع محتوى',
+  'home.pricing.title': 'أسعار بسيطة',
+  'home.pricing.subtitle': 'ابدأ مجانًا كل يوم. انتقل إلى Pro عندما لا تحتمل أفكارك الانتظار إلى الغد.',
+  'home.pricing.free.name': 'مجاني',
+  'home.pricing.free.period': 'للأبد',
+  'home.pricing.free.description': 'كل ما تحتاجه لتجربة الموجّهات الموجَّهة.',
+  'home.pricing.free.feature1': '3 موجّهات يوميًا في جميع الأوضاع',
+  'home.pricing.free.feature2': 'الجلسات والمكتبة محفوظة في متصفحك',
+  'home.pricing.free.feature3': 'تنسيق لكل النماذج المستهدفة',
+  'home.pricing.pro.name': 'Pro',
+  'home.pricing.pro.period': 'شهريًا',
+  'home.pricing.pro.description': 'لمن يكتب الموجّهات طوال اليوم.',
+  'home.pricing.pro.feature1': 'موجّهات غير محدودة في كل الأوضاع',
+  'home.pricing.pro.feature2': 'تجديد غير محدود لكل موجّه',
+  'home.pricing.pro.feature3': 'وصول مبكر إلى الأوضاع الجديدة',
+  'home.pricing.upgrade': 'الترقية إلى Pro',
+  'home.pricing.remaining': 'متبقٍ {remaining} من {limit} اليوم · تتجدد خلال {time}',
+  'home.pricing.current': 'خطتك الحالية',
+  'home.pricing.toast.title': 'Pro قادم قريبًا',
+  'home.pricing.toast.description': 'ستُتاح الترقيات قريبًا. حتى ذلك الحين تتجدد موجّهاتك المجانية كل يوم.',
+  'home.cta.title': 'مستعد لإطلاق إبداعك؟',
+  'home.cta.subtitle': 'انضم إلى آلاف المستخدمين الذين يحوّلون أفكارهم بالفعل مع Cracked Prompts.',
+  'home.cta.button': 'جرّبه الآن',
+  'home.footer.rights': '© {year} Cracked Prompts. جميع الحقوق محفوظة.',
+  'home.footer.privacy': 'تُعالج موجّهاتك بأمان ولا تُخزَّن بعد انتهاء الجلسة',
+
+  // Settings
+  'settings.title': 'الإعدادات',
+  'settings.language.label': 'اللغة',
+  'settings.language.description': 'تُستخدم في التطبيق وفي الأسئلة التي تطرحها عليك المحادثة.',
+  'settings.targetModel.label': 'تنسيق الموجّهات لـ',
+  'settings.targetModel.description': 'تُرتَّب الموجّهات المولَّدة بالطريقة التي يقرؤها بها هذا النموذج على أفضل وجه.',
+  'settings.targetModel.none': 'بلا نموذج محدد',
+  'settings.targetModel.summary': '{model}: سياق من {context} رمز، يقبل {modalities}، {input} / {output} لكل مليون رمز إدخال / إخراج.',
+  'settings.targetModel.noSystemPrompt': 'لا يقبل موجّه نظام منفصلًا.',
+  'settings.targetModel.registry': 'بيانات النماذج الإصدار {version}، حُدّثت في {date}',
+  'settings.modality.text': 'النصوص',
+  'settings.modality.image': 'الصور',
+  'settings.modality.audio': 'الصوت',
+  'settings.modality.video': 'الفيديو',
+  'settings.modality.file': 'الملفات',
+  'settings.outputLanguage.label': 'لغة الموجّه',
+  'settings.outputLanguage.description': 'تُعاد كتابة الموجّهات المولّدة بهذه اللغة بصياغة تناسب متحدثيها. يمكنك مقارنتها بالأصل في المحادثة.',
+  'settings.outputLanguage.asWritten': 'كما كُتب'
+};
+
+export default ar;
@@ -0,0 +1,409 @@
+// English is the source catalog: every key lives here, and other locales fall back to it.
+// {name} placeholders are filled in by translate(); objects are plural forms picked by {count}.
+
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+export type Message = string | PluralMessage;
+
+const en = {
+  // Shared
+  'common.copy': 'Copy',
+  'common.copied': 'Copied!',
+  'common.copyFailed.title': 'Copy failed',
+  'common.copyFailed.description': 'Please try again or copy manually.',
+  'common.copiedToClipboard': 'Copied to clipboard!',
+  'common.promptReady': 'Your prompt is ready to use.',
+  'common.storageUnavailable': "Your browser's storage isn't available right now.",
+  'common.justNow': 'just now',
+  'common.minutesAgo': '{count}m ago',
+  'common.hoursAgo': '{count}h ago',
+  'common.daysAgo': '{count}d ago',
+  'common.answers': { one: '{count} answer', other: '{count} answers' },
+  'common.answersOf': '{count}/{total} answers',
+
+  // Header controls
+  'theme.change': 'Change theme',
+  'theme.light': 'Light',
+  'theme.dark': 'Dark',
+  'theme.system': 'System',
+  'language.change': 'Change language',
+
+  // App shell
+  'nav.newChat': 'New chat',
+  'nav.history': 'History',
+  'nav.library': 'Library',
+  'nav.settings': 'Settings',
+  'nav.recentChats': 'Recent chats',
+  'nav.signIn': 'Sign in',
+  'nav.modes': 'Modes',
+  'nav.editModes': 'Edit modes…',
+  'nav.pricing': 'Pricing',
+  'nav.home': 'Home',
+
+  // Command palette
+  'commands.open': 'Search and commands',
+  'commands.search': 'Search…',
+  'commands.placeholder': 'Search prompts, chats and commands…',
+  'commands.empty': 'No results found.',
+  'commands.group.chat': 'Current chat',
+  'commands.group.modes': 'Switch mode',
+  'commands.group.navigation': 'Go to',
+  'commands.group.preferences': 'Preferences',
+  'commands.group.savedPrompts': 'Saved prompts',
+  'commands.group.recentChats': 'Recent chats',
+  'commands.startOver': 'Start over in {mode}',
+  'commands.switchMode': 'Switch to {mode}',
+  'commands.copyPrompt': 'Copy the current prompt',
+  'commands.refreshPrompt': 'Refresh the current prompt',
+  'commands.skipQuestion': 'Skip this question',
+  'commands.generateNow': 'Generate {tier} now',
+  'commands.compareBranches': 'Compare prompts across branches',
+  'commands.theme.light': 'Switch to the light theme',
+  'commands.theme.dark': 'Switch to the dark theme',
+  'commands.theme.system': 'Use the system theme',
+
+  // Chat
+  'chat.close': 'Close chat',
+  'chat.chooseMode': 'Choose prompt mode',
+  'chat.promptMode': 'Prompt mode',
+  'chat.switchWarning': 'Switching modes starts the conversation over.',
+  'chat.editModes': 'Edit modes',
+  'chat.exportFeedback': 'Export feedback',
+  'chat.contextProgress': 'Context: {collected}/{total} details collected',
+  'chat.contextComplete': 'Context: Complete',
+  'chat.typing': 'Typing...',
+  'chat.online': 'Online',
+  'chat.showDetails': 'Show prompt details',
+  'chat.hideDetails': 'Hide prompt details',
+  'chat.contextDetails': '{collected}/{total} details known',
+  'chat.placeholder': 'Type your message... (/ for commands, @ for saved prompts)',
+  'chat.slash.heading': 'Commands',
+  'chat.slash.tone': 'Set the tone, e.g. /tone formal',
+  'chat.slash.audience': 'Set the audience, e.g. /audience developers',
+  'chat.slash.generate': 'Generate a prompt now, e.g. /generate deep dive',
+  'chat.slash.skip': 'Skip the current question',
+  'chat.slash.restart': 'Start over in this mode',
+  'chat.slash.model': 'Format prompts for a model, e.g. /model claude',
+  'chat.slash.modelsHeading': 'Format prompts for',
+  'chat.slash.noModel': 'No particular model',
+  'chat.slash.mentionsHeading': 'Saved prompts',
+  'chat.slash.fieldSet': '{field} set to "{value}"',
+  'chat.slash.needValue': 'Type a value after {command}',
+  'chat.slash.needTopic': 'Tell me what the prompt is about first',
+  'chat.slash.modelSet': 'Prompts will be formatted for {model}',
+  'chat.slash.modelCleared': "Prompts won't be formatted for a particular model",
+  'chat.slash.unknownModel': 'No model called "{model}"',
+  'chat.slash.modelOptions': 'Try one of {models}, or none.',
+  'chat.slash.unknownTier': 'No prompt level called "{tier}"',
+  'chat.slash.tierOptions': 'Try one of {tiers}.',
+  'chat.slash.nothingToSkip': "There's no question to skip",
+  'chat.mentions.label': 'Building on:',
+  'chat.mentions.remove': 'Remove {title}',
+  'chat.send': 'Send message',
+  'chat.stop': 'Stop generating',
+  'chat.toFirstTier': '{collected}/{needed} to {tier}',
+  'chat.toNextTier': '{collected}/{needed} more to {tier}',
+  'chat.allUnlocked': 'All prompt levels unlocked!',
+  'chat.yourPrompt': 'Your Prompt',
+  'chat.prompt': 'Prompt',
+  'chat.untitledSession': 'Untitled session',
+  'chat.saveToLibrary': 'Save to library',
+  'chat.savedToLibrary': 'Saved to library',
+  'chat.share': 'Share prompt',
+  'chat.copyPrompt': 'Copy prompt',
+  'chat.refine': 'Refine',
+  'chat.startOver': 'Start Over',
+  'chat.formattedFor': 'Formatted for {model}',
+  'chat.refreshing': 'Refreshing your prompt...',
+  'chat.refineFurther': "Let's refine this further! Tell me more about what you need.",
+  'chat.toast.sessionNotFound.title': 'Session not found',
+  'chat.toast.sessionNotFound.description': 'It may have been deleted, so we started a new one.',
+  'chat.toast.resumeFailed.title': "Couldn't resume session",
+  'chat.toast.resumeFailed.description': "Your browser's storage isn't available, so we started a new one.",
+  'chat.toast.stopped.title': 'Generation stopped',
+  'chat.toast.stopped.kept': 'We kept what was generated so far.',
+  'chat.toast.stopped.empty': 'Nothing was generated yet.',
+  'chat.toast.offline.title': 'Using an offline template',
+  'chat.toast.offline.description': "We couldn't reach the AI provider, so here's a template-based prompt instead.",
+  'chat.toast.interrupted.title': 'Generation interrupted',
+  'chat.toast.interrupted.description': 'The AI provider stopped responding. We kept what was generated so far.',
+  'chat.toast.refreshed.title': 'Prompt refreshed!',
+  'chat.toast.refreshed.description': "Here's a new take on your request.",
+  'chat.toast.saved.description': 'Add tags or file it into a folder from the library.',
+  'chat.toast.saved.action': 'Open library',
+  'chat.toast.saved.actionLabel': 'Open the prompt library',
+  'chat.toast.saveFailed.title': "Couldn't save prompt",
+  'chat.toast.shareCopied': 'Share link copied',
+  'chat.toast.shareReady': 'Share link ready',
+  'chat.toast.shareFailed.title': "Couldn't share prompt",
+  'chat.toast.shareFailed.description': 'Sharing needs the API server (npm run server).',
+  'chat.toast.quota.title': 'Daily limit reached',
+  'chat.toast.quota.description': "Your answers are saved. We'll generate this prompt as soon as your quota resets.",
+  'chat.output.label': 'Prompt language',
+  'chat.output.asWritten': 'As written',
+  'chat.output.hint': 'Prompts are rewritten for speakers of the language, not translated word for word.',
+  'chat.output.rewriting': 'Rewriting in {language}…',
+  'chat.output.language': 'Output language: {language}',
+  'chat.output.compare': 'Compare with the original',
+  'chat.output.hideCompare': 'Hide the original',
+  'chat.output.original': 'Original',
+  'chat.toast.localizeFailed.title': "Couldn't rewrite the prompt",
+  'chat.toast.localizeFailed.description': "The AI provider didn't respond, so the prompt asks for answers in {language} instead.",
+  'chat.toast.languageDirective.title': 'Prompt not rewritten',
+  'chat.toast.languageDirective.description': 'Rewriting needs an AI provider, so the prompt asks for answers in {language} instead.',
+  'chat.edit': 'Edit answer',
+  'chat.edit.save': 'Save and continue',
+  'chat.edit.cancel': 'Cancel',
+  'chat.edited': 'Edited',
+  'chat.skip': 'Skip question',
+  'chat.skipped': 'Skipped',
+  'chat.generateNow': 'Generate now',
+  'chat.generateNow.heading': "Generate from what you've shared so far",
+  'chat.generateNow.early': { one: '{count} answer early', other: '{count} answers early' },
+  'chat.branches.heading': 'Branches',
+  'chat.branches.original': 'Original',
+  'chat.branches.edit': 'Edit {number}: {text}',
+  'chat.branches.compare': 'Compare prompts',
+  'chat.branches.compareTitle': 'Compare branches',
+  'chat.branches.compareDescription': 'The prompts each branch of this chat produced, side by side.',
+  'chat.branches.current': 'Current',
+  'chat.branches.switch': 'Switch',
+  'chat.branches.noPrompt': 'Not generated in this branch yet.',
+  'chat.fillVariables': 'Fill in variables',
+
+  // Prompt variables
+  'variables.title': 'Fill in variables',
+  'variables.description': { one: 'This prompt has {count} placeholder. Fill it in to get a prompt ready to use.', other: 'This prompt has {count} placeholders. Fill them in to get a prompt ready to use.' },
+  'variables.savedSets': 'Saved values:',
+  'variables.applySet': 'Use the values saved as {name}',
+  'variables.deleteSet': 'Delete {name}',
+  'variables.preview': 'Preview',
+  'variables.setName': 'Name for these values',
+  'variables.setNamePlaceholder': 'Save these values as… (e.g. Acme launch)',
+  'variables.save': 'Save values',
+  'variables.saved': 'Saved values as {name}',
+  'variables.saveFailed': "Couldn't save the values",
+  'variables.copy': 'Copy filled prompt',
+  'variables.copyRaw': 'Copy with placeholders',
+  'variables.error.required': 'Fill this in',
+  'variables.error.number': 'Enter a number',
+  'variables.error.url': 'Enter a full URL, starting with https://',
+  'variables.error.email': 'Enter an email address',
+  'variables.error.date': 'Enter a date',
+  'variables.error.option': 'Pick one of the options',
+
+  // Prompt linter
+  'lint.title': 'Prompt quality',
+  'lint.score': '{score}/100',
+  'lint.scoreLabel': 'Prompt quality: {score} out of 100',
+  'lint.rating.good': 'Good',
+  'lint.rating.fair': 'Fair',
+  'lint.rating.poor': 'Needs work',
+  'lint.task.pass': 'Says what to do',
+  'lint.task.fail': "Doesn't say what to do",
+  'lint.task.fix': 'Add a task line',
+  'lint.audience.pass': "Says who it's for",
+  'lint.audience.fail': "Doesn't say who it's for",
+  'lint.audience.fix': 'Add an audience line',
+  'lint.format.pass': 'Asks for an output format',
+  'lint.format.fail': 'No output format',
+  'lint.format.fix': 'Add a format',
+  'lint.length.pass': 'Sets a length',
+  'lint.length.fail': 'No length limit',
+  'lint.length.fix': 'Add a word limit',
+  'lint.examples.pass': 'Includes an example',
+  'lint.examples.fail': 'No examples',
+  'lint.examples.fix': 'Add an example',
+  'lint.pronouns.pass': 'No unclear pronouns',
+  'lint.pronouns.fail': 'Starts a sentence with a pronoun that could mean several things',
+  'lint.conflicts.pass': 'No conflicting instructions',
+  'lint.conflicts.fail': 'Two instructions contradict each other',
+  'lint.conflicts.fix': 'Remove the later one',
+  'lint.readability.pass': 'Easy to read (grade {grade})',
+  'lint.readability.fail': 'Hard to read (grade {grade})',
+  'lint.readability.fix': 'Split long sentences',
+
+  // Token counts
+  'tokens.count': { one: '{tokens} token', other: '{tokens} tokens' },
+  'tokens.countApproximate': { one: '≈{tokens} token', other: '≈{tokens} tokens' },
+  'tokens.cost': 'est. {cost}',
+  'tokens.details': 'Estimated for {model} at {input} per million input tokens and {output} per million output tokens, with an answer of about {outputTokens} tokens.',
+  'tokens.approximateNote': "{model}'s tokenizer isn't public, so the count is approximate.",
+  'tokens.overflow': "Too long for {model}: with a typical answer it needs {total} tokens of its {window}-token context",
+
+  // Feedback
+  'feedback.like': 'Like',
+  'feedback.dislike': 'Dislike',
+  'feedback.whatWasWrong': 'What was wrong?',
+  'feedback.optional': '(optional)',
+  'feedback.done': 'Done',
+  'feedback.reason.too-generic': 'Too generic',
+  'feedback.reason.wrong-tone': 'Wrong tone',
+  'feedback.reason.too-long': 'Too long',
+  'feedback.reason.off-topic': 'Missed what I asked for',
+  'feedback.exported.title': 'Feedback exported',
+  'feedback.exported.description': { one: 'Downloaded {count} rating as JSON.', other: 'Downloaded {count} ratings as JSON.' },
+  'feedback.none.title': 'No feedback yet',
+  'feedback.none.description': 'Like or dislike a prompt first.',
+  'feedback.exportFailed.title': 'Export failed',
+
+  // Prompt details panel
+  'spec.title': 'Prompt details',
+  'spec.subtitle': 'Fix anything we misread',
+  'spec.close': 'Close prompt details',
+  'spec.fromAnswers': 'From your answers',
+  'spec.edited': '(edited)',
+  'spec.notes': 'Extra context',
+  'spec.notesPlaceholder': 'One note per line',
+  'spec.reset': 'Reset to my answers',
+  'spec.topic.label': 'Topic',
+  'spec.topic.placeholder': 'What the prompt is about',
+  'spec.goal.label': 'Goal',
+  'spec.goal.placeholder': 'What you want the AI to do',
+  'spec.tone.label': 'Tone & style',
+  'spec.tone.placeholder': 'e.g. friendly, formal, playful',
+  'spec.audience.label': 'Audience',
+  'spec.audience.placeholder': 'Who the output is for',
+  'spec.challenges.label': 'Challenges',
+  'spec.challenges.placeholder': 'What has gone wrong before',
+  'spec.valueCriteria.label': 'What makes it valuable',
+  'spec.valueCriteria.placeholder': 'How you will judge the result',
+  'spec.angles.label': 'Unconventional angles',
+  'spec.angles.placeholder': 'Directions worth exploring',
+  'spec.assumptions.label': 'Assumptions to challenge',
+  'spec.assumptions.placeholder': 'Beliefs the prompt should question',
+
+  // Recent sessions
+  'sessions.recent': 'Recent sessions',
+  'sessions.delete': 'Delete session "{title}"',
+
+  // Usage limit overlay
+  'usage.title': 'Usage Limit Reached',
+  'usage.used': "You've used {used} of your {limit} free prompts today.",
+  'usage.reached': "You've reached your free daily limit.",
+  'usage.upgradePitch': 'Upgrade to Pro for unlimited prompts!',
+  'usage.resetsIn': 'Free prompts reset in {time}',
+  'usage.later': 'Maybe Later',
+  'usage.upgrade': 'Upgrade Now',
+
+  // Home page
+  'home.nav.home': 'Home',
+  'home.nav.features': 'Features',
+  'home.nav.howItWorks': 'How It Works',
+  'home.nav.testimonials': 'Testimonials',
+  'home.nav.signUp': 'Sign Up',
+  'home.hero.title': 'Great ideas begin with a prompt.',
+  'home.hero.subtitle': "Let's connect your innermost thoughts into effective prompts for any AI model",
+  'home.hero.placeholder': "What's on your mind?",
+  'home.hero.inputLabel': 'Enter your idea',
+  'home.hero.generate': 'Generate Prompt',
+  'home.models.formattedFor': 'Prompts will be formatted for {model} — click it again to clear',
+  'home.models.pick': 'Generate powerful prompts for any AI assistant — pick one to format prompts for it',
+  'home.models.stopFormatting': 'Stop formatting for {model}',
+  'home.models.formatFor': 'Format prompts for {model}',
+  'home.models.logo': '{model} logo',
+  'home.pillars.ideas.title': 'Unlocks your hidden ideas',
+  'home.pillars.ideas.description': "Discover insights you didn't know you had through our guided prompt refinement",
+  'home.pillars.questions.title': 'Crafting powerful, original questions',
+  'home.pillars.questions.description': 'Transform vague thoughts into precise, actionable prompts that get results',
+  'home.pillars.potential.title': "Maximize AI's potential",
+  'home.pillars.potential.description': 'Unlock the full capabilities of AI models with expertly crafted prompts',
+  'home.features.title': 'Why Crack Open Your Ideas Here?',
+  'home.features.originality.title': 'Unleash Originality',
+  'home.features.originality.description': 'Break free with unique prompts, not copies.',
+  'home.features.instant.title': 'Spark Creativity Instantly',
+  'home.features.instant.description': "Quick Mode to Crack'd AF for all levels.",
+  'home.features.learn.title': 'Learn as You Create',
+  'home.features.learn.description': 'Tooltips teach you prompt mastery.',
+  'home.steps.title': 'Your Journey to Genius Prompts',
+  'home.steps.spark.title': 'Spark Your Idea',
+  'home.steps.spark.description': "Share your initial concept, and we'll begin crafting the perfect prompt.",
+  'home.steps.spark.tip': 'Click "Begin" to start!',
+  'home.steps.spark.tooltip': 'Start with a simple idea and watch it transform.',
+  'home.steps.unleash.title': 'Unleash Creativity',
+  'home.steps.unleash.description': 'Explore your concept through our Quick Mode, generating practical prompts.',
+  'home.steps.unleash.tip': 'Interact with the chat!',
+  'home.steps.unleash.tooltip': 'Exchange messages to refine your prompt.',
+  'home.steps.elevate.title': 'Elevate with Insight',
+  'home.steps.elevate.description': 'Unlock CreativeFlow mode for more nuanced, imaginative prompts.',
+  'home.steps.elevate.tip': 'Swipe left after 3 exchanges!',
+  'home.steps.elevate.tooltip': 'Advance to more creative prompt generation.',
+  'home.steps.brilliance.title': 'Crack Open Brilliance',
+  'home.steps.brilliance.description': "Reach Crack'd AF mode for the most innovative, boundary-pushing prompts.",
+  'home.steps.brilliance.tip': 'Unlock after 6 exchanges!',
+  'home.steps.brilliance.tooltip': 'Experience our most powerful prompt generation.',
+  'home.tryIt.title': 'Try It Now',
+  'home.tryIt.subtitle': "Enter your thoughts below and we'll transform them into a powerful prompt.",
+  'home.tryIt.create': 'Create Your Prompt',
+  'home.refiner.title': 'Already have notes?',
+  'home.refiner.description': "Paste meeting notes or a transcript. We'll strip the filler, drop repeated instructions and sort the rest into a task, context and constraints.",
+  'home.refiner.placeholder': "Sam: Um, so we basically need to write a launch email for the new dashboard.\nPriya: It's for existing customers. Keep it under 200 words.",
+  'home.refiner.inputLabel': 'Notes to refine',
+  'home.refiner.characters': { one: '{count} character', other: '{count} characters' },
+  'home.refiner.refine': 'Refine notes',
+  'home.refiner.before': 'Before',
+  'home.refiner.after': 'After',
+  'home.refiner.copy': 'Copy refined prompt',
+  'home.refiner.clickToCopy': 'Click to copy',
+  'home.refiner.summary': 'Removed {filler} and {duplicates}.',
+  'home.refiner.fillerWords': { one: '{count} filler word', other: '{count} filler words' },
+  'home.refiner.repeatedInstructions': { one: '{count} repeated instruction', other: '{count} repeated instructions' },
+  'home.refiner.toast.empty.title': 'Please enter some text',
+  'home.refiner.toast.empty.description': 'Paste your notes or a transcript first.',
+  'home.refiner.toast.nothing.title': 'Nothing to refine',
+  'home.refiner.toast.nothing.description': "We couldn't find any instructions or context in that text.",
+  'home.refiner.toast.done.title': 'Prompt refined!',
+  'home.refiner.toast.done.description': 'Click the prompt to copy it to your clipboard.',
+  'home.refiner.toast.copied.description': 'Your refined prompt is ready to use.',
+  'home.testimonials.title': 'What Our Users Are Saying',
+  'home.testimonials.sarah.quote': 'Cracked Prompts has revolutionized my writing process—my ideas explode with creativity!',
+  'home.testimonials.sarah.role': 'Novelist',
+  'home.testimonials.alex.quote': "I never run out of ideas thanks to this amazing tool—it's pure brilliance!",
+  'home.testimonials.alex.role': 'Content Creator',
+  'home.pricing.title': 'Simple Pricing',
+  'home.pricing.subtitle': "Start free every day. Go Pro when your ideas won't wait until tomorrow.",
+  'home.pricing.free.name': 'Free',
+  'home.pricing.free.period': 'forever',
+  'home.pricing.free.description': 'Everything you need to try guided prompting.',
+  'home.pricing.free.feature1': '3 prompts a day across all modes',
+  'home.pricing.free.feature2': 'Sessions and library saved in your browser',
+  'home.pricing.free.feature3': 'Formatting for every target model',
+  'home.pricing.pro.name': 'Pro',
+  'home.pricing.pro.period': 'per month',
+  'home.pricing.pro.description': 'For people who prompt all day.',
+  'home.pricing.pro.feature1': 'Unlimited prompts in every mode',
+  'home.pricing.pro.feature2': 'Unlimited refreshes per prompt',
+  'home.pricing.pro.feature3': 'Priority access to new modes',
+  'home.pricing.upgrade': 'Upgrade to Pro',
+  'home.pricing.remaining': '{remaining} of {limit} left today · resets in {time}',
+  'home.pricing.current': 'Your current plan',
+  'home.pricing.toast.title': 'Pro is almost here',
+  'home.pricing.toast.description': 'Upgrades open soon. Until then your free prompts reset every day.',
+  'home.cta.title': 'Ready to Unlock Your Creativity?',
+  'home.cta.subtitle': 'Join thousands of users already transforming their ideas with Cracked Prompts.',
+  'home.cta.button': 'Try It Now',
+  'home.footer.rights': '© {year} Cracked Prompts. All rights reserved.',
+  'home.footer.privacy': 'Your prompts are processed securely and not stored beyond the session',
+
+  // Settings
+  'settings.title': 'Settings',
+  'settings.language.label': 'Language',
+  'settings.language.description': 'Used for the app and for the questions the chat asks you.',
+  'settings.targetModel.label': 'Format prompts for',
+  'settings.targetModel.description': 'Generated prompts are laid out the way this model reads them best.',
+  'settings.targetModel.none': 'No particular model',
+  'settings.targetModel.summary': '{model}: {context}-token context, reads {modalities}, {input} / {output} per million input / output tokens.',
+  'settings.targetModel.noSystemPrompt': 'No separate system prompt.',
+  'settings.targetModel.registry': 'Model data v{version}, updated {date}',
+  'settings.modality.text': 'text',
+  'settings.modality.image': 'images',
+  'settings.modality.audio': 'audio',
+  'settings.modality.video': 'video',
+  'settings.modality.file': 'files',
+  'settings.outputLanguage.label': 'Prompt language',
+  'settings.outputLanguage.description': 'Generated prompts are rewritten in this language, with phrasing adapted to its speakers. You can compare them with the original in the chat.',
+  'settings.outputLanguage.asWritten': 'As written'
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof en;
+
+export default en as Record<MessageKey, Message>;
@@ -0,0 +1,403 @@
+import type { Message, MessageKey } from './en';
+
+const es: Partial<Record<MessageKey, Message>> = {
+  // Shared
+  'common.copy': 'Copiar',
+  'common.copied': '¡Copiado!',
+  'common.copyFailed.title': 'No se pudo copiar',
+  'common.copyFailed.description': 'Inténtalo de nuevo o cópialo a mano.',
+  'common.copiedToClipboard': '¡Copiado al portapapeles!',
+  'common.promptReady': 'Tu prompt está listo para usar.',
+  'common.storageUnavailable': 'El almacenamiento del navegador no está disponible ahora mismo.',
+  'common.justNow': 'ahora mismo',
+  'common.minutesAgo': 'hace {count} min',
+  'common.hoursAgo': 'hace {count} h',
+  'common.daysAgo': 'hace {count} d',
+  'common.answers': { one: '{count} respuesta', other: '{count} respuestas' },
+  'common.answersOf': '{count}/{total} respuestas',
+
+  // Header controls
+  'theme.change': 'Cambiar tema',
+  'theme.light': 'Claro',
+  'theme.dark': 'Oscuro',
+  'theme.system': 'Sistema',
+  'language.change': 'Cambiar idioma',
+
+  // App shell
+  'nav.newChat': 'Nuevo chat',
+  'nav.history': 'Historial',
+  'nav.library': 'Biblioteca',
+  'nav.settings': 'Ajustes',
+  'nav.recentChats': 'Chats recientes',
+  'nav.signIn': 'Iniciar sesión',
+  'nav.modes': 'Modos',
+  'nav.editModes': 'Editar modos…',
+  'nav.pricing': 'Precios',
+  'nav.home': 'Inicio',
+
+  // Command palette
+  'commands.open': 'Búsqueda y comandos',
+  'commands.search': 'Buscar…',
+  'commands.placeholder': 'Busca prompts, chats y comandos…',
+  'commands.empty': 'No hay resultados.',
+  'commands.group.chat': 'Chat actual',
+  'commands.group.modes': 'Cambiar de modo',
+  'commands.group.navigation': 'Ir a',
+  'commands.group.preferences': 'Preferencias',
+  'commands.group.savedPrompts': 'Prompts guardados',
+  'commands.group.recentChats': 'Chats recientes',
+  'commands.startOver': 'Empezar de nuevo en {mode}',
+  'commands.switchMode': 'Cambiar a {mode}',
+  'commands.copyPrompt': 'Copiar el prompt actual',
+  'commands.refreshPrompt': 'Renovar el prompt actual',
+  'commands.skipQuestion': 'Saltar esta pregunta',
+  'commands.generateNow': 'Generar {tier} ya',
+  'commands.compareBranches': 'Comparar prompts entre ramas',
+  'commands.theme.light': 'Cambiar al tema claro',
+  'commands.theme.dark': 'Cambiar al tema oscuro',
+  'commands.theme.system': 'Usar el tema del sistema',
+
+  // Chat
+  'chat.close': 'Cerrar chat',
+  'chat.chooseMode': 'Elegir modo de prompt',
+  'chat.promptMode': 'Modo de prompt',
+  'chat.switchWarning': 'Cambiar de modo reinicia la conversación.',
+  'chat.editModes': 'Editar modos',
+  'chat.exportFeedback': 'Exportar valoraciones',
+  'chat.contextProgress': 'Contexto: {collected}/{total} detalles recogidos',
+  'chat.contextComplete': 'Contexto: completo',
+  'chat.typing': 'Escribiendo...',
+  'chat.online': 'En línea',
+  'chat.showDetails': 'Mostrar detalles del prompt',
+  'chat.hideDetails': 'Ocultar detalles del prompt',
+  'chat.contextDetails': '{collected}/{total} detalles conocidos',
+  'chat.placeholder': 'Escribe tu mensaje... (/ para comandos, @ para prompts guardados)',
+  'chat.slash.heading': 'Comandos',
+  'chat.slash.tone': 'Define el tono, p. ej. /tone formal',
+  'chat.slash.audience': 'Define el público, p. ej. /audience desarrolladores',
+  'chat.slash.generate': 'Genera un prompt ya, p. ej. /generate deep dive',
+  'chat.slash.skip': 'Salta la pregunta actual',
+  'chat.slash.restart': 'Empieza de nuevo en este modo',
+  'chat.slash.model': 'Da formato a los prompts para un modelo, p. ej. /model claude',
+  'chat.slash.modelsHeading': 'Dar formato para',
+  'chat.slash.noModel': 'Ningún modelo en particular',
+  'chat.slash.mentionsHeading': 'Prompts guardados',
+  'chat.slash.fieldSet': '{field}: «{value}»',
+  'chat.slash.needValue': 'Escribe un valor después de {command}',
+  'chat.slash.needTopic': 'Primero dime de qué trata el prompt',
+  'chat.slash.modelSet': 'Los prompts tendrán formato para {model}',
+  'chat.slash.modelCleared': 'Los prompts no tendrán formato para ningún modelo en particular',
+  'chat.slash.unknownModel': 'No hay ningún modelo llamado «{model}»',
+  'chat.slash.modelOptions': 'Prueba con {models} o none.',
+  'chat.slash.unknownTier': 'No hay ningún nivel llamado "{tier}"',
+  'chat.slash.tierOptions': 'Prueba con {tiers}.',
+  'chat.slash.nothingToSkip': 'No hay ninguna pregunta que saltar',
+  'chat.mentions.label': 'Partiendo de:',
+  'chat.mentions.remove': 'Quitar {title}',
+  'chat.send': 'Enviar mensaje',
+  'chat.stop': 'Detener la generación',
+  'chat.toFirstTier': '{collected}/{needed} para {tier}',
+  'chat.toNextTier': '{collected}/{needed} más para {tier}',
+  'chat.allUnlocked': '¡Todos los niveles de prompt desbloqueados!',
+  'chat.yourPrompt': 'Tu prompt',
+  'chat.prompt': 'Prompt',
+  'chat.untitledSession': 'Sesión sin título',
+  'chat.saveToLibrary': 'Guardar en la biblioteca',
+  'chat.savedToLibrary': 'Guardado en la biblioteca',
+  'chat.share': 'Compartir prompt',
+  'chat.copyPrompt': 'Copiar prompt',
+  'chat.refine': 'Refinar',
+  'chat.startOver': 'Empezar de nuevo',
+  'chat.formattedFor': 'Formateado para {model}',
+  'chat.refreshing': 'Renovando tu prompt...',
+  'chat.refineFurther': '¡Vamos a refinarlo más! Cuéntame qué más necesitas.',
+  'chat.toast.sessionNotFound.title': 'Sesión no encontrada',
+  'chat.toast.sessionNotFound.description': 'Puede que se haya borrado, así que empezamos una nueva.',
+  'chat.toast.resumeFailed.title': 'No se pudo reanudar la sesión',
+  'chat.toast.resumeFailed.description': 'El almacenamiento del navegador no está disponible, así que empezamos una nueva.',
+  'chat.toast.stopped.title': 'Generación detenida',
+  'chat.toast.stopped.kept': 'Conservamos lo generado hasta ahora.',
+  'chat.toast.stopped.empty': 'Todavía no se había generado nada.',
+  'chat.toast.offline.title': 'Usando una plantilla sin conexión',
+  'chat.toast.offline.description': 'No pudimos contactar con el proveedor de IA, así que aquí tienes un prompt basado en plantillas.',
+  'chat.toast.interrupted.title': 'Generación interrumpida',
+  'chat.toast.interrupted.description': 'El proveedor de IA dejó de responder. Conservamos lo generado hasta ahora.',
+  'chat.toast.refreshed.title': '¡Prompt renovado!',
+  'chat.toast.refreshed.description': 'Aquí tienes otra versión de tu petición.',
+  'chat.toast.saved.description': 'Añade etiquetas o guárdalo en una carpeta desde la biblioteca.',
+  'chat.toast.saved.action': 'Abrir biblioteca',
+  'chat.toast.saved.actionLabel': 'Abrir la biblioteca de prompts',
+  'chat.toast.saveFailed.title': 'No se pudo guardar el prompt',
+  'chat.toast.shareCopied': 'Enlace copiado',
+  'chat.toast.shareReady': 'Enlace listo',
+  'chat.toast.shareFailed.title': 'No se pudo compartir el prompt',
+  'chat.toast.shareFailed.description': 'Compartir necesita el servidor de la API (npm run server).',
+  'chat.toast.quota.title': 'Límite diario alcanzado',
+  'chat.toast.quota.description': 'Tus respuestas están guardadas. Generaremos este prompt en cuanto se renueve tu cuota.',
+  'chat.output.label': 'Idioma del prompt',
+  'chat.output.asWritten': 'Tal como se escribió',
+  'chat.output.hint': 'Los prompts se reescriben para hablantes del idioma, no se traducen palabra por palabra.',
+  'chat.output.rewriting': 'Reescribiendo en {language}…',
+  'chat.output.language': 'Idioma de salida: {language}',
+  'chat.output.compare': 'Comparar con el original',
+  'chat.output.hideCompare': 'Ocultar el original',
+  'chat.output.original': 'Original',
+  'chat.toast.localizeFailed.title': 'No pudimos reescribir el prompt',
+  'chat.toast.localizeFailed.description': 'El proveedor de IA no respondió, así que el prompt pide las respuestas en {language}.',
+  'chat.toast.languageDirective.title': 'El prompt no se reescribió',
+  'chat.toast.languageDirective.description': 'Reescribirlo requiere un proveedor de IA, así que el prompt pide las respuestas en {language}.',
+  'chat.edit': 'Editar respuesta',
+  'chat.edit.save': 'Guardar y continuar',
+  'chat.edit.cancel': 'Cancelar',
+  'chat.edited': 'Editada',
+  'chat.skip': 'Saltar pregunta',
+  'chat.skipped': 'Omitida',
+  'chat.generateNow': 'Generar ya',
+  'chat.generateNow.heading': 'Generar con lo que has contado hasta ahora',
+  'chat.generateNow.early': { one: '{count} respuesta antes', other: '{count} respuestas antes' },
+  'chat.branches.heading': 'Ramas',
+  'chat.branches.original': 'Original',
+  'chat.branches.edit': 'Edición {number}: {text}',
+  'chat.branches.compare': 'Comparar prompts',
+  'chat.branches.compareTitle': 'Comparar ramas',
+  'chat.branches.compareDescription': 'Los prompts de cada rama de este chat, uno al lado del otro.',
+  'chat.branches.current': 'Actual',
+  'chat.branches.switch': 'Cambiar',
+  'chat.branches.noPrompt': 'Aún no se ha generado en esta rama.',
+  'chat.fillVariables': 'Rellenar variables',
+
+  // Prompt variables
+  'variables.title': 'Rellenar variables',
+  'variables.description': { one: 'Este prompt tiene {count} marcador. Rellénalo para obtener un prompt listo para usar.', other: 'Este prompt tiene {count} marcadores. Rellénalos para obtener un prompt listo para usar.' },
+  'variables.savedSets': 'Valores guardados:',
+  'variables.applySet': 'Usar los valores guardados como {name}',
+  'variables.deleteSet': 'Eliminar {name}',
+  'variables.preview': 'Vista previa',
+  'variables.setName': 'Nombre para estos valores',
+  'variables.setNamePlaceholder': 'Guardar estos valores como… (p. ej. Lanzamiento Acme)',
+  'variables.save': 'Guardar valores',
+  'variables.saved': 'Valores guardados como {name}',
+  'variables.saveFailed': 'No se pudieron guardar los valores',
+  'variables.copy': 'Copiar prompt rellenado',
+  'variables.copyRaw': 'Copiar con marcadores',
+  'variables.error.required': 'Rellena este campo',
+  'variables.error.number': 'Introduce un número',
+  'variables.error.url': 'Introduce una URL completa, empezando por https://',
+  'variables.error.email': 'Introduce un correo electrónico',
+  'variables.error.date': 'Introduce una fecha',
+  'variables.error.option': 'Elige una de las opciones',
+
+  // Prompt linter
+  'lint.title': 'Calidad del prompt',
+  'lint.score': '{score}/100',
+  'lint.scoreLabel': 'Calidad del prompt: {score} de 100',
+  'lint.rating.good': 'Buena',
+  'lint.rating.fair': 'Aceptable',
+  'lint.rating.poor': 'Mejorable',
+  'lint.task.pass': 'Dice qué hacer',
+  'lint.task.fail': 'No dice qué hacer',
+  'lint.task.fix': 'Añadir una tarea',
+  'lint.audience.pass': 'Dice a quién va dirigido',
+  'lint.audience.fail': 'No dice a quién va dirigido',
+  'lint.audience.fix': 'Añadir el público',
+  'lint.format.pass': 'Pide un formato de salida',
+  'lint.format.fail': 'Sin formato de salida',
+  'lint.format.fix': 'Añadir un formato',
+  'lint.length.pass': 'Fija una extensión',
+  'lint.length.fail': 'Sin límite de extensión',
+  'lint.length.fix': 'Añadir un límite de palabras',
+  'lint.examples.pass': 'Incluye un ejemplo',
+  'lint.examples.fail': 'Sin ejemplos',
+  'lint.examples.fix': 'Añadir un ejemplo',
+  'lint.pronouns.pass': 'Sin pronombres ambiguos',
+  'lint.pronouns.fail': 'Una frase empieza con un pronombre que puede referirse a varias cosas',
+  'lint.conflicts.pass': 'Sin instrucciones contradictorias',
+  'lint.conflicts.fail': 'Dos instrucciones se contradicen',
+  'lint.conflicts.fix': 'Quitar la segunda',
+  'lint.readability.pass': 'Fácil de leer (nivel {grade})',
+  'lint.readability.fail': 'Difícil de leer (nivel {grade})',
+  'lint.readability.fix': 'Dividir las frases largas',
+
+  // Token counts
+  'tokens.count': { one: '{tokens} token', other: '{tokens} tokens' },
+  'tokens.countApproximate': { one: '≈{tokens} token', other: '≈{tokens} tokens' },
+  'tokens.cost': 'aprox. {cost}',
+  'tokens.details': 'Estimado para {model} a {input} por millón de tokens de entrada y {output} por millón de tokens de salida, con una respuesta de unos {outputTokens} tokens.',
+  'tokens.approximateNote': 'El tokenizador de {model} no es público, así que el recuento es aproximado.',
+  'tokens.overflow': 'Demasiado largo para {model}: con una respuesta típica necesita {total} tokens de su contexto de {window}',
+
+  // Feedback
+  'feedback.like': 'Me gusta',
+  'feedback.dislike': 'No me gusta',
+  'feedback.whatWasWrong': '¿Qué falló?',
+  'feedback.optional': '(opcional)',
+  'feedback.done': 'Listo',
+  'feedback.reason.too-generic': 'Demasiado genérico',
+  'feedback.reason.wrong-tone': 'Tono equivocado',
+  'feedback.reason.too-long': 'Demasiado largo',
+  'feedback.reason.off-topic': 'No era lo que pedí',
+  'feedback.exported.title': 'Valoraciones exportadas',
+  'feedback.exported.description': { one: 'Se descargó {count} valoración en JSON.', other: 'Se descargaron {count} valoraciones en JSON.' },
+  'feedback.none.title': 'Aún no hay valoraciones',
+  'feedback.none.description': 'Primero valora un prompt con Me gusta o No me gusta.',
+  'feedback.exportFailed.title': 'No se pudo exportar',
+
+  // Prompt details panel
+  'spec.title': 'Detalles del prompt',
+  'spec.subtitle': 'Corrige lo que hayamos entendido mal',
+  'spec.close': 'Cerrar detalles del prompt',
+  'spec.fromAnswers': 'De tus respuestas',
+  'spec.edited': '(editado)',
+  'spec.notes': 'Contexto adicional',
+  'spec.notesPlaceholder': 'Una nota por línea',
+  'spec.reset': 'Volver a mis respuestas',
+  'spec.topic.label': 'Tema',
+  'spec.topic.placeholder': 'De qué trata el prompt',
+  'spec.goal.label': 'Objetivo',
+  'spec.goal.placeholder': 'Qué quieres que haga la IA',
+  'spec.tone.label': 'Tono y estilo',
+  'spec.tone.placeholder': 'p. ej. cercano, formal, divertido',
+  'spec.audience.label': 'Público',
+  'spec.audience.placeholder': 'Para quién es el resultado',
+  'spec.challenges.label': 'Dificultades',
+  'spec.challenges.placeholder': 'Qué ha fallado antes',
+  'spec.valueCriteria.label': 'Qué lo hace valioso',
+  'spec.valueCriteria.placeholder': 'Cómo juzgarás el resultado',
+  'spec.angles.label': 'Enfoques poco convencionales',
+  'spec.angles.placeholder': 'Direcciones que vale la pena explorar',
+  'spec.assumptions.label': 'Suposiciones a cuestionar',
+  'spec.assumptions.placeholder': 'Creencias que el prompt debería poner en duda',
+
+  // Recent sessions
+  'sessions.recent': 'Sesiones recientes',
+  'sessions.delete': 'Eliminar la sesión "{title}"',
+
+  // Usage limit overlay
+  'usage.title': 'Límite de uso alcanzado',
+  'usage.used': 'Has usado {used} de tus {limit} prompts gratis de hoy.',
+  'usage.reached': 'Has alcanzado tu límite diario gratuito.',
+  'usage.upgradePitch': '¡Pásate a Pro para tener prompts ilimitados!',
+  'usage.resetsIn': 'Los prompts gratis se renuevan en {time}',
+  'usage.later': 'Quizá luego',
+  'usage.upgrade': 'Mejorar ahora',
+
+  // Home page
+  'home.nav.home': 'Inicio',
+  'home.nav.features': 'Funciones',
+  'home.nav.howItWorks': 'Cómo funciona',
+  'home.nav.testimonials': 'Opiniones',
+  'home.nav.signUp': 'Regístrate',
+  'home.hero.title': 'Las grandes ideas empiezan con un prompt.',
+  'home.hero.subtitle': 'Convirtamos tus ideas más profundas en prompts eficaces para cualquier modelo de IA',
+  'home.hero.placeholder': '¿Qué tienes en mente?',
+  'home.hero.inputLabel': 'Escribe tu idea',
+  'home.hero.generate': 'Generar prompt',
+  'home.models.formattedFor': 'Los prompts se formatearán para {model}; haz clic de nuevo para quitarlo',
+  'home.models.pick': 'Genera prompts potentes para cualquier asistente de IA; elige uno para formatear los prompts para él',
+  'home.models.stopFormatting': 'Dejar de formatear para {model}',
+  'home.models.formatFor': 'Formatear prompts para {model}',
+  'home.models.logo': 'Logo de {model}',
+  'home.pillars.ideas.title': 'Desbloquea tus ideas ocultas',
+  'home.pillars.ideas.description': 'Descubre ideas que no sabías que tenías con nuestro refinado guiado de prompts',
+  'home.pillars.questions.title': 'Preguntas potentes y originales',
+  'home.pillars.questions.description': 'Convierte ideas vagas en prompts precisos y accionables que dan resultados',
+  'home.pillars.potential.title': 'Aprovecha todo el potencial de la IA',
+  'home.pillars.potential.description': 'Saca el máximo partido a los modelos de IA con prompts bien elaborados',
+  'home.features.title': '¿Por qué abrir tus ideas aquí?',
+  'home.features.originality.title': 'Da rienda suelta a la originalidad',
+  'home.features.originality.description': 'Prompts únicos, no copias.',
+  'home.features.instant.title': 'Creatividad al instante',
+  'home.features.instant.description': "De Quick Mode a Crack'd AF, para todos los niveles.",
+  'home.features.learn.title': 'Aprende mientras creas',
+  'home.features.learn.description': 'Los consejos te enseñan a dominar los prompts.',
+  'home.steps.title': 'Tu camino hacia prompts geniales',
+  'home.steps.spark.title': 'Enciende tu idea',
+  'home.steps.spark.description': 'Comparte tu idea inicial y empezaremos a crear el prompt perfecto.',
+  'home.steps.spark.tip': '¡Haz clic en «Empezar»!',
+  'home.steps.spark.tooltip': 'Empieza con una idea sencilla y mira cómo se transforma.',
+  'home.steps.unleash.title': 'Libera la creatividad',
+  'home.steps.unleash.description': 'Explora tu idea con Quick Mode y genera prompts prácticos.',
+  'home.steps.unleash.tip': '¡Habla con el chat!',
+  'home.steps.unleash.tooltip': 'Intercambia mensajes para refinar tu prompt.',
+  'home.steps.elevate.title': 'Eleva con perspectiva',
+  'home.steps.elevate.description': 'Desbloquea el modo CreativeFlow para prompts más matizados e imaginativos.',
+  'home.steps.elevate.tip': '¡Desliza tras 3 intercambios!',
+  'home.steps.elevate.tooltip': 'Avanza hacia una generación de prompts más creativa.',
+  'home.steps.brilliance.title': 'Abre paso a la genialidad',
+  'home.steps.brilliance.description': "Llega al modo Crack'd AF para los prompts más innovadores y atrevidos.",
+  'home.steps.brilliance.tip': '¡Se desbloquea tras 6 intercambios!',
+  'home.steps.brilliance.tooltip': 'Prueba nuestra generación de prompts más potente.',
+  'home.tryIt.title': 'Pruébalo ahora',
+  'home.tryIt.subtitle': 'Escribe tus ideas y las convertiremos en un prompt potente.',
+  'home.tryIt.create': 'Crea tu prompt',
+  'home.refiner.title': '¿Ya tienes notas?',
+  'home.refiner.description': 'Pega notas de una reunión o una transcripción. Quitaremos el relleno, eliminaremos instrucciones repetidas y ordenaremos el resto en tarea, contexto y restricciones.',
+  'home.refiner.placeholder': 'Sam: Eh, básicamente tenemos que escribir un email de lanzamiento para el nuevo panel.\nPriya: Es para clientes actuales. Que no pase de 200 palabras.',
+  'home.refiner.inputLabel': 'Notas para refinar',
+  'home.refiner.characters': { one: '{count} carácter', other: '{count} caracteres' },
+  'home.refiner.refine': 'Refinar notas',
+  'home.refiner.before': 'Antes',
+  'home.refiner.after': 'Después',
+  'home.refiner.copy': 'Copiar el prompt refinado',
+  'home.refiner.clickToCopy': 'Haz clic para copiar',
+  'home.refiner.summary': 'Se quitaron {filler} y {duplicates}.',
+  'home.refiner.fillerWords': { one: '{count} muletilla', other: '{count} muletillas' },
+  'home.refiner.repeatedInstructions': { one: '{count} instrucción repetida', other: '{count} instrucciones repetidas' },
+  'home.refiner.toast.empty.title': 'Escribe algo de texto',
+  'home.refiner.toast.empty.description': 'Primero pega tus notas o una transcripción.',
+  'home.refiner.toast.nothing.title': 'Nada que refinar',
+  'home.refiner.toast.nothing.description': 'No encontramos instrucciones ni contexto en ese texto.',
+  'home.refiner.toast.done.title': '¡Prompt refinado!',
+  'home.refiner.toast.done.description': 'Haz clic en el prompt para copiarlo al portapapeles.',
+  'home.refiner.toast.copied.description': 'Tu prompt refinado está listo para usar.',
+  'home.testimonials.title': 'Lo que dicen nuestros usuarios',
+  'home.testimonials.sarah.quote': '¡Cracked Prompts ha revolucionado mi forma de escribir; mis ideas estallan de creatividad!',
+  'home.testimonials.sarah.role': 'Novelista',
+  'home.testimonials.alex.quote': '¡Nunca me quedo sin ideas gracias a esta herramienta increíble; es pura genialidad!',
+  'home.testimonials.alex.role': 'Creador de contenido',
+  'home.pricing.title': 'Precios sencillos',
+  'home.pricing.subtitle': 'Empieza gratis cada día. Pásate a Pro cuando tus ideas no puedan esperar a mañana.',
+  'home.pricing.free.name': 'Gratis',
+  'home.pricing.free.period': 'para siempre',
+  'home.pricing.free.description': 'Todo lo que necesitas para probar los prompts guiados.',
+  'home.pricing.free.feature1': '3 prompts al día en todos los modos',
+  'home.pricing.free.feature2': 'Sesiones y biblioteca guardadas en tu navegador',
+  'home.pricing.free.feature3': 'Formato para todos los modelos',
+  'home.pricing.pro.name': 'Pro',
+  'home.pricing.pro.period': 'al mes',
+  'home.pricing.pro.description': 'Para quienes escriben prompts todo el día.',
+  'home.pricing.pro.feature1': 'Prompts ilimitados en todos los modos',
+  'home.pricing.pro.feature2': 'Renovaciones ilimitadas por prompt',
+  'home.pricing.pro.feature3': 'Acceso prioritario a los nuevos modos',
+  'home.pricing.upgrade': 'Pasar a Pro',
+  'home.pricing.remaining': 'Te quedan {remaining} de {limit} hoy · se renuevan en {time}',
+  'home.pricing.current': 'Tu plan actual',
+  'home.pricing.toast.title': 'Pro está al llegar',
+  'home.pricing.toast.description': 'Las mejoras se abrirán pronto. Mientras tanto, tus prompts gratis se renuevan cada día.',
+  'home.cta.title': '¿Listo para desatar tu creatividad?',
+  'home.cta.subtitle': 'Únete a miles de personas que ya transforman sus ideas con Cracked Prompts.',
+  'home.cta.button': 'Pruébalo ahora',
+  'home.footer.rights': '© {year} Cracked Prompts. Todos los derechos reservados.',
+  'home.footer.privacy': 'Tus prompts se procesan de forma segura y no se guardan más allá de la sesión',
+
+  // Settings
+  'settings.title': 'Ajustes',
+  'settings.language.label': 'Idioma',
+  'settings.language.description': 'Se usa en la aplicación y en las preguntas que te hace el chat.',
+  'settings.targetModel.label': 'Formatear prompts para',
+  'settings.targetModel.description': 'Los prompts generados se organizan como mejor los lee este modelo.',
+  'settings.targetModel.none': 'Ningún modelo en particular',
+  'settings.targetModel.summary': '{model}: contexto de {context} tokens, acepta {modalities}, {input} / {output} por millón de tokens de entrada / salida.',
+  'settings.targetModel.noSystemPrompt': 'Sin prompt de sistema aparte.',
+  'settings.targetModel.registry': 'Datos de modelos v{version}, actualizados el {date}',
+  'settings.modality.text': 'texto',
+  'settings.modality.image': 'imágenes',
+  'settings.modality.audio': 'audio',
+  'settings.modality.video': 'vídeo',
+  'settings.modality.file': 'archivos',
+  'settings.outputLanguage.label': 'Idioma del prompt',
+  'settings.outputLanguage.description': 'Los prompts generados se reescriben en este idioma, con expresiones adaptadas a sus hablantes. Puedes compararlos con el original en el chat.',
+  'settings.outputLanguage.asWritten': 'Tal como se escribió'
+};
+
+export default es;
@@ -0,0 +1,110 @@
+import { LIBRARY_STORE, createRecordId, runRequest } from '@/lib/db';
+import type { PromptLevel } from '@/lib/llm';
+
+// A generated prompt the user kept
+export interface LibraryEntry {
+  id: string;
+  title: string;
+  text: string;
+  level: PromptLevel;
+  // Target model the prompt was formatted for, if any
+  targetModelId?: string;
+  tags: string[];
+  // Empty string for prompts that aren't filed anywhere
+  folder: string;
+  favorite: boolean;
+  // The conversation that produced the prompt and the attachment message it came from
+  sessionId?: string;
+  messageId?: string;
+  // Account that saved the prompt; entries saved while signed out belong to everyone on this browser
+  ownerId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface LibraryFilters {
+  query?: string;
+  level?: PromptLevel;
+  targetModelId?: string;
+  folder?: string;
+  tag?: string;
+  favoritesOnly?: boolean;
+}
+
+// Fired on window whenever the library changes
+export const LIBRARY_CHANGED_EVENT = 'library-changed';
+
+const notifyChange = () => {
+  window.dispatchEvent(new Event(LIBRARY_CHANGED_EVENT));
+};
+
+// Most recently updated entries first
+export const listLibraryEntries = async () => {
+  const entries = (await runRequest(LIBRARY_STORE, 'readonly', store => store.getAll())) as LibraryEntry[];
+  return entries.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+};
+
+export const addLibraryEntry = async (
+  entry: Omit<LibraryEntry, 'id' | 'tags' | 'folder' | 'favorite' | 'createdAt' | 'updatedAt'> & Partial<LibraryEntry>
+) => {
+  const now = new Date();
+  const saved: LibraryEntry = {
+    tags: [],
+    folder: '',
+    favorite: false,
+    ...entry,
+    id: createRecordId(),
+    createdAt: now,
+    updatedAt: now
+  };
+  await runRequest(LIBRARY_STORE, 'readwrite', store => store.put(saved));
+  notifyChange();
+  return saved;
+};
+
+export const updateLibraryEntry = async (entry: LibraryEntry) => {
+  const saved = { ...entry, updatedAt: new Date() };
+  await runRequest(LIBRARY_STORE, 'readwrite', store => store.put(saved));
+  notifyChange();
+  return saved;
+};
+
+export const deleteLibraryEntry = async (id: string) => {
+  await runRequest(LIBRARY_STORE, 'readwrite', store => store.delete(id));
+  notifyChange();
+};
+
+// Signed-in users see their own entries plus anything saved while signed out
+export const isOwnedBy = (entry: { ownerId?: string }, userId: string | null) =>
+  !entry.ownerId || entry.ownerId === userId;
+
+// Turn "research, Blog post ,research" into ["research", "blog post"]
+export const parseTags = (input: string) =>
+  [...new Set(input.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+
+// Every word of the query has to appear in the title, text, tags or folder
+const matchesQuery = (entry: LibraryEntry, query: string) => {
+  const haystack = [entry.title, entry.text, entry.folder, ...entry.tags].join('\n').toLowerCase();
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .every(term => haystack.includes(term));
+};
+
+export const filterLibraryEntries = (entries: LibraryEntry[], filters: LibraryFilters) =>
+  entries.filter(entry =>
+    (!filters.query || matchesQuery(entry, filters.query)) &&
+    (!filters.level || entry.level === filters.level) &&
+    (!filters.targetModelId || entry.targetModelId === filters.targetModelId) &&
+    (filters.folder === undefined || entry.folder === filters.folder) &&
+    (!filters.tag || entry.tags.includes(filters.tag)) &&
+    (!filters.favoritesOnly || entry.favorite)
+  );
+
+// Distinct folders and tags in use, for the filter sidebar
+export const getLibraryFolders = (entries: LibraryEntry[]) =>
+  [...new Set(entries.map(entry => entry.folder).filter(Boolean))].sort();
+
+export const getLibraryTags = (entries: LibraryEntry[]) =>
+  [...new Set(entries.flatMap(entry => entry.tags))].sort();
@@ -0,0 +1,72 @@
+import { post, postJson, trimTrailingSlash } from './http';
+import { buildSystemPrompt, buildUserContent } from './instructions';
+import { readServerSentEvents } from './stream';
+import { LLMProviderError, type GenerateRequest, type LLMProvider, type ProviderConfig } from './types';
+
+interface MessagesResponse {
+  content?: { type: string; text?: string }[];
+}
+
+interface MessagesStreamEvent {
+  type: string;
+  delta?: { type: string; text?: string };
+  error?: { message?: string };
+}
+
+const buildRequest = (config: ProviderConfig, request: GenerateRequest, stream: boolean) => {
+  const baseUrl = trimTrailingSlash(config.baseUrl || 'https://api.anthropic.com');
+
+  return {
+    url: `${baseUrl}/v1/messages`,
+    headers: {
+      'x-api-key': config.apiKey || '',
+      'anthropic-version': '2023-06-01',
+      // Required for calls made straight from the browser
+      'anthropic-dangerous-direct-browser-access': 'true'
+    },
+    body: {
+      model: config.model || 'claude-3-5-haiku-latest',
+      max_tokens: config.maxTokens ?? 1024,
+      temperature: config.temperature ?? 0.7,
+      stream,
+      system: buildSystemPrompt(request),
+      messages: [
+        { role: 'user', content: buildUserContent(request) }
+      ]
+    }
+  };
+};
+
+export const createAnthropicProvider = (config: ProviderConfig): LLMProvider => ({
+  id: 'anthropic',
+  generate: async (request) => {
+    const { url, body, headers } = buildRequest(config, request, false);
+    const data = await postJson<MessagesResponse>('anthropic', url, body, headers, request.signal);
+
+    const text = (data.content || [])
+      .filter(block => block.type === 'text')
+      .map(block => block.text || '')
+      .join('')
+      .trim();
+    if (!text) {
+      throw new LLMProviderError('anthropic', 'Response did not contain any text');
+    }
+    return text;
+  },
+  stream: async function* (request) {
+    const { url, body, headers } = buildRequest(config, request, true);
+    const response = await post('anthropic', url, body, headers, request.signal);
+
+    for await (const data of readServerSentEvents(response, request.signal)) {
+      const event = JSON.parse(data) as MessagesStreamEvent;
+
+      if (event.type === 'error') {
+        throw new LLMProviderError('anthropic', event.error?.message || 'Stream error');
+      }
+      if (event.type === 'message_stop') return;
+      if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta' && event.delta.text) {
+        yield event.delta.text;
+      }
+    }
+  }
+});
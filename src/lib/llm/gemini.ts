@@ -0,0 +1,67 @@
+import { post, postJson, trimTrailingSlash } from './http';
+import { buildSystemPrompt, buildUserContent } from './instructions';
+import { readServerSentEvents } from './stream';
+import { LLMProviderError, type GenerateRequest, type LLMProvider, type ProviderConfig } from './types';
+
+interface GenerateContentResponse {
+  candidates?: { content?: { parts?: { text?: string }[] } }[];
+}
+
+const extractText = (data: GenerateContentResponse) =>
+  (data.candidates?.[0]?.content?.parts || [])
+    .map(part => part.text || '')
+    .join('');
+
+const buildRequest = (config: ProviderConfig, request: GenerateRequest, stream: boolean) => {
+  const baseUrl = trimTrailingSlash(config.baseUrl || 'https://generativelanguage.googleapis.com');
+  const model = config.model || 'gemini-1.5-flash';
+  const params = new URLSearchParams();
+  if (stream) {
+    params.set('alt', 'sse');
+  }
+  if (config.apiKey) {
+    params.set('key', config.apiKey);
+  }
+  const query = params.toString() ? `?${params}` : '';
+  const method = stream ? 'streamGenerateContent' : 'generateContent';
+
+  return {
+    url: `${baseUrl}/v1beta/models/${model}:${method}${query}`,
+    headers: {},
+    body: {
+      systemInstruction: { parts: [{ text: buildSystemPrompt(request) }] },
+      contents: [
+        { role: 'user', parts: [{ text: buildUserContent(request) }] }
+      ],
+      generationConfig: {
+        temperature: config.temperature ?? 0.7,
+        maxOutputTokens: config.maxTokens
+      }
+    }
+  };
+};
+
+export const createGeminiProvider = (config: ProviderConfig): LLMProvider => ({
+  id: 'gemini',
+  generate: async (request) => {
+    const { url, body, headers } = buildRequest(config, request, false);
+    const data = await postJson<GenerateContentResponse>('gemini', url, body, headers, request.signal);
+
+    const text = extractText(data).trim();
+    if (!text) {
+      throw new LLMProviderError('gemini', 'Response did not contain any text');
+    }
+    return text;
+  },
+  stream: async function* (request) {
+    const { url, body, headers } = buildRequest(config, request, true);
+    const response = await post('gemini', url, body, headers, request.signal);
+
+    for await (const data of readServerSentEvents(response, request.signal)) {
+      const text = extractText(JSON.parse(data) as GenerateContentResponse);
+      if (text) {
+        yield text;
+      }
+    }
+  }
+});
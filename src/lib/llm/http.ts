@@ -0,0 +1,48 @@
+import { isAbortError } from './stream';
+import { LLMProviderError, type ProviderId } from './types';
+
+// POST a JSON body and return the raw response, normalising failures into LLMProviderError
+export const post = async (
+  provider: ProviderId,
+  url: string,
+  body: unknown,
+  headers: Record<string, string>,
+  signal?: AbortSignal
+): Promise<Response> => {
+  let response: Response;
+
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal
+    });
+  } catch (error) {
+    if (isAbortError(error)) {
+      throw error;
+    }
+    throw new LLMProviderError(provider, `Network error: ${(error as Error).message}`);
+  }
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new LLMProviderError(provider, `Request failed with status ${response.status}${detail ? `: ${detail}` : ''}`, response.status);
+  }
+
+  return response;
+};
+
+// POST a JSON body and return the parsed JSON response
+export const postJson = async <T>(
+  provider: ProviderId,
+  url: string,
+  body: unknown,
+  headers: Record<string, string>,
+  signal?: AbortSignal
+): Promise<T> => {
+  const response = await post(provider, url, body, headers, signal);
+  return response.json() as Promise<T>;
+};
+
+export const trimTrailingSlash = (url: string) => url.replace(/\/+$/, '');
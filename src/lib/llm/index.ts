@@ -0,0 +1,189 @@
+import { createAnthropicProvider } from './anthropic';
+import { createGeminiProvider } from './gemini';
+import { createOpenAIProvider } from './openai';
+import { isAbortError, textToStream } from './stream';
+import { selectTemplatePrompt } from './templates';
+import { addLanguageDirective } from '@/lib/output-languages';
+import type { GenerateRequest, LLMProvider, ProviderConfig, ProviderId } from './types';
+
+export * from './types';
+export {
+  TEMPLATE_LIBRARY,
+  buildTemplateData,
+  getBuiltInTemplates,
+  getFlowTemplateId,
+  renderPromptTemplate,
+  selectTemplatePrompt,
+  type TemplatePrompt
+} from './templates';
+export { isAbortError, textToStream } from './stream';
+
+const PROVIDER_IDS: ProviderId[] = ['openai', 'anthropic', 'gemini', 'template'];
+
+// Read the provider selection from Vite env vars (see .env.example)
+export const getProviderConfig = (): ProviderConfig => {
+  const env = import.meta.env;
+  const requested = (env.VITE_LLM_PROVIDER || 'template').toLowerCase() as ProviderId;
+
+  return {
+    provider: PROVIDER_IDS.includes(requested) ? requested : 'template',
+    // Built into the bundle like every VITE_ variable, so visible to anyone who loads the app
+    apiKey: env.VITE_LLM_API_KEY,
+    baseUrl: env.VITE_LLM_BASE_URL,
+    model: env.VITE_LLM_MODEL,
+    temperature: env.VITE_LLM_TEMPERATURE ? Number(env.VITE_LLM_TEMPERATURE) : undefined,
+    maxTokens: env.VITE_LLM_MAX_TOKENS ? Number(env.VITE_LLM_MAX_TOKENS) : undefined
+  };
+};
+
+const templateProvider: LLMProvider = {
+  id: 'template',
+  generate: async (request) => selectTemplatePrompt(request).text,
+  stream: (request) => textToStream(selectTemplatePrompt(request).text, { signal: request.signal })
+};
+
+export const createProvider = (config: ProviderConfig): LLMProvider => {
+  switch (config.provider) {
+    case 'openai':
+      return createOpenAIProvider(config);
+    case 'anthropic':
+      return createAnthropicProvider(config);
+    case 'gemini':
+      return createGeminiProvider(config);
+    default:
+      return templateProvider;
+  }
+};
+
+export interface GenerateResult {
+  text: string;
+  // Which provider actually produced the text
+  source: ProviderId;
+  // Set when the configured provider failed and the template fallback was used
+  error?: Error;
+  // Set when the request was stopped through its AbortSignal; text holds the partial result
+  stopped?: boolean;
+  // Offline template variant the text came from, when source is 'template'
+  templateId?: string;
+}
+
+// Generate a prompt with the configured provider, falling back to the offline templates on failure
+export const generatePromptText = async (
+  request: GenerateRequest,
+  config: ProviderConfig = getProviderConfig()
+): Promise<GenerateResult> => {
+  const provider = createProvider(config);
+
+  if (provider.id === 'template') {
+    return { ...selectTemplatePrompt(request), source: 'template' };
+  }
+
+  try {
+    const text = await provider.generate(request);
+    return { text, source: provider.id };
+  } catch (error) {
+    if (isAbortError(error)) {
+      throw error;
+    }
+    console.error(`Prompt generation with ${provider.id} failed, using template fallback:`, error);
+    return {
+      ...selectTemplatePrompt(request),
+      source: 'template',
+      error: error as Error
+    };
+  }
+};
+
+// Stream a prompt with the configured provider, calling onChunk for every text delta.
+// Stopping through request.signal resolves with the partial text instead of throwing.
+export const streamPromptText = async (
+  request: GenerateRequest,
+  onChunk: (chunk: string) => void,
+  config: ProviderConfig = getProviderConfig()
+): Promise<GenerateResult> => {
+  const provider = createProvider(config);
+  let text = '';
+
+  const consume = async (stream: AsyncGenerator<string>) => {
+    for await (const chunk of stream) {
+      text += chunk;
+      onChunk(chunk);
+    }
+  };
+
+  // Stream an offline template, remembering which variant was used
+  const streamTemplate = async () => {
+    const { text: templateText, templateId } = selectTemplatePrompt(request);
+    await consume(textToStream(templateText, { signal: request.signal }));
+    return templateId;
+  };
+
+  if (provider.id === 'template') {
+    const templateId = await streamTemplate();
+    return { text, source: 'template', templateId, stopped: request.signal?.aborted };
+  }
+
+  try {
+    await consume(provider.stream(request));
+    return { text, source: provider.id, stopped: request.signal?.aborted };
+  } catch (error) {
+    if (isAbortError(error)) {
+      return { text, source: provider.id, stopped: true };
+    }
+
+    console.error(`Prompt streaming with ${provider.id} failed:`, error);
+
+    // Keep whatever already arrived rather than mixing in a template
+    if (text) {
+      return { text, source: provider.id, error: error as Error };
+    }
+
+    const templateId = await streamTemplate();
+    return { text, source: 'template', templateId, error: error as Error, stopped: request.signal?.aborted };
+  }
+};
+
+// Ask the configured provider which of request.planQuestions to ask next. Resolves with the
+// question's index, or null offline, on failure, or when the reply isn't one of the numbers.
+export const pickNextQuestion = async (
+  request: GenerateRequest & { planQuestions: string[] },
+  config: ProviderConfig = getProviderConfig()
+): Promise<number | null> => {
+  const provider = createProvider(config);
+  if (provider.id === 'template') return null;
+
+  try {
+    const reply = await provider.generate(request);
+    const index = Number(reply.match(/\d+/)?.[0]) - 1;
+    return index >= 0 && index < request.planQuestions.length ? index : null;
+  } catch (error) {
+    if (!isAbortError(error)) {
+      console.error(`Planning the next question with ${provider.id} failed:`, error);
+    }
+    return null;
+  }
+};
+
+// Rewrite request.localize.text in its language with the configured provider. Offline, or when
+// the provider fails, the prompt stays as written with a directive to answer in the language.
+export const localizePromptText = async (
+  request: GenerateRequest & { localize: NonNullable<GenerateRequest['localize']> },
+  config: ProviderConfig = getProviderConfig()
+): Promise<GenerateResult> => {
+  const provider = createProvider(config);
+  const { text, language } = request.localize;
+
+  if (provider.id === 'template') {
+    return { text: addLanguageDirective(text, language), source: 'template' };
+  }
+
+  try {
+    return { text: await provider.generate(request), source: provider.id };
+  } catch (error) {
+    if (isAbortError(error)) {
+      return { text, source: provider.id, stopped: true };
+    }
+    console.error(`Localizing the prompt with ${provider.id} failed:`, error);
+    return { text: addLanguageDirective(text, language), source: 'template', error: error as Error };
+  }
+};
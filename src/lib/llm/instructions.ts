@@ -0,0 +1,70 @@
+import { PROMPT_SPEC_FIELDS } from '@/lib/prompt-spec';
+import type { GenerateRequest, PromptLevel } from './types';
+
+// How much depth each tier should ask the model for
+const LEVEL_GUIDANCE: Record<PromptLevel, string> = {
+  quick: 'Write a concise, practical prompt (under 120 words) that a beginner could paste straight into an AI assistant.',
+  deepDive: 'Write a detailed prompt that asks for nuanced analysis, names the structure of the expected answer, and reflects the challenges and success criteria the user mentioned.',
+  crackedUp: 'Write an ambitious, boundary-pushing prompt that challenges assumptions, explores unconventional angles, and still gives the model a clear task and output structure.'
+};
+
+export const buildSystemPrompt = ({ level, localize, planQuestions }: GenerateRequest) => {
+  if (localize) {
+    return [
+      `You are an expert prompt engineer and a native ${localize.language.name} writer.`,
+      `You will receive a finished prompt. Rewrite it in ${localize.language.name} for a ${localize.language.name}-speaking audience.`,
+      'Adapt phrasing, idioms, examples and formats so it reads as if it had been written in that language; do not translate word for word.',
+      localize.language.guidance,
+      'Keep its structure, XML tags, headings, placeholders and instructions intact, and keep tag names and code in English.',
+      'Reply with the rewritten prompt only. Do not add commentary, a preamble, or surrounding quotes.'
+    ].join(' ');
+  }
+
+  if (planQuestions) {
+    return [
+      'You are an expert prompt engineer interviewing a user, one question at a time, about the prompt they need.',
+      'You will receive what they have told you so far and a numbered list of questions you could ask next.',
+      'Pick the question whose answer would improve the prompt the most, passing over anything their answers already cover.',
+      'Reply with its number only.'
+    ].join(' ');
+  }
+
+  return [
+    'You are an expert prompt engineer.',
+    'You will receive a summary of what a user needs, collected from a short conversation.',
+    LEVEL_GUIDANCE[level],
+    'Where the prompt needs details only the user can supply when they use it, such as a product name or a word count, leave a {{snake_case}} placeholder for each one.',
+    'Reply with the finished prompt only. Do not add commentary, a preamble, or surrounding quotes.'
+  ].join(' ');
+};
+
+export const buildUserContent = ({ spec, isRefresh, references = [], localize, planQuestions }: GenerateRequest) => {
+  if (localize) {
+    return localize.text;
+  }
+
+  const lines = PROMPT_SPEC_FIELDS
+    .filter(({ key }) => spec[key])
+    .map(({ key, label }) => `${label}: ${spec[key]}`);
+
+  if (!lines.length) {
+    lines.push('Topic: not provided');
+  }
+
+  spec.notes.forEach(note => lines.push(`Additional context: ${note}`));
+
+  if (planQuestions) {
+    lines.push('', 'Questions you could ask next:', ...planQuestions.map((question, index) => `${index + 1}. ${question}`));
+    return lines.join('\n');
+  }
+
+  references.forEach(({ title, text }) => {
+    lines.push('', `Saved prompt to build on ("${title}"):`, text);
+  });
+
+  if (isRefresh) {
+    lines.push('', 'Give a fresh take that differs from a previous version of this prompt.');
+  }
+
+  return lines.join('\n');
+};
@@ -0,0 +1,64 @@
+import { post, postJson, trimTrailingSlash } from './http';
+import { buildSystemPrompt, buildUserContent } from './instructions';
+import { readServerSentEvents } from './stream';
+import { LLMProviderError, type GenerateRequest, type LLMProvider, type ProviderConfig } from './types';
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string | null } }[];
+}
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string | null } }[];
+}
+
+const buildRequest = (config: ProviderConfig, request: GenerateRequest, stream: boolean) => {
+  const baseUrl = trimTrailingSlash(config.baseUrl || 'https://api.openai.com/v1');
+  const headers: Record<string, string> = {};
+  if (config.apiKey) {
+    headers.Authorization = `Bearer ${config.apiKey}`;
+  }
+
+  return {
+    url: `${baseUrl}/chat/completions`,
+    headers,
+    body: {
+      model: config.model || 'gpt-4o-mini',
+      temperature: config.temperature ?? 0.7,
+      max_tokens: config.maxTokens,
+      stream,
+      messages: [
+        { role: 'system', content: buildSystemPrompt(request) },
+        { role: 'user', content: buildUserContent(request) }
+      ]
+    }
+  };
+};
+
+// Works with OpenAI and any server that speaks the /chat/completions format
+export const createOpenAIProvider = (config: ProviderConfig): LLMProvider => ({
+  id: 'openai',
+  generate: async (request) => {
+    const { url, body, headers } = buildRequest(config, request, false);
+    const data = await postJson<ChatCompletionResponse>('openai', url, body, headers, request.signal);
+
+    const text = data.choices?.[0]?.message?.content?.trim();
+    if (!text) {
+      throw new LLMProviderError('openai', 'Response did not contain any text');
+    }
+    return text;
+  },
+  stream: async function* (request) {
+    const { url, body, headers } = buildRequest(config, request, true);
+    const response = await post('openai', url, body, headers, request.signal);
+
+    for await (const data of readServerSentEvents(response, request.signal)) {
+      if (data === '[DONE]') return;
+
+      const chunk = JSON.parse(data) as ChatCompletionChunk;
+      const delta = chunk.choices?.[0]?.delta?.content;
+      if (delta) {
+        yield delta;
+      }
+    }
+  }
+});
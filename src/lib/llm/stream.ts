@@ -0,0 +1,53 @@
+export const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+// Parse a Server-Sent Events response body, yielding the payload of every `data:` line
+export async function* readServerSentEvents(response: Response, signal?: AbortSignal): AsyncGenerator<string> {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      if (signal?.aborted) {
+        throw new DOMException('The stream was stopped', 'AbortError');
+      }
+
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split(/\r?\n/);
+      // Keep the last, possibly incomplete, line for the next read
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        if (line.startsWith('data:')) {
+          yield line.slice(5).trim();
+        }
+      }
+    }
+
+    if (buffer.startsWith('data:')) {
+      yield buffer.slice(5).trim();
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Turn a finished string into a word-by-word stream, for canned text that should still "type"
+export async function* textToStream(
+  text: string,
+  { signal, chunkDelay = 30 }: { signal?: AbortSignal; chunkDelay?: number } = {}
+): AsyncGenerator<string> {
+  const chunks = text.match(/\S+\s*|\s+/g) || [];
+
+  for (const chunk of chunks) {
+    if (signal?.aborted) return;
+    yield chunk;
+    await new Promise(resolve => setTimeout(resolve, chunkDelay));
+  }
+}
@@ -0,0 +1,148 @@
+import { z } from 'zod';
+import { getSpecSubject, type PromptSpec, type PromptSpecField } from '@/lib/prompt-spec';
+import { renderTemplate, validateTemplate, type TemplateData } from '@/lib/template-engine';
+import templateLibraryData from './prompt-templates.json';
+import type { GenerateRequest, PromptLevel, PromptReference } from './types';
+
+const templateLibrarySchema = z.object({
+  // Shared pieces any template can pull in with {{> name}}
+  partials: z.record(z.string(), z.string()),
+  templates: z.array(z.object({
+    // Stored with feedback, so keep it stable when editing a variant's text
+    id: z.string().min(1),
+    level: z.enum(['quick', 'deepDive', 'crackedUp']),
+    text: z.string().trim().min(1)
+  }))
+}).superRefine((library, ctx) => {
+  library.templates.forEach((template, index) => {
+    const error = validateTemplate(template.text, library.partials);
+    if (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['templates', index, 'text'], message: error });
+    }
+  });
+});
+
+// Built-in offline templates, validated once at load so a bad edit to the JSON fails loudly
+export const TEMPLATE_LIBRARY = templateLibrarySchema.parse(templateLibraryData);
+
+export const getBuiltInTemplates = (level: PromptLevel) =>
+  TEMPLATE_LIBRARY.templates.filter(template => template.level === level);
+
+// Spec fields each tier weaves into its prompt, with the label they get
+const TIER_CONTEXT: Record<PromptLevel, { field: PromptSpecField; label: string }[]> = {
+  quick: [
+    { field: 'goal', label: 'Goal' },
+    { field: 'tone', label: 'Tone and style' },
+    { field: 'audience', label: 'Audience' }
+  ],
+  deepDive: [
+    { field: 'goal', label: 'Goal' },
+    { field: 'tone', label: 'Tone and style' },
+    { field: 'audience', label: 'Audience' },
+    { field: 'challenges', label: 'Known challenges to address' },
+    { field: 'valueCriteria', label: 'The response is successful if it' }
+  ],
+  crackedUp: [
+    { field: 'goal', label: 'Goal' },
+    { field: 'tone', label: 'Tone and style' },
+    { field: 'audience', label: 'Audience' },
+    { field: 'challenges', label: 'Known challenges to address' },
+    { field: 'valueCriteria', label: 'The response is successful if it' },
+    { field: 'angles', label: 'Unconventional angles to explore' },
+    { field: 'assumptions', label: 'Assumption to challenge' }
+  ]
+};
+
+// Every value a template can use: each spec field, {{subject}}, {{level}}, {{notes}},
+// {{references}} (items have {{title}} and {{text}}), {{details}} (the context lines below,
+// items have {{label}} and {{value}}) and {{context}}, the ready-made context block
+export const buildTemplateData = (level: PromptLevel, spec: PromptSpec, references: PromptReference[] = []) => {
+  // Every spec field the tier uses and the user has filled in, plus any saved prompts they mentioned
+  const details = [
+    ...TIER_CONTEXT[level]
+      .filter(({ field }) => spec[field])
+      .map(({ field, label }) => ({ label, value: spec[field] })),
+    ...(level === 'quick' ? [] : spec.notes.map(note => ({ label: 'Additional context', value: note }))),
+    ...references.map(({ title, text }) => ({
+      label: `Build on the saved prompt "${title}"`,
+      value: text.replace(/\s+/g, ' ').trim()
+    }))
+  ];
+
+  const data: TemplateData = {
+    ...spec,
+    subject: getSpecSubject(spec),
+    level,
+    details,
+    references: references.map(({ title, text }) => ({ title, text }))
+  };
+  data.context = renderTemplate('{{> context}}', data, TEMPLATE_LIBRARY.partials).trim();
+  return data;
+};
+
+// Render a template with the values above. Empty sections can leave runs of blank lines
+// behind, so those are collapsed.
+export const renderPromptTemplate = (
+  template: string,
+  level: PromptLevel,
+  spec: PromptSpec,
+  references?: PromptReference[]
+) => renderTemplate(template, buildTemplateData(level, spec, references), TEMPLATE_LIBRARY.partials)
+  .replace(/\n{3,}/g, '\n\n')
+  .trim();
+
+export interface TemplatePrompt {
+  text: string;
+  // Stable id of the variant used, so feedback can be tied back to it
+  templateId: string;
+}
+
+// Score used for variants nobody has rated yet
+const NEUTRAL_SCORE = 0.5;
+// Keeps poorly rated variants in rotation, just rarely
+const MIN_WEIGHT = 0.05;
+
+// Short, stable hash so flow-authored templates keep their id across reloads
+const hashTemplate = (template: string) => {
+  let hash = 5381;
+  for (let i = 0; i < template.length; i++) {
+    hash = ((hash << 5) + hash + template.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+};
+
+export const getFlowTemplateId = (template: string) => `flow:${hashTemplate(template)}`;
+
+// First variant for a new prompt; on refreshes a random one, weighted towards well-rated variants
+const pickVariant = (ids: string[], isRefresh: boolean, scores: Record<string, number> = {}) => {
+  if (!isRefresh || ids.length === 1) return 0;
+
+  const weights = ids.map(id => Math.max(scores[id] ?? NEUTRAL_SCORE, MIN_WEIGHT));
+  let remaining = Math.random() * weights.reduce((sum, weight) => sum + weight, 0);
+  for (let i = 0; i < weights.length; i++) {
+    remaining -= weights[i];
+    if (remaining < 0) return i;
+  }
+  return weights.length - 1;
+};
+
+// Offline prompt templates, used when no provider is configured or a request fails
+export const selectTemplatePrompt = ({
+  level,
+  spec,
+  isRefresh = false,
+  templates,
+  templateScores,
+  references
+}: Omit<GenerateRequest, 'signal'>): TemplatePrompt => {
+  // A flow's own templates replace the built-in ones for its tiers
+  const variants = templates?.length
+    ? templates.map(text => ({ id: getFlowTemplateId(text), text }))
+    : getBuiltInTemplates(level);
+  const index = pickVariant(variants.map(variant => variant.id), isRefresh, templateScores);
+
+  return {
+    text: renderPromptTemplate(variants[index].text, level, spec, references),
+    templateId: variants[index].id
+  };
+};
@@ -0,0 +1,60 @@
+// Shared types for the LLM provider layer
+import type { OutputLanguage } from '@/lib/output-languages';
+import type { PromptSpec } from '@/lib/prompt-spec';
+
+export type PromptLevel = 'quick' | 'deepDive' | 'crackedUp';
+
+export type ProviderId = 'openai' | 'anthropic' | 'gemini' | 'template';
+
+export interface ProviderConfig {
+  provider: ProviderId;
+  apiKey?: string;
+  baseUrl?: string;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+// A saved prompt the user pulled into the conversation with an @mention
+export interface PromptReference {
+  title: string;
+  text: string;
+}
+
+export interface GenerateRequest {
+  // What the user told us, parsed from the conversation
+  spec: PromptSpec;
+  level: PromptLevel;
+  // Set when the user asks for a new take on the same tier
+  isRefresh?: boolean;
+  // Offline templates from the active flow, used instead of the built-in ones
+  templates?: string[];
+  // Feedback score (0-1) per offline template id; refreshes favour higher-scoring variants
+  templateScores?: Record<string, number>;
+  // Saved prompts to build on, mentioned in the chat
+  references?: PromptReference[];
+  // When set, rewrite this finished prompt in another language instead of writing a new one
+  localize?: { text: string; language: OutputLanguage };
+  // When set, pick which of these questions to ask the user next instead of writing a prompt
+  planQuestions?: string[];
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  id: ProviderId;
+  generate: (request: GenerateRequest) => Promise<string>;
+  // Yields text deltas as the provider produces them
+  stream: (request: GenerateRequest) => AsyncGenerator<string>;
+}
+
+export class LLMProviderError extends Error {
+  provider: ProviderId;
+  status?: number;
+
+  constructor(provider: ProviderId, message: string, status?: number) {
+    super(message);
+    this.name = 'LLMProviderError';
+    this.provider = provider;
+    this.status = status;
+  }
+}
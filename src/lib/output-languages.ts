@@ -0,0 +1,44 @@
+// Languages a finished prompt can be rewritten in, separate from the UI language
+export interface OutputLanguage {
+  // BCP 47 code, also used as the lang attribute of the translated prompt
+  id: string;
+  // English name, used in instructions to the model
+  name: string;
+  // Name of the language in that language, as shown in the picker
+  nativeName: string;
+  // How to adapt rather than translate: register, idioms, formats
+  guidance: string;
+  // Appended to the prompt when no AI provider can rewrite it, asking the target model to answer in the language
+  directive: string;
+}
+
+export const OUTPUT_LANGUAGES: OutputLanguage[] = [
+  {
+    id: 'es',
+    name: 'Spanish',
+    nativeName: 'Español',
+    guidance: 'Use neutral international Spanish that reads naturally in Spain and Latin America. Address the reader with "tú" unless the prompt is formal or business-facing, then use "usted". Replace English idioms and examples with ones a Spanish-speaking audience would use, and write dates as day/month/year with metric units.',
+    directive: 'Responde en español natural, adaptando expresiones, ejemplos y formatos a un público hispanohablante en lugar de traducir palabra por palabra.'
+  },
+  {
+    id: 'de',
+    name: 'German',
+    nativeName: 'Deutsch',
+    guidance: 'Use standard German. Address the reader with "Sie" for professional or unknown audiences and "du" only for clearly casual ones, and keep that choice consistent. Prefer clear, direct sentences over long nested clauses, swap English idioms for German equivalents, and use German number, date and currency formats.',
+    directive: 'Antworte auf Deutsch in natürlicher Sprache und passe Redewendungen, Beispiele und Formate an ein deutschsprachiges Publikum an, statt wörtlich zu übersetzen.'
+  },
+  {
+    id: 'ja',
+    name: 'Japanese',
+    nativeName: '日本語',
+    guidance: 'Use polite Japanese (desu/masu) unless the prompt asks for a casual voice, and match keigo to the audience. Be less blunt than English where a direct instruction would sound abrupt, use examples familiar to a Japanese audience, and write dates as year/month/day with Japanese punctuation.',
+    directive: '英語を直訳するのではなく、日本の読者に自然な表現・例・書式に置き換えて、日本語で回答してください。'
+  }
+];
+
+export const getOutputLanguage = (id?: string | null) =>
+  OUTPUT_LANGUAGES.find(language => language.id === id);
+
+// Offline fallback: keep the prompt as written and ask the target model to answer in the language
+export const addLanguageDirective = (prompt: string, language: OutputLanguage) =>
+  `${prompt.trimEnd()}\n\n${language.directive}`;
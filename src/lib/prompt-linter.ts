@@ -0,0 +1,239 @@
+import { IMPERATIVE_VERBS, REQUEST_LEAD_IN } from '@/lib/refiner';
+
+// Offline, rule-based review of a finished prompt. Each rule earns up to its weight in points
+// and the weights add up to 100, so the score reads as a percentage. Where a rule can be fixed
+// mechanically its finding carries the fixed prompt; details only the user knows are left as
+// {{placeholders}} to fill in (see prompt-variables.ts). The rules read English prompts.
+
+export type LintRuleId =
+  | 'task'
+  | 'audience'
+  | 'format'
+  | 'length'
+  | 'examples'
+  | 'pronouns'
+  | 'conflicts'
+  | 'readability';
+
+export interface LintFinding {
+  rule: LintRuleId;
+  passed: boolean;
+  points: number;
+  weight: number;
+  // Sentences the finding is about, as written in the prompt
+  excerpts: string[];
+  // Reading grade, for readability
+  grade?: number;
+  // The whole prompt with the finding fixed
+  fix?: string;
+}
+
+export interface PromptLintResult {
+  score: number;
+  findings: LintFinding[];
+}
+
+export type LintRating = 'good' | 'fair' | 'poor';
+
+const WEIGHTS: Record<LintRuleId, number> = {
+  task: 20,
+  format: 15,
+  conflicts: 15,
+  audience: 10,
+  length: 10,
+  examples: 10,
+  pronouns: 10,
+  readability: 10
+};
+
+// Verbs a prompt's instruction usually starts with, beyond the ones the notes refiner knows
+const TASK_VERBS = new Set([
+  ...IMPERATIVE_VERBS,
+  'act', 'answer', 'argue', 'ask', 'calculate', 'categorize', 'classify', 'craft', 'debug', 'discuss',
+  'explore', 'help', 'imagine', 'interrogate', 'invent', 'organize', 'pretend', 'provide', 'rank',
+  'rate', 'reframe', 'refactor', 'research', 'respond', 'show', 'solve', 'synthesize', 'teach', 'tell'
+]);
+
+const TASK_LABEL = /^(?:task|instructions?|goal|objective)\s*:/i;
+
+const AUDIENCE_PATTERN = /\b(?:audience|readers?|viewers|listeners|customers|clients|students|beginners|novices|experts|professionals|developers|engineers|executives|stakeholders|managers|children|kids|teens|parents|aimed at|written for|intended for|targeted at|tailored to)\b/i;
+
+const FORMAT_PATTERN = /\b(?:format(?:ted)?|bullet(?:ed)?(?: points?| list)?|bullets|numbered|list|table|json|yaml|csv|markdown|headings?|sections?|outline|paragraphs?|code block|step[- ]by[- ]step|template|structured?)\b/i;
+
+const LENGTH_PATTERNS = [
+  /\b\d+(?:\s*[-–]\s*\d+)?\s*(?:words?|characters?|sentences?|paragraphs?|bullets?|bullet points|items|points|pages?|lines?|tokens?|ideas|examples|steps|slides?|tweets?)\b/i,
+  /\b(?:under|at most|no more than|no longer than|fewer than|less than|up to|max(?:imum)? of)\s+(?:\d+|\{\{)/i,
+  /\b(?:brief|briefly|concise|concisely|succinct|short|one[- ](?:page|paragraph|sentence|line)|a single (?:paragraph|sentence|page)|word (?:count|limit)|character limit)\b/i
+];
+
+const EXAMPLE_PATTERN = /\b(?:for example|for instance|e\.g\.|such as|examples?|samples?|like this|input:|output:)|```|"[^"\n]+(?:\s[^"\n]+){2,}"/i;
+
+// A sentence opening on a pronoun and a verb: "It should…", "This is…", "They need…". "This
+// report" is a determiner and fine.
+const LEADING_PRONOUN = /^(it|this|that|these|those|they|them)\s+(?:is|was|are|were|should|must|will|would|can|could|may|might|needs?|has|have|does|do|seems?|means|shouldn't|mustn't|can't|won't|isn't|aren't)\b/i;
+
+// Instructions that pull in opposite directions when both appear
+const OPPOSITES: [RegExp, RegExp][] = [
+  [
+    /\b(?:brief|briefly|concise|concisely|succinct|keep it short)\b/i,
+    /\b(?:detailed|in[- ]depth|comprehensive|thorough|exhaustive|elaborate|at length)\b/i
+  ],
+  [/(?<!in)\bformal\b/i, /\b(?:casual|informal|conversational|chatty|slang)\b/i],
+  [/\b(?:simple|plain) (?:language|words|terms)\b/i, /\b(?:technical (?:language|terms|jargon)|use jargon)\b/i]
+];
+
+// Things a prompt asks for or rules out, e.g. "Use emojis" against "Don't use emojis"
+const ITEMS = 'emojis?|hashtags?|jargon|bullet points?|bullets?|lists?|tables?|code|examples?|headings?|markdown|links?|quotes?|statistics|citations?|sources?';
+const EXCLUDED_ITEM = new RegExp(`\\b(?:do not|don't|never|avoid|without|no)\\s+(?:using\\s+|use\\s+|including\\s+|include\\s+|adding\\s+|add\\s+|mentioning\\s+|mention\\s+|any\\s+)?(${ITEMS})\\b`, 'i');
+const REQUIRED_ITEM = new RegExp(`\\b(?:use|include|add|with|cite|mention)\\s+(?:some\\s+|a few\\s+|a\\s+|an\\s+|\\d+\\s+|relevant\\s+)?(${ITEMS})\\b`, 'i');
+const WORD_LIMIT = /\b(\d+)\s*words?\b/i;
+
+const FIXES: Partial<Record<LintRuleId, { prepend?: string; append?: string }>> = {
+  task: { prepend: 'Task: {{task}}' },
+  audience: { append: 'Audience: {{audience}}' },
+  format: { append: 'Format the answer as {{output_format:bullet points|numbered steps|a table|short paragraphs}}.' },
+  length: { append: 'Keep it under {{word_count:number=300}} words.' },
+  examples: { append: 'Here is an example of what a good answer looks like:\n{{example:long}}' }
+};
+
+// Sentences and list items, as they appear in the text so fixes can find them again
+const splitSentences = (text: string) => text
+  .split(/\n+/)
+  .map(line => line.replace(/^\s*(?:[-*•]|\d+[.)])\s+/, ''))
+  .flatMap(line => line.split(/(?<=[.!?])\s+/))
+  .map(sentence => sentence.trim())
+  .filter(sentence => /[A-Za-z]/.test(sentence));
+
+const getWords = (text: string): string[] => text.replace(/\{\{[^}]*\}\}/g, ' ').match(/[A-Za-z]+(?:'[A-Za-z]+)?/g) || [];
+
+const countSyllables = (word: string) => {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (letters.length <= 3) return 1;
+  const trimmed = letters.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').replace(/^y/, '');
+  return Math.max(1, trimmed.match(/[aeiouy]{1,2}/g)?.length ?? 0);
+};
+
+// Flesch-Kincaid grade level: roughly the years of schooling needed to follow the text
+export const getReadingGrade = (text: string) => {
+  const sentences = splitSentences(text).filter(sentence => getWords(sentence).length);
+  const words = getWords(text);
+  if (!sentences.length || !words.length) return 0;
+
+  const syllables = words.reduce((total, word) => total + countSyllables(word), 0);
+  const grade = 0.39 * (words.length / sentences.length) + 11.8 * (syllables / words.length) - 15.59;
+  return Math.max(0, Math.round(grade * 10) / 10);
+};
+
+const tidyText = (text: string) => text
+  .replace(/[ \t]{2,}/g, ' ')
+  .replace(/^[ \t]+$/gm, '')
+  .replace(/\n{3,}/g, '\n\n')
+  .trim();
+
+const addLine = (text: string, { prepend, append }: { prepend?: string; append?: string }) =>
+  [prepend, text.trim(), append].filter(Boolean).join('\n\n');
+
+const isTaskSentence = (sentence: string) => {
+  if (TASK_LABEL.test(sentence) || /\?$/.test(sentence)) return true;
+  const withoutLeadIn = sentence.replace(/^(?:now|first|then|next|finally)[,\s]+/i, '').replace(REQUEST_LEAD_IN, '');
+  const firstWord = withoutLeadIn.split(/\s+/)[0]?.toLowerCase().replace(/[^a-z]/g, '');
+  return TASK_VERBS.has(firstWord) || withoutLeadIn !== sentence;
+};
+
+// The first pair of sentences that contradict each other, the earlier one first
+const findConflict = (sentences: string[]): [string, string] | null => {
+  for (const [a, b] of OPPOSITES) {
+    const first = sentences.find(sentence => a.test(sentence) && !b.test(sentence));
+    const second = sentences.find(sentence => b.test(sentence) && !a.test(sentence));
+    if (first && second) {
+      return sentences.indexOf(first) < sentences.indexOf(second) ? [first, second] : [second, first];
+    }
+  }
+
+  const singular = (item: string) => item.toLowerCase().replace(/s$/, '');
+  for (const [index, sentence] of sentences.entries()) {
+    const excluded = sentence.match(EXCLUDED_ITEM)?.[1];
+    const limit = sentence.match(WORD_LIMIT)?.[1];
+    const other = sentences.find((candidate, otherIndex) => {
+      if (otherIndex === index) return false;
+      const required = !EXCLUDED_ITEM.test(candidate) && candidate.match(REQUIRED_ITEM)?.[1];
+      if (excluded && required && singular(required) === singular(excluded)) return true;
+      const otherLimit = candidate.match(WORD_LIMIT)?.[1];
+      return otherIndex > index && !!limit && !!otherLimit && otherLimit !== limit;
+    });
+    if (other) {
+      return sentences.indexOf(other) < index ? [other, sentence] : [sentence, other];
+    }
+  }
+
+  return null;
+};
+
+// Long sentences broken at semicolons and at ", but" / ", so"
+const splitLongSentences = (text: string) => splitSentences(text)
+  .filter(sentence => getWords(sentence).length > 25)
+  .reduce((result, sentence) => {
+    const split = sentence
+      .replace(/;\s+(\w)/g, (_, letter: string) => `. ${letter.toUpperCase()}`)
+      .replace(/,\s+(but|so)\s+/gi, (_, joiner: string) => `. ${joiner.charAt(0).toUpperCase()}${joiner.slice(1)} `);
+    return result.replace(sentence, split);
+  }, text);
+
+const finding = (
+  rule: LintRuleId,
+  passed: boolean,
+  extra: Partial<Omit<LintFinding, 'rule' | 'passed' | 'weight'>> = {}
+): LintFinding => ({
+  rule,
+  passed,
+  weight: WEIGHTS[rule],
+  points: passed ? WEIGHTS[rule] : 0,
+  excerpts: [],
+  ...extra
+});
+
+const checkPresence = (rule: LintRuleId, text: string, passed: boolean) =>
+  finding(rule, passed, passed || !FIXES[rule] ? {} : { fix: addLine(text, FIXES[rule]) });
+
+export const lintPrompt = (text: string): PromptLintResult => {
+  const sentences = splitSentences(text);
+
+  const unclear = sentences.filter(sentence => LEADING_PRONOUN.test(sentence));
+  const conflict = findConflict(sentences);
+  const grade = getReadingGrade(text);
+  // Too little text to judge, or plain enough for a general reader
+  const readable = getWords(text).length < 10 || grade <= 12;
+  const resplit = readable ? text : splitLongSentences(text);
+
+  const findings = [
+    checkPresence('task', text, sentences.some(isTaskSentence)),
+    checkPresence('audience', text, AUDIENCE_PATTERN.test(text)),
+    checkPresence('format', text, FORMAT_PATTERN.test(text)),
+    checkPresence('length', text, LENGTH_PATTERNS.some(pattern => pattern.test(text))),
+    checkPresence('examples', text, EXAMPLE_PATTERN.test(text)),
+    finding('pronouns', !unclear.length, {
+      // Each unclear sentence costs half the rule's points
+      points: Math.max(0, WEIGHTS.pronouns - unclear.length * (WEIGHTS.pronouns / 2)),
+      excerpts: unclear.slice(0, 3)
+    }),
+    finding('conflicts', !conflict, conflict ? {
+      excerpts: conflict,
+      // Keep the first instruction and drop the one that contradicts it
+      fix: tidyText(text.replace(conflict[1], ''))
+    } : {}),
+    finding('readability', readable, {
+      grade,
+      // Half the points up to grade 16
+      points: readable ? WEIGHTS.readability : grade <= 16 ? WEIGHTS.readability / 2 : 0,
+      fix: resplit !== text ? resplit : undefined
+    })
+  ];
+
+  return {
+    score: Math.round(findings.reduce((total, item) => total + item.points, 0)),
+    findings
+  };
+};
+
+export const getLintRating = (score: number): LintRating =>
+  score >= 80 ? 'good' : score >= 50 ? 'fair' : 'poor';
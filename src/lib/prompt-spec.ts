@@ -0,0 +1,153 @@
+// Structured view of what the user told us in the Q&A conversation.
+// Every tier builds its prompt from this spec instead of the raw messages.
+
+export type PromptSpecField =
+  | 'topic'
+  | 'goal'
+  | 'tone'
+  | 'audience'
+  | 'challenges'
+  | 'valueCriteria'
+  | 'angles'
+  | 'assumptions';
+
+export interface PromptSpec {
+  topic: string;
+  goal: string;
+  tone: string;
+  audience: string;
+  challenges: string;
+  valueCriteria: string;
+  angles: string;
+  assumptions: string;
+  // Free-form answers that weren't replies to a specific question
+  notes: string[];
+}
+
+// An answer paired with the spec field its question was asking about
+export interface SpecAnswer {
+  field?: PromptSpecField;
+  text: string;
+}
+
+export const PROMPT_SPEC_FIELDS: { key: PromptSpecField; label: string; placeholder: string }[] = [
+  { key: 'topic', label: 'Topic', placeholder: 'What the prompt is about' },
+  { key: 'goal', label: 'Goal', placeholder: 'What you want the AI to do' },
+  { key: 'tone', label: 'Tone & style', placeholder: 'e.g. friendly, formal, playful' },
+  { key: 'audience', label: 'Audience', placeholder: 'Who the output is for' },
+  { key: 'challenges', label: 'Challenges', placeholder: 'What has gone wrong before' },
+  { key: 'valueCriteria', label: 'What makes it valuable', placeholder: 'How you will judge the result' },
+  { key: 'angles', label: 'Unconventional angles', placeholder: 'Directions worth exploring' },
+  { key: 'assumptions', label: 'Assumptions to challenge', placeholder: 'Beliefs the prompt should question' }
+];
+
+export const createEmptySpec = (): PromptSpec => ({
+  topic: '',
+  goal: '',
+  tone: '',
+  audience: '',
+  challenges: '',
+  valueCriteria: '',
+  angles: '',
+  assumptions: '',
+  notes: []
+});
+
+const NON_ANSWERS = /^(no|nope|none|nothing|n\/a|na|not sure|not really|idk|i don'?t know|skip|pass|-)$/i;
+
+// Lead-in phrases people type before the actual answer
+const LEAD_INS: Partial<Record<PromptSpecField, RegExp[]>> = {
+  topic: [
+    /^(i'?m|i am) (interested in|curious about|thinking about)\s+/i,
+    /^i want to (learn|know|write|talk) about\s+/i,
+    /^(something )?about\s+/i
+  ],
+  goal: [
+    /^(i'?m|i am) (trying|looking|hoping|wanting|aiming) to\s+/i,
+    /^(i want|i'?d like|i would like|i need) to\s+/i,
+    /^(the )?(main )?(goal|thing) is to\s+/i
+  ],
+  tone: [
+    /^(i'?d like|i would like|i want) (it|the tone) to (be|sound)\s+/i,
+    /^(it )?should (be|sound|feel)\s+/i,
+    /^(make|keep) it\s+/i,
+    /^(something|kind of|sort of)\s+/i
+  ],
+  audience: [
+    /^(the )?(target )?audience (is|would be|will be)\s+/i,
+    /^(my|our) audience (is|are)\s+/i,
+    /^(it'?s|this is|mainly|mostly)\s+/i,
+    /^(for|aimed at|targeting|targeted at|written for)\s+/i
+  ]
+};
+
+const TRAILING_LABELS: Partial<Record<PromptSpecField, RegExp>> = {
+  tone: /\s+(tone|style|vibe)$/i
+};
+
+// Audience mentions that show up in other answers ("a guide for beginners")
+const AUDIENCE_MENTION = /\b(?:for|aimed at|targeting)\s+((?:[a-z-]+\s){0,3}(?:beginners|developers|devs|students|kids|children|teens|teenagers|managers|executives|engineers|designers|marketers|parents|teachers|customers|clients|readers|experts|professionals|founders|investors))\b/i;
+
+// Normalise a single answer for the field its question was asking about
+export const parseAnswer = (field: PromptSpecField, text: string) => {
+  let value = text.replace(/\s+/g, ' ').trim().replace(/[.!]+$/, '');
+
+  if (NON_ANSWERS.test(value)) {
+    return '';
+  }
+
+  for (const leadIn of LEAD_INS[field] || []) {
+    value = value.replace(leadIn, '');
+  }
+
+  const trailing = TRAILING_LABELS[field];
+  if (trailing) {
+    value = value.replace(trailing, '');
+  }
+
+  return value.trim();
+};
+
+export const buildPromptSpec = (answers: SpecAnswer[]): PromptSpec => {
+  const spec = createEmptySpec();
+
+  for (const { field, text } of answers) {
+    if (!field) {
+      const note = text.trim();
+      if (note && !NON_ANSWERS.test(note)) {
+        spec.notes.push(note);
+      }
+      continue;
+    }
+
+    const value = parseAnswer(field, text);
+    if (value) {
+      // A second answer for the same field adds to the first rather than replacing it
+      spec[field] = spec[field] ? `${spec[field]}; ${value}` : value;
+    }
+  }
+
+  if (!spec.audience) {
+    const mention = answers.map(answer => answer.text.match(AUDIENCE_MENTION)).find(Boolean);
+    if (mention) {
+      spec.audience = mention[1];
+    }
+  }
+
+  return spec;
+};
+
+// Order the standalone chat asks its questions in, for callers that only have the raw answers
+const POSITIONAL_FIELDS: PromptSpecField[] = ['topic', 'goal', 'tone', 'audience', 'challenges', 'valueCriteria', 'angles', 'assumptions'];
+
+export const specFromUserMessages = (userMessages: string[]) =>
+  buildPromptSpec(userMessages.map((text, index) => ({ field: POSITIONAL_FIELDS[index], text })));
+
+// Apply the user's manual edits on top of the parsed spec
+export const mergeSpec = (spec: PromptSpec, overrides: Partial<PromptSpec>): PromptSpec => ({
+  ...spec,
+  ...overrides
+});
+
+// Subject line the templates lead with
+export const getSpecSubject = (spec: PromptSpec) => spec.topic || spec.goal || 'your topic';
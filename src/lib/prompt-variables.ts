@@ -0,0 +1,112 @@
+import { z } from 'zod';
+
+// Fill-in placeholders in a finished prompt, e.g. {{product_name}}. An optional type or list of
+// options and a default can follow the name:
+//   {{word_count:number=500}}  {{launch_date:date}}  {{tone:formal|casual|playful}}  {{audience=developers}}
+// Without a type, one is guessed from the name (word_count is a number, website_url a URL).
+
+export type PromptVariableType = 'text' | 'long' | 'number' | 'url' | 'email' | 'date' | 'select';
+
+export interface PromptVariable {
+  name: string;
+  // The name as words, e.g. "Product name"
+  label: string;
+  type: PromptVariableType;
+  defaultValue?: string;
+  // Choices for 'select'
+  options?: string[];
+}
+
+export type PromptVariableError = 'required' | 'number' | 'url' | 'email' | 'date' | 'option';
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][\w-]*)\s*(?::\s*([^}=]*?))?\s*(?:=\s*([^}]*?))?\s*\}\}/g;
+
+const TYPE_NAMES: PromptVariableType[] = ['text', 'long', 'number', 'url', 'email', 'date'];
+
+// Guesses for placeholders without a type, checked in order against the name
+const NAME_HINTS: { pattern: RegExp; type: PromptVariableType }[] = [
+  { pattern: /(^|_)(count|number|num|words|length|limit|max|min|age|year|price|amount|budget|quantity|days|hours|minutes)$/i, type: 'number' },
+  { pattern: /(^|_)(url|link|website)$/i, type: 'url' },
+  { pattern: /(^|_)email$/i, type: 'email' },
+  { pattern: /(^|_)(date|deadline)$/i, type: 'date' },
+  { pattern: /(^|_)(description|context|notes|details|background|examples?)$/i, type: 'long' }
+];
+
+const toLabel = (name: string) => {
+  const words = name.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/[_-]+/g, ' ').trim().toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const parsePlaceholder = (name: string, annotation = '', defaultValue?: string): PromptVariable => {
+  const type = annotation.toLowerCase();
+  const options = annotation.includes('|')
+    ? annotation.split('|').map(option => option.trim()).filter(Boolean)
+    : undefined;
+
+  return {
+    name,
+    label: toLabel(name),
+    type: options
+      ? 'select'
+      : TYPE_NAMES.includes(type as PromptVariableType)
+        ? type as PromptVariableType
+        : NAME_HINTS.find(hint => hint.pattern.test(name))?.type ?? 'text',
+    // A list's first option is its default unless another is given
+    defaultValue: defaultValue || options?.[0],
+    options
+  };
+};
+
+// Every placeholder in the text, once each in order of first use. A later occurrence can add the
+// type or default the first one left out.
+export const findPromptVariables = (text: string): PromptVariable[] => {
+  const variables = new Map<string, PromptVariable>();
+
+  for (const [, name, annotation, defaultValue] of text.matchAll(PLACEHOLDER)) {
+    const variable = parsePlaceholder(name, annotation, defaultValue);
+    const existing = variables.get(name);
+    variables.set(name, existing ? {
+      ...existing,
+      ...(existing.type === 'text' && annotation ? { type: variable.type, options: variable.options } : {}),
+      defaultValue: existing.defaultValue ?? variable.defaultValue
+    } : variable);
+  }
+
+  return [...variables.values()];
+};
+
+export const hasPromptVariables = (text: string) => findPromptVariables(text).length > 0;
+
+// Put the values in place of their placeholders; placeholders without a value stay as they are
+export const fillPromptVariables = (text: string, values: Record<string, string | undefined>) =>
+  text.replace(PLACEHOLDER, (placeholder, name: string) => values[name]?.trim() || placeholder);
+
+export const getDefaultValues = (variables: PromptVariable[]) =>
+  Object.fromEntries(variables.map(variable => [variable.name, variable.defaultValue ?? '']));
+
+// Form validation for the variables; the caller supplies the wording of each error
+export const buildVariablesSchema = (
+  variables: PromptVariable[],
+  message: (error: PromptVariableError) => string
+) => {
+  const required = z.string().trim().min(1, message('required'));
+
+  const fieldSchema = (variable: PromptVariable) => {
+    switch (variable.type) {
+      case 'number':
+        return required.refine(value => Number.isFinite(Number(value)), message('number'));
+      case 'url':
+        return required.url(message('url'));
+      case 'email':
+        return required.email(message('email'));
+      case 'date':
+        return required.regex(/^\d{4}-\d{2}-\d{2}$/, message('date'));
+      case 'select':
+        return required.refine(value => variable.options?.includes(value), message('option'));
+      default:
+        return required;
+    }
+  };
+
+  return z.object(Object.fromEntries(variables.map(variable => [variable.name, fieldSchema(variable)])));
+};
@@ -0,0 +1,93 @@
+import { pickNextQuestion } from '@/lib/llm';
+import type { FlowDefinition, FlowQuestion } from '@/lib/flows';
+import type { PromptSpec, PromptSpecField } from '@/lib/prompt-spec';
+
+// Picks which question fills each question slot of a flow. The flow still decides when a
+// question is due (its tiers' response counts are the budget); the planner only decides which
+// one, from the questions that haven't been asked and whose field is still unknown.
+
+export interface QuestionPlanInput {
+  flow: FlowDefinition;
+  // User responses so far, including the one just sent
+  responseCount: number;
+  spec: PromptSpec;
+  // Fields the conversation has already asked about, answered or skipped
+  askedFields: PromptSpecField[];
+  signal?: AbortSignal;
+}
+
+// How much a prompt gains from knowing each field, all else being equal
+const FIELD_WEIGHTS: Record<PromptSpecField, number> = {
+  topic: 6,
+  goal: 5,
+  audience: 4,
+  tone: 3,
+  challenges: 3,
+  valueCriteria: 2,
+  angles: 2,
+  assumptions: 1
+};
+
+// Words in the answers so far that make a question more (or less) worth asking
+const ANSWER_SIGNALS: { field: PromptSpecField; pattern: RegExp; weight: number }[] = [
+  // Something has gone wrong before, so there's likely a story worth hearing
+  { field: 'challenges', pattern: /\b(struggl\w*|problems?|hard|difficult|stuck|fail\w*|frustrat\w*|tried)\b/i, weight: 2 },
+  // Style words already say a good deal about the tone
+  { field: 'tone', pattern: /\b(formal|casual|funny|friendly|professional|playful|serious|witty|simple)\b/i, weight: -2 },
+  // Asking for something new invites unconventional angles
+  { field: 'angles', pattern: /\b(creative|unique|different|original|novel|unusual|fresh)\b/i, weight: 2 },
+  // The user has a bar in mind for the result
+  { field: 'valueCriteria', pattern: /\b(best|ideal|perfect|effective|quality|measur\w*|results?)\b/i, weight: 1 },
+  { field: 'assumptions', pattern: /\b(always|never|everyone|myths?|assum\w*|conventional)\b/i, weight: 2 }
+];
+
+// Questions overdue from earlier tiers come first, then the current tier's, then later ones
+const TIER_BONUS = { earlier: 2, current: 1, later: 0 };
+
+const getAnswerText = (spec: PromptSpec) =>
+  [...Object.values(spec).filter((value): value is string => typeof value === 'string'), ...spec.notes].join(' ');
+
+// Unasked questions about unknown fields, most informative first. Questions from later tiers
+// are only considered once the current tier has nothing left to ask.
+export const getCandidateQuestions = ({ flow, responseCount, spec, askedFields }: QuestionPlanInput) => {
+  const currentIndex = flow.tiers.findIndex(tier => responseCount < tier.responses);
+  if (currentIndex === -1) return [];
+
+  const answerText = getAnswerText(spec);
+  const seenFields = new Set(askedFields);
+  const candidates = flow.tiers.flatMap((tier, tierIndex) => tier.questions
+    .filter(question => !spec[question.field].trim() && !seenFields.has(question.field))
+    .map(question => {
+      const position = tierIndex < currentIndex ? 'earlier' : tierIndex === currentIndex ? 'current' : 'later';
+      const signal = ANSWER_SIGNALS
+        .filter(({ field, pattern }) => field === question.field && pattern.test(answerText))
+        .reduce((total, { weight }) => total + weight, 0);
+
+      return { question, position, score: FIELD_WEIGHTS[question.field] + TIER_BONUS[position] + signal };
+    }));
+
+  const due = candidates.filter(candidate => candidate.position !== 'later');
+  // Stable sort, so ties keep the flow's own order
+  return (due.length ? due : candidates)
+    .sort((a, b) => b.score - a.score)
+    .map(candidate => candidate.question);
+};
+
+// The next question to ask, or null when every field the flow asks about is already covered.
+// A configured LLM provider chooses among the candidates; offline, or if it fails, the
+// heuristic ranking decides.
+export const planNextQuestion = async (input: QuestionPlanInput): Promise<FlowQuestion | null> => {
+  const candidates = getCandidateQuestions(input);
+  if (candidates.length <= 1) return candidates[0] ?? null;
+
+  const { flow, responseCount, spec, signal } = input;
+  const tier = flow.tiers.find(item => responseCount < item.responses) || flow.tiers[flow.tiers.length - 1];
+  const index = await pickNextQuestion({
+    spec,
+    level: tier.level,
+    planQuestions: candidates.map(question => question.text),
+    signal
+  });
+
+  return candidates[index ?? 0];
+};
@@ -0,0 +1,121 @@
+import { ApiError, apiFetch } from '@/lib/api';
+
+// Daily usage as reported by the API server
+export interface Quota {
+  limit: number;
+  used: number;
+  remaining: number;
+  byMode: Record<string, number>;
+  modeLimits: Record<string, number>;
+  // ISO time the quota day rolls over
+  resetsAt: string;
+}
+
+// Fired on window with the latest quota whenever it is fetched or consumed
+export const QUOTA_CHANGED_EVENT = 'quota-changed';
+
+// Used while the server can't be reached; matches the server's default limit and UTC midnight reset
+const LOCAL_DAILY_LIMIT = 3;
+const LOCAL_QUOTA_KEY = 'localQuota';
+
+export class QuotaExceededError extends Error {
+  quota: Quota;
+
+  constructor(message: string, quota: Quota) {
+    super(message);
+    this.name = 'QuotaExceededError';
+    this.quota = quota;
+  }
+}
+
+const notifyChange = (quota: Quota) => {
+  window.dispatchEvent(new CustomEvent<Quota>(QUOTA_CHANGED_EVENT, { detail: quota }));
+};
+
+export const fetchQuota = async () => {
+  const quota = await apiFetch<Quota>('/api/quota');
+  notifyChange(quota);
+  return quota;
+};
+
+// Count one use of a mode against today's quota
+export const consumeQuota = async (mode: string) => {
+  try {
+    const quota = await apiFetch<Quota>('/api/quota/consume', {
+      method: 'POST',
+      body: JSON.stringify({ mode })
+    });
+    notifyChange(quota);
+    return quota;
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 429) {
+      const quota = error.body.quota as Quota;
+      notifyChange(quota);
+      throw new QuotaExceededError(error.message, quota);
+    }
+    throw error;
+  }
+};
+
+interface LocalUsage {
+  // UTC day, "YYYY-MM-DD"
+  day: string;
+  byMode: Record<string, number>;
+}
+
+const readLocalUsage = (): LocalUsage => {
+  const day = new Date().toISOString().slice(0, 10);
+  try {
+    const stored = JSON.parse(localStorage.getItem(LOCAL_QUOTA_KEY) || 'null') as LocalUsage | null;
+    if (stored?.day === day && stored.byMode) return stored;
+  } catch {
+    // Start the day over if the stored counts are unreadable
+  }
+  return { day, byMode: {} };
+};
+
+const toLocalQuota = ({ day, byMode }: LocalUsage): Quota => {
+  const used = Object.values(byMode).reduce((sum, count) => sum + count, 0);
+  const resetsAt = new Date(`${day}T00:00:00Z`);
+  resetsAt.setUTCDate(resetsAt.getUTCDate() + 1);
+
+  return {
+    limit: LOCAL_DAILY_LIMIT,
+    used,
+    remaining: Math.max(LOCAL_DAILY_LIMIT - used, 0),
+    byMode,
+    modeLimits: {},
+    resetsAt: resetsAt.toISOString()
+  };
+};
+
+// The server couldn't be reached or failed; other errors are answers about the request itself
+export const isQuotaServiceDown = (error: unknown) => !(error instanceof ApiError) || error.status >= 500;
+
+// Today's usage counted in this browser, for when the server is unavailable
+export const getLocalQuota = () => {
+  const quota = toLocalQuota(readLocalUsage());
+  notifyChange(quota);
+  return quota;
+};
+
+// Count one use in this browser, throwing QuotaExceededError once the local limit is reached
+export const consumeLocalQuota = (mode: string) => {
+  const usage = readLocalUsage();
+  const quota = toLocalQuota(usage);
+  if (quota.remaining === 0) {
+    notifyChange(quota);
+    throw new QuotaExceededError('Daily limit reached', quota);
+  }
+
+  usage.byMode[mode] = (usage.byMode[mode] || 0) + 1;
+  localStorage.setItem(LOCAL_QUOTA_KEY, JSON.stringify(usage));
+  const next = toLocalQuota(usage);
+  notifyChange(next);
+  return next;
+};
+
+// Whether a mode can still be used, taking per-mode caps into account
+export const canUseMode = (quota: Quota, mode: string) =>
+  quota.remaining > 0 &&
+  (quota.modeLimits[mode] === undefined || (quota.byMode[mode] || 0) < quota.modeLimits[mode]);
@@ -0,0 +1,173 @@
+// Offline, rule-based cleanup of pasted notes or transcripts into a structured prompt
+
+export interface RefinedPrompt {
+  // What the model should do, phrased as instructions
+  tasks: string[];
+  // Background the model needs
+  context: string[];
+  // Requirements the answer has to meet
+  constraints: string[];
+  // The sections above assembled into one prompt
+  text: string;
+  fillerRemoved: number;
+  duplicatesRemoved: number;
+}
+
+// Timestamps and generic speaker labels from meeting transcripts: "[00:12:31]", "Speaker 2:"
+const TRANSCRIPT_PREFIX = /^\s*(?:\[?\(?\d{1,2}:\d{2}(?::\d{2})?\)?\]?\s*[-–]?\s*)?(?:speaker\s*\d+\s*:\s+)?/i;
+
+// Named speaker labels ("Sam:", "Priya K.:"); only stripped when several lines use them or the
+// line goes on like speech, so that notes like "Deadline: Friday" keep their label
+const SPEAKER_LABEL = /^[A-Z][\w.]*(?: [A-Z][\w.]*)?:\s+/;
+const SPOKEN_OPENER = /^[A-Z][\w.]*(?: [A-Z][\w.]*)?:\s+(?:um+|uh+|erm+|er|ah+|hmm+|so|okay|ok|well|alright|yeah|anyway)\b/i;
+
+const BULLET_PREFIX = /^\s*(?:[-*•]|\d+[.)])\s+/;
+
+// Filler that carries no meaning anywhere in a sentence
+const FILLER_PATTERNS = [
+  /\b(?:um+|uh+|erm+|er|ah+|hmm+|mm+)\b,?/gi,
+  /\b(?:you know|i mean|you see|sort of|kind of)\b,?/gi,
+  /\b(?:basically|literally|actually|honestly|totally|really|just)\b,?/gi,
+  /,\s*like,/gi,
+  /,?\s*\b(?:right|okay|ok)\?/gi
+];
+
+// Conversational openers in front of the actual point
+const LEAD_IN = /^(?:(?:so|okay|ok|well|alright|right|yeah|yes|anyway|anyways|and|but)\b[\s,.]*)+/i;
+
+// "I need the summary": asking for a thing rather than an action, which becomes "Provide the summary"
+const WANT_LEAD_IN = /^(?:i|we)(?:'d| would)? (?:need|want|like) (?=(?:a|an|the|some|my|our)\b)/i;
+
+// Ways people ask for something that should become a plain instruction
+export const REQUEST_LEAD_IN = /^(?:please\s+|(?:can|could|would|will) you(?: please)?\s+|i(?:'d| would) like you to\s+|i (?:need|want) you to\s+|(?:i|we) (?:need|want) (?:to|a way to)\s+|(?:your|the) (?:task|job|goal) is to\s+|help me(?: to)?\s+|let's\s+)/i;
+
+export const IMPERATIVE_VERBS = new Set([
+  'analyze', 'analyse', 'brainstorm', 'build', 'compare', 'compose', 'convert', 'create', 'critique',
+  'describe', 'design', 'develop', 'draft', 'edit', 'evaluate', 'explain', 'extract', 'find', 'fix',
+  'generate', 'give', 'identify', 'list', 'make', 'outline', 'plan', 'prepare', 'produce', 'propose',
+  'recommend', 'rewrite', 'review', 'suggest', 'summarize', 'summarise', 'translate', 'turn', 'write'
+]);
+
+// Requirements on the answer rather than the task itself
+const CONSTRAINT_PATTERN = /\b(?:must|should(?:n't| not)?|don't|do not|never|always|avoid|only|without|make sure|ensure|at least|at most|no more than|under \d+|fewer than|less than|limit|keep it|max(?:imum)?|min(?:imum)?|deadline|format(?:ted)? as|in (?:bullet points|a table|markdown|json)|\d+\s*(?:words|characters|sentences|paragraphs|bullets|pages))\b/i;
+
+const tidySentence = (sentence: string) => {
+  const trimmed = sentence
+    .replace(/\s{2,}/g, ' ')
+    .replace(/\s+([,.!?;:])/g, '$1')
+    .replace(/^[,;:\s]+|[,;\s]+$/g, '')
+    .trim();
+  if (!trimmed) return '';
+
+  const capitalized = trimmed.charAt(0).toUpperCase() + trimmed.slice(1);
+  return /[.!?]$/.test(capitalized) ? capitalized : `${capitalized}.`;
+};
+
+// Split notes into sentences, dropping transcript labels and list markers
+const splitSentences = (input: string) => {
+  const lines = input.split(/\n+/).map(line => line.replace(TRANSCRIPT_PREFIX, ''));
+  const isTranscript = lines.filter(line => SPEAKER_LABEL.test(line)).length >= 2;
+
+  return lines
+    .map(line => (isTranscript || SPOKEN_OPENER.test(line) ? line.replace(SPEAKER_LABEL, '') : line).replace(BULLET_PREFIX, ''))
+    .flatMap(line => line.split(/(?<=[.!?])\s+/))
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+};
+
+const stripFiller = (sentence: string) => {
+  let count = 0;
+  let result = sentence;
+
+  FILLER_PATTERNS.forEach(pattern => {
+    result = result.replace(pattern, match => {
+      count += match.trim().split(/\s+/).length;
+      return match.startsWith(',') ? ',' : '';
+    });
+  });
+
+  // Filler at the start can leave a stray comma in front of the lead-in
+  result = result.replace(/^[\s,;:]+/, '').replace(LEAD_IN, match => {
+    count += match.trim().split(/\s+/).length;
+    return '';
+  });
+
+  return { text: result, count };
+};
+
+const STOP_WORDS = new Set(['the', 'and', 'for', 'that', 'this', 'with', 'are', 'was', 'its', 'it\'s']);
+
+const getWordSet = (sentence: string) =>
+  new Set(sentence.toLowerCase().replace(/[^\w\s']/g, '').split(/\s+/).filter(word => word.length > 2 && !STOP_WORDS.has(word)));
+
+// Repeated instructions usually come back with slightly different wording
+const isNearDuplicate = (a: Set<string>, b: Set<string>) => {
+  if (!a.size || !b.size) return false;
+  const shared = [...a].filter(word => b.has(word)).length;
+  return shared / new Set([...a, ...b]).size >= 0.75;
+};
+
+// Turn "Can you write a post" into "Write a post"; returns null if the sentence isn't a request
+const toImperative = (sentence: string) => {
+  const withoutLeadIn = sentence.replace(REQUEST_LEAD_IN, '').replace(WANT_LEAD_IN, 'Provide ');
+  const firstWord = withoutLeadIn.split(/\s+/)[0]?.toLowerCase().replace(/[^a-z]/g, '');
+  if (!IMPERATIVE_VERBS.has(firstWord) && withoutLeadIn === sentence) return null;
+
+  // A request that survived as a question reads better as an instruction
+  return tidySentence(withoutLeadIn.replace(/\?$/, ''));
+};
+
+const formatSection = (label: string, lines: string[]) =>
+  lines.length ? `${label}:\n${lines.map(line => `- ${line}`).join('\n')}` : '';
+
+export const refineNotes = (input: string): RefinedPrompt => {
+  const tasks: string[] = [];
+  const context: string[] = [];
+  const constraints: string[] = [];
+  const seen: Set<string>[] = [];
+  let fillerRemoved = 0;
+  let duplicatesRemoved = 0;
+
+  splitSentences(input).forEach(raw => {
+    const { text, count } = stripFiller(raw);
+    fillerRemoved += count;
+
+    const sentence = tidySentence(text);
+    if (sentence.replace(/[^\w]/g, '').length < 3) return;
+
+    // Compare requests in their instruction form so rephrased repeats still match
+    const instruction = toImperative(sentence);
+    const words = getWordSet(instruction || sentence);
+    if (seen.some(previous => isNearDuplicate(previous, words))) {
+      duplicatesRemoved++;
+      return;
+    }
+    seen.push(words);
+
+    const isConstraint = CONSTRAINT_PATTERN.test(sentence);
+
+    // The first request is the task even if it carries a requirement; later ones with
+    // requirements are constraints on that task
+    if (instruction && (!tasks.length || !isConstraint)) {
+      tasks.push(instruction);
+    } else if (isConstraint) {
+      constraints.push(instruction || sentence);
+    } else {
+      context.push(sentence);
+    }
+  });
+
+  // Notes without a clear request still need something for the model to do
+  if (!tasks.length && (context.length || constraints.length)) {
+    tasks.push(context.length
+      ? 'Using the context below, work out what is being asked and produce it.'
+      : 'Produce what is being asked for, meeting the constraints below.');
+  }
+
+  const taskSection = tasks.length === 1 ? `Task:\n${tasks[0]}` : formatSection('Task', tasks);
+  const text = [taskSection, formatSection('Context', context), formatSection('Constraints', constraints)]
+    .filter(Boolean)
+    .join('\n\n');
+
+  return { tasks, context, constraints, text, fillerRemoved, duplicatesRemoved };
+};
@@ -0,0 +1,51 @@
+import type { PromptLevel } from '@/lib/llm';
+import type { ChatBranch, ChatBranchState, ChatMessage } from './types';
+
+// The conversation up to an earlier answer, with that answer replaced. The flow picks up
+// from there as if the new text had been sent in the first place.
+export const forkConversation = (
+  messages: ChatMessage[],
+  messageId: string,
+  text: string
+): Omit<ChatBranchState, 'specOverrides'> | null => {
+  const index = messages.findIndex(msg => msg.id === messageId);
+  if (index === -1 || messages[index].sender !== 'user') return null;
+
+  const before = messages.slice(0, index);
+  const edited: ChatMessage = {
+    ...messages[index],
+    id: `${Date.now()}-edit`,
+    text,
+    timestamp: new Date(),
+    skipped: undefined
+  };
+  // The latest prompt generated before the edit is still this branch's current attachment
+  const lastAttachment = [...before].reverse().find(msg => msg.sender === 'attachment' && msg.promptLevel);
+
+  return {
+    messages: [...before, edited],
+    userResponseCount: before.filter(msg => msg.sender === 'user').length + 1,
+    currentPromptTier: lastAttachment?.promptLevel ?? 'none',
+    currentAttachment: lastAttachment?.promptLevel
+      ? { text: lastAttachment.text, level: lastAttachment.promptLevel, refreshCount: 0 }
+      : null,
+    refreshCount: 0
+  };
+};
+
+// Replace the stored copy of a branch, or add it if it isn't stored yet
+export const upsertBranch = (branches: ChatBranch[], branch: ChatBranch) =>
+  branches.some(item => item.id === branch.id)
+    ? branches.map(item => (item.id === branch.id ? branch : item))
+    : [...branches, branch];
+
+// The last prompt a branch produced for each level, for comparing branches side by side
+export const getBranchPrompts = (branch: ChatBranch) => {
+  const prompts: Partial<Record<PromptLevel, ChatMessage>> = {};
+  branch.messages.forEach(msg => {
+    if (msg.sender === 'attachment' && msg.promptLevel && !msg.isStreaming) {
+      prompts[msg.promptLevel] = msg;
+    }
+  });
+  return prompts;
+};
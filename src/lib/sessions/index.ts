@@ -0,0 +1,42 @@
+import { SESSIONS_STORE, createRecordId, runRequest } from '@/lib/db';
+import type { ChatSession } from './types';
+
+export type {
+  ChatBranch,
+  ChatBranchState,
+  ChatMessage,
+  ChatSession,
+  MessageSender,
+  PromptAttachment
+} from './types';
+export { forkConversation, getBranchPrompts, upsertBranch } from './branches';
+
+// Fired on window whenever a session is saved or deleted
+export const SESSIONS_CHANGED_EVENT = 'sessions-changed';
+
+const notifyChange = () => {
+  window.dispatchEvent(new Event(SESSIONS_CHANGED_EVENT));
+};
+
+export const createSessionId = createRecordId;
+export const createBranchId = createRecordId;
+
+export const getSession = async (id: string) =>
+  (await runRequest(SESSIONS_STORE, 'readonly', store => store.get(id))) as ChatSession | undefined;
+
+// Most recently updated sessions first
+export const listSessions = async (limit?: number) => {
+  const sessions = (await runRequest(SESSIONS_STORE, 'readonly', store => store.getAll())) as ChatSession[];
+  sessions.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  return limit ? sessions.slice(0, limit) : sessions;
+};
+
+export const saveSession = async (session: ChatSession) => {
+  await runRequest(SESSIONS_STORE, 'readwrite', store => store.put(session));
+  notifyChange();
+};
+
+export const deleteSession = async (id: string) => {
+  await runRequest(SESSIONS_STORE, 'readwrite', store => store.delete(id));
+  notifyChange();
+};
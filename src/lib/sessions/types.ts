@@ -0,0 +1,73 @@
+import type { PromptLevel, ProviderId } from '@/lib/llm';
+import type { PromptSpec, PromptSpecField } from '@/lib/prompt-spec';
+
+export type MessageSender = 'user' | 'system' | 'attachment';
+
+export interface ChatMessage {
+  id: string;
+  text: string;
+  sender: MessageSender;
+  timestamp: Date;
+  promptLevel?: PromptLevel;
+  isGenerating?: boolean;
+  // True while text is still streaming into the message
+  isStreaming?: boolean;
+  // The spec field a system question asks about, or that a user answer fills in
+  specField?: PromptSpecField;
+  // A user "answer" that skipped the question instead; it moves the flow on but fills nothing in
+  skipped?: boolean;
+  // Target model an attachment was formatted for
+  targetModelId?: string;
+  // Output language an attachment was rewritten in, and the prompt as first written
+  outputLanguage?: string;
+  sourceText?: string;
+  // Provider that wrote an attachment, and its offline template variant if any
+  source?: ProviderId;
+  templateId?: string;
+}
+
+export interface PromptAttachment {
+  text: string;
+  level: PromptLevel;
+  refreshCount: number;
+}
+
+// The part of a conversation that differs between branches
+export interface ChatBranchState {
+  messages: ChatMessage[];
+  userResponseCount: number;
+  currentPromptTier: 'none' | PromptLevel;
+  currentAttachment: PromptAttachment | null;
+  refreshCount: number;
+  specOverrides: Partial<PromptSpec>;
+}
+
+// One line of a conversation. Editing an earlier answer forks a new branch from that point.
+export interface ChatBranch extends ChatBranchState {
+  id: string;
+  // Branch it was forked from, and the edited answer it starts with
+  parentId?: string;
+  editedMessageId?: string;
+  createdAt: Date;
+}
+
+// Everything ChatUI needs to pick a conversation back up where it was left
+export interface ChatSession {
+  id: string;
+  // Short label for the recent sessions list, taken from the topic
+  title: string;
+  flowId: string;
+  messages: ChatMessage[];
+  userResponseCount: number;
+  currentPromptTier: 'none' | PromptLevel;
+  currentAttachment: PromptAttachment | null;
+  refreshCount: number;
+  specOverrides: Partial<PromptSpec>;
+  // Every branch once an answer has been edited; the fields above hold the active one
+  branches?: ChatBranch[];
+  activeBranchId?: string;
+  // Counted against the quota; a conversation is counted once, when its first prompt is generated
+  quotaCharged?: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
@@ -0,0 +1,26 @@
+import { apiFetch } from '@/lib/api';
+import type { PromptLevel } from '@/lib/llm';
+
+// A prompt published at /p/:shareId, as stored by the API server
+export interface SharedPrompt {
+  id: string;
+  title: string;
+  text: string;
+  level: PromptLevel;
+  targetModelId: string | null;
+  createdAt: string;
+}
+
+export type ShareInput = Pick<SharedPrompt, 'title' | 'text' | 'level'> & { targetModelId?: string | null };
+
+export const createShare = (input: ShareInput) =>
+  apiFetch<SharedPrompt>('/api/shares', {
+    method: 'POST',
+    body: JSON.stringify(input)
+  });
+
+export const fetchShare = (shareId: string) =>
+  apiFetch<SharedPrompt>(`/api/shares/${encodeURIComponent(shareId)}`);
+
+// Absolute link to a shared prompt in this app
+export const getShareUrl = (shareId: string) => `${window.location.origin}/p/${shareId}`;
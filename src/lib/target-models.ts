@@ -0,0 +1,177 @@
+import { z } from 'zod';
+import modelRegistryData from './target-models.json';
+import type { PromptReference } from '@/lib/llm';
+import { getSpecSubject, type PromptSpec } from '@/lib/prompt-spec';
+import { tokenizerSchema } from '@/lib/tokenizer';
+
+const modalitySchema = z.enum(['text', 'image', 'audio', 'video', 'file']);
+
+export const targetModelSchema = z.object({
+  id: z.string().min(1),
+  // Company name shown under the logo
+  provider: z.string().min(1),
+  // Assistant name used when telling the user what a prompt was formatted for
+  label: z.string().min(1),
+  // The provider's flagship chat model, which the numbers below describe
+  model: z.string().min(1),
+  logo: z.string().min(1),
+  // The structure the model responds to best
+  format: z.enum(['xml-tags', 'system-user', 'search', 'markdown', 'plain']),
+  // Whether the model takes separate system instructions; without them the persona goes in the prompt
+  systemPrompt: z.boolean(),
+  // What the model accepts as input
+  modalities: z.array(modalitySchema).min(1),
+  // Tokens of prompt and answer together
+  contextWindow: z.number().int().positive(),
+  // List prices in US dollars per million tokens
+  pricing: z.object({ input: z.number().nonnegative(), output: z.number().nonnegative() }),
+  tokenizer: tokenizerSchema
+});
+
+const modelRegistrySchema = z.object({
+  // Bump when the data changes, so saved prompts and caches can tell which numbers they used
+  version: z.number().int().positive(),
+  updated: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use a YYYY-MM-DD date'),
+  models: z.array(targetModelSchema).min(1).refine(
+    models => new Set(models.map(model => model.id)).size === models.length,
+    'Model ids must be unique'
+  )
+});
+
+export type TargetModel = z.infer<typeof targetModelSchema>;
+export type PromptFormat = TargetModel['format'];
+export type ModelModality = z.infer<typeof modalitySchema>;
+
+// The registry in target-models.json, validated once at load so a bad edit fails loudly. It is
+// bundled, so changes ship with the next build.
+export const MODEL_REGISTRY = modelRegistrySchema.parse(modelRegistryData);
+
+export const TARGET_MODELS: TargetModel[] = MODEL_REGISTRY.models;
+
+export const getTargetModel = (id?: string | null) =>
+  TARGET_MODELS.find(model => model.id === id);
+
+// Template prompts open with a title line ("Deep Dive Prompt for X:") and may carry a
+// "Context:" block; the formatters render both from the spec instead
+const extractTask = (prompt: string) => {
+  const paragraphs = prompt.trim().split(/\n{2,}/);
+  if (paragraphs.length > 1 && /^[^\n]{0,120}:$/.test(paragraphs[0])) {
+    paragraphs.shift();
+  }
+  return paragraphs
+    .filter(paragraph => !paragraph.startsWith('Context:\n'))
+    .join('\n\n');
+};
+
+const CONTEXT_LABELS: { key: keyof Omit<PromptSpec, 'notes'>; label: string; tag: string }[] = [
+  { key: 'topic', label: 'Topic', tag: 'topic' },
+  { key: 'goal', label: 'Goal', tag: 'goal' },
+  { key: 'audience', label: 'Audience', tag: 'audience' },
+  { key: 'challenges', label: 'Known challenges', tag: 'challenges' },
+  { key: 'valueCriteria', label: 'Success criteria', tag: 'success_criteria' },
+  { key: 'angles', label: 'Angles to explore', tag: 'angles' },
+  { key: 'assumptions', label: 'Assumption to challenge', tag: 'assumption_to_challenge' }
+];
+
+const getContextEntries = (spec: PromptSpec, references: PromptReference[]) => [
+  ...CONTEXT_LABELS
+    .filter(({ key }) => spec[key])
+    .map(({ key, label, tag }) => ({ label, tag, value: spec[key] })),
+  ...spec.notes.map(note => ({ label: 'Note', tag: 'note', value: note })),
+  ...references.map(({ title, text }) => ({ label: `Saved prompt to build on ("${title}")`, tag: 'saved_prompt', value: text }))
+];
+
+// Claude: each part of the prompt in its own XML tag
+const formatXmlTags = (task: string, spec: PromptSpec, references: PromptReference[]) => {
+  const sections: string[] = [];
+  const context = getContextEntries(spec, references);
+
+  if (context.length) {
+    sections.push(`<context>\n${context.map(({ tag, value }) => `<${tag}>${value}</${tag}>`).join('\n')}\n</context>`);
+  }
+  if (spec.tone) {
+    sections.push(`<style>\nWrite in a ${spec.tone} tone.\n</style>`);
+  }
+  sections.push(`<instructions>\n${task}\n</instructions>`);
+  sections.push('<output_format>\nRespond with the finished piece only. Use headings where they help the reader.\n</output_format>');
+
+  return sections.join('\n\n');
+};
+
+// OpenAI-style chat models: a system message for the persona, a user message for the task.
+// Models without system instructions get the persona at the top of the prompt instead.
+const formatSystemUser = (task: string, spec: PromptSpec, references: PromptReference[], target: TargetModel) => {
+  const system = [`You are an expert in ${getSpecSubject(spec)}.`];
+  if (spec.audience) system.push(`You write for ${spec.audience}.`);
+  if (spec.tone) system.push(`Your tone is ${spec.tone}.`);
+  system.push('Follow the user\'s instructions exactly and keep the structure they ask for.');
+
+  const context = getContextEntries(spec, references)
+    .filter(({ tag }) => tag !== 'audience')
+    .map(({ label, value }) => `- ${label}: ${value}`);
+  const user = context.length ? `${task}\n\nContext:\n${context.join('\n')}` : task;
+
+  return target.systemPrompt
+    ? `System:\n${system.join(' ')}\n\nUser:\n${user}`
+    : `${system.join(' ')}\n\n${user}`;
+};
+
+// Perplexity: lead with what to research and ask for cited, recent sources
+const formatSearch = (task: string, spec: PromptSpec, references: PromptReference[]) => {
+  const subject = getSpecSubject(spec);
+  const lines = [
+    `Research question: What do the most reliable, up-to-date sources say about ${subject}${spec.audience ? ` for ${spec.audience}` : ''}?`,
+    '',
+    'Search for current, authoritative sources, then:',
+    task
+  ];
+
+  const focus = getContextEntries(spec, references)
+    .filter(({ tag }) => !['topic', 'audience'].includes(tag))
+    .map(({ label, value }) => `- ${label}: ${value}`);
+  if (focus.length) {
+    lines.push('', 'Focus the search on:', ...focus);
+  }
+
+  lines.push('', 'Cite every source inline with a link, prefer material from the last two years, and point out where sources disagree.');
+  return lines.join('\n');
+};
+
+// Gemini, Grok and others: plain markdown sections
+const formatMarkdown = (task: string, spec: PromptSpec, references: PromptReference[]) => {
+  const sections = [`## Task\n${task}`];
+  const context = getContextEntries(spec, references).map(({ label, value }) => `- **${label}:** ${value}`);
+
+  if (context.length) {
+    sections.push(`## Context\n${context.join('\n')}`);
+  }
+  if (spec.tone) {
+    sections.push(`## Style\nUse a ${spec.tone} tone.`);
+  }
+  return sections.join('\n\n');
+};
+
+// Reasoning models: direct instructions, no persona or heavy scaffolding
+const formatPlain = (task: string, spec: PromptSpec, references: PromptReference[]) => {
+  const context = getContextEntries(spec, references).map(({ label, value }) => `${label}: ${value}`);
+  if (spec.tone) context.push(`Tone: ${spec.tone}`);
+  return context.length ? `${task}\n\n${context.join('\n')}` : task;
+};
+
+type Formatter = (task: string, spec: PromptSpec, references: PromptReference[], target: TargetModel) => string;
+
+const FORMATTERS: Record<PromptFormat, Formatter> = {
+  'xml-tags': formatXmlTags,
+  'system-user': formatSystemUser,
+  search: formatSearch,
+  markdown: formatMarkdown,
+  plain: formatPlain
+};
+
+// Restructure a generated prompt into the target model's preferred format
+export const formatPromptForTarget = (
+  prompt: string,
+  spec: PromptSpec,
+  target: TargetModel,
+  references: PromptReference[] = []
+) => FORMATTERS[target.format](extractTask(prompt), spec, references, target);
@@ -0,0 +1,257 @@
+// A small Handlebars-style language for prompt templates:
+//
+//   {{name}}                        slot, empty when the value is empty; kept as written for a name
+//                                   the values don't have
+//   {{name | fallback}}             slot with text to use when it's empty
+//   {{name:type=default}}           fill-in placeholder (see prompt-variables.ts), kept as written
+//                                   for the reader to fill unless the values have it
+//   {{#if name}}…{{else}}…{{/if}}   shown when the slot has a value (a list needs an item)
+//   {{#unless name}}…{{/unless}}    shown when it doesn't
+//   {{#each list}}…{{/each}}        repeated per item; {{this}} is the item, or use its fields
+//   {{> name}}                      a named partial, rendered with the same values
+//
+// Block tags alone on a line take the whole line with them, so templates can be laid out readably.
+
+export type TemplateValue = string | number | boolean | null | undefined | TemplateData | TemplateValue[];
+
+export interface TemplateData {
+  [name: string]: TemplateValue;
+}
+
+type BlockType = 'if' | 'unless' | 'each';
+
+interface BlockNode {
+  type: BlockType;
+  name: string;
+  children: TemplateNode[];
+  // The {{else}} branch
+  alternate: TemplateNode[];
+}
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  // tag is the slot as written
+  | { type: 'slot'; name: string; fallback?: string; tag: string }
+  | { type: 'placeholder'; name: string; tag: string }
+  | { type: 'partial'; name: string; line: number }
+  | BlockNode;
+
+// A slot a template reads, and whether the values given fill it
+export interface SlotUsage {
+  name: string;
+  filled: boolean;
+  // False for names the values don't have at all, usually a typo
+  known: boolean;
+}
+
+export class TemplateSyntaxError extends Error {
+  line: number;
+
+  constructor(message: string, line: number) {
+    super(`Line ${line}: ${message}`);
+    this.name = 'TemplateSyntaxError';
+    this.line = line;
+  }
+}
+
+const TAG = /\{\{\s*([#/>]?)\s*([^}]*?)\s*\}\}/g;
+const STANDALONE_BLOCK_TAG = /^[ \t]*(\{\{\s*(?:[#/][^}]*|else\s*)\}\})[ \t]*(?:\r?\n|$)/gm;
+const NAME = /^(?:[A-Za-z_]\w*|this)$/;
+// Same names and annotations as the placeholders in prompt-variables.ts
+const PLACEHOLDER = /^([A-Za-z_][\w-]*)\s*(?::[^}=]*)?(?:=[^}]*)?$/;
+const BLOCK_TYPES: BlockType[] = ['if', 'unless', 'each'];
+// Guards against partials that include each other
+const MAX_PARTIAL_DEPTH = 10;
+
+export const parseTemplate = (source: string): TemplateNode[] => {
+  const text = source.replace(STANDALONE_BLOCK_TAG, '$1');
+  const root: TemplateNode[] = [];
+  const open: { node: BlockNode; inElse: boolean; line: number }[] = [];
+  const lineAt = (index: number) => text.slice(0, index).split('\n').length;
+  const target = () => {
+    const block = open[open.length - 1];
+    if (!block) return root;
+    return block.inElse ? block.node.alternate : block.node.children;
+  };
+
+  let lastIndex = 0;
+  for (const match of text.matchAll(TAG)) {
+    const index = match.index ?? 0;
+    const [tag, sigil, body] = match;
+    const line = lineAt(index);
+    if (index > lastIndex) {
+      target().push({ type: 'text', value: text.slice(lastIndex, index) });
+    }
+    lastIndex = index + tag.length;
+
+    if (sigil === '#') {
+      const [keyword, name, ...extra] = body.split(/\s+/);
+      if (!BLOCK_TYPES.includes(keyword as BlockType)) {
+        throw new TemplateSyntaxError(`Unknown block {{#${keyword}}}; use #if, #unless or #each`, line);
+      }
+      if (!name || !NAME.test(name) || extra.length) {
+        throw new TemplateSyntaxError(`{{#${keyword}}} needs exactly one slot name`, line);
+      }
+      const node: BlockNode = { type: keyword as BlockType, name, children: [], alternate: [] };
+      target().push(node);
+      open.push({ node, inElse: false, line });
+    } else if (sigil === '/') {
+      const block = open.pop();
+      if (!block) {
+        throw new TemplateSyntaxError(`{{/${body}}} doesn't close anything`, line);
+      }
+      if (body !== block.node.type) {
+        throw new TemplateSyntaxError(`Expected {{/${block.node.type}}} but found {{/${body}}}`, line);
+      }
+    } else if (sigil === '>') {
+      if (!NAME.test(body)) {
+        throw new TemplateSyntaxError(`"{{> ${body}}}" isn't a valid partial name`, line);
+      }
+      target().push({ type: 'partial', name: body, line });
+    } else if (body === 'else') {
+      const block = open[open.length - 1];
+      if (!block) {
+        throw new TemplateSyntaxError('{{else}} must sit inside an {{#if}}, {{#unless}} or {{#each}} block', line);
+      }
+      if (block.inElse) {
+        throw new TemplateSyntaxError(`{{#${block.node.type} ${block.node.name}}} already has an {{else}}`, line);
+      }
+      block.inElse = true;
+    } else {
+      const separator = body.indexOf('|');
+      const name = (separator === -1 ? body : body.slice(0, separator)).trim();
+      const placeholder = body.match(PLACEHOLDER);
+      if (NAME.test(name)) {
+        target().push({ type: 'slot', name, fallback: separator === -1 ? undefined : body.slice(separator + 1).trim(), tag });
+      } else if (placeholder) {
+        target().push({ type: 'placeholder', name: placeholder[1], tag });
+      } else {
+        throw new TemplateSyntaxError(`"{{${body}}}" isn't a valid slot name`, line);
+      }
+    }
+  }
+
+  if (lastIndex < text.length) {
+    root.push({ type: 'text', value: text.slice(lastIndex) });
+  }
+  const unclosed = open.pop();
+  if (unclosed) {
+    throw new TemplateSyntaxError(`{{#${unclosed.node.type} ${unclosed.node.name}}} is never closed`, unclosed.line);
+  }
+
+  return root;
+};
+
+export const isFilled = (value: TemplateValue): boolean => {
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'string') return value.trim().length > 0;
+  if (typeof value === 'boolean') return value;
+  return value !== null && value !== undefined;
+};
+
+const toText = (value: TemplateValue): string => {
+  if (Array.isArray(value)) return value.map(toText).filter(Boolean).join(', ');
+  if (typeof value === 'string' || typeof value === 'number') return String(value);
+  return '';
+};
+
+// Innermost scope first: the current {{#each}} item, then the items around it, then the root values
+const findScope = (scopes: TemplateData[], name: string) => scopes.find(item => name in item);
+
+const lookup = (scopes: TemplateData[], name: string) => findScope(scopes, name)?.[name];
+
+const getPartial = ({ name, line }: { name: string; line: number }, partials: Record<string, string>, depth: number) => {
+  if (!(name in partials)) {
+    throw new TemplateSyntaxError(`Unknown partial {{> ${name}}}`, line);
+  }
+  if (depth >= MAX_PARTIAL_DEPTH) {
+    throw new TemplateSyntaxError(`Partials nest more than ${MAX_PARTIAL_DEPTH} deep at {{> ${name}}}`, line);
+  }
+  return parseTemplate(partials[name]);
+};
+
+const renderNodes = (
+  nodes: TemplateNode[],
+  scopes: TemplateData[],
+  partials: Record<string, string>,
+  depth: number
+): string => nodes.map(node => {
+  switch (node.type) {
+    case 'text':
+      return node.value;
+    case 'slot': {
+      if (!findScope(scopes, node.name)) return node.fallback ?? node.tag;
+      const value = toText(lookup(scopes, node.name));
+      return value.trim() ? value : node.fallback ?? '';
+    }
+    case 'placeholder': {
+      const value = toText(lookup(scopes, node.name));
+      return value.trim() ? value : node.tag;
+    }
+    case 'partial':
+      return renderNodes(getPartial(node, partials, depth), scopes, partials, depth + 1);
+    case 'each': {
+      const value = lookup(scopes, node.name);
+      const items = Array.isArray(value) ? value : [];
+      if (!items.length) return renderNodes(node.alternate, scopes, partials, depth);
+
+      return items.map(item => {
+        const scope = item && typeof item === 'object' && !Array.isArray(item)
+          ? { ...item, this: item }
+          : { this: item };
+        return renderNodes(node.children, [scope, ...scopes], partials, depth);
+      }).join('');
+    }
+    default: {
+      const shown = isFilled(lookup(scopes, node.name)) === (node.type === 'if');
+      return renderNodes(shown ? node.children : node.alternate, scopes, partials, depth);
+    }
+  }
+}).join('');
+
+export const renderTemplate = (source: string, data: TemplateData, partials: Record<string, string> = {}) =>
+  renderNodes(parseTemplate(source), [data], partials, 0);
+
+// Names read from the root values; inside {{#each}} names belong to the items and are left out,
+// and placeholders are for whoever uses the prompt to fill
+const collectSlots = (
+  nodes: TemplateNode[],
+  partials: Record<string, string>,
+  depth: number,
+  names: Set<string>
+) => {
+  nodes.forEach(node => {
+    if (node.type === 'text' || node.type === 'placeholder') return;
+    if (node.type === 'partial') {
+      collectSlots(getPartial(node, partials, depth), partials, depth + 1, names);
+      return;
+    }
+
+    if (node.name !== 'this') names.add(node.name);
+    if (node.type === 'if' || node.type === 'unless') {
+      collectSlots(node.children, partials, depth, names);
+    }
+    if (node.type !== 'slot') {
+      collectSlots(node.alternate, partials, depth, names);
+    }
+  });
+  return names;
+};
+
+// Which slots a template reads, in order of first use, and which of them the values fill
+export const inspectTemplate = (source: string, data: TemplateData, partials: Record<string, string> = {}): SlotUsage[] =>
+  [...collectSlots(parseTemplate(source), partials, 0, new Set())].map(name => ({
+    name,
+    filled: isFilled(data[name]),
+    known: name in data
+  }));
+
+// The error message, or null when the template and every partial it uses parse
+export const validateTemplate = (source: string, partials: Record<string, string> = {}) => {
+  try {
+    collectSlots(parseTemplate(source), partials, 0, new Set());
+    return null;
+  } catch (error) {
+    return (error as Error).message;
+  }
+};
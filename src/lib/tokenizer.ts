@@ -0,0 +1,104 @@
+import { z } from 'zod';
+import type { Tiktoken } from 'js-tiktoken/lite';
+import type { PromptLevel } from '@/lib/llm';
+import type { TargetModel } from '@/lib/target-models';
+
+// Token counts for prompts. OpenAI publishes its BPE tables, so those counts are exact; the
+// other providers' tokenizers aren't public and are approximated from characters per token.
+
+const bpeEncodingSchema = z.enum(['o200k_base', 'cl100k_base']);
+
+export const tokenizerSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('bpe'), encoding: bpeEncodingSchema }),
+  // Measured on English prose; other scripts are counted separately
+  z.object({ type: z.literal('approximate'), charsPerToken: z.number().positive() })
+]);
+
+export type TokenizerSpec = z.infer<typeof tokenizerSchema>;
+export type BpeEncoding = z.infer<typeof bpeEncodingSchema>;
+
+export interface TokenCount {
+  tokens: number;
+  // False when the count is an approximation
+  exact: boolean;
+}
+
+export interface PromptUsageEstimate extends TokenCount {
+  // Tokens in a typical answer to a prompt of this tier
+  outputTokens: number;
+  // US dollars for the prompt and a typical answer
+  cost: number;
+  contextWindow: number;
+  // The prompt and a typical answer don't fit in the model's context window
+  overflows: boolean;
+}
+
+// Used when no target model is chosen
+export const DEFAULT_TOKENIZER: TokenizerSpec = { type: 'bpe', encoding: 'o200k_base' };
+
+// Rough answer lengths the tiers ask for, in tokens
+export const EXPECTED_OUTPUT_TOKENS: Record<PromptLevel, number> = {
+  quick: 1000,
+  deepDive: 2500,
+  crackedUp: 4000
+};
+
+// The tables are large, so each is only loaded once a count needs it
+const BPE_RANKS: Record<BpeEncoding, () => Promise<{ default: ConstructorParameters<typeof Tiktoken>[0] }>> = {
+  o200k_base: () => import('js-tiktoken/ranks/o200k_base'),
+  cl100k_base: () => import('js-tiktoken/ranks/cl100k_base')
+};
+
+const encoders = new Map<BpeEncoding, Promise<Tiktoken>>();
+
+const getEncoder = (encoding: BpeEncoding) => {
+  if (!encoders.has(encoding)) {
+    const encoder = Promise.all([import('js-tiktoken/lite'), BPE_RANKS[encoding]()])
+      .then(([{ Tiktoken }, ranks]) => new Tiktoken(ranks.default));
+    // A failed load can be retried by the next count
+    encoder.catch(() => encoders.delete(encoding));
+    encoders.set(encoding, encoder);
+  }
+  return encoders.get(encoding)!;
+};
+
+const CJK = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af\uf900-\ufaff]/g;
+const NON_ASCII = /[\u0080-\uffff]/g;
+
+// Chinese, Japanese and Korean characters are about a token each, other non-Latin letters
+// about half a token
+export const approximateTokens = (text: string, charsPerToken: number) => {
+  const cjk = text.match(CJK)?.length ?? 0;
+  const otherNonAscii = (text.match(NON_ASCII)?.length ?? 0) - cjk;
+  const ascii = text.length - cjk - otherNonAscii;
+  return Math.ceil(ascii / charsPerToken + otherNonAscii / 2 + cjk);
+};
+
+export const countTokens = async (text: string, tokenizer: TokenizerSpec = DEFAULT_TOKENIZER): Promise<TokenCount> => {
+  if (tokenizer.type === 'approximate') {
+    return { tokens: approximateTokens(text, tokenizer.charsPerToken), exact: false };
+  }
+
+  const encoder = await getEncoder(tokenizer.encoding);
+  // Special-token markers in the text are counted as the plain text they are
+  return { tokens: encoder.encode(text, [], []).length, exact: true };
+};
+
+export const estimatePromptUsage = async (
+  text: string,
+  target: TargetModel,
+  level: PromptLevel = 'quick'
+): Promise<PromptUsageEstimate> => {
+  const { tokens, exact } = await countTokens(text, target.tokenizer);
+  const { pricing: { input, output }, contextWindow } = target;
+  const outputTokens = EXPECTED_OUTPUT_TOKENS[level];
+
+  return {
+    tokens,
+    exact,
+    outputTokens,
+    cost: (tokens * input + outputTokens * output) / 1_000_000,
+    contextWindow,
+    overflows: tokens + outputTokens > contextWindow
+  };
+};
@@ -0,0 +1,47 @@
+import { VARIABLE_SETS_STORE, createRecordId, runRequest } from '@/lib/db';
+
+// Values typed into a prompt's placeholders, kept under a name so they can fill in other prompts
+export interface VariableValueSet {
+  id: string;
+  name: string;
+  // Placeholder name to value, e.g. { product_name: 'Acme Notes' }
+  values: Record<string, string>;
+  // Account that saved the values; sets saved while signed out belong to everyone on this browser
+  ownerId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Fired on window whenever a value set is saved or deleted
+export const VARIABLE_SETS_CHANGED_EVENT = 'variable-sets-changed';
+
+const notifyChange = () => {
+  window.dispatchEvent(new Event(VARIABLE_SETS_CHANGED_EVENT));
+};
+
+// Most recently updated sets first
+export const listVariableSets = async () => {
+  const sets = (await runRequest(VARIABLE_SETS_STORE, 'readonly', store => store.getAll())) as VariableValueSet[];
+  return sets.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+};
+
+// Saving under a name the owner already used updates that set, adding to its values
+export const saveVariableSet = async (
+  { name, values, ownerId }: Pick<VariableValueSet, 'name' | 'values' | 'ownerId'>
+) => {
+  const existing = (await listVariableSets()).find(set =>
+    set.ownerId === ownerId && set.name.toLowerCase() === name.toLowerCase());
+  const now = new Date();
+  const saved: VariableValueSet = existing
+    ? { ...existing, values: { ...existing.values, ...values }, updatedAt: now }
+    : { id: createRecordId(), name, values, ownerId, createdAt: now, updatedAt: now };
+
+  await runRequest(VARIABLE_SETS_STORE, 'readwrite', store => store.put(saved));
+  notifyChange();
+  return saved;
+};
+
+export const deleteVariableSet = async (id: string) => {
+  await runRequest(VARIABLE_SETS_STORE, 'readwrite', store => store.delete(id));
+  notifyChange();
+};
@@ -0,0 +1,148 @@
+import { useState, useEffect, type FormEvent } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { Loader2, LogOut } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useQuota } from "@/hooks/use-quota";
+import { setPassword, signOut } from "@/lib/auth";
+import QuotaCountdown from "@/components/QuotaCountdown";
+
+const Account = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { user, isLoaded } = useAuth();
+  const { quota, refresh: refreshQuota } = useQuota();
+
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isLoaded && !user) {
+      navigate("/login", { replace: true });
+    }
+  }, [isLoaded, user, navigate]);
+
+  const handleSetPassword = (event: FormEvent) => {
+    event.preventDefault();
+    setError(null);
+    setIsSaving(true);
+
+    setPassword(newPassword, user?.hasPassword ? currentPassword : undefined)
+      .then(() => {
+        setCurrentPassword("");
+        setNewPassword("");
+        toast({ title: user?.hasPassword ? "Password changed" : "Password added", description: "You can now sign in with your email and password." });
+      })
+      .catch(saveError => setError(saveError instanceof Error ? saveError.message : "Couldn't save your password."))
+      .finally(() => setIsSaving(false));
+  };
+
+  const handleSignOut = () => {
+    signOut()
+      .then(() => {
+        toast({ title: "Signed out" });
+        navigate("/");
+      })
+      .catch(signOutError => {
+        console.error("Failed to sign out:", signOutError);
+        toast({ title: "Couldn't sign out", description: "Please try again.", variant: "destructive" });
+      });
+  };
+
+  return (
+    <div className="bg-background">
+      <header className="border-b border-border py-5 px-6">
+        <div className="max-w-xl mx-auto">
+          <h1 className="text-xl font-semibold text-foreground">Your account</h1>
+        </div>
+      </header>
+
+      <main className="max-w-xl mx-auto px-6 py-12 space-y-6">
+        {!user ? (
+          <div className="flex items-center justify-center text-muted-foreground py-10">
+            <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+            Loading your account…
+          </div>
+        ) : (
+          <>
+            <section className="rounded-xl border border-border p-6">
+              <dl className="grid grid-cols-[auto_1fr] gap-x-6 gap-y-2 text-sm">
+                <dt className="text-muted-foreground">Email</dt>
+                <dd className="text-foreground font-medium break-all">{user.email}</dd>
+                <dt className="text-muted-foreground">Member since</dt>
+                <dd className="text-foreground">{new Date(user.createdAt).toLocaleDateString()}</dd>
+                {quota && (
+                  <>
+                    <dt className="text-muted-foreground">Prompts today</dt>
+                    <dd className="text-foreground">
+                      {quota.used} of {quota.limit} used · resets in{" "}
+                      <QuotaCountdown resetsAt={quota.resetsAt} onReset={refreshQuota} className="tabular-nums" />
+                    </dd>
+                  </>
+                )}
+              </dl>
+            </section>
+
+            <section className="rounded-xl border border-border p-6">
+              <h2 className="font-medium text-foreground mb-1">{user.hasPassword ? "Change password" : "Add a password"}</h2>
+              <p className="text-sm text-muted-foreground mb-4">
+                {user.hasPassword
+                  ? "Pick a new password for signing in with your email."
+                  : "You signed in with an email link. Add a password to sign in without one."}
+              </p>
+              <form onSubmit={handleSetPassword} className="space-y-3">
+                {user.hasPassword && (
+                  <div className="space-y-2">
+                    <Label htmlFor="account-current-password">Current password</Label>
+                    <Input
+                      id="account-current-password"
+                      type="password"
+                      autoComplete="current-password"
+                      required
+                      value={currentPassword}
+                      onChange={(e) => setCurrentPassword(e.target.value)}
+                    />
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="account-password">New password</Label>
+                  <Input
+                    id="account-password"
+                    type="password"
+                    autoComplete="new-password"
+                    minLength={8}
+                    required
+                    value={newPassword}
+                    onChange={(e) => setNewPassword(e.target.value)}
+                  />
+                </div>
+                {error && <p className="text-sm text-red-600" role="alert">{error}</p>}
+                <Button type="submit" disabled={isSaving} className="bg-brand hover:bg-brand-strong">
+                  {isSaving && <Loader2 className="animate-spin" />}
+                  Save password
+                </Button>
+              </form>
+            </section>
+
+            <div className="flex flex-wrap gap-2">
+              <Button asChild variant="outline">
+                <Link to="/library">Your prompt library</Link>
+              </Button>
+              <Button variant="ghost" className="ml-auto text-red-600 hover:text-red-700" onClick={handleSignOut}>
+                <LogOut />
+                Sign out
+              </Button>
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Account;
@@ -0,0 +1,61 @@
+import { useState } from "react";
+import { useLocation, useNavigate, useNavigationType, useParams, useSearchParams } from "react-router-dom";
+import ChatUI from "@/components/ChatUI";
+import UsageLimitDialog from "@/components/UsageLimitDialog";
+import { useTargetModel } from "@/hooks/use-target-model";
+
+// Router state for /chat: text typed on the landing page, and whether ChatUI made the navigation
+interface ChatLocationState {
+  initialMessage?: string;
+  fromChat?: boolean;
+}
+
+// /chat starts a new session (optionally ?mode=<flow id>), /chat/:sessionId resumes one
+const Chat = () => {
+  const { sessionId } = useParams();
+  const [searchParams] = useSearchParams();
+  const location = useLocation();
+  const navigationType = useNavigationType();
+  const navigate = useNavigate();
+  const { targetModelId } = useTargetModel();
+  const [showUsageLimit, setShowUsageLimit] = useState(false);
+
+  const state = (location.state || {}) as ChatLocationState;
+
+  // ChatUI keeps the URL in step with its own session; those updates must not remount it.
+  // Anything else (links, back/forward) loads whatever the URL points at.
+  const [chatKey, setChatKey] = useState(location.key);
+  const [seenLocationKey, setSeenLocationKey] = useState(location.key);
+  if (location.key !== seenLocationKey) {
+    setSeenLocationKey(location.key);
+    if (navigationType === "POP" || !state.fromChat) {
+      setChatKey(location.key);
+    }
+  }
+
+  return (
+    <main className="flex-1 px-4 py-6 md:px-6">
+      <ChatUI
+        key={chatKey}
+        sessionId={sessionId}
+        flowId={searchParams.get("mode") || undefined}
+        initialMessage={state.initialMessage}
+        targetModelId={targetModelId}
+        onQuotaExceeded={() => setShowUsageLimit(true)}
+        // The first save makes a new chat addressable at /chat/:sessionId
+        onSessionSaved={(savedId) => navigate(`/chat/${savedId}`, { replace: true, state: { fromChat: true } })}
+        // Starting over is a new history entry, so back returns to the previous session
+        onNewSession={(flowId) => navigate(`/chat?mode=${encodeURIComponent(flowId)}`, { state: { fromChat: true } })}
+      />
+
+      {showUsageLimit && (
+        <UsageLimitDialog
+          onClose={() => setShowUsageLimit(false)}
+          onUpgrade={() => navigate("/#pricing")}
+        />
+      )}
+    </main>
+  );
+};
+
+export default Chat;
@@ -0,0 +1,333 @@
+import { useState, useMemo } from "react";
+import { Copy, Plus, Save, Trash2, AlertCircle, CheckCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { useFlows } from "@/hooks/use-flows";
+import { DEFAULT_FLOWS, isBuiltInFlow, validateFlow, type FlowDefinition } from "@/lib/flows";
+import {
+  TEMPLATE_LIBRARY,
+  buildTemplateData,
+  getBuiltInTemplates,
+  renderPromptTemplate,
+  type PromptLevel
+} from "@/lib/llm";
+import { createEmptySpec, type PromptSpec } from "@/lib/prompt-spec";
+import { inspectTemplate } from "@/lib/template-engine";
+import { cn } from "@/lib/utils";
+
+// Pick an id that doesn't clash with an existing flow
+const getUniqueId = (base: string, flows: FlowDefinition[]) => {
+  let id = base;
+  let suffix = 2;
+  while (flows.some(flow => flow.id === id)) {
+    id = `${base}-${suffix++}`;
+  }
+  return id;
+};
+
+const toJson = (flow: FlowDefinition) => JSON.stringify(flow, null, 2);
+
+const selectClassName = "h-9 rounded-md border border-input bg-background px-3 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring";
+
+const SAMPLE_TOPIC = "Sourdough baking";
+
+// Answers the template preview fills its slots from, from barely started to fully answered
+const SAMPLE_ANSWERS: { id: string; label: string; spec: PromptSpec }[] = [
+  { id: "topic", label: "Topic only", spec: { ...createEmptySpec(), topic: SAMPLE_TOPIC } },
+  {
+    id: "some",
+    label: "A few answers",
+    spec: { ...createEmptySpec(), topic: SAMPLE_TOPIC, goal: "bake a first loaf that rises", audience: "complete beginners" }
+  },
+  {
+    id: "all",
+    label: "Every answer",
+    spec: {
+      topic: SAMPLE_TOPIC,
+      goal: "bake a first loaf that rises",
+      tone: "friendly and encouraging",
+      audience: "complete beginners",
+      challenges: "loaves come out flat and dense",
+      valueCriteria: "gives a schedule I can follow on a weekday",
+      angles: "treat the starter like a pet",
+      assumptions: "that you need special equipment",
+      notes: ["I only have a small oven"]
+    }
+  }
+];
+
+// A tier's offline templates rendered against sample answers, with the slots they read marked
+// filled, empty or unknown
+const TemplatePreview = ({ flow }: { flow: FlowDefinition }) => {
+  const [level, setLevel] = useState<PromptLevel>(flow.tiers[0].level);
+  const [variantIndex, setVariantIndex] = useState(0);
+  const [sampleId, setSampleId] = useState(SAMPLE_ANSWERS[1].id);
+
+  const tier = flow.tiers.find(item => item.level === level) || flow.tiers[0];
+  const variants = tier.templates?.length
+    ? tier.templates.map((text, index) => ({ label: `Template ${index + 1}`, text }))
+    : getBuiltInTemplates(tier.level).map((template, index) => ({ label: `Built-in ${index + 1}`, text: template.text }));
+  const variant = variants[Math.min(variantIndex, variants.length - 1)];
+  const { spec } = SAMPLE_ANSWERS.find(sample => sample.id === sampleId) || SAMPLE_ANSWERS[0];
+  const slots = inspectTemplate(variant.text, buildTemplateData(tier.level, spec), TEMPLATE_LIBRARY.partials);
+
+  return (
+    <div className="rounded-lg border border-border p-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-sm font-medium text-foreground">Template preview</h3>
+        <div className="flex flex-wrap gap-2">
+          <select
+            value={tier.level}
+            onChange={(e) => {
+              setLevel(e.target.value as PromptLevel);
+              setVariantIndex(0);
+            }}
+            className={selectClassName}
+            aria-label="Tier"
+          >
+            {flow.tiers.map(item => <option key={item.level} value={item.level}>{item.label}</option>)}
+          </select>
+          <select
+            value={variants.indexOf(variant)}
+            onChange={(e) => setVariantIndex(Number(e.target.value))}
+            className={selectClassName}
+            aria-label="Template"
+          >
+            {variants.map((item, index) => <option key={index} value={index}>{item.label}</option>)}
+          </select>
+          <select
+            value={sampleId}
+            onChange={(e) => setSampleId(e.target.value)}
+            className={selectClassName}
+            aria-label="Sample answers"
+          >
+            {SAMPLE_ANSWERS.map(sample => <option key={sample.id} value={sample.id}>{sample.label}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1.5 text-xs">
+        <span className="text-muted-foreground">Slots:</span>
+        {slots.map(slot => (
+          <code
+            key={slot.name}
+            title={!slot.known ? "Not a known slot; check the spelling" : slot.filled ? "Filled" : "Empty for these answers"}
+            className={cn(
+              "rounded px-1.5 py-0.5",
+              !slot.known
+                ? "bg-red-50 text-red-700"
+                : slot.filled ? "bg-brand-soft text-brand" : "border border-dashed border-border text-muted-foreground"
+            )}
+          >
+            {slot.name}
+          </code>
+        ))}
+        {slots.length === 0 && <span className="text-muted-foreground">none</span>}
+      </div>
+
+      <pre className="whitespace-pre-wrap font-sans text-sm text-foreground bg-muted/50 rounded-md p-3 max-h-80 overflow-y-auto">
+        {renderPromptTemplate(variant.text, tier.level, spec)}
+      </pre>
+    </div>
+  );
+};
+
+const FlowEditor = () => {
+  const { flows, saveFlow, deleteFlow } = useFlows();
+  const { toast } = useToast();
+  const [selectedId, setSelectedId] = useState(flows[0].id);
+  const [draft, setDraft] = useState(() => toJson(flows[0]));
+
+  const isReadOnly = isBuiltInFlow(selectedId);
+
+  // Validate the draft on every keystroke so authors see problems immediately
+  const validation = useMemo(() => {
+    try {
+      return validateFlow(JSON.parse(draft));
+    } catch (error) {
+      return { flow: undefined, errors: [`Invalid JSON: ${(error as Error).message}`] };
+    }
+  }, [draft]);
+
+  const selectFlow = (flow: FlowDefinition) => {
+    setSelectedId(flow.id);
+    setDraft(toJson(flow));
+  };
+
+  // Start a new custom flow from a copy of an existing one
+  const duplicateFlow = (flow: FlowDefinition) => {
+    const copy = {
+      ...flow,
+      // Shortened so the id stays within the 40 characters a mode id may have
+      id: getUniqueId(`${flow.id.slice(0, 32)}-copy`, flows),
+      name: `${flow.name} (copy)`
+    };
+    saveFlow(copy);
+    selectFlow(copy);
+  };
+
+  const handleSave = () => {
+    const { flow } = validation;
+    if (!flow) return;
+
+    try {
+      // Renaming onto another mode's id would overwrite that mode
+      if (flow.id !== selectedId && flows.some(item => item.id === flow.id)) {
+        throw new Error(`A mode with the id "${flow.id}" already exists. Pick a different id.`);
+      }
+      saveFlow(flow);
+      // Renaming the id saves a new flow, so drop the old one
+      if (flow.id !== selectedId) {
+        deleteFlow(selectedId);
+      }
+      setSelectedId(flow.id);
+      toast({
+        title: "Mode saved",
+        description: `"${flow.name}" is now available in the chat.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Couldn't save mode",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = () => {
+    deleteFlow(selectedId);
+    selectFlow(DEFAULT_FLOWS[0]);
+    toast({
+      title: "Mode deleted",
+      description: "It has been removed from the chat's mode list.",
+    });
+  };
+
+  return (
+    <div className="bg-background">
+      <header className="border-b border-border py-5 px-6">
+        <div className="max-w-6xl mx-auto">
+          <h1 className="text-xl font-semibold text-foreground">Prompt modes</h1>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-6 py-8 grid grid-cols-1 md:grid-cols-[260px_1fr] gap-8">
+        {/* Flow list */}
+        <aside className="space-y-2">
+          {flows.map(flow => (
+            <button
+              key={flow.id}
+              onClick={() => selectFlow(flow)}
+              className={cn(
+                "w-full text-left p-3 rounded-lg border transition-colors",
+                flow.id === selectedId ? "border-brand bg-brand-soft" : "border-border hover:bg-muted/50"
+              )}
+            >
+              <div className="flex items-center justify-between">
+                <span className="font-medium text-foreground">{flow.name}</span>
+                {isBuiltInFlow(flow.id) && <Badge variant="secondary">Built-in</Badge>}
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">
+                {flow.tiers.map(tier => `${tier.label} @ ${tier.responses}`).join(" → ")}
+              </p>
+            </button>
+          ))}
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={() => duplicateFlow(DEFAULT_FLOWS[0])}
+          >
+            <Plus />
+            New mode
+          </Button>
+        </aside>
+
+        {/* JSON editor */}
+        <section className="space-y-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-lg font-semibold text-foreground">
+                {validation.flow?.name || selectedId}
+              </h2>
+              <p className="text-sm text-muted-foreground">
+                {isReadOnly
+                  ? "Built-in modes are read-only. Duplicate one to customise it."
+                  : "Questions, thresholds, copy, templates and theme for this mode."}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => validation.flow && duplicateFlow(validation.flow)}
+                disabled={!validation.flow}
+              >
+                <Copy />
+                Duplicate
+              </Button>
+              {!isReadOnly && (
+                <>
+                  <Button variant="outline" size="sm" onClick={handleDelete}>
+                    <Trash2 />
+                    Delete
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={handleSave}
+                    disabled={!validation.flow}
+                    className="bg-brand hover:bg-brand-strong text-brand-foreground"
+                  >
+                    <Save />
+                    Save
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
+
+          <Textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            readOnly={isReadOnly}
+            spellCheck={false}
+            aria-label="Mode definition (JSON)"
+            className="min-h-[480px] font-mono text-xs focus-visible:ring-brand"
+          />
+
+          {validation.errors.length > 0 ? (
+            <div className="rounded-lg border border-red-200 bg-red-50 p-4" role="alert">
+              <div className="flex items-center text-sm font-medium text-red-700 mb-2">
+                <AlertCircle className="w-4 h-4 mr-2" />
+                Fix these before saving
+              </div>
+              <ul className="list-disc pl-6 space-y-1 text-sm text-red-700">
+                {validation.errors.map(error => <li key={error}>{error}</li>)}
+              </ul>
+            </div>
+          ) : (
+            <div className="flex items-center text-sm text-green-700">
+              <CheckCircle className="w-4 h-4 mr-2" />
+              Valid mode definition
+            </div>
+          )}
+
+          {validation.flow && <TemplatePreview key={validation.flow.id} flow={validation.flow} />}
+
+          <div className="rounded-lg bg-muted/50 p-4 text-xs text-muted-foreground space-y-1">
+            <p><strong>responses</strong>: total answers (including the topic) that unlock a tier's prompt.</p>
+            <p><strong>questions</strong>: the chat picks the most useful open question for each slot before the tier; each needs a <code>field</code> (topic, goal, tone, audience, challenges, valueCriteria, angles, assumptions).</p>
+            <p>
+              <strong>templates</strong> (optional): offline prompts with slots like <code>{"{{subject}}"}</code>, <code>{"{{context}}"}</code> or any field name,
+              {" "}<code>{"{{audience | beginners}}"}</code> for a fallback, <code>{"{{#if tone}}…{{else}}…{{/if}}"}</code>,
+              {" "}<code>{"{{#each details}}- {{label}}: {{value}}{{/each}}"}</code> and partials like <code>{"{{> context}}"}</code>.
+            </p>
+          </div>
+        </section>
+      </main>
+    </div>
+  );
+};
+
+export default FlowEditor;
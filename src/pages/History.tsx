@@ -0,0 +1,117 @@
+import { useState, useMemo } from "react";
+import { Link } from "react-router-dom";
+import { MessageSquare, Search, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { useLocalizedFlows } from "@/hooks/use-flows";
+import { useSessions } from "@/hooks/use-sessions";
+import { getFlowTier, getTierProgress } from "@/lib/flows";
+import type { ChatSession } from "@/lib/sessions";
+
+const History = () => {
+  const { flows } = useLocalizedFlows();
+  const { sessions, deleteSession } = useSessions();
+  const { toast } = useToast();
+  const [query, setQuery] = useState("");
+
+  // Every word of the query has to appear in the title or the conversation
+  const visibleSessions = useMemo(() => {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    if (!terms.length) return sessions;
+
+    return sessions.filter(session => {
+      const haystack = [session.title, ...session.messages.map(message => message.text)].join("\n").toLowerCase();
+      return terms.every(term => haystack.includes(term));
+    });
+  }, [sessions, query]);
+
+  const handleDelete = (session: ChatSession) => {
+    deleteSession(session.id)
+      .then(() => toast({ title: "Conversation deleted", description: `"${session.title}" was removed from your history.` }))
+      .catch(error => console.error("Failed to delete session:", error));
+  };
+
+  return (
+    <div className="bg-background">
+      <header className="border-b border-border py-5 px-6">
+        <div className="max-w-4xl mx-auto">
+          <h1 className="text-xl font-semibold text-foreground">History</h1>
+          <p className="text-sm text-muted-foreground">Every conversation saved in this browser.</p>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-6 py-8 space-y-4">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground/70" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search conversations"
+            className="pl-9"
+            aria-label="Search conversations"
+          />
+        </div>
+
+        {sessions.length === 0 && (
+          <div className="rounded-xl border border-dashed border-border p-10 text-center text-muted-foreground">
+            <p className="mb-4">No conversations yet. They're saved here as soon as you answer the first question.</p>
+            <Button asChild variant="outline">
+              <Link to="/chat">Start a conversation</Link>
+            </Button>
+          </div>
+        )}
+
+        {sessions.length > 0 && visibleSessions.length === 0 && (
+          <p className="text-sm text-muted-foreground">No conversations match "{query}".</p>
+        )}
+
+        <ul className="space-y-3">
+          {visibleSessions.map(session => {
+            const flow = flows.find(item => item.id === session.flowId);
+            const progress = flow && getTierProgress(flow, session.userResponseCount);
+            const tier = flow && session.currentPromptTier !== "none" ? getFlowTier(flow, session.currentPromptTier) : undefined;
+
+            return (
+              <li key={session.id} className="rounded-xl border border-border p-4 flex items-start gap-4">
+                <div className="min-w-0 flex-1">
+                  <Link to={`/chat/${session.id}`} className="font-medium text-foreground hover:text-brand truncate block">
+                    {session.title}
+                  </Link>
+                  <div className="flex flex-wrap items-center gap-1.5 mt-1.5 text-xs text-muted-foreground">
+                    {flow && <Badge variant="secondary">{flow.name}</Badge>}
+                    {tier && <Badge variant="outline">{tier.label}</Badge>}
+                    {progress && (
+                      <span>{Math.min(session.userResponseCount, progress.maxResponses)}/{progress.maxResponses} answers</span>
+                    )}
+                    <span>· {session.updatedAt.toLocaleString()}</span>
+                  </div>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Button asChild variant="outline" size="sm">
+                    <Link to={`/chat/${session.id}`}>
+                      <MessageSquare />
+                      Open
+                    </Link>
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-red-600 hover:text-red-700"
+                    onClick={() => handleDelete(session)}
+                    aria-label={`Delete conversation "${session.title}"`}
+                  >
+                    <Trash2 />
+                  </Button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </main>
+    </div>
+  );
+};
+
+export default History;
@@ -1,11 +1,23 @@
-import { ArrowRight, Lightbulb, Zap, Clock, CheckCircle, Loader2, Settings, Save, Search, Brain, MessageSquare, Sparkles, Copy, RefreshCw, Info, ChevronLeft, Wand2, Layers, Play } from "lucide-react";
+import { ArrowRight, Lightbulb, Zap, CheckCircle, Loader2, Settings, Save, Search, Brain, MessageSquare, Sparkles, Copy, RefreshCw, Info, ChevronLeft, Wand2, Layers, Play, UserRound } from "lucide-react";
 import { useState, useRef, useEffect, lazy, Suspense } from "react";
+import { Link, useLocation, useNavigate, useSearchParams } from "react-router-dom";
 import { useToast } from "@/hooks/use-toast";
-import ChatUI from "../components/ChatUI";
+import RecentSessions from "../components/RecentSessions";
+import UsageLimitDialog from "../components/UsageLimitDialog";
+import ThemeToggle from "../components/ThemeToggle";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { generatePromptText, getProviderConfig, type PromptLevel } from "@/lib/llm";
+import { specFromUserMessages } from "@/lib/prompt-spec";
+import { TARGET_MODELS, formatPromptForTarget } from "@/lib/target-models";
+import { refineNotes, type RefinedPrompt } from "@/lib/refiner";
+import { Textarea } from "@/components/ui/textarea";
+import { useTargetModel } from "@/hooks/use-target-model";
+import { useAuth } from "@/hooks/use-auth";
+import { useQuota } from "@/hooks/use-quota";
+import QuotaCountdown from "../components/QuotaCountdown";
+import LanguageSwitcher from "../components/LanguageSwitcher";
+import { useI18n } from "@/hooks/use-i18n";
 
-// Track daily usage - in a real app, this would be persisted
-const MAX_FREE_DAILY_USES = 3;
 const MAX_REFRESHES = 3;
 const MAX_USER_MESSAGES = 3;
 
@@ -20,6 +32,13 @@ type Message = {
 // Chat UI modes
 type ChatMode = 'quick' | 'creativeFlow' | 'crackedAF';
 
+// Prompt tier each chat mode generates
+const MODE_PROMPT_LEVELS: Record<ChatMode, PromptLevel> = {
+  quick: 'quick',
+  creativeFlow: 'deepDive',
+  crackedAF: 'crackedUp'
+};
+
 // Sample prompts for demonstration
 const SAMPLE_PROMPTS = [
   "Create a detailed prompt that explores the intersection of technology and nature, focusing on sustainable innovation.",
@@ -51,15 +70,19 @@ const LazyComponent = (importFunc: () => Promise<{ default: React.ComponentType<
 
 const Index = () => {
   const [inputText, setInputText] = useState("");
-  const [refinedPrompt, setRefinedPrompt] = useState("");
-  const [isRefining, setIsRefining] = useState(false);
+  // Pasted notes for the refiner, and what they were when last refined (the "before" side)
+  const [notesText, setNotesText] = useState("");
+  const [refinedFrom, setRefinedFrom] = useState("");
+  const [refinedPrompt, setRefinedPrompt] = useState<RefinedPrompt | null>(null);
   const [characterCount, setCharacterCount] = useState(0);
-  const [usageCount, setUsageCount] = useState(0);
   const [showUsageLimitOverlay, setShowUsageLimitOverlay] = useState(false);
   const [activeStep, setActiveStep] = useState(0);
   
-  // New state variables for chat UI
-  const [showChatUI, setShowChatUI] = useState(false);
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { t, tRich } = useI18n();
+  const [searchParams] = useSearchParams();
+  const { targetModelId, targetModel, setTargetModelId } = useTargetModel();
   const [chatMode, setChatMode] = useState<ChatMode>('quick');
   const [messages, setMessages] = useState<Message[]>([
     {
@@ -77,6 +100,9 @@ const Index = () => {
   const [promptCopied, setPromptCopied] = useState(false);
   
   const { toast } = useToast();
+  // Daily usage is enforced by the API server (npm run server)
+  const { user } = useAuth();
+  const { quota, refresh: refreshQuota, consume: consumeQuota } = useQuota();
 
   const scrollRef = useRef<HTMLDivElement>(null);
   const chatEndRef = useRef<HTMLDivElement>(null);
@@ -103,7 +129,7 @@ const Index = () => {
   const resetInput = () => {
     setInputText("");
     setCharacterCount(0);
-    setRefinedPrompt("");
+    setRefinedPrompt(null);
   };
 
   // Scroll to bottom of chat
@@ -175,22 +201,27 @@ Create a detailed tutorial that explains ${inputText || "the process"} in simple
   };
   
   // Generate a prompt based on user messages
-  const generatePrompt = () => {
+  const generatePrompt = async () => {
     setIsGeneratingPrompt(true);
     
     // Track prompt generation started
     trackChatInteraction('prompt_generation_started', chatMode);
     
-    // Determine generation time based on mode
-    const generationTime = 
-      chatMode === 'quick' ? 60000 : // 1 minute for Quick Mode
-      chatMode === 'creativeFlow' ? 90000 : // 1.5 minutes for CreativeFlow
-      120000; // 2 minutes for Crack'd AF
+    const userMessages = messages
+      .filter(msg => msg.sender === 'user')
+      .map(msg => msg.text);
     
-    // Simulate API call with timeout
-    setTimeout(() => {
-      let newPrompt = "";
-      
+    // Ask the configured provider; without one, fall back to the canned prompts below
+    let newPrompt = "";
+    const config = getProviderConfig();
+    if (config.provider !== 'template') {
+      const result = await generatePromptText({ spec: specFromUserMessages(userMessages), level: MODE_PROMPT_LEVELS[chatMode] }, config);
+      if (!result.error) {
+        newPrompt = result.text;
+      }
+    }
+    
+    if (!newPrompt) {
       switch(chatMode) {
         case 'quick':
           newPrompt = generateQuickModePrompt();
@@ -204,23 +235,28 @@ Create a detailed tutorial that explains ${inputText || "the process"} in simple
         default:
           newPrompt = generateQuickModePrompt();
       }
-      
-      setGeneratedPrompt(newPrompt);
-      
-      // Add system message with the generated prompt
-      const newSystemMessage: Message = {
-        id: Date.now().toString(),
-        text: newPrompt,
-        sender: 'system',
-        timestamp: new Date()
-      };
-      
-      setMessages(prev => [...prev, newSystemMessage]);
-      setIsGeneratingPrompt(false);
-      
-      // Track prompt generation completed
-      trackChatInteraction('prompt_generation_completed', chatMode);
-    }, generationTime);
+    }
+    
+    // Restructure for the model picked in the logo carousel
+    if (targetModel) {
+      newPrompt = formatPromptForTarget(newPrompt, specFromUserMessages(userMessages), targetModel);
+    }
+    
+    setGeneratedPrompt(newPrompt);
+    
+    // Add system message with the generated prompt
+    const newSystemMessage: Message = {
+      id: Date.now().toString(),
+      text: newPrompt,
+      sender: 'system',
+      timestamp: new Date()
+    };
+    
+    setMessages(prev => [...prev, newSystemMessage]);
+    setIsGeneratingPrompt(false);
+    
+    // Track prompt generation completed
+    trackChatInteraction('prompt_generation_completed', chatMode);
   };
   
   // Generate a Quick Mode prompt
@@ -347,59 +383,61 @@ Create a detailed tutorial that explains ${inputText || "the process"} in simple
         setTimeout(() => setPromptCopied(false), 2000);
         
         toast({
-          title: "Copied to clipboard!",
-          description: "Your prompt is ready to use.",
+          title: t("common.copiedToClipboard"),
+          description: t("common.promptReady"),
         });
       })
       .catch(err => {
         console.error('Failed to copy: ', err);
         toast({
-          title: "Copy failed",
-          description: "Please try again or copy manually.",
+          title: t("common.copyFailed.title"),
+          description: t("common.copyFailed.description"),
           variant: "destructive",
         });
       });
   };
 
+  // Clean up pasted notes or a transcript into a structured prompt, entirely offline
   const handleRefine = async () => {
-    if (!inputText.trim()) {
+    if (!notesText.trim()) {
+      toast({
+        title: t("home.refiner.toast.empty.title"),
+        description: t("home.refiner.toast.empty.description"),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const refined = refineNotes(notesText);
+    if (!refined.text) {
       toast({
-        title: "Please enter some text",
-        description: "Your text needs to be at least a few words long.",
+        title: t("home.refiner.toast.nothing.title"),
+        description: t("home.refiner.toast.nothing.description"),
         variant: "destructive",
       });
       return;
     }
 
-    if (usageCount >= MAX_FREE_DAILY_USES) {
+    if (!(await consumeQuota("refine"))) {
       setShowUsageLimitOverlay(true);
       return;
     }
 
-    setIsRefining(true);
-    // Simulate API call with timeout
-    setTimeout(() => {
-      setRefinedPrompt(
-        inputText
-          .split(" ")
-          .filter((word) => word.length > 3)
-          .join(" ")
-      );
-      setIsRefining(false);
-      setUsageCount(prev => prev + 1);
-      toast({
-        title: "Prompt refined!",
-        description: "Click the prompt to copy it to your clipboard.",
-      });
-    }, 1500);
+    setRefinedPrompt(refined);
+    setRefinedFrom(notesText);
+    trackAnalyticsEvent('engagement', 'notes_refined', `${refined.fillerRemoved}_filler_${refined.duplicatesRemoved}_repeats`);
+    toast({
+      title: t("home.refiner.toast.done.title"),
+      description: t("home.refiner.toast.done.description"),
+    });
   };
 
   const copyToClipboard = async () => {
     if (!refinedPrompt) return;
-    await navigator.clipboard.writeText(refinedPrompt);
+    await navigator.clipboard.writeText(refinedPrompt.text);
     toast({
-      title: "Copied to clipboard!",
-      description: "Your refined prompt is ready to use.",
+      title: t("common.copiedToClipboard"),
+      description: t("home.refiner.toast.copied.description"),
     });
   };
 
@@ -590,12 +628,12 @@ Create a detailed tutorial that explains ${inputText || "the process"} in simple
       /* Carousel animation */
       @keyframes carousel {
         0% { transform: translateX(0); }
-        100% { transform: translateX(calc(-120px * ${aiModels.length})); }
+        100% { transform: translateX(calc(-120px * ${TARGET_MODELS.length})); }
       }
       /* Only show scrollbars when needed */
       .overflow-y-auto {
         scrollbar-width: thin;
-        scrollbar-color: rgba(0, 0, 0, 0.2) transparent;
+        scrollbar-color: hsl(var(--foreground) / 0.2) transparent;
       }
       .overflow-y-auto::-webkit-scrollbar {
         width: 6px;
@@ -604,7 +642,7 @@ Create a detailed tutorial that explains ${inputText || "the process"} in simple
         background: transparent;
       }
       .overflow-y-auto::-webkit-scrollbar-thumb {
-        background-color: rgba(0, 0, 0, 0.2);
+        background-color: hsl(var(--foreground) / 0.2);
         border-radius: 3px;
       }
       .overflow-y-auto:not(:hover)::-webkit-scrollbar-thumb {
@@ -624,8 +662,8 @@ Create a detailed tutorial that explains ${inputText || "the process"} in simple
         visibility: hidden;
         width: auto;
         min-width: 120px;
-        background-color: #666;
-        color: #fff;
+        background-color: hsl(var(--foreground));
+        color: hsl(var(--background));
         text-align: center;
         border-radius: 6px;
         padding: 8px 12px;
@@ -648,7 +686,7 @@ Create a detailed tutorial that explains ${inputText || "the process"} in simple
         margin-left: -5px;
         border-width: 5px;
         border-style: solid;
-        border-color: #666 transparent transparent transparent;
+        border-color: hsl(var(--foreground)) transparent transparent transparent;
       }
       .tooltip:hover .tooltip-text {
         visibility: visible;
@@ -656,7 +694,7 @@ Create a detailed tutorial that explains ${inputText || "the process"} in simple
       }
       /* Accessibility focus styles */
       button:focus, a:focus, input:focus, textarea:focus {
-        outline: 2px solid #4A90E2;
+        outline: 2px solid hsl(var(--ring));
         outline-offset: 2px;
       }
       /* Mobile optimizations */
@@ -678,6 +716,11 @@ Create a detailed tutorial that explains ${inputText || "the process"} in simple
     };
   }, [chatMode]);
 
+  // Start a guided chat, carrying over whatever was typed in the hero input
+  const startChat = () => {
+    navigate("/chat", { state: inputText.trim() ? { initialMessage: inputText } : undefined });
+  };
+
   // Scroll to top function
   const scrollToTop = () => {
     window.scrollTo({
@@ -685,14 +728,25 @@ Create a detailed tutorial that explains ${inputText || "the process"} in simple
       behavior: 'smooth'
     });
     
-    // Focus on the input field after scrolling
-    setTimeout(() => {
-      if (!showChatUI) {
-        setShowChatUI(true);
-      }
-    }, 500);
+    // Open the chat after scrolling
+    setTimeout(startChat, 500);
   };
 
+  // Older links opened sessions at /?session=<id>; they now live at /chat/<id>
+  useEffect(() => {
+    const sessionId = searchParams.get("session");
+    if (sessionId) {
+      navigate(`/chat/${sessionId}`, { replace: true });
+    }
+  }, [searchParams, navigate]);
+
+  // Links from the app shell point at sections of this page, e.g. /#pricing
+  useEffect(() => {
+    if (location.hash) {
+      document.getElementById(location.hash.slice(1))?.scrollIntoView({ behavior: "smooth" });
+    }
+  }, [location.hash]);
+
   // Set up carousel animation
   useEffect(() => {
     // Add CSS for carousel animation
@@ -717,188 +771,179 @@ Create a detailed tutorial that explains ${inputText || "the process"} in simple
     };
   }, []);
 
-  // Track animation progress and coordinate
-  useEffect(() => {
-    if (!showChatUI) return;
-    
-    // Setup animation for mode transitions
-    const setupAnimations = () => {
-      // Listen for CSS transition end
-      const tabs = document.querySelectorAll('.mode-tab');
-      tabs.forEach((tab) => {
-        tab.addEventListener('transitionend', (e: Event) => {
-          const target = e.target as HTMLElement;
-          if (target.classList.contains('active-tab')) {
-            target.classList.add('animation-complete');
-          }
-        });
-      });
-    };
-    
-    // Setup animations after component mounts
-    setupAnimations();
-    
-    // Clean up animations on component unmount
-    return () => {
-      const tabs = document.querySelectorAll('.mode-tab');
-      tabs.forEach((tab) => {
-        tab.removeEventListener('transitionend', () => {});
-      });
-    };
-  }, [showChatUI]);
-
   return (
-    <div className="min-h-screen bg-white">
+    <div className="min-h-screen bg-background">
       {/* Header - CrackedPrompts */}
-      <header className="border-b border-gray-100 py-5 px-6 fixed w-full bg-white z-50">
+      <header className="border-b border-border py-5 px-6 fixed w-full bg-background z-50">
         <div className="max-w-7xl mx-auto flex items-center justify-between">
           <div className="flex items-center">
             <span className="text-xl md:text-2xl uppercase font-['Poppins']">
-              <span className="font-bold italic text-[#E24B0F]">CRACKED</span>{' '}
-              <span className="font-light text-[#E24B0F]">PROMPTS</span>
+              <span className="font-bold italic text-brand">CRACKED</span>{' '}
+              <span className="font-light text-brand">PROMPTS</span>
             </span>
           </div>
           <div className="flex items-center gap-8">
-            <a href="/" className="text-gray-700 hover:text-gray-900 text-sm font-medium">Home</a>
-            <a href="#features" className="text-gray-700 hover:text-gray-900 text-sm font-medium">Features</a>
-            <a href="#how-it-works" className="text-gray-700 hover:text-gray-900 text-sm font-medium">How It Works</a>
-            <a href="#testimonials" className="text-gray-700 hover:text-gray-900 text-sm font-medium">Testimonials</a>
-            <button className="bg-[#E24B0F] hover:bg-[#C13D0A] text-white text-sm font-medium px-4 py-2 rounded-lg transition-colors shadow-sm">
-              Sign Up
-            </button>
+            <a href="/" className="text-foreground/80 hover:text-foreground text-sm font-medium">{t("home.nav.home")}</a>
+            <a href="#features" className="text-foreground/80 hover:text-foreground text-sm font-medium">{t("home.nav.features")}</a>
+            <a href="#how-it-works" className="text-foreground/80 hover:text-foreground text-sm font-medium">{t("home.nav.howItWorks")}</a>
+            <a href="#testimonials" className="text-foreground/80 hover:text-foreground text-sm font-medium">{t("home.nav.testimonials")}</a>
+            <Link to="/library" className="flex items-center text-foreground/80 hover:text-foreground text-sm font-medium">
+              <Save className="w-4 h-4 me-1.5" />
+              {t("nav.library")}
+            </Link>
+            {user ? (
+              <Link to="/account" className="flex items-center text-foreground/80 hover:text-foreground text-sm font-medium max-w-[12rem]">
+                <UserRound className="w-4 h-4 me-1.5 shrink-0" />
+                <span className="truncate">{user.email}</span>
+              </Link>
+            ) : (
+              <Link to="/login?mode=signup" className="bg-brand hover:bg-brand-strong text-brand-foreground text-sm font-medium px-4 py-2 rounded-lg transition-colors shadow-sm">
+                {t("home.nav.signUp")}
+              </Link>
+            )}
+            <div className="flex items-center gap-1">
+              <LanguageSwitcher />
+              <ThemeToggle />
+            </div>
           </div>
         </div>
       </header>
 
       {/* Hero Section - CrackedPrompts */}
-      <section className="pt-40 pb-24 px-6 bg-white">
+      <section className="pt-40 pb-24 px-6 bg-background">
         <div className="max-w-5xl mx-auto text-center">
-          <h1 className="text-5xl md:text-6xl font-bold text-gray-900 mb-8">
-            Great ideas begin with a prompt.
+          <h1 className="text-5xl md:text-6xl font-bold text-foreground mb-8">
+            {t("home.hero.title")}
           </h1>
-          <p className="text-xl text-gray-700 mb-12 max-w-3xl mx-auto leading-relaxed">
-            Let's connect your innermost thoughts into effective prompts for any AI model
+          <p className="text-xl text-foreground/80 mb-12 max-w-3xl mx-auto leading-relaxed">
+            {t("home.hero.subtitle")}
           </p>
           
           {/* Standalone entry field in hero section */}
-          {!showChatUI && (
-            <div className="max-w-[600px] mx-auto mb-14 flex items-center">
-              <div className="relative flex-1">
-                <div className="absolute left-4 top-1/2 transform -translate-y-1/2 text-gray-400">
-                  <Lightbulb className="w-5 h-5" />
-                </div>
-                <input
-                  type="text"
-                  value={inputText}
-                  onChange={handleInputChange}
-                  onKeyPress={(e) => e.key === 'Enter' && inputText.trim() && setShowChatUI(true)}
-                  placeholder="What's on your mind?"
-                  className="w-full h-[56px] bg-[#F7F7F8] text-[#333] rounded-full px-12 py-3 border border-[#E0E0E0] focus:outline-none focus:ring-2 focus:ring-[#E24B0F] focus:border-transparent shadow-sm"
-                  aria-label="Enter your idea"
-                />
+          <div className="max-w-[600px] mx-auto mb-14 flex items-center">
+            <div className="relative flex-1">
+              <div className="absolute start-4 top-1/2 transform -translate-y-1/2 text-muted-foreground/70">
+                <Lightbulb className="w-5 h-5" />
               </div>
-              <button
-                onClick={() => {
-                  if (inputText.trim()) {
-                    // Track analytics event
-                    trackAnalyticsEvent('engagement', 'hero_prompt_submit', 'from_hero');
-                    // Show the ChatUI to start the guided prompt generation process
-                    setShowChatUI(true);
-                  }
-                }}
-                disabled={!inputText.trim()}
-                className="ml-4 h-[56px] px-6 bg-[#E24B0F] hover:bg-[#D35400] text-white font-medium rounded-full flex items-center justify-center transition-colors disabled:opacity-50 disabled:cursor-not-allowed shadow-sm"
-                aria-label="Generate prompt"
-              >
-                <span>Generate Prompt</span>
-                <Sparkles className="ml-2 w-4 h-4" />
-              </button>
-            </div>
-          )}
-          
-          {/* Chat UI Component - Displayed when showChatUI is true */}
-          {showChatUI && (
-            <div className="mt-8 transition-all duration-500 ease-in-out animate-fadeIn">
-              <ChatUI 
-                onClose={() => {
-                  // Only close when the user explicitly clicks the close button
-                  setShowChatUI(false);
-                  // Reset the input if user closes the chat
-                  setInputText("");
-                }} 
-                initialMessage={inputText}
+              <input
+                type="text"
+                value={inputText}
+                onChange={handleInputChange}
+                onKeyPress={(e) => e.key === 'Enter' && inputText.trim() && startChat()}
+                placeholder={t("home.hero.placeholder")}
+                className="w-full h-[56px] bg-muted text-foreground rounded-full px-12 py-3 border border-border focus:outline-none focus:ring-2 focus:ring-brand focus:border-transparent shadow-sm"
+                aria-label={t("home.hero.inputLabel")}
               />
             </div>
-          )}
+            <button
+              onClick={() => {
+                if (inputText.trim()) {
+                  // Track analytics event
+                  trackAnalyticsEvent('engagement', 'hero_prompt_submit', 'from_hero');
+                  // Open the chat to start the guided prompt generation process
+                  startChat();
+                }
+              }}
+              disabled={!inputText.trim()}
+              className="ms-4 h-[56px] px-6 bg-brand hover:bg-brand-strong text-brand-foreground font-medium rounded-full flex items-center justify-center transition-colors disabled:opacity-50 disabled:cursor-not-allowed shadow-sm"
+              aria-label={t("home.hero.generate")}
+            >
+              <span>{t("home.hero.generate")}</span>
+              <Sparkles className="ms-2 w-4 h-4" />
+            </button>
+          </div>
+          
+          {/* Saved sessions - resume where the user left off */}
+          <RecentSessions
+            className="-mt-6 mb-14"
+            onResume={(sessionId) => {
+              trackAnalyticsEvent('engagement', 'session_resume', 'from_hero');
+              navigate(`/chat/${sessionId}`);
+            }}
+          />
           
           {/* Text above AI model logos */}
-          <p className="text-gray-700 mb-6 mt-12">
-            Generate powerful prompts for any AI assistant
+          <p className="text-foreground/80 mb-6 mt-12">
+            {targetModel
+              ? tRich("home.models.formattedFor", { model: <span className="font-medium text-brand">{targetModel.label}</span> })
+              : t("home.models.pick")}
           </p>
           
-          {/* Horizontal scroll of AI model logos - Carousel style */}
+          {/* Horizontal scroll of AI model logos - doubles as the target model picker */}
           <div className="relative w-full overflow-hidden mb-12">
             <div 
               ref={scrollRef}
-              className="flex gap-10 py-8 animate-carousel"
+              className="flex gap-10 py-8 animate-carousel hover:[animation-play-state:paused]"
               style={{
                 whiteSpace: 'nowrap'
               }}
             >
               {/* Double the logos for seamless looping */}
-              {[...aiModels, ...aiModels].map((model, index) => (
-                <div key={index} className="flex flex-col items-center min-w-[120px] inline-block">
-                  <div className="w-16 h-16 rounded-full bg-white border border-[#E0E0E0] shadow-sm flex items-center justify-center mb-3 hover:bg-[#F8F8F8] transition-colors">
-                    <img 
-                      src={`/ai-logos/${model.toLowerCase().replace(' ', '-')}.svg`} 
-                      alt={`${model} logo`}
-                      className="w-10 h-10 opacity-80"
-                      onError={(e) => {
-                        // Fallback to generic AI icon if SVG not found
-                        e.currentTarget.src = '/ai-logos/generic-ai.svg';
-                      }}
-                    />
-                  </div>
-                  <span className="text-sm text-gray-600">{model}</span>
-                </div>
-              ))}
+              {[...TARGET_MODELS, ...TARGET_MODELS].map((model, index) => {
+                const isSelected = model.id === targetModelId;
+                return (
+                  <button
+                    key={index}
+                    type="button"
+                    aria-pressed={isSelected}
+                    title={t(isSelected ? "home.models.stopFormatting" : "home.models.formatFor", { model: model.label })}
+                    onClick={() => setTargetModelId(isSelected ? null : model.id)}
+                    className="flex flex-col items-center min-w-[120px] inline-block focus:outline-none group"
+                  >
+                    <div className={`w-16 h-16 rounded-full bg-background border shadow-sm flex items-center justify-center mb-3 transition-colors group-hover:bg-muted group-focus-visible:ring-2 group-focus-visible:ring-brand ${
+                      isSelected ? 'border-brand ring-2 ring-brand ring-offset-2' : 'border-border'
+                    }`}>
+                      <img 
+                        src={model.logo} 
+                        alt={t("home.models.logo", { model: model.provider })}
+                        className={`w-10 h-10 ${isSelected ? 'opacity-100' : 'opacity-80'}`}
+                        onError={(e) => {
+                          // Fallback to generic AI icon if SVG not found
+                          e.currentTarget.src = '/ai-logos/generic-ai.svg';
+                        }}
+                      />
+                    </div>
+                    <span className={`text-sm ${isSelected ? 'text-brand font-medium' : 'text-muted-foreground'}`}>{model.provider}</span>
+                  </button>
+                );
+              })}
             </div>
           </div>
           
           {/* Subheadlines */}
           <div className="grid grid-cols-1 md:grid-cols-3 gap-8 mb-16">
-            <div className="bg-white p-6 rounded-lg shadow-sm border border-[#E0E0E0] hover:shadow-md transition-all duration-300">
-              <h3 className="text-lg font-semibold text-[#E24B0F] mb-3">Unlocks your hidden ideas</h3>
-              <p className="text-gray-600 text-sm leading-relaxed">Discover insights you didn't know you had through our guided prompt refinement</p>
+            <div className="bg-background p-6 rounded-lg shadow-sm border border-border hover:shadow-md transition-all duration-300">
+              <h3 className="text-lg font-semibold text-brand mb-3">{t("home.pillars.ideas.title")}</h3>
+              <p className="text-muted-foreground text-sm leading-relaxed">{t("home.pillars.ideas.description")}</p>
             </div>
-            <div className="bg-white p-6 rounded-lg shadow-sm border border-[#E0E0E0] hover:shadow-md transition-all duration-300">
-              <h3 className="text-lg font-semibold text-[#E24B0F] mb-3">Crafting powerful, original questions</h3>
-              <p className="text-gray-600 text-sm leading-relaxed">Transform vague thoughts into precise, actionable prompts that get results</p>
+            <div className="bg-background p-6 rounded-lg shadow-sm border border-border hover:shadow-md transition-all duration-300">
+              <h3 className="text-lg font-semibold text-brand mb-3">{t("home.pillars.questions.title")}</h3>
+              <p className="text-muted-foreground text-sm leading-relaxed">{t("home.pillars.questions.description")}</p>
             </div>
-            <div className="bg-white p-6 rounded-lg shadow-sm border border-[#E0E0E0] hover:shadow-md transition-all duration-300">
-              <h3 className="text-lg font-semibold text-[#E24B0F] mb-3">Maximize AI's potential</h3>
-              <p className="text-gray-600 text-sm leading-relaxed">Unlock the full capabilities of AI models with expertly crafted prompts</p>
+            <div className="bg-background p-6 rounded-lg shadow-sm border border-border hover:shadow-md transition-all duration-300">
+              <h3 className="text-lg font-semibold text-brand mb-3">{t("home.pillars.potential.title")}</h3>
+              <p className="text-muted-foreground text-sm leading-relaxed">{t("home.pillars.potential.description")}</p>
             </div>
           </div>
         </div>
       </section>
 
       {/* Features Section */}
-      <section id="features" className="py-16 bg-gray-50 px-4">
+      <section id="features" className="py-16 bg-muted/50 px-4">
         <div className="max-w-6xl mx-auto">
-          <h2 className="text-3xl font-bold text-center mb-12">Why Crack Open Your Ideas Here?</h2>
+          <h2 className="text-3xl font-bold text-center mb-12">{t("home.features.title")}</h2>
           
           <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
-            {features.map((feature, index) => (
+            {features.map(feature => (
               <div 
-                key={index} 
+                key={feature.id} 
                 className={`${feature.bgColor} p-6 rounded-xl shadow-md ${feature.animationClass} transition-all duration-300`}
               >
                 <div className="w-12 h-12 bg-white/20 rounded-full flex items-center justify-center mb-4">
                   {feature.icon}
                 </div>
-                <h3 className={`text-xl font-semibold mb-2 ${feature.textColor}`}>{feature.title}</h3>
-                <p className={`${feature.textColor} opacity-90`}>{feature.description}</p>
+                <h3 className={`text-xl font-semibold mb-2 ${feature.textColor}`}>{t(`home.features.${feature.id}.title`)}</h3>
+                <p className={`${feature.textColor} opacity-90`}>{t(`home.features.${feature.id}.description`)}</p>
               </div>
             ))}
           </div>
@@ -906,215 +951,186 @@ Create a detailed tutorial that explains ${inputText || "the process"} in simple
       </section>
 
       {/* How It Works Section */}
-      <section id="how-it-works" className="py-16 px-4 bg-white">
+      <section id="how-it-works" className="py-16 px-4 bg-background">
         <div className="max-w-6xl mx-auto">
-          <h2 className="text-3xl font-bold text-center mb-12">Your Journey to Genius Prompts</h2>
+          <h2 className="text-3xl font-bold text-center mb-12">{t("home.steps.title")}</h2>
           
           <div className="relative">
             {/* Vertical line */}
-            <div className="absolute left-1/2 transform -translate-x-1/2 h-full w-1 bg-gray-200"></div>
+            <div className="absolute left-1/2 transform -translate-x-1/2 h-full w-1 bg-muted"></div>
             
             {/* Timeline items */}
             <div className="space-y-16">
-              {/* Step 1: Spark Your Idea */}
-              <div className="relative flex items-center">
-                {/* Timeline bubble */}
-                <div className="absolute left-1/2 transform -translate-x-1/2">
-                  <div className="bg-[#4A90E2] w-16 h-16 rounded-full flex items-center justify-center animate-bounce shadow-[0_0_15px_rgba(74,144,226,0.5)]">
-                    <Zap className="w-8 h-8 text-white" />
-                </div>
-              </div>
-                
-                {/* Content */}
-                <div className="w-1/2 pr-12 text-right">
-                  <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 hover:shadow-md transition-all duration-300 hover:scale-105">
-                    <h3 className="text-xl font-semibold mb-2 text-[#4A90E2]">Spark Your Idea</h3>
-                    <p className="text-gray-600">Share your initial concept, and we'll begin crafting the perfect prompt.</p>
-                    <div className="mt-2">
-                      <TooltipProvider>
-                        <Tooltip>
-                          <TooltipTrigger asChild>
-                            <div className="inline-flex items-center text-[#4A90E2] text-sm cursor-help">
-                              <Info className="h-4 w-4 mr-1" />
-                              <span>Click "Begin" to start!</span>
-          </div>
-                          </TooltipTrigger>
-                          <TooltipContent className="p-2 max-w-xs animate-fadeIn">
-                            <p>Start with a simple idea and watch it transform.</p>
-                          </TooltipContent>
-                        </Tooltip>
-                      </TooltipProvider>
-        </div>
-                  </div>
-                </div>
-              </div>
-              
-              {/* Step 2: Unleash Creativity */}
-              <div className="relative flex items-center">
-                {/* Timeline bubble */}
-                <div className="absolute left-1/2 transform -translate-x-1/2">
-                  <div className="bg-[#9B59B6] w-16 h-16 rounded-full flex items-center justify-center animate-bounce shadow-[0_0_15px_rgba(155,89,182,0.5)]" style={{ animationDelay: '0.2s' }}>
-                    <Sparkles className="w-8 h-8 text-white" />
-                </div>
-                </div>
-                
-                {/* Content */}
-                <div className="w-1/2 pl-12 ml-auto">
-                  <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 hover:shadow-md transition-all duration-300 hover:scale-105">
-                    <h3 className="text-xl font-semibold mb-2 text-[#9B59B6]">Unleash Creativity</h3>
-                    <p className="text-gray-600">Explore your concept through our Quick Mode, generating practical prompts.</p>
-                    <div className="mt-2">
-                      <TooltipProvider>
-                        <Tooltip>
-                          <TooltipTrigger asChild>
-                            <div className="inline-flex items-center text-[#9B59B6] text-sm cursor-help">
-                              <Info className="h-4 w-4 mr-1" />
-                              <span>Interact with the chat!</span>
-                            </div>
-                          </TooltipTrigger>
-                          <TooltipContent className="p-2 max-w-xs animate-fadeIn">
-                            <p>Exchange messages to refine your prompt.</p>
-                          </TooltipContent>
-                        </Tooltip>
-                      </TooltipProvider>
+              {promptSteps.map((step, index) => {
+                const StepIcon = step.icon;
+                return (
+                  <div key={step.id} className="relative flex items-center">
+                    {/* Timeline bubble */}
+                    <div className="absolute left-1/2 transform -translate-x-1/2">
+                      <div
+                        className={`${step.bubbleClassName} w-16 h-16 rounded-full flex items-center justify-center animate-bounce`}
+                        style={{ animationDelay: step.delay }}
+                      >
+                        <div className="relative">
+                          <StepIcon className="w-8 h-8 text-white" />
+                          {step.ping && <div className="absolute top-0 end-0 w-3 h-3 bg-[#F1C40F] rounded-full animate-ping"></div>}
+                        </div>
+                      </div>
                     </div>
-                  </div>
-                </div>
-              </div>
-              
-              {/* Step 3: Elevate with Insight */}
-              <div className="relative flex items-center">
-                {/* Timeline bubble */}
-                <div className="absolute left-1/2 transform -translate-x-1/2">
-                  <div className="bg-[#7B3F9B] w-16 h-16 rounded-full flex items-center justify-center animate-bounce shadow-[0_0_15px_rgba(123,63,155,0.5)]" style={{ animationDelay: '0.4s' }}>
-                    <Wand2 className="w-8 h-8 text-white" />
-                  </div>
-                </div>
-                
-                {/* Content */}
-                <div className="w-1/2 pr-12 text-right">
-                  <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 hover:shadow-md transition-all duration-300 hover:scale-105">
-                    <h3 className="text-xl font-semibold mb-2 text-[#7B3F9B]">Elevate with Insight</h3>
-                    <p className="text-gray-600">Unlock CreativeFlow mode for more nuanced, imaginative prompts.</p>
-                    <div className="mt-2">
-                      <TooltipProvider>
-                        <Tooltip>
-                          <TooltipTrigger asChild>
-                            <div className="inline-flex items-center text-[#7B3F9B] text-sm cursor-help">
-                              <Info className="h-4 w-4 mr-1" />
-                              <span>Swipe left after 3 exchanges!</span>
-                            </div>
-                          </TooltipTrigger>
-                          <TooltipContent className="p-2 max-w-xs animate-fadeIn">
-                            <p>Advance to more creative prompt generation.</p>
-                          </TooltipContent>
-                        </Tooltip>
-                      </TooltipProvider>
-                    </div>
-                  </div>
-                </div>
-              </div>
-              
-              {/* Step 4: Crack Open Brilliance */}
-              <div className="relative flex items-center">
-                {/* Timeline bubble */}
-                <div className="absolute left-1/2 transform -translate-x-1/2">
-                  <div className="bg-[#4A2A6F] w-16 h-16 rounded-full flex items-center justify-center animate-bounce shadow-[0_0_15px_rgba(74,42,111,0.5)]" style={{ animationDelay: '0.6s' }}>
-                    <div className="relative">
-                      <Lightbulb className="w-8 h-8 text-white" />
-                      <div className="absolute top-0 right-0 w-3 h-3 bg-[#F1C40F] rounded-full animate-ping"></div>
-                    </div>
-                  </div>
-                </div>
-                
-                {/* Content */}
-                <div className="w-1/2 pl-12 ml-auto">
-                  <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 hover:shadow-md transition-all duration-300 hover:scale-105">
-                    <h3 className="text-xl font-semibold mb-2 text-[#4A2A6F]">Crack Open Brilliance</h3>
-                    <p className="text-gray-600">Reach Crack'd AF mode for the most innovative, boundary-pushing prompts.</p>
-                    <div className="mt-2">
-                      <TooltipProvider>
-                        <Tooltip>
-                          <TooltipTrigger asChild>
-                            <div className="inline-flex items-center text-[#4A2A6F] text-sm cursor-help">
-                              <Info className="h-4 w-4 mr-1" />
-                              <span>Unlock after 6 exchanges!</span>
-                            </div>
-                          </TooltipTrigger>
-                          <TooltipContent className="p-2 max-w-xs animate-fadeIn">
-                            <p>Experience our most powerful prompt generation.</p>
-                          </TooltipContent>
-                        </Tooltip>
-                      </TooltipProvider>
+
+                    {/* Content, alternating sides of the line */}
+                    <div className={index % 2 === 0 ? "w-1/2 pe-12 text-end" : "w-1/2 ps-12 ms-auto"}>
+                      <div className="bg-background p-6 rounded-xl shadow-sm border border-border hover:shadow-md transition-all duration-300 hover:scale-105">
+                        <h3 className={`text-xl font-semibold mb-2 ${step.textClassName}`}>{t(`home.steps.${step.id}.title`)}</h3>
+                        <p className="text-muted-foreground">{t(`home.steps.${step.id}.description`)}</p>
+                        <div className="mt-2">
+                          <TooltipProvider>
+                            <Tooltip>
+                              <TooltipTrigger asChild>
+                                <div className={`inline-flex items-center text-sm cursor-help ${step.textClassName}`}>
+                                  <Info className="h-4 w-4 me-1" />
+                                  <span>{t(`home.steps.${step.id}.tip`)}</span>
+                                </div>
+                              </TooltipTrigger>
+                              <TooltipContent className="p-2 max-w-xs animate-fadeIn">
+                                <p>{t(`home.steps.${step.id}.tooltip`)}</p>
+                              </TooltipContent>
+                            </Tooltip>
+                          </TooltipProvider>
+                        </div>
+                      </div>
                     </div>
                   </div>
-                </div>
-              </div>
+                );
+              })}
             </div>
           </div>
         </div>
       </section>
 
       {/* Interactive Prompt Tool */}
-      <section id="prompt-tool" className="py-16 px-4 bg-white">
+      <section id="prompt-tool" className="py-16 px-4 bg-background">
         <div className="max-w-3xl mx-auto">
-          <h2 className="text-3xl font-bold text-center mb-4">Try It Now</h2>
-          <p className="text-center text-gray-600 mb-8">
-            Enter your thoughts below and we'll transform them into a powerful prompt.
+          <h2 className="text-3xl font-bold text-center mb-4">{t("home.tryIt.title")}</h2>
+          <p className="text-center text-muted-foreground mb-8">
+            {t("home.tryIt.subtitle")}
           </p>
 
           <div className="flex justify-center">
             <button
               onClick={scrollToTop}
-              className="bg-[#E24B0F] hover:bg-[#D35400] text-white font-medium px-8 py-4 rounded-lg transition-all duration-300 flex items-center justify-center gap-2 shadow-md hover:shadow-lg text-lg"
+              className="bg-brand hover:bg-brand-strong text-brand-foreground font-medium px-8 py-4 rounded-lg transition-all duration-300 flex items-center justify-center gap-2 shadow-md hover:shadow-lg text-lg"
             >
-              Create Your Prompt
-              <ArrowRight className="w-5 h-5" />
+              {t("home.tryIt.create")}
+              <ArrowRight className="w-5 h-5 rtl:-scale-x-100" />
                 </button>
               </div>
+
+          {/* Notes refiner - turns pasted notes or transcripts into a structured prompt */}
+          <div className="mt-12 text-start">
+            <h3 className="text-xl font-semibold text-foreground mb-2">{t("home.refiner.title")}</h3>
+            <p className="text-muted-foreground text-sm mb-4">
+              {t("home.refiner.description")}
+            </p>
+            <Textarea
+              value={notesText}
+              onChange={(e) => setNotesText(e.target.value)}
+              rows={6}
+              placeholder={t("home.refiner.placeholder")}
+              className="bg-muted focus-visible:ring-brand"
+              aria-label={t("home.refiner.inputLabel")}
+            />
+            <div className="flex items-center justify-between mt-3">
+              <span className="text-xs text-muted-foreground">{t("home.refiner.characters", { count: notesText.length })}</span>
+              <button
+                onClick={handleRefine}
+                disabled={!notesText.trim()}
+                className="bg-brand hover:bg-brand-strong text-brand-foreground text-sm font-medium px-4 py-2 rounded-lg transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Wand2 className="w-4 h-4" />
+                {t("home.refiner.refine")}
+              </button>
+            </div>
+
+            {refinedPrompt && (
+              <div className="mt-6 animate-fadeIn">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="rounded-xl border border-border overflow-hidden">
+                    <div className="px-4 py-2 bg-muted/50 border-b border-border text-xs font-medium uppercase tracking-wide text-muted-foreground">{t("home.refiner.before")}</div>
+                    <pre className="p-4 whitespace-pre-wrap font-sans text-sm text-muted-foreground max-h-80 overflow-y-auto">{refinedFrom}</pre>
+                  </div>
+                  <div className="rounded-xl border border-brand-border overflow-hidden">
+                    <div className="px-4 py-2 bg-brand-soft border-b border-brand-border flex items-center justify-between">
+                      <span className="text-xs font-medium uppercase tracking-wide text-brand-strong">{t("home.refiner.after")}</span>
+                      <button
+                        onClick={copyToClipboard}
+                        className="p-1 rounded-full text-brand-strong hover:bg-background/60 transition-colors"
+                        aria-label={t("home.refiner.copy")}
+                      >
+                        <Copy className="w-4 h-4" />
+                      </button>
+                    </div>
+                    <pre
+                      onClick={copyToClipboard}
+                      className="p-4 whitespace-pre-wrap font-sans text-sm text-foreground max-h-80 overflow-y-auto cursor-pointer"
+                      title={t("home.refiner.clickToCopy")}
+                    >
+                      {refinedPrompt.text}
+                    </pre>
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground mt-2">
+                  {t("home.refiner.summary", {
+                    filler: t("home.refiner.fillerWords", { count: refinedPrompt.fillerRemoved }),
+                    duplicates: t("home.refiner.repeatedInstructions", { count: refinedPrompt.duplicatesRemoved })
+                  })}
+                </p>
+              </div>
+            )}
+          </div>
         </div>
       </section>
 
       {/* Testimonials Section */}
-      <section id="testimonials" className="py-16 px-4 bg-gray-50">
+      <section id="testimonials" className="py-16 px-4 bg-muted/50">
         <div className="max-w-6xl mx-auto">
-          <h2 className="text-3xl font-bold text-center mb-12">What Our Users Are Saying</h2>
+          <h2 className="text-3xl font-bold text-center mb-12">{t("home.testimonials.title")}</h2>
           
           <div className="grid grid-cols-1 md:grid-cols-2 gap-8 justify-center">
             {/* First testimonial */}
             <div 
-              className="bg-white p-8 rounded-xl shadow-md border border-gray-100 w-full md:w-[400px] h-[200px] flex flex-col justify-center transition-all duration-300 hover:scale-105 mx-auto"
+              className="bg-background p-8 rounded-xl shadow-md border border-border w-full md:w-[400px] h-[200px] flex flex-col justify-center transition-all duration-300 hover:scale-105 mx-auto"
               style={{ boxShadow: '0 4px 20px rgba(74, 144, 226, 0.1)' }}
             >
               <p className="text-[#4A90E2] text-lg italic mb-4 font-medium">
-                "Cracked Prompts has revolutionized my writing process—my ideas explode with creativity!"
+                "{t("home.testimonials.sarah.quote")}"
               </p>
               <div className="flex items-center">
-                <div className="w-10 h-10 bg-[#4A90E2] rounded-full mr-3 flex items-center justify-center text-white font-bold">
+                <div className="w-10 h-10 bg-[#4A90E2] rounded-full me-3 flex items-center justify-center text-white font-bold">
                   SK
                 </div>
                 <div>
                   <p className="font-medium">Sarah K.</p>
-                  <p className="text-sm text-gray-500">Novelist</p>
+                  <p className="text-sm text-muted-foreground">{t("home.testimonials.sarah.role")}</p>
                 </div>
               </div>
             </div>
             
             {/* Second testimonial */}
             <div 
-              className="bg-white p-8 rounded-xl shadow-md border border-gray-100 w-full md:w-[400px] h-[200px] flex flex-col justify-center transition-all duration-300 hover:scale-105 mx-auto"
+              className="bg-background p-8 rounded-xl shadow-md border border-border w-full md:w-[400px] h-[200px] flex flex-col justify-center transition-all duration-300 hover:scale-105 mx-auto"
               style={{ boxShadow: '0 4px 20px rgba(155, 89, 182, 0.1)' }}
             >
               <p className="text-[#9B59B6] text-lg italic mb-4 font-medium">
-                "I never run out of ideas thanks to this amazing tool—it's pure brilliance!"
+                "{t("home.testimonials.alex.quote")}"
               </p>
               <div className="flex items-center">
-                <div className="w-10 h-10 bg-[#9B59B6] rounded-full mr-3 flex items-center justify-center text-white font-bold">
+                <div className="w-10 h-10 bg-[#9B59B6] rounded-full me-3 flex items-center justify-center text-white font-bold">
                   AM
                 </div>
                 <div>
                   <p className="font-medium">Alex M.</p>
-                  <p className="text-sm text-gray-500">Content Creator</p>
+                  <p className="text-sm text-muted-foreground">{t("home.testimonials.alex.role")}</p>
                 </div>
               </div>
             </div>
@@ -1122,33 +1138,90 @@ Create a detailed tutorial that explains ${inputText || "the process"} in simple
         </div>
       </section>
 
+      {/* Pricing Section - the usage limit overlay links here */}
+      <section id="pricing" className="py-16 px-4 bg-background">
+        <div className="max-w-4xl mx-auto">
+          <h2 className="text-3xl font-bold text-center mb-4">{t("home.pricing.title")}</h2>
+          <p className="text-center text-muted-foreground mb-12">
+            {t("home.pricing.subtitle")}
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+            {pricingPlans.map(plan => (
+              <div
+                key={plan.id}
+                className={`rounded-xl p-8 border ${plan.highlighted ? "border-brand shadow-lg bg-brand-subtle" : "border-border shadow-sm bg-background"}`}
+              >
+                <h3 className="text-xl font-semibold text-foreground">{t(`home.pricing.${plan.id}.name`)}</h3>
+                <p className="mt-2 mb-4">
+                  <span className="text-4xl font-bold text-foreground">{plan.price}</span>
+                  <span className="text-muted-foreground ms-1">{t(`home.pricing.${plan.id}.period`)}</span>
+                </p>
+                <p className="text-sm text-muted-foreground mb-6">{t(`home.pricing.${plan.id}.description`)}</p>
+                <ul className="space-y-2 mb-8">
+                  {plan.features.map(feature => (
+                    <li key={feature} className="flex items-start text-sm text-foreground/80">
+                      <CheckCircle className="w-4 h-4 me-2 mt-0.5 text-brand flex-shrink-0" />
+                      {t(feature)}
+                    </li>
+                  ))}
+                </ul>
+                {plan.highlighted ? (
+                  <button
+                    onClick={() => {
+                      trackAnalyticsEvent('conversion', 'upgrade_clicked', 'pricing');
+                      toast({
+                        title: t("home.pricing.toast.title"),
+                        description: t("home.pricing.toast.description"),
+                      });
+                    }}
+                    className="w-full bg-brand hover:bg-brand-strong text-brand-foreground font-medium py-3 rounded-lg transition-colors"
+                  >
+                    {t("home.pricing.upgrade")}
+                  </button>
+                ) : (
+                  <div className="text-center text-sm text-muted-foreground py-3">
+                    {quota
+                      ? tRich("home.pricing.remaining", {
+                          remaining: quota.remaining,
+                          limit: quota.limit,
+                          time: <QuotaCountdown resetsAt={quota.resetsAt} onReset={refreshQuota} className="tabular-nums" />
+                        })
+                      : t("home.pricing.current")}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      </section>
+
       {/* CTA Banner */}
-      <section className="py-20 px-6 bg-[#E24B0F]">
+      <section className="py-20 px-6 bg-brand">
         <div className="max-w-4xl mx-auto text-center">
-          <h2 className="text-3xl font-bold text-white mb-8">Ready to Unlock Your Creativity?</h2>
-          <p className="text-white/80 mb-10 text-lg">Join thousands of users already transforming their ideas with Cracked Prompts.</p>
+          <h2 className="text-3xl font-bold text-white mb-8">{t("home.cta.title")}</h2>
+          <p className="text-white/80 mb-10 text-lg">{t("home.cta.subtitle")}</p>
           <button 
             onClick={scrollToTop}
-            className="bg-white text-[#E24B0F] font-medium px-8 py-4 rounded-lg transition-colors text-lg shadow-lg hover:shadow-xl hover:bg-gray-50"
+            className="bg-background text-brand font-medium px-8 py-4 rounded-lg transition-colors text-lg shadow-lg hover:shadow-xl hover:bg-muted/50"
           >
-            Try It Now
+            {t("home.cta.button")}
           </button>
         </div>
       </section>
 
       {/* Footer */}
-      <footer className="py-10 px-6 bg-white border-t border-gray-100">
+      <footer className="py-10 px-6 bg-background border-t border-border">
         <div className="max-w-7xl mx-auto">
           <div className="flex flex-col md:flex-row justify-between items-center">
             <div className="mb-4 md:mb-0">
               <span className="text-lg uppercase font-['Poppins']">
-                <span className="font-bold italic text-[#E24B0F]">CRACKED</span>{' '}
-                <span className="font-light text-[#E24B0F]">PROMPTS</span>
+                <span className="font-bold italic text-brand">CRACKED</span>{' '}
+                <span className="font-light text-brand">PROMPTS</span>
               </span>
             </div>
-            <div className="text-center md:text-right">
-              <p className="text-gray-500 text-sm">© {new Date().getFullYear()} Cracked Prompts. All rights reserved.</p>
-              <p className="text-gray-400 text-xs mt-2">Your prompts are processed securely and not stored beyond the session</p>
+            <div className="text-center md:text-end">
+              <p className="text-muted-foreground text-sm">{t("home.footer.rights", { year: new Date().getFullYear() })}</p>
+              <p className="text-muted-foreground/70 text-xs mt-2">{t("home.footer.privacy")}</p>
             </div>
           </div>
         </div>
@@ -1156,58 +1229,37 @@ Create a detailed tutorial that explains ${inputText || "the process"} in simple
 
       {/* Usage Limit Overlay */}
       {showUsageLimitOverlay && (
-        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
-          <div className="bg-white p-8 max-w-md mx-4 rounded-xl shadow-xl">
-            <h3 className="text-2xl font-bold mb-4">Usage Limit Reached</h3>
-            <p className="text-gray-600 mb-6">
-              You've reached your free daily limit. Upgrade to Pro for unlimited prompts!
-            </p>
-            <div className="flex gap-4">
-              <button 
-                onClick={() => setShowUsageLimitOverlay(false)}
-                className="px-6 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
-              >
-                Maybe Later
-              </button>
-              <button 
-                onClick={() => {
-                  setShowUsageLimitOverlay(false);
-                  document.getElementById('pricing')?.scrollIntoView({ behavior: 'smooth' });
-                }}
-                className="bg-[#E24B0F] hover:bg-[#C13D0A] text-white font-medium px-6 py-2 rounded-lg transition-colors"
-              >
-                Upgrade Now
-              </button>
-            </div>
-          </div>
-        </div>
+        <UsageLimitDialog
+          onClose={() => setShowUsageLimitOverlay(false)}
+          onUpgrade={() => document.getElementById("pricing")?.scrollIntoView({ behavior: "smooth" })}
+        />
       )}
 
       {/* Response display area - Only shown after submission when in standalone mode */}
-      {!showChatUI && generatedPrompt && (
-        <div className="bg-[#F9F9F9] rounded-lg p-6 mt-6 shadow-sm max-w-3xl mx-auto border border-[#E0E0E0] animate-fadeIn">
+      {generatedPrompt && (
+        <div className="bg-muted rounded-lg p-6 mt-6 shadow-sm max-w-3xl mx-auto border border-border animate-fadeIn">
           <div className="flex justify-between items-center mb-3">
-            <h3 className="text-lg font-medium text-gray-800">Your Generated Prompt</h3>
+            <h3 className="text-lg font-medium text-foreground">Your Generated Prompt</h3>
             <button
               onClick={copyGeneratedPrompt}
-              className="flex items-center gap-2 text-[#E24B0F] hover:text-[#C13D0A] text-sm"
+              className="flex items-center gap-2 text-brand hover:text-brand-strong text-sm"
               aria-label="Copy prompt to clipboard"
             >
               <Copy className="w-4 h-4" />
               <span>{promptCopied ? 'Copied!' : 'Copy'}</span>
             </button>
           </div>
-          <p className="whitespace-pre-wrap text-gray-700">{generatedPrompt}</p>
+          <p className="whitespace-pre-wrap text-foreground/80">{generatedPrompt}</p>
           <div className="flex gap-4 mt-4">
             <button
               onClick={handleRefreshPrompt}
               disabled={refreshCount >= MAX_REFRESHES}
-              className="flex items-center gap-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              className="flex items-center gap-2 px-4 py-2 bg-muted text-foreground/80 rounded-md hover:bg-muted transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             >
               <RefreshCw className="w-4 h-4" />
               <span>Refresh</span>
             </button>
-            <div className="text-xs text-gray-500 flex items-center">
+            <div className="text-xs text-muted-foreground flex items-center">
               {refreshCount}/{MAX_REFRESHES} refreshes used
             </div>
           </div>
@@ -1217,77 +1269,80 @@ Create a detailed tutorial that explains ${inputText || "the process"} in simple
   );
 };
 
-const aiModels = [
-  "OpenAI",
-  "Grok",
-  "Anthropic",
-  "Deepseek",
-  "Perplexity",
-  "Gemini",
-  "Mistral"
-];
+const pricingPlans = [
+  {
+    id: "free",
+    price: "$0",
+    features: ["home.pricing.free.feature1", "home.pricing.free.feature2", "home.pricing.free.feature3"],
+    highlighted: false
+  },
+  {
+    id: "pro",
+    price: "$9",
+    features: ["home.pricing.pro.feature1", "home.pricing.pro.feature2", "home.pricing.pro.feature3"],
+    highlighted: true
+  }
+] as const;
 
+// "How it works" timeline; copy comes from the home.steps.* messages
 const promptSteps = [
   {
-    title: "Spark Your Idea",
-    description: "Enter your thought in the field above.",
-    icon: <Zap className="w-8 h-8 text-[#4A90E2]" />,
-    bubbleColor: "bg-gray-200",
-    animationClass: "animate-bounce",
-    delay: "0s"
+    id: "spark",
+    icon: Zap,
+    bubbleClassName: "bg-[#4A90E2] shadow-[0_0_15px_rgba(74,144,226,0.5)]",
+    textClassName: "text-[#4A90E2]",
+    delay: "0s",
+    ping: false
   },
   {
-    title: "Unleash Creativity",
-    description: "Watch your idea transform in Quick Mode.",
-    icon: <Sparkles className="w-8 h-8 text-[#9B59B6]" />,
-    bubbleColor: "bg-gray-300",
-    animationClass: "animate-bounce",
-    delay: "0.2s"
+    id: "unleash",
+    icon: Sparkles,
+    bubbleClassName: "bg-[#9B59B6] shadow-[0_0_15px_rgba(155,89,182,0.5)]",
+    textClassName: "text-[#9B59B6]",
+    delay: "0.2s",
+    ping: false
   },
   {
-    title: "Elevate with Insight",
-    description: "Dive into CreativeFlow for flair.",
-    icon: <Wand2 className="w-8 h-8 text-[#4A2A6F]" />,
-    bubbleColor: "bg-gray-400",
-    animationClass: "animate-bounce",
-    delay: "0.4s"
+    id: "elevate",
+    icon: Wand2,
+    bubbleClassName: "bg-[#7B3F9B] shadow-[0_0_15px_rgba(123,63,155,0.5)]",
+    textClassName: "text-[#7B3F9B]",
+    delay: "0.4s",
+    ping: false
   },
   {
-    title: "Crack Open Brilliance",
-    description: "Reach Crack'd AF for the ultimate prompt.",
-    icon: <Lightbulb className="w-8 h-8 text-[#F1C40F]" />,
-    bubbleColor: "bg-[#4A2A6F]",
-    animationClass: "animate-bounce",
-    delay: "0.6s"
+    id: "brilliance",
+    icon: Lightbulb,
+    bubbleClassName: "bg-[#4A2A6F] shadow-[0_0_15px_rgba(74,42,111,0.5)]",
+    textClassName: "text-[#4A2A6F]",
+    delay: "0.6s",
+    ping: true
   }
-];
+] as const;
 
 const features = [
   {
+    id: "originality",
     icon: <Zap className="w-6 h-6 text-[#4A90E2]" />,
-    title: "Unleash Originality",
-    description: "Break free with unique prompts, not copies.",
     bgColor: "bg-[#4A90E2]",
     textColor: "text-white",
     animationClass: "hover:animate-pulse"
   },
   {
+    id: "instant",
     icon: <Sparkles className="w-6 h-6 text-[#9B59B6]" />,
-    title: "Spark Creativity Instantly",
-    description: "Quick Mode to Crack'd AF for all levels.",
     bgColor: "bg-[#9B59B6]",
     textColor: "text-white",
     animationClass: "hover:animate-pulse"
   },
   {
+    id: "learn",
     icon: <Lightbulb className="w-6 h-6 text-[#F1C40F]" />,
-    title: "Learn as You Create",
-    description: "Tooltips teach you prompt mastery.",
     bgColor: "bg-[#F1C40F]",
     textColor: "text-white",
     animationClass: "hover:animate-pulse"
   }
-];
+] as const;
 
 const steps = [
   {
@@ -0,0 +1,324 @@
+import { useState, useMemo, type ReactNode } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { Braces, Copy, Folder, MessageSquare, Pencil, Search, Star, Tag, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import PromptVariablesDialog from "@/components/PromptVariablesDialog";
+import TokenEstimate from "@/components/TokenEstimate";
+import { useToast } from "@/hooks/use-toast";
+import { useLibrary } from "@/hooks/use-library";
+import { useTargetModel } from "@/hooks/use-target-model";
+import {
+  filterLibraryEntries,
+  getLibraryFolders,
+  getLibraryTags,
+  parseTags,
+  type LibraryEntry,
+  type LibraryFilters
+} from "@/lib/library";
+import { TARGET_MODELS, getTargetModel } from "@/lib/target-models";
+import { hasPromptVariables } from "@/lib/prompt-variables";
+import type { PromptLevel } from "@/lib/llm";
+import { cn } from "@/lib/utils";
+
+const LEVEL_LABELS: Record<PromptLevel, string> = {
+  quick: "Quick",
+  deepDive: "Deep Dive",
+  crackedUp: "Cracked AF"
+};
+
+const selectClassName = "h-10 rounded-md border border-input bg-background px-3 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring";
+
+interface EntryDraft {
+  title: string;
+  folder: string;
+  tags: string;
+}
+
+const Library = () => {
+  const { entries, isLoaded, updateEntry, deleteEntry, toggleFavorite } = useLibrary();
+  const { toast } = useToast();
+  // Costs for prompts saved without a target model are estimated for the one chosen now
+  const { targetModelId } = useTargetModel();
+  const [searchParams] = useSearchParams();
+  // ?q= comes from the command palette, opening the library on the prompt that was picked
+  const queryParam = searchParams.get("q");
+  const [filters, setFilters] = useState<LibraryFilters>(() => ({ query: queryParam || undefined }));
+  const [seenQueryParam, setSeenQueryParam] = useState(queryParam);
+  if (queryParam !== seenQueryParam) {
+    setSeenQueryParam(queryParam);
+    setFilters(prev => ({ ...prev, query: queryParam || undefined }));
+  }
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<EntryDraft>({ title: "", folder: "", tags: "" });
+  // Entry whose {{placeholders}} are being filled in
+  const [fillingEntry, setFillingEntry] = useState<LibraryEntry | null>(null);
+
+  const folders = useMemo(() => getLibraryFolders(entries), [entries]);
+  const tags = useMemo(() => getLibraryTags(entries), [entries]);
+  const visibleEntries = useMemo(() => filterLibraryEntries(entries, filters), [entries, filters]);
+
+  const updateFilters = (changes: Partial<LibraryFilters>) => {
+    setFilters(prev => ({ ...prev, ...changes }));
+  };
+
+  // Sidebar views are mutually exclusive: all, favorites, one folder or one tag
+  const selectView = (view: Pick<LibraryFilters, "folder" | "tag" | "favoritesOnly">) => {
+    setFilters(prev => ({ ...prev, folder: undefined, tag: undefined, favoritesOnly: undefined, ...view }));
+  };
+
+  const isAllView = filters.folder === undefined && !filters.tag && !filters.favoritesOnly;
+
+  const startEditing = (entry: LibraryEntry) => {
+    setEditingId(entry.id);
+    setDraft({ title: entry.title, folder: entry.folder, tags: entry.tags.join(", ") });
+  };
+
+  const handleSaveEdit = (entry: LibraryEntry) => {
+    updateEntry({
+      ...entry,
+      title: draft.title.trim() || entry.title,
+      folder: draft.folder.trim(),
+      tags: parseTags(draft.tags)
+    })
+      .then(() => setEditingId(null))
+      .catch(error => {
+        console.error("Failed to update library entry:", error);
+        toast({ title: "Couldn't save changes", variant: "destructive" });
+      });
+  };
+
+  const handleCopy = (entry: LibraryEntry) => {
+    navigator.clipboard.writeText(entry.text)
+      .then(() => toast({ title: "Copied to clipboard!", description: "Your prompt is ready to use." }))
+      .catch(() => toast({ title: "Copy failed", description: "Please try again or copy manually.", variant: "destructive" }));
+  };
+
+  const handleDelete = (entry: LibraryEntry) => {
+    deleteEntry(entry.id)
+      .then(() => toast({ title: "Prompt removed", description: `"${entry.title}" was deleted from your library.` }))
+      .catch(error => console.error("Failed to delete library entry:", error));
+  };
+
+  const renderViewButton = (label: string, isActive: boolean, onClick: () => void, icon?: ReactNode) => (
+    <button
+      onClick={onClick}
+      className={cn(
+        "w-full flex items-center text-left px-3 py-2 rounded-lg text-sm transition-colors",
+        isActive ? "bg-brand-soft text-brand font-medium" : "text-foreground/80 hover:bg-muted/50"
+      )}
+    >
+      {icon}
+      <span className="truncate">{label}</span>
+    </button>
+  );
+
+  return (
+    <div className="bg-background">
+      <header className="border-b border-border py-5 px-6">
+        <div className="max-w-6xl mx-auto">
+          <h1 className="text-xl font-semibold text-foreground">Prompt library</h1>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-6 py-8 grid grid-cols-1 md:grid-cols-[240px_1fr] gap-8">
+        {/* Views: everything, favorites, folders and tags */}
+        <aside className="space-y-6">
+          <div className="space-y-1">
+            {renderViewButton("All prompts", isAllView, () => selectView({}))}
+            {renderViewButton("Favorites", Boolean(filters.favoritesOnly), () => selectView({ favoritesOnly: true }), <Star className="w-4 h-4 mr-2" />)}
+            {renderViewButton("Unfiled", filters.folder === "", () => selectView({ folder: "" }), <Folder className="w-4 h-4 mr-2" />)}
+          </div>
+
+          {folders.length > 0 && (
+            <div className="space-y-1">
+              <h2 className="px-3 text-xs font-medium uppercase tracking-wide text-muted-foreground">Folders</h2>
+              {folders.map(folder => (
+                <div key={folder}>
+                  {renderViewButton(folder, filters.folder === folder, () => selectView({ folder }), <Folder className="w-4 h-4 mr-2" />)}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {tags.length > 0 && (
+            <div className="space-y-1">
+              <h2 className="px-3 text-xs font-medium uppercase tracking-wide text-muted-foreground">Tags</h2>
+              {tags.map(tag => (
+                <div key={tag}>
+                  {renderViewButton(tag, filters.tag === tag, () => selectView({ tag }), <Tag className="w-4 h-4 mr-2" />)}
+                </div>
+              ))}
+            </div>
+          )}
+        </aside>
+
+        <section className="space-y-4">
+          {/* Search and filters */}
+          <div className="flex flex-col sm:flex-row gap-3">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground/70" />
+              <Input
+                value={filters.query || ""}
+                onChange={(e) => updateFilters({ query: e.target.value })}
+                placeholder="Search prompts, tags and folders"
+                className="pl-9"
+                aria-label="Search the library"
+              />
+            </div>
+            <select
+              value={filters.level || ""}
+              onChange={(e) => updateFilters({ level: (e.target.value || undefined) as PromptLevel | undefined })}
+              className={selectClassName}
+              aria-label="Filter by tier"
+            >
+              <option value="">All tiers</option>
+              {Object.entries(LEVEL_LABELS).map(([level, label]) => (
+                <option key={level} value={level}>{label}</option>
+              ))}
+            </select>
+            <select
+              value={filters.targetModelId || ""}
+              onChange={(e) => updateFilters({ targetModelId: e.target.value || undefined })}
+              className={selectClassName}
+              aria-label="Filter by target model"
+            >
+              <option value="">Any model</option>
+              {TARGET_MODELS.map(model => (
+                <option key={model.id} value={model.id}>{model.label}</option>
+              ))}
+            </select>
+          </div>
+
+          {isLoaded && entries.length === 0 && (
+            <div className="rounded-xl border border-dashed border-border p-10 text-center text-muted-foreground">
+              <p className="mb-4">Nothing saved yet. Use the bookmark on a generated prompt to keep it here.</p>
+              <Button asChild variant="outline">
+                <Link to="/">Start a conversation</Link>
+              </Button>
+            </div>
+          )}
+
+          {entries.length > 0 && visibleEntries.length === 0 && (
+            <p className="text-sm text-muted-foreground">No saved prompts match these filters.</p>
+          )}
+
+          {visibleEntries.map(entry => (
+            <article key={entry.id} className="rounded-xl border border-border p-4">
+              {editingId === entry.id ? (
+                <div className="space-y-3">
+                  <Input
+                    value={draft.title}
+                    onChange={(e) => setDraft(prev => ({ ...prev, title: e.target.value }))}
+                    aria-label="Title"
+                  />
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    <Input
+                      value={draft.folder}
+                      onChange={(e) => setDraft(prev => ({ ...prev, folder: e.target.value }))}
+                      placeholder="Folder"
+                      list="library-folders"
+                      aria-label="Folder"
+                    />
+                    <Input
+                      value={draft.tags}
+                      onChange={(e) => setDraft(prev => ({ ...prev, tags: e.target.value }))}
+                      placeholder="Tags, separated by commas"
+                      aria-label="Tags"
+                    />
+                  </div>
+                  <div className="flex justify-end gap-2">
+                    <Button variant="ghost" size="sm" onClick={() => setEditingId(null)}>Cancel</Button>
+                    <Button size="sm" className="bg-brand hover:bg-brand-strong" onClick={() => handleSaveEdit(entry)}>
+                      Save
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <>
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="min-w-0">
+                      <h3 className="font-medium text-foreground truncate">{entry.title}</h3>
+                      <div className="flex flex-wrap items-center gap-1.5 mt-1.5">
+                        <Badge variant="secondary">{LEVEL_LABELS[entry.level]}</Badge>
+                        {entry.targetModelId && (
+                          <Badge variant="outline">{getTargetModel(entry.targetModelId)?.label || entry.targetModelId}</Badge>
+                        )}
+                        {entry.folder && (
+                          <span className="flex items-center text-xs text-muted-foreground">
+                            <Folder className="w-3 h-3 mr-1" />
+                            {entry.folder}
+                          </span>
+                        )}
+                        {entry.tags.map(tag => (
+                          <span key={tag} className="text-xs text-brand-strong bg-brand-subtle rounded px-1.5 py-0.5">#{tag}</span>
+                        ))}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => toggleFavorite(entry)}
+                      className="p-1.5 rounded-full hover:bg-brand-soft transition-colors"
+                      aria-label={entry.favorite ? "Remove from favorites" : "Add to favorites"}
+                      aria-pressed={entry.favorite}
+                    >
+                      <Star className={cn("w-4 h-4", entry.favorite ? "fill-brand text-brand" : "text-muted-foreground/70")} />
+                    </button>
+                  </div>
+                  <pre className="mt-3 whitespace-pre-wrap font-sans text-sm text-foreground/80 line-clamp-4">{entry.text}</pre>
+                  <TokenEstimate
+                    text={entry.text}
+                    targetModelId={entry.targetModelId ?? targetModelId}
+                    level={entry.level}
+                    className="mt-2 text-xs text-muted-foreground"
+                  />
+                  <div className="mt-3 flex flex-wrap items-center gap-2">
+                    <Button variant="outline" size="sm" onClick={() => handleCopy(entry)}>
+                      <Copy />
+                      Copy
+                    </Button>
+                    {hasPromptVariables(entry.text) && (
+                      <Button variant="outline" size="sm" onClick={() => setFillingEntry(entry)}>
+                        <Braces />
+                        Fill in
+                      </Button>
+                    )}
+                    <Button variant="outline" size="sm" onClick={() => startEditing(entry)}>
+                      <Pencil />
+                      Edit
+                    </Button>
+                    {entry.sessionId && (
+                      <Button asChild variant="outline" size="sm">
+                        <Link to={`/chat/${entry.sessionId}`}>
+                          <MessageSquare />
+                          Open conversation
+                        </Link>
+                      </Button>
+                    )}
+                    <Button variant="ghost" size="sm" className="ml-auto text-red-600 hover:text-red-700" onClick={() => handleDelete(entry)}>
+                      <Trash2 />
+                      Delete
+                    </Button>
+                  </div>
+                </>
+              )}
+            </article>
+          ))}
+
+          <datalist id="library-folders">
+            {folders.map(folder => <option key={folder} value={folder} />)}
+          </datalist>
+        </section>
+      </main>
+
+      <PromptVariablesDialog
+        key={fillingEntry?.id}
+        open={!!fillingEntry}
+        onOpenChange={(open) => !open && setFillingEntry(null)}
+        text={fillingEntry?.text ?? ""}
+      />
+    </div>
+  );
+};
+
+export default Library;
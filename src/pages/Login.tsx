@@ -0,0 +1,193 @@
+import { useState, useEffect, useRef, type FormEvent } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { ArrowLeft, Loader2, Mail } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import ThemeToggle from "@/components/ThemeToggle";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { requestMagicLink, signIn, signUp, verifyMagicLink } from "@/lib/auth";
+import { cn } from "@/lib/utils";
+
+type LoginMode = "signin" | "signup" | "magic";
+
+const MODE_LABELS: Record<LoginMode, string> = {
+  signin: "Sign in",
+  signup: "Create account",
+  magic: "Email me a link"
+};
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : "Something went wrong. Please try again.";
+
+const Login = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { user, isLoaded } = useAuth();
+
+  const [mode, setMode] = useState<LoginMode>(() => {
+    const requested = searchParams.get("mode");
+    return requested === "signup" || requested === "magic" ? requested : "signin";
+  });
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Where a sign-in or sign-up link was just sent
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  // Magic-link tokens are single use, so only try each one once (StrictMode runs effects twice)
+  const verifiedTokenRef = useRef<string | null>(null);
+
+  const token = searchParams.get("token");
+
+  // Arriving from a sign-in email
+  useEffect(() => {
+    if (!token || verifiedTokenRef.current === token) return;
+    verifiedTokenRef.current = token;
+
+    setIsSubmitting(true);
+    verifyMagicLink(token)
+      .then(() => {
+        toast({ title: "You're signed in", description: "Welcome to Cracked Prompts." });
+        navigate("/account", { replace: true });
+      })
+      .catch(verifyError => {
+        setError(getErrorMessage(verifyError));
+        setMode("magic");
+        setSearchParams({}, { replace: true });
+      })
+      .finally(() => setIsSubmitting(false));
+  }, [token, navigate, setSearchParams, toast]);
+
+  const switchMode = (nextMode: LoginMode) => {
+    setMode(nextMode);
+    setError(null);
+    setSentTo(null);
+  };
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+
+    const request = mode === "signin"
+      ? signIn({ email, password }).then(() => {
+          toast({ title: "You're signed in" });
+          navigate("/");
+        })
+      : (mode === "signup" ? signUp({ email, password }) : requestMagicLink(email)).then(() => setSentTo(email.trim()));
+
+    request
+      .catch(submitError => setError(getErrorMessage(submitError)))
+      .finally(() => setIsSubmitting(false));
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border py-5 px-6">
+        <div className="max-w-6xl mx-auto flex items-center justify-between">
+          <Link to="/" className="flex items-center text-sm text-muted-foreground hover:text-foreground">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Cracked Prompts
+          </Link>
+          <div className="flex items-center gap-3">
+            <h1 className="text-xl font-semibold text-foreground">Your account</h1>
+            <ThemeToggle />
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-md mx-auto px-6 py-12">
+        {isLoaded && user && !token ? (
+          <div className="rounded-xl border border-border p-6 text-center space-y-4">
+            <p className="text-foreground/80">You're signed in as <span className="font-medium">{user.email}</span>.</p>
+            <Button asChild className="bg-brand hover:bg-brand-strong">
+              <Link to="/account">Go to your account</Link>
+            </Button>
+          </div>
+        ) : token && isSubmitting ? (
+          <div className="flex items-center justify-center text-muted-foreground py-10">
+            <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+            Signing you in…
+          </div>
+        ) : (
+          <div className="rounded-xl border border-border p-6">
+            <div className="grid grid-cols-3 gap-1 rounded-lg bg-muted/50 p-1 mb-6" role="tablist">
+              {(Object.keys(MODE_LABELS) as LoginMode[]).map(option => (
+                <button
+                  key={option}
+                  role="tab"
+                  aria-selected={mode === option}
+                  onClick={() => switchMode(option)}
+                  className={cn(
+                    "rounded-md px-2 py-1.5 text-xs sm:text-sm transition-colors",
+                    mode === option ? "bg-background text-brand font-medium shadow-sm" : "text-muted-foreground hover:text-foreground"
+                  )}
+                >
+                  {MODE_LABELS[option]}
+                </button>
+              ))}
+            </div>
+
+            {sentTo ? (
+              <div className="text-center space-y-3 py-4">
+                <Mail className="w-8 h-8 mx-auto text-brand" />
+                <p className="text-foreground/80">
+                  If <span className="font-medium">{sentTo}</span> can receive email,{" "}
+                  {mode === "signup" ? "a link to confirm your account" : "a sign-in link"} is on its way.
+                  It expires in 15 minutes.
+                </p>
+                <Button variant="ghost" size="sm" onClick={() => setSentTo(null)}>Use a different email</Button>
+              </div>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="login-email">Email</Label>
+                  <Input
+                    id="login-email"
+                    type="email"
+                    autoComplete="email"
+                    required
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                  />
+                </div>
+                {mode !== "magic" && (
+                  <div className="space-y-2">
+                    <Label htmlFor="login-password">Password</Label>
+                    <Input
+                      id="login-password"
+                      type="password"
+                      autoComplete={mode === "signup" ? "new-password" : "current-password"}
+                      minLength={mode === "signup" ? 8 : undefined}
+                      required
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                    />
+                    {mode === "signup" && <p className="text-xs text-muted-foreground">At least 8 characters.</p>}
+                  </div>
+                )}
+                {mode === "magic" && (
+                  <p className="text-sm text-muted-foreground">
+                    We'll email you a one-time link. New here? The link creates your account.
+                  </p>
+                )}
+
+                {error && <p className="text-sm text-red-600" role="alert">{error}</p>}
+
+                <Button type="submit" disabled={isSubmitting} className="w-full bg-brand hover:bg-brand-strong">
+                  {isSubmitting && <Loader2 className="animate-spin" />}
+                  {mode === "magic" ? "Send sign-in link" : MODE_LABELS[mode]}
+                </Button>
+              </form>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Login;
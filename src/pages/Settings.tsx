@@ -0,0 +1,168 @@
+import { Link } from "react-router-dom";
+import { Download, Layers, UserRound } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useTargetModel } from "@/hooks/use-target-model";
+import { useI18n } from "@/hooks/use-i18n";
+import { useOutputLanguage } from "@/hooks/use-output-language";
+import { exportFeedback } from "@/lib/feedback";
+import { MODEL_REGISTRY, TARGET_MODELS, type ModelModality } from "@/lib/target-models";
+import { LOCALES, type MessageKey } from "@/lib/i18n";
+import { OUTPUT_LANGUAGES } from "@/lib/output-languages";
+
+const MODALITY_LABELS: Record<ModelModality, MessageKey> = {
+  text: "settings.modality.text",
+  image: "settings.modality.image",
+  audio: "settings.modality.audio",
+  video: "settings.modality.video",
+  file: "settings.modality.file"
+};
+
+const selectClassName = "h-10 w-full rounded-md border border-input bg-background px-3 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring";
+
+const Settings = () => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { targetModelId, targetModel, setTargetModelId } = useTargetModel();
+  const { locale, setLocale, t } = useI18n();
+  const { outputLanguageId, setOutputLanguageId } = useOutputLanguage();
+
+  const formatPrice = (value: number) =>
+    new Intl.NumberFormat(locale, { style: "currency", currency: "USD", maximumFractionDigits: 2 }).format(value);
+
+  const handleExportFeedback = () => {
+    exportFeedback()
+      .then(count => {
+        toast({
+          title: count ? "Feedback exported" : "No feedback yet",
+          description: count
+            ? `Downloaded ${count} rating${count === 1 ? "" : "s"} as JSON.`
+            : "Like or dislike a prompt first.",
+        });
+      })
+      .catch(error => {
+        console.error("Failed to export feedback:", error);
+        toast({ title: "Export failed", description: "Your browser's storage isn't available right now.", variant: "destructive" });
+      });
+  };
+
+  return (
+    <div className="bg-background">
+      <header className="border-b border-border py-5 px-6">
+        <div className="max-w-2xl mx-auto">
+          <h1 className="text-xl font-semibold text-foreground">{t("settings.title")}</h1>
+        </div>
+      </header>
+
+      <main className="max-w-2xl mx-auto px-6 py-8 space-y-6">
+        <section className="rounded-xl border border-border p-6 space-y-2">
+          <Label htmlFor="settings-language" className="font-medium text-foreground">{t("settings.language.label")}</Label>
+          <p className="text-sm text-muted-foreground">{t("settings.language.description")}</p>
+          <select
+            id="settings-language"
+            value={locale}
+            onChange={(e) => setLocale(e.target.value)}
+            className={selectClassName}
+          >
+            {LOCALES.map(item => (
+              <option key={item.code} value={item.code} lang={item.code}>{item.label}</option>
+            ))}
+          </select>
+        </section>
+
+        <section className="rounded-xl border border-border p-6 space-y-2">
+          <Label htmlFor="settings-target-model" className="font-medium text-foreground">{t("settings.targetModel.label")}</Label>
+          <p className="text-sm text-muted-foreground">{t("settings.targetModel.description")}</p>
+          <select
+            id="settings-target-model"
+            value={targetModelId || ""}
+            onChange={(e) => setTargetModelId(e.target.value || null)}
+            className={selectClassName}
+          >
+            <option value="">{t("settings.targetModel.none")}</option>
+            {TARGET_MODELS.map(model => (
+              <option key={model.id} value={model.id}>{model.label}</option>
+            ))}
+          </select>
+          {targetModel && (
+            <p className="text-xs text-muted-foreground">
+              {t("settings.targetModel.summary", {
+                model: targetModel.model,
+                context: targetModel.contextWindow.toLocaleString(locale),
+                modalities: targetModel.modalities.map(modality => t(MODALITY_LABELS[modality])).join(", "),
+                input: formatPrice(targetModel.pricing.input),
+                output: formatPrice(targetModel.pricing.output)
+              })}
+              {!targetModel.systemPrompt && <> {t("settings.targetModel.noSystemPrompt")}</>}
+            </p>
+          )}
+          <p className="text-xs text-muted-foreground/70">
+            {t("settings.targetModel.registry", {
+              version: MODEL_REGISTRY.version,
+              date: new Date(MODEL_REGISTRY.updated).toLocaleDateString(locale, { dateStyle: "medium", timeZone: "UTC" })
+            })}
+          </p>
+        </section>
+
+        <section className="rounded-xl border border-border p-6 space-y-2">
+          <Label htmlFor="settings-output-language" className="font-medium text-foreground">{t("settings.outputLanguage.label")}</Label>
+          <p className="text-sm text-muted-foreground">{t("settings.outputLanguage.description")}</p>
+          <select
+            id="settings-output-language"
+            value={outputLanguageId || ""}
+            onChange={(e) => setOutputLanguageId(e.target.value || null)}
+            className={selectClassName}
+          >
+            <option value="">{t("settings.outputLanguage.asWritten")}</option>
+            {OUTPUT_LANGUAGES.map(language => (
+              <option key={language.id} value={language.id} lang={language.id}>{language.nativeName}</option>
+            ))}
+          </select>
+        </section>
+
+        <section className="rounded-xl border border-border p-6 flex items-center justify-between gap-4">
+          <div>
+            <h2 className="font-medium text-foreground">Prompt modes</h2>
+            <p className="text-sm text-muted-foreground">Edit the questions and tiers of each mode, or add your own.</p>
+          </div>
+          <Button asChild variant="outline">
+            <Link to="/flows">
+              <Layers />
+              Edit modes
+            </Link>
+          </Button>
+        </section>
+
+        <section className="rounded-xl border border-border p-6 flex items-center justify-between gap-4">
+          <div>
+            <h2 className="font-medium text-foreground">Your ratings</h2>
+            <p className="text-sm text-muted-foreground">Download every like and dislike as JSON.</p>
+          </div>
+          <Button variant="outline" onClick={handleExportFeedback}>
+            <Download />
+            Export feedback
+          </Button>
+        </section>
+
+        <section className="rounded-xl border border-border p-6 flex items-center justify-between gap-4">
+          <div>
+            <h2 className="font-medium text-foreground">Account</h2>
+            <p className="text-sm text-muted-foreground">
+              {user ? `Signed in as ${user.email}.` : "Sign in to keep your quota and library with your account."}
+            </p>
+          </div>
+          <Button asChild variant="outline">
+            <Link to={user ? "/account" : "/login"}>
+              <UserRound />
+              {user ? "Manage account" : "Sign in"}
+            </Link>
+          </Button>
+        </section>
+      </main>
+    </div>
+  );
+};
+
+export default Settings;
@@ -0,0 +1,99 @@
+import { useState, useEffect } from "react";
+import { Link, useParams } from "react-router-dom";
+import { Copy, Loader2, Sparkles } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { ApiError } from "@/lib/api";
+import { fetchShare, type SharedPrompt as SharedPromptData } from "@/lib/shares";
+import { getTargetModel } from "@/lib/target-models";
+import type { PromptLevel } from "@/lib/llm";
+
+const LEVEL_LABELS: Record<PromptLevel, string> = {
+  quick: "Quick",
+  deepDive: "Deep Dive",
+  crackedUp: "Cracked AF"
+};
+
+// Read-only view of a prompt someone shared, at /p/:shareId
+const SharedPrompt = () => {
+  const { shareId } = useParams();
+  const { toast } = useToast();
+  const [share, setShare] = useState<SharedPromptData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!shareId) return;
+
+    let cancelled = false;
+    setShare(null);
+    setError(null);
+    fetchShare(shareId)
+      .then(result => {
+        if (!cancelled) setShare(result);
+      })
+      .catch(fetchError => {
+        if (cancelled) return;
+        setError(fetchError instanceof ApiError && fetchError.status === 404
+          ? "This shared prompt doesn't exist or was removed."
+          : "Couldn't load this prompt. Please try again later.");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [shareId]);
+
+  const handleCopy = () => {
+    if (!share) return;
+    navigator.clipboard.writeText(share.text)
+      .then(() => toast({ title: "Copied to clipboard!", description: "Your prompt is ready to use." }))
+      .catch(() => toast({ title: "Copy failed", description: "Please try again or copy manually.", variant: "destructive" }));
+  };
+
+  return (
+    <main className="max-w-3xl mx-auto w-full px-6 py-10">
+      {error ? (
+        <div className="rounded-xl border border-dashed border-border p-10 text-center text-muted-foreground">
+          <p className="mb-4">{error}</p>
+          <Button asChild variant="outline">
+            <Link to="/chat">Make your own prompt</Link>
+          </Button>
+        </div>
+      ) : !share ? (
+        <div className="flex items-center justify-center text-muted-foreground py-10">
+          <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+          Loading prompt…
+        </div>
+      ) : (
+        <article className="rounded-xl border border-border overflow-hidden">
+          <div className="p-5 border-b border-border bg-brand-subtle">
+            <h1 className="text-xl font-semibold text-foreground">{share.title}</h1>
+            <div className="flex flex-wrap items-center gap-1.5 mt-2 text-xs text-muted-foreground">
+              <Badge variant="secondary">{LEVEL_LABELS[share.level]}</Badge>
+              {share.targetModelId && (
+                <Badge variant="outline">For {getTargetModel(share.targetModelId)?.label || share.targetModelId}</Badge>
+              )}
+              <span>Shared {new Date(share.createdAt).toLocaleDateString()}</span>
+            </div>
+          </div>
+          <pre className="p-5 whitespace-pre-wrap font-sans text-sm text-foreground">{share.text}</pre>
+          <div className="px-5 py-3 border-t border-border bg-muted/50 flex flex-wrap items-center gap-2">
+            <Button variant="outline" size="sm" onClick={handleCopy}>
+              <Copy />
+              Copy
+            </Button>
+            <Button asChild size="sm" className="ml-auto bg-brand hover:bg-brand-strong">
+              <Link to="/chat">
+                <Sparkles />
+                Make your own
+              </Link>
+            </Button>
+          </div>
+        </article>
+      )}
+    </main>
+  );
+};
+
+export default SharedPrompt;
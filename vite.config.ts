@@ -1,35 +1,45 @@
-import { defineConfig } from "vite";
+import { defineConfig, loadEnv } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 
 // https://vitejs.dev/config/
-export default defineConfig({
-  plugins: [react()],
-  resolve: {
-    alias: {
-      "@": path.resolve(__dirname, "./src"),
+export default defineConfig(({ mode }) => {
+  // All variables, not just VITE_ ones, so the proxy finds the API server's port in .env
+  const env = loadEnv(mode, process.cwd(), "");
+
+  return {
+    plugins: [react()],
+    resolve: {
+      alias: {
+        "@": path.resolve(__dirname, "./src"),
+      },
     },
-  },
-  build: {
-    target: 'esnext',
-    minify: 'esbuild',
-    rollupOptions: {
-      output: {
-        manualChunks: {
-          'react-vendor': ['react', 'react-dom'],
-          'ui-vendor': ['@radix-ui/react-dialog', '@radix-ui/react-tooltip'],
+    build: {
+      target: 'esnext',
+      minify: 'esbuild',
+      rollupOptions: {
+        output: {
+          manualChunks: {
+            'react-vendor': ['react', 'react-dom'],
+            'ui-vendor': ['@radix-ui/react-dialog', '@radix-ui/react-tooltip'],
+          },
         },
       },
     },
-  },
-  server: {
-    host: "localhost",
-    port: 3000,
-    strictPort: false,
-    open: true, // Automatically open browser
-    hmr: { overlay: false },
-    watch: {
-      usePolling: false,
+    server: {
+      host: "localhost",
+      port: 3000,
+      strictPort: false,
+      open: true, // Automatically open browser
+      hmr: { overlay: false },
+      // API server from `npm run server`
+      proxy: {
+        // xfwd passes the client's address on, so the API can rate-limit per client
+        "/api": { target: `http://localhost:${env.API_PORT || 8790}`, xfwd: true },
+      },
+      watch: {
+        usePolling: false,
+      },
     },
-  },
+  };
 });